@@ -16,6 +16,7 @@ const config = {
   pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL) || 5000,
   maxRetries: parseInt(process.env.OUTBOX_MAX_RETRIES) || 5,
   webhookUrl: process.env.DW_WEBHOOK_URL || 'http://localhost:3001/webhook/test',
+  notificationWebhookUrl: process.env.NOTIFICATION_WEBHOOK_URL || null,
   hmacSecret: process.env.HMAC_SECRET || 'test-hmac-secret',
   workerName: process.env.WORKER_NAME || `worker-${process.pid}`,
   timeout: parseInt(process.env.HTTP_TIMEOUT) || 10000,
@@ -57,17 +58,37 @@ function calculateRetryDelay(retryCount) {
   return new Date(Date.now() + delaySeconds * 1000);
 }
 
+/**
+ * Webhook URL per outbox target ('dw' | 'notification')
+ * Targets without a URL are left pending until one is configured
+ */
+function webhookUrlFor(target) {
+  switch (target || 'dw') {
+    case 'dw':
+      return config.webhookUrl;
+    case 'notification':
+      return config.notificationWebhookUrl;
+    default:
+      return null;
+  }
+}
+
+function deliverableTargets() {
+  return ['dw', 'notification'].filter(target => webhookUrlFor(target));
+}
+
 /**
  * Send webhook with HMAC signature
  */
 async function sendWebhook(event) {
   const startTime = performance.now();
+  const webhookUrl = webhookUrlFor(event.target);
   const timestamp = Math.floor(Date.now() / 1000);
   const body = JSON.stringify(event.payload);
   const signature = generateSignature(body, config.hmacSecret, timestamp);
 
   try {
-    const response = await fetch(config.webhookUrl, {
+    const response = await fetch(webhookUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -171,10 +192,11 @@ async function fetchPendingEvents(client) {
     WHERE
       status IN ('pending', 'failed')
       AND now() >= next_attempt_at
+      AND target = ANY($2)
     ORDER BY
       created_at ASC
     LIMIT $1
-  `, [config.batchSize]);
+  `, [config.batchSize, deliverableTargets()]);
 
   return result.rows;
 }
@@ -249,6 +271,7 @@ async function runWorker() {
   console.log(`   Poll interval: ${config.pollIntervalMs}ms`);
   console.log(`   Max retries: ${config.maxRetries}`);
   console.log(`   Webhook URL: ${config.webhookUrl}`);
+  console.log(`   Notification webhook URL: ${config.notificationWebhookUrl || 'NOT SET'}`);
   console.log(`   HMAC Secret: ${config.hmacSecret ? '***' : 'NOT SET'}`);
   console.log('');
 
@@ -0,0 +1,42 @@
+-- =========================================
+-- FCFS Booking System - Job Slot Generation
+-- Migration: 003_job_slot_generation.sql
+-- =========================================
+
+-- Working-day pattern per job post (ISO day of week: 1=Mon ... 7=Sun)
+-- Default skips Sundays
+ALTER TABLE job_posts
+  ADD COLUMN working_days smallint[] NOT NULL DEFAULT '{1,2,3,4,5,6}',
+  ADD COLUMN skip_holidays boolean NOT NULL DEFAULT true;
+
+-- Tenant holidays (no slots are generated on these dates)
+CREATE TABLE tenant_holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  holiday_date date NOT NULL,
+  name text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(tenant_id, holiday_date)
+);
+
+CREATE INDEX idx_tenant_holidays_tenant_date
+  ON tenant_holidays(tenant_id, holiday_date);
+
+-- =========================================
+-- RLS Policies (tenant-scoped)
+-- =========================================
+
+ALTER TABLE tenant_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_holiday_tenant_select" ON tenant_holidays
+  FOR SELECT
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "tenant_holiday_tenant_insert" ON tenant_holidays
+  FOR INSERT
+  WITH CHECK (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "tenant_holiday_tenant_delete" ON tenant_holidays
+  FOR DELETE
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
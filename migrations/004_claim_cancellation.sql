@@ -0,0 +1,27 @@
+-- =========================================
+-- FCFS Booking System - Claim Cancellation Lifecycle
+-- Migration: 004_claim_cancellation.sql
+-- =========================================
+
+-- Claims are kept as history when cancelled instead of blocking the slot
+ALTER TABLE claims
+  ADD COLUMN status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  ADD COLUMN cancelled_at timestamptz,
+  ADD COLUMN cancelled_by uuid REFERENCES users(id),
+  ADD COLUMN cancel_reason text;
+
+-- Backfill claims on slots that were already cancelled
+UPDATE claims c
+SET
+  status = 'cancelled',
+  cancelled_at = js.canceled_at,
+  cancel_reason = js.cancel_reason
+FROM job_slots js
+WHERE c.job_slot_id = js.id AND js.status = 'cancelled';
+
+-- Only one active claim per slot; cancelled claims no longer block a re-claim
+ALTER TABLE claims DROP CONSTRAINT claims_job_slot_id_key;
+
+CREATE UNIQUE INDEX idx_claims_active_slot
+  ON claims(job_slot_id)
+  WHERE status = 'active';
@@ -0,0 +1,20 @@
+-- =========================================
+-- FCFS Booking System - Qualification Management
+-- Migration: 005_qualification_management.sql
+-- =========================================
+
+-- GC-side verification of uploaded certificates
+ALTER TABLE qualifications
+  ADD COLUMN verification_status text NOT NULL DEFAULT 'pending'
+    CHECK (verification_status IN ('pending', 'verified', 'rejected')),
+  ADD COLUMN verified_by uuid REFERENCES users(id),
+  ADD COLUMN verified_at timestamptz,
+  ADD COLUMN rejection_reason text,
+  ADD COLUMN file_name text,
+  ADD COLUMN file_content_type text;
+
+CREATE INDEX idx_qualifications_company ON qualifications(tenant_id, company_id);
+
+-- Daily expiry alert scan
+CREATE INDEX idx_qualifications_valid_until ON qualifications(valid_until)
+  WHERE valid_until IS NOT NULL;
@@ -0,0 +1,15 @@
+-- =========================================
+-- FCFS Booking System - Temporary Slot Holds
+-- Migration: 006_slot_holds.sql
+-- =========================================
+
+-- Short soft reservation while a company fills in the booking form.
+-- The slot stays 'available'; a hold only blocks other companies until held_until.
+ALTER TABLE job_slots
+  ADD COLUMN held_by_company uuid REFERENCES companies(id),
+  ADD COLUMN held_by_user uuid REFERENCES users(id),
+  ADD COLUMN held_until timestamptz;
+
+-- Sweeper scan for expired holds
+CREATE INDEX idx_job_slots_held_until ON job_slots(held_until)
+  WHERE held_until IS NOT NULL;
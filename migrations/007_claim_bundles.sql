@@ -0,0 +1,34 @@
+-- =========================================
+-- FCFS Booking System - Bundle Claims
+-- Migration: 007_claim_bundles.sql
+-- =========================================
+
+-- A bundle groups claims taken together in one all-or-nothing request
+CREATE TABLE claim_bundles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES companies(id),
+  user_id uuid REFERENCES users(id),
+  request_id text UNIQUE NOT NULL, -- For idempotency
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE claims
+  ADD COLUMN bundle_id uuid REFERENCES claim_bundles(id);
+
+CREATE INDEX idx_claims_bundle ON claims(bundle_id)
+  WHERE bundle_id IS NOT NULL;
+
+-- =========================================
+-- RLS Policies (tenant-scoped)
+-- =========================================
+
+ALTER TABLE claim_bundles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "claim_bundle_tenant_select" ON claim_bundles
+  FOR SELECT
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "claim_bundle_tenant_insert" ON claim_bundles
+  FOR INSERT
+  WITH CHECK (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
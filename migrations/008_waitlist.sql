@@ -0,0 +1,63 @@
+-- =========================================
+-- FCFS Booking System - Waitlist
+-- Migration: 008_waitlist.sql
+-- =========================================
+
+-- How a re-released slot is passed to the first waitlisted company:
+-- 'offer' holds it for the company and notifies them, 'auto_claim' claims it on their behalf
+ALTER TABLE tenants
+  ADD COLUMN waitlist_promotion text NOT NULL DEFAULT 'offer'
+    CHECK (waitlist_promotion IN ('offer', 'auto_claim'));
+
+-- A company waiting for one slot (slot_id set) or any slot of a job post on a work date
+CREATE TABLE waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  job_post_id uuid NOT NULL REFERENCES job_posts(id) ON DELETE CASCADE,
+  work_date date NOT NULL,
+  slot_id uuid REFERENCES job_slots(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES companies(id),
+  user_id uuid REFERENCES users(id),
+  status text NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'declined', 'skipped', 'left')),
+  offered_slot_id uuid REFERENCES job_slots(id) ON DELETE SET NULL,
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  claim_id uuid REFERENCES claims(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One open entry per company and target
+CREATE UNIQUE INDEX idx_waitlist_open_entry ON waitlist_entries(
+  company_id,
+  job_post_id,
+  work_date,
+  COALESCE(slot_id, '00000000-0000-0000-0000-000000000000'::uuid)
+) WHERE status IN ('waiting', 'offered');
+
+-- Promotion order: first come, first served
+CREATE INDEX idx_waitlist_queue ON waitlist_entries(job_post_id, work_date, created_at, id)
+  WHERE status = 'waiting';
+
+-- Sweeper scan for lapsed offers
+CREATE INDEX idx_waitlist_offer_expiry ON waitlist_entries(offer_expires_at)
+  WHERE status = 'offered';
+
+-- =========================================
+-- RLS Policies (tenant-scoped)
+-- =========================================
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "waitlist_tenant_select" ON waitlist_entries
+  FOR SELECT
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "waitlist_tenant_insert" ON waitlist_entries
+  FOR INSERT
+  WITH CHECK (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "waitlist_tenant_update" ON waitlist_entries
+  FOR UPDATE
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
@@ -0,0 +1,55 @@
+-- =========================================
+-- FCFS Booking System - Lottery Allocation
+-- Migration: 009_lottery_allocation.sql
+-- =========================================
+
+-- 'fcfs': slots go to whoever claims first (default)
+-- 'lottery': companies apply until lottery_closes_at, then a seeded draw assigns the slots;
+-- slots left over after the draw become first-come-first-served
+ALTER TABLE job_posts
+  ADD COLUMN allocation_mode text NOT NULL DEFAULT 'fcfs'
+    CHECK (allocation_mode IN ('fcfs', 'lottery')),
+  ADD COLUMN lottery_closes_at timestamptz,
+  ADD COLUMN lottery_seed text, -- Set at publish, disclosed after the draw so results can be reproduced
+  ADD COLUMN lottery_drawn_at timestamptz;
+
+-- Cron scan for lotteries due to be drawn
+CREATE INDEX idx_job_posts_lottery_due ON job_posts(lottery_closes_at)
+  WHERE allocation_mode = 'lottery' AND lottery_drawn_at IS NULL;
+
+-- One application per company and lottery post
+CREATE TABLE lottery_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  job_post_id uuid NOT NULL REFERENCES job_posts(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES companies(id),
+  user_id uuid REFERENCES users(id),
+  work_dates date[], -- NULL: every work date of the post
+  crew_count integer NOT NULL DEFAULT 1 CHECK (crew_count >= 1), -- Slots wanted per work date
+  status text NOT NULL DEFAULT 'applied'
+    CHECK (status IN ('applied', 'won', 'lost')),
+  won_slot_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (job_post_id, company_id)
+);
+
+CREATE INDEX idx_lottery_entries_post ON lottery_entries(job_post_id, status);
+
+-- =========================================
+-- RLS Policies (tenant-scoped)
+-- =========================================
+
+ALTER TABLE lottery_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "lottery_entry_tenant_select" ON lottery_entries
+  FOR SELECT
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "lottery_entry_tenant_insert" ON lottery_entries
+  FOR INSERT
+  WITH CHECK (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "lottery_entry_tenant_update" ON lottery_entries
+  FOR UPDATE
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
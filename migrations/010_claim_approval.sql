@@ -0,0 +1,34 @@
+-- =========================================
+-- FCFS Booking System - GC Claim Approval
+-- Migration: 010_claim_approval.sql
+-- =========================================
+
+-- Posts with approval_required keep new claims pending until a GC admin approves them.
+-- Pending claims expire approval_window_hours after the claim and release the slot.
+ALTER TABLE job_posts
+  ADD COLUMN approval_required boolean NOT NULL DEFAULT false,
+  ADD COLUMN approval_window_hours integer NOT NULL DEFAULT 24
+    CHECK (approval_window_hours BETWEEN 1 AND 168);
+
+-- 'pending_approval': slot is locked for the company, claim.confirmed is not sent yet
+-- 'rejected' / 'expired': the GC turned the claim down or did not decide in time
+ALTER TABLE claims DROP CONSTRAINT claims_status_check;
+
+ALTER TABLE claims
+  ADD CONSTRAINT claims_status_check
+    CHECK (status IN ('pending_approval', 'active', 'cancelled', 'rejected', 'expired')),
+  ADD COLUMN approval_expires_at timestamptz,
+  ADD COLUMN decided_at timestamptz,
+  ADD COLUMN decided_by uuid REFERENCES users(id),
+  ADD COLUMN rejection_reason text;
+
+-- A pending claim blocks the slot just like an active one
+DROP INDEX idx_claims_active_slot;
+
+CREATE UNIQUE INDEX idx_claims_active_slot
+  ON claims(job_slot_id)
+  WHERE status IN ('pending_approval', 'active');
+
+-- Sweeper scan for pending claims past their deadline
+CREATE INDEX idx_claims_approval_expires_at ON claims(approval_expires_at)
+  WHERE status = 'pending_approval';
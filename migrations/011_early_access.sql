@@ -0,0 +1,44 @@
+-- =========================================
+-- FCFS Booking System - Early Access Window
+-- Migration: 011_early_access.sql
+-- =========================================
+
+-- For early_access_minutes after published_at only preferred companies (or companies rated at
+-- least early_access_min_rating) may claim; everyone else can claim once the window ends
+ALTER TABLE job_posts
+  ADD COLUMN early_access_minutes integer
+    CHECK (early_access_minutes BETWEEN 1 AND 10080),
+  ADD COLUMN early_access_min_rating numeric(3,2)
+    CHECK (early_access_min_rating BETWEEN 0 AND 5);
+
+-- Subcontractors the GC lets in during early-access windows
+CREATE TABLE preferred_companies (
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  note text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (tenant_id, company_id)
+);
+
+-- =========================================
+-- RLS Policies (tenant-scoped)
+-- =========================================
+
+ALTER TABLE preferred_companies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "preferred_company_tenant_select" ON preferred_companies
+  FOR SELECT
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "preferred_company_tenant_insert" ON preferred_companies
+  FOR INSERT
+  WITH CHECK (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "preferred_company_tenant_update" ON preferred_companies
+  FOR UPDATE
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "preferred_company_tenant_delete" ON preferred_companies
+  FOR DELETE
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
@@ -0,0 +1,20 @@
+-- =========================================
+-- FCFS Booking System - Fairness Claim Limits
+-- Migration: 012_claim_limits.sql
+-- =========================================
+
+-- Caps on how many slots one company may hold (active or pending approval claims); NULL = no cap.
+-- Tenant caps: per post (default for posts without their own), per work date and per ISO week
+-- across all posts. Job post caps: within the post, in total, per work date and per ISO week.
+ALTER TABLE tenants
+  ADD COLUMN max_claims_per_post integer CHECK (max_claims_per_post >= 1),
+  ADD COLUMN max_claims_per_day integer CHECK (max_claims_per_day >= 1),
+  ADD COLUMN max_claims_per_week integer CHECK (max_claims_per_week >= 1);
+
+ALTER TABLE job_posts
+  ADD COLUMN max_claims_per_post integer CHECK (max_claims_per_post >= 1),
+  ADD COLUMN max_claims_per_day integer CHECK (max_claims_per_day >= 1),
+  ADD COLUMN max_claims_per_week integer CHECK (max_claims_per_week >= 1);
+
+-- Counting a company's claims on every capped claim
+CREATE INDEX idx_claims_company_status ON claims(tenant_id, company_id, status);
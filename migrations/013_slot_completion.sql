@@ -0,0 +1,21 @@
+-- =========================================
+-- FCFS Booking System - Slot Completion
+-- Migration: 013_slot_completion.sql
+-- =========================================
+
+-- A GC marks claimed slots completed once the work is done (optionally with actual hours)
+ALTER TABLE job_slots
+  ADD COLUMN completed_at timestamptz,
+  ADD COLUMN completed_by uuid REFERENCES users(id),
+  ADD COLUMN actual_hours numeric(4,2) CHECK (actual_hours BETWEEN 0 AND 24),
+  ADD COLUMN completion_notes text,
+  -- Set by the daily sweep when the work date passed while the slot was still claimed
+  ADD COLUMN review_flagged_at timestamptz;
+
+-- Daily sweep: claimed slots past their work date
+CREATE INDEX idx_job_slots_claimed_work_date ON job_slots(work_date)
+  WHERE status = 'claimed';
+
+-- Review queue per tenant
+CREATE INDEX idx_job_slots_review_flagged ON job_slots(tenant_id, work_date)
+  WHERE status = 'claimed' AND review_flagged_at IS NOT NULL;
@@ -0,0 +1,55 @@
+-- =========================================
+-- FCFS Booking System - No-shows and Reliability
+-- Migration: 014_reliability.sql
+-- =========================================
+
+-- 'no_show': the GC reported that the company did not turn up on the work date
+ALTER TABLE claims DROP CONSTRAINT claims_status_check;
+
+ALTER TABLE claims
+  ADD CONSTRAINT claims_status_check
+    CHECK (status IN ('pending_approval', 'active', 'cancelled', 'rejected', 'expired', 'no_show')),
+  -- Cancelled by the claiming company shortly before the work date
+  ADD COLUMN cancelled_late boolean NOT NULL DEFAULT false,
+  ADD COLUMN no_show_reported_at timestamptz,
+  ADD COLUMN no_show_reported_by uuid REFERENCES users(id),
+  ADD COLUMN no_show_note text;
+
+-- Per-company history the reliability score is computed from
+CREATE TABLE company_reliability_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  claim_id uuid REFERENCES claims(id) ON DELETE SET NULL,
+  job_slot_id uuid REFERENCES job_slots(id) ON DELETE SET NULL,
+  event_type text NOT NULL
+    CHECK (event_type IN ('claim', 'completion', 'late_cancellation', 'no_show')),
+  occurred_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reliability_events_company
+  ON company_reliability_events(tenant_id, company_id, occurred_at);
+
+-- Tenant policy: companies scoring below reliability_block_below cannot claim at all;
+-- below reliability_delay_below they can only claim reliability_delay_minutes after publishing
+ALTER TABLE tenants
+  ADD COLUMN reliability_block_below integer
+    CHECK (reliability_block_below BETWEEN 0 AND 100),
+  ADD COLUMN reliability_delay_below integer
+    CHECK (reliability_delay_below BETWEEN 0 AND 100),
+  ADD COLUMN reliability_delay_minutes integer
+    CHECK (reliability_delay_minutes BETWEEN 1 AND 10080);
+
+-- =========================================
+-- RLS Policies (tenant-scoped)
+-- =========================================
+
+ALTER TABLE company_reliability_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "reliability_event_tenant_select" ON company_reliability_events
+  FOR SELECT
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "reliability_event_tenant_insert" ON company_reliability_events
+  FOR INSERT
+  WITH CHECK (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
@@ -0,0 +1,71 @@
+-- =========================================
+-- FCFS Booking System - Cancellation Policies
+-- Migration: 015_cancellation_policies.sql
+-- =========================================
+
+-- Tiered rules for subcontractor cancellations, e.g.
+--   {"rules": [{"within_hours": 72, "action": "approval"},
+--              {"within_hours": 24, "action": "deny", "except_reasons": ["weather"], "fee": 10000}]}
+-- A job post policy replaces the tenant policy; NULL on both means cancellations are free
+ALTER TABLE tenants
+  ADD COLUMN cancellation_policy jsonb;
+
+ALTER TABLE job_posts
+  ADD COLUMN cancellation_policy jsonb;
+
+-- Subcontractor cancellation awaiting GC approval under an 'approval' rule
+ALTER TABLE claims
+  ADD COLUMN cancel_requested_at timestamptz,
+  ADD COLUMN cancel_requested_by uuid REFERENCES users(id),
+  ADD COLUMN cancel_request_reason text
+    CHECK (cancel_request_reason IN ('no_show', 'weather', 'client_change', 'material_delay', 'other')),
+  ADD COLUMN cancel_request_mode text
+    CHECK (cancel_request_mode IN ('release', 'withdraw')),
+  ADD COLUMN cancel_request_rule jsonb;
+
+CREATE INDEX idx_claims_cancel_requested
+  ON claims(tenant_id, cancel_requested_at)
+  WHERE cancel_requested_at IS NOT NULL;
+
+-- Penalty points and fees charged for late cancellations, invoiced later
+CREATE TABLE cancellation_penalties (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  claim_id uuid REFERENCES claims(id) ON DELETE SET NULL,
+  job_slot_id uuid REFERENCES job_slots(id) ON DELETE SET NULL,
+  work_date date NOT NULL,
+  reason text NOT NULL,
+  hours_before_work numeric(8,2) NOT NULL,
+  rule jsonb NOT NULL, -- The rule that applied, as it was at cancellation time
+  penalty_points integer NOT NULL DEFAULT 0 CHECK (penalty_points >= 0),
+  fee_amount integer NOT NULL DEFAULT 0 CHECK (fee_amount >= 0),
+  currency text NOT NULL DEFAULT 'JPY',
+  invoiced_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_cancellation_penalties_company
+  ON cancellation_penalties(tenant_id, company_id, created_at);
+
+CREATE INDEX idx_cancellation_penalties_uninvoiced
+  ON cancellation_penalties(tenant_id)
+  WHERE invoiced_at IS NULL;
+
+-- =========================================
+-- RLS Policies (tenant-scoped)
+-- =========================================
+
+ALTER TABLE cancellation_penalties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "cancellation_penalty_tenant_select" ON cancellation_penalties
+  FOR SELECT
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "cancellation_penalty_tenant_insert" ON cancellation_penalties
+  FOR INSERT
+  WITH CHECK (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "cancellation_penalty_tenant_update" ON cancellation_penalties
+  FOR UPDATE
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
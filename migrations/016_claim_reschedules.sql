@@ -0,0 +1,37 @@
+-- =========================================
+-- FCFS Booking System - Claim Reschedules
+-- Migration: 016_claim_reschedules.sql
+-- =========================================
+
+-- History of claims moved to another slot of the same job post (e.g. postponed for weather)
+-- The claim keeps its ID; job_slot_id on claims always points at the current slot
+CREATE TABLE claim_reschedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  claim_id uuid NOT NULL REFERENCES claims(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  from_slot_id uuid REFERENCES job_slots(id) ON DELETE SET NULL,
+  to_slot_id uuid REFERENCES job_slots(id) ON DELETE SET NULL,
+  from_work_date date NOT NULL,
+  to_work_date date NOT NULL,
+  reason text NOT NULL,
+  rescheduled_by uuid REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_claim_reschedules_claim
+  ON claim_reschedules(tenant_id, claim_id, created_at);
+
+-- =========================================
+-- RLS Policies (tenant-scoped)
+-- =========================================
+
+ALTER TABLE claim_reschedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "claim_reschedule_tenant_select" ON claim_reschedules
+  FOR SELECT
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "claim_reschedule_tenant_insert" ON claim_reschedules
+  FOR INSERT
+  WITH CHECK (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
@@ -0,0 +1,54 @@
+-- =========================================
+-- FCFS Booking System - Claim Reschedule Requests
+-- Migration: 017_claim_reschedule_requests.sql
+-- =========================================
+
+-- A GC or the claiming company proposes moving a claim to another work date of the same job post;
+-- the other party accepts (the claim moves, see claim_reschedules) or declines.
+-- closed: the claim was cancelled or moved some other way before anyone decided
+CREATE TABLE claim_reschedule_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  claim_id uuid NOT NULL REFERENCES claims(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  job_post_id uuid NOT NULL REFERENCES job_posts(id) ON DELETE CASCADE,
+  from_slot_id uuid REFERENCES job_slots(id) ON DELETE SET NULL,
+  from_work_date date NOT NULL,
+  to_work_date date NOT NULL,
+  proposed_by uuid REFERENCES users(id),
+  proposed_by_party text NOT NULL CHECK (proposed_by_party IN ('gc', 'company')),
+  note text,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'closed')),
+  decided_by uuid REFERENCES users(id),
+  decided_at timestamptz,
+  decline_note text,
+  reschedule_id uuid REFERENCES claim_reschedules(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One open proposal per claim
+CREATE UNIQUE INDEX idx_claim_reschedule_requests_pending
+  ON claim_reschedule_requests(claim_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_claim_reschedule_requests_tenant
+  ON claim_reschedule_requests(tenant_id, status, created_at);
+
+-- =========================================
+-- RLS Policies (tenant-scoped)
+-- =========================================
+
+ALTER TABLE claim_reschedule_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "claim_reschedule_request_tenant_select" ON claim_reschedule_requests
+  FOR SELECT
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "claim_reschedule_request_tenant_insert" ON claim_reschedule_requests
+  FOR INSERT
+  WITH CHECK (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
+
+CREATE POLICY "claim_reschedule_request_tenant_update" ON claim_reschedule_requests
+  FOR UPDATE
+  USING (tenant_id = (auth.jwt() ->> 'tenant_id')::uuid);
@@ -0,0 +1,113 @@
+-- =========================================
+-- FCFS Booking System - Slot Time Windows
+-- Migration: 018_slot_time_windows.sql
+-- =========================================
+
+-- Slot times are local to the tenant
+ALTER TABLE tenants
+  ADD COLUMN timezone text NOT NULL DEFAULT 'Asia/Tokyo';
+
+-- Shifts generated on every work date, e.g. [{"code":"am","name":"午前","start_time":"08:00","end_time":"12:00"}]
+-- Empty: one whole-day shift, as before
+ALTER TABLE job_posts
+  ADD COLUMN shift_templates jsonb NOT NULL DEFAULT '[]';
+
+-- start_time / end_time are NULL for whole-day slots; a shift ending at or before its start runs overnight
+-- starts_at / ends_at are maintained by the trigger below from the tenant timezone
+ALTER TABLE job_slots
+  ADD COLUMN shift_code text,
+  ADD COLUMN start_time time,
+  ADD COLUMN end_time time,
+  ADD COLUMN starts_at timestamptz,
+  ADD COLUMN ends_at timestamptz,
+  ADD CONSTRAINT job_slots_shift_times CHECK ((start_time IS NULL) = (end_time IS NULL));
+
+-- Crew (team) of the company sent on the claim; one crew cannot work overlapping shifts
+ALTER TABLE claims
+  ADD COLUMN crew text;
+
+-- =========================================
+-- Slot windows
+-- =========================================
+
+-- Start of a slot: start_time on the work date, or midnight for whole-day slots
+CREATE OR REPLACE FUNCTION slot_starts_at(p_work_date date, p_start_time time, p_timezone text)
+RETURNS timestamptz AS $$
+  SELECT (p_work_date + COALESCE(p_start_time, time '00:00')) AT TIME ZONE p_timezone;
+$$ LANGUAGE sql STABLE;
+
+-- End of a slot: end_time, on the next day for overnight shifts; midnight after the work date for whole-day slots
+CREATE OR REPLACE FUNCTION slot_ends_at(p_work_date date, p_start_time time, p_end_time time, p_timezone text)
+RETURNS timestamptz AS $$
+  SELECT (
+    p_work_date
+    + COALESCE(p_end_time, time '00:00')
+    + CASE
+        WHEN p_end_time IS NULL OR p_end_time <= p_start_time THEN interval '1 day'
+        ELSE interval '0'
+      END
+  ) AT TIME ZONE p_timezone;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION set_job_slot_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  tz text;
+BEGIN
+  SELECT timezone INTO tz FROM tenants WHERE id = NEW.tenant_id;
+  tz := COALESCE(tz, 'Asia/Tokyo');
+
+  NEW.starts_at := slot_starts_at(NEW.work_date, NEW.start_time, tz);
+  NEW.ends_at := slot_ends_at(NEW.work_date, NEW.start_time, NEW.end_time, tz);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_job_slots_window BEFORE INSERT OR UPDATE OF work_date, start_time, end_time ON job_slots
+  FOR EACH ROW EXECUTE FUNCTION set_job_slot_window();
+
+-- Re-derive every slot window when a tenant moves to another timezone
+CREATE OR REPLACE FUNCTION refresh_tenant_slot_windows()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE job_slots
+  SET
+    starts_at = slot_starts_at(work_date, start_time, NEW.timezone),
+    ends_at = slot_ends_at(work_date, start_time, end_time, NEW.timezone)
+  WHERE tenant_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_tenants_slot_windows AFTER UPDATE OF timezone ON tenants
+  FOR EACH ROW WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION refresh_tenant_slot_windows();
+
+-- Backfill existing slots as whole-day slots
+UPDATE job_slots js
+SET
+  starts_at = slot_starts_at(js.work_date, NULL, t.timezone),
+  ends_at = slot_ends_at(js.work_date, NULL, NULL, t.timezone)
+FROM tenants t
+WHERE t.id = js.tenant_id;
+
+ALTER TABLE job_slots
+  ALTER COLUMN starts_at SET NOT NULL,
+  ALTER COLUMN ends_at SET NOT NULL;
+
+-- =========================================
+-- Indexes
+-- =========================================
+
+-- Slot numbers restart in every shift of a work date
+ALTER TABLE job_slots DROP CONSTRAINT job_slots_job_post_id_work_date_slot_no_key;
+
+CREATE UNIQUE INDEX idx_job_slots_post_date_shift_slot
+  ON job_slots(job_post_id, work_date, COALESCE(shift_code, ''), slot_no);
+
+CREATE INDEX idx_job_slots_window
+  ON job_slots(tenant_id, starts_at, ends_at);
+
+CREATE INDEX idx_claims_company_crew
+  ON claims(tenant_id, company_id, crew)
+  WHERE crew IS NOT NULL AND status IN ('pending_approval', 'active');
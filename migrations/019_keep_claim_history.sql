@@ -0,0 +1,11 @@
+-- =========================================
+-- FCFS Booking System - Keep Claim History
+-- Migration: 019_keep_claim_history.sql
+-- =========================================
+
+-- Released slots go back to 'available' with their cancelled claims kept as history;
+-- a slot with claims must never be deleted (slot sync withdraws it instead)
+ALTER TABLE claims
+  DROP CONSTRAINT claims_job_slot_id_fkey,
+  ADD CONSTRAINT claims_job_slot_id_fkey
+    FOREIGN KEY (job_slot_id) REFERENCES job_slots(id) ON DELETE RESTRICT;
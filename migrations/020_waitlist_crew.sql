@@ -0,0 +1,8 @@
+-- =========================================
+-- FCFS Booking System - Waitlist Crew
+-- Migration: 020_waitlist_crew.sql
+-- =========================================
+
+-- Crew the company sends if the slot is auto-claimed for it; checked for overlapping shifts on promotion
+ALTER TABLE waitlist_entries
+  ADD COLUMN crew text;
@@ -0,0 +1,14 @@
+-- =========================================
+-- FCFS Booking System - Slot Hold Limits
+-- Migration: 021_slot_hold_limits.sql
+-- =========================================
+
+-- The company that last held a slot may not hold it again until hold_cooldown_until,
+-- so one company cannot keep a slot away from others by re-holding it as each hold lapses
+ALTER TABLE job_slots
+  ADD COLUMN last_held_by_company uuid REFERENCES companies(id),
+  ADD COLUMN hold_cooldown_until timestamptz;
+
+-- Live holds per company (capped on POST /api/slots/{id}/hold)
+CREATE INDEX idx_job_slots_held_by_company ON job_slots(held_by_company, held_until)
+  WHERE held_by_company IS NOT NULL;
@@ -0,0 +1,14 @@
+-- =========================================
+-- FCFS Booking System - Waitlist Re-check
+-- Migration: 022_waitlist_recheck.sql
+-- =========================================
+
+-- Entries passed over for a temporary reason stay 'waiting'; the sweeper leaves them alone
+-- until last_checked_at is old enough, instead of re-checking them every minute
+ALTER TABLE waitlist_entries
+  ADD COLUMN last_checked_at timestamptz,
+  ADD COLUMN last_pass_reason text;
+
+-- Sweeper scan for waiting entries due for a check
+CREATE INDEX idx_waitlist_waiting_checked ON waitlist_entries(last_checked_at)
+  WHERE status = 'waiting';
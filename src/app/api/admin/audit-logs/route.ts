@@ -1,12 +1,11 @@
 import { NextRequest } from 'next/server';
 import { PoolClient } from 'pg';
-import { requireAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/permissions';
 import { withTransaction } from '@/lib/database';
 import {
   jsonSuccess,
   jsonError,
   validationError,
-  forbiddenError,
   handleApiError
 } from '@/lib/responses';
 
@@ -31,11 +30,7 @@ interface AuditLogsResponse {
 export async function GET(request: NextRequest) {
   try {
     // Authentication and authorization
-    const { tenantId, userId } = requireAuth(request);
-
-    if (!userId) {
-      return forbiddenError('Admin access required');
-    }
+    const { tenantId, userId } = await requirePermission(request, 'audit_logs:read');
 
     // Parse query parameters
     const url = new URL(request.url);
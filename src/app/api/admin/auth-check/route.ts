@@ -1,9 +1,8 @@
 import { NextRequest } from 'next/server';
-import { requireAuth } from '@/lib/auth';
+import { requirePermission, hasPermission } from '@/lib/permissions';
 import {
   jsonSuccess,
   jsonError,
-  forbiddenError,
   handleApiError
 } from '@/lib/responses';
 
@@ -23,28 +22,20 @@ interface AuthCheckResponse {
 
 export async function GET(request: NextRequest) {
   try {
-    // Authentication required
-    const { tenantId, userId } = requireAuth(request);
-
-    // For MVP, we'll consider any authenticated user as ops_admin
-    // In production, check the actual role from JWT or database
-    const isOpsAdmin = true; // TODO: Implement proper role checking
-
-    if (!isOpsAdmin) {
-      return forbiddenError('Admin access required');
-    }
+    // Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'admin:access');
 
     const response: AuthCheckResponse = {
       user: {
         user_id: userId,
         tenant_id: tenantId,
-        role: 'ops_admin'
+        role
       },
       permissions: {
         can_access_admin: true,
-        can_manage_tenants: true,
-        can_view_outbox: true,
-        can_requeue_events: true
+        can_manage_tenants: hasPermission(role, 'tenants:manage'),
+        can_view_outbox: hasPermission(role, 'outbox:read'),
+        can_requeue_events: hasPermission(role, 'outbox:requeue')
       }
     };
 
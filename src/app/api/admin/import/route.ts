@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PoolClient } from 'pg';
-import { requireAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/permissions';
 import { withTransaction, setTenantContext, generateUuid } from '@/lib/database';
 import {
   jsonSuccess,
   jsonError,
   validationError,
-  forbiddenError,
   handleApiError
 } from '@/lib/responses';
 
@@ -278,11 +277,7 @@ async function importProjects(client: PoolClient, tenantId: string, data: any[])
 export async function POST(request: NextRequest) {
   try {
     // Authentication and authorization
-    const { tenantId, userId } = requireAuth(request);
-
-    if (!userId) {
-      return forbiddenError('Admin access required');
-    }
+    const { tenantId, userId, role } = await requirePermission(request, 'import:run');
 
     // Parse request body
     const body: CsvImportRequest = await request.json();
@@ -352,7 +347,7 @@ export async function POST(request: NextRequest) {
       `, [
         tenantId,
         userId,
-        'ops_admin',
+        role,
         'csv_import',
         body.type,
         importId,
@@ -1,13 +1,12 @@
 import { NextRequest } from 'next/server';
 import { PoolClient } from 'pg';
-import { requireAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/permissions';
 import { withTransaction } from '@/lib/database';
 import {
   jsonSuccess,
   jsonError,
   notFoundError,
   conflictError,
-  forbiddenError,
   handleApiError
 } from '@/lib/responses';
 
@@ -28,11 +27,7 @@ export async function POST(
 ) {
   try {
     // Authentication and authorization
-    const { tenantId, userId } = requireAuth(request);
-
-    if (!userId) {
-      return forbiddenError('Admin access required');
-    }
+    const { tenantId, userId, role } = await requirePermission(request, 'outbox:requeue');
 
     const resolvedParams = await params;
     const eventId = parseInt(resolvedParams.id);
@@ -104,7 +99,7 @@ export async function POST(
       `, [
         tenantId,
         userId,
-        'ops_admin',
+        role,
         'outbox_requeue',
         'integration_outbox',
         eventId.toString(),
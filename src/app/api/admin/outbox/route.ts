@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PoolClient } from 'pg';
-import { requireAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/permissions';
 import { withTransaction, setTenantContext } from '@/lib/database';
 import {
   jsonSuccess,
   jsonError,
   validationError,
-  forbiddenError,
   handleApiError
 } from '@/lib/responses';
 
@@ -31,14 +30,8 @@ interface OutboxListResponse {
 
 export async function GET(request: NextRequest) {
   try {
-    // Authentication required
-    const { tenantId, userId } = requireAuth(request);
-
-    // TODO: In production, check for ops_admin role
-    // For now, we'll allow any authenticated user within RLS constraints
-    if (!userId) {
-      return forbiddenError('Admin access required');
-    }
+    // Authentication and authorization
+    const { tenantId, userId } = await requirePermission(request, 'outbox:read');
 
     // Parse query parameters
     const url = new URL(request.url);
@@ -1,26 +1,58 @@
 import { NextRequest } from 'next/server';
 import { PoolClient } from 'pg';
-import { requireAuth } from '@/lib/auth';
+import { CancellationPolicy } from '@/types/api';
+import { requirePermission } from '@/lib/permissions';
 import { withTransaction } from '@/lib/database';
+import { cancellationPolicySchema, validateRequestBody } from '@/lib/validation';
+import { isValidTimeZone } from '@/lib/shifts';
 import {
   jsonSuccess,
   jsonError,
   validationError,
   notFoundError,
-  forbiddenError,
   handleApiError
 } from '@/lib/responses';
 
 interface TenantUpdateRequest {
   integration_mode?: 'standalone' | 'dandori';
+  waitlist_promotion?: 'offer' | 'auto_claim';
+  max_claims_per_post?: number | null;
+  max_claims_per_day?: number | null;
+  max_claims_per_week?: number | null;
+  reliability_block_below?: number | null;
+  reliability_delay_below?: number | null;
+  reliability_delay_minutes?: number | null;
+  cancellation_policy?: CancellationPolicy | null;
+  timezone?: string;
   is_active?: boolean;
 }
 
+// Fairness caps per company (NULL removes the cap); job posts can set their own
+const CLAIM_LIMIT_FIELDS = ['max_claims_per_post', 'max_claims_per_day', 'max_claims_per_week'] as const;
+
+// Reliability policy: block or hold back companies scoring below a threshold (NULL disables)
+const RELIABILITY_FIELDS = {
+  reliability_block_below: { min: 0, max: 100 },
+  reliability_delay_below: { min: 0, max: 100 },
+  reliability_delay_minutes: { min: 1, max: 10080 }
+} as const;
+
+const RELIABILITY_FIELD_NAMES = Object.keys(RELIABILITY_FIELDS) as Array<keyof typeof RELIABILITY_FIELDS>;
+
 interface TenantUpdateResponse {
   tenant: {
     id: string;
     name: string;
     integration_mode: 'standalone' | 'dandori';
+    waitlist_promotion: 'offer' | 'auto_claim';
+    max_claims_per_post: number | null;
+    max_claims_per_day: number | null;
+    max_claims_per_week: number | null;
+    reliability_block_below: number | null;
+    reliability_delay_below: number | null;
+    reliability_delay_minutes: number | null;
+    cancellation_policy: CancellationPolicy | null;
+    timezone: string;
     is_active: boolean;
     updated_at: string;
   };
@@ -32,11 +64,7 @@ export async function GET(
 ) {
   try {
     // Authentication and authorization
-    const { tenantId, userId } = requireAuth(request);
-
-    if (!userId) {
-      return forbiddenError('Admin access required');
-    }
+    const { tenantId, userId } = await requirePermission(request, 'tenants:read');
 
     const resolvedParams = await params;
     const targetTenantId = resolvedParams.id;
@@ -48,6 +76,15 @@ export async function GET(
           id,
           name,
           integration_mode,
+          waitlist_promotion,
+          max_claims_per_post,
+          max_claims_per_day,
+          max_claims_per_week,
+          reliability_block_below,
+          reliability_delay_below,
+          reliability_delay_minutes,
+          cancellation_policy,
+          timezone,
           is_active,
           created_at,
           updated_at
@@ -81,11 +118,7 @@ export async function PUT(
 ) {
   try {
     // Authentication and authorization
-    const { tenantId, userId } = requireAuth(request);
-
-    if (!userId) {
-      return forbiddenError('Admin access required');
-    }
+    const { tenantId, userId, role } = await requirePermission(request, 'tenants:manage');
 
     const resolvedParams = await params;
     const targetTenantId = resolvedParams.id;
@@ -98,19 +131,77 @@ export async function PUT(
       return validationError('integration_mode must be either "standalone" or "dandori"');
     }
 
+    if (body.waitlist_promotion && !['offer', 'auto_claim'].includes(body.waitlist_promotion)) {
+      return validationError('waitlist_promotion must be either "offer" or "auto_claim"');
+    }
+
     if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
       return validationError('is_active must be a boolean');
     }
 
+    for (const field of CLAIM_LIMIT_FIELDS) {
+      const value = body[field];
+
+      if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 1)) {
+        return validationError(`${field} must be a positive integer or null`);
+      }
+    }
+
+    for (const field of RELIABILITY_FIELD_NAMES) {
+      const value = body[field];
+      const { min, max } = RELIABILITY_FIELDS[field];
+
+      if (value !== undefined && value !== null && (!Number.isInteger(value) || value < min || value > max)) {
+        return validationError(`${field} must be an integer between ${min} and ${max}, or null`);
+      }
+    }
+
+    // Slot start/end times are re-derived in the new timezone (see migration 018)
+    if (body.timezone !== undefined && (typeof body.timezone !== 'string' || !isValidTimeZone(body.timezone))) {
+      return validationError('timezone must be an IANA timezone name such as "Asia/Tokyo"');
+    }
+
+    if (body.cancellation_policy !== undefined && body.cancellation_policy !== null) {
+      const policy = validateRequestBody(cancellationPolicySchema, body.cancellation_policy);
+
+      if (!policy.success) {
+        return validationError(`cancellation_policy: ${policy.error}`);
+      }
+    }
+
+    const hasClaimLimits = CLAIM_LIMIT_FIELDS.some((field) => body[field] !== undefined);
+    const hasReliabilityPolicy = RELIABILITY_FIELD_NAMES.some((field) => body[field] !== undefined);
+
     // Check if there's anything to update
-    if (!body.integration_mode && body.is_active === undefined) {
+    if (
+      !body.integration_mode
+      && !body.waitlist_promotion
+      && body.is_active === undefined
+      && !hasClaimLimits
+      && !hasReliabilityPolicy
+      && body.cancellation_policy === undefined
+      && body.timezone === undefined
+    ) {
       return validationError('No fields to update provided');
     }
 
     const result = await withTransaction(async (client: PoolClient) => {
       // Check if tenant exists
       const tenantCheck = await client.query(`
-        SELECT id, name, integration_mode, is_active
+        SELECT
+          id,
+          name,
+          integration_mode,
+          waitlist_promotion,
+          max_claims_per_post,
+          max_claims_per_day,
+          max_claims_per_week,
+          reliability_block_below,
+          reliability_delay_below,
+          reliability_delay_minutes,
+          cancellation_policy,
+          timezone,
+          is_active
         FROM tenants
         WHERE id = $1
       `, [targetTenantId]);
@@ -132,12 +223,38 @@ export async function PUT(
         paramIndex++;
       }
 
+      if (body.waitlist_promotion) {
+        updateFields.push(`waitlist_promotion = $${paramIndex}`);
+        updateValues.push(body.waitlist_promotion);
+        paramIndex++;
+      }
+
       if (body.is_active !== undefined) {
         updateFields.push(`is_active = $${paramIndex}`);
         updateValues.push(body.is_active);
         paramIndex++;
       }
 
+      for (const field of [...CLAIM_LIMIT_FIELDS, ...RELIABILITY_FIELD_NAMES]) {
+        if (body[field] !== undefined) {
+          updateFields.push(`${field} = $${paramIndex}`);
+          updateValues.push(body[field]);
+          paramIndex++;
+        }
+      }
+
+      if (body.cancellation_policy !== undefined) {
+        updateFields.push(`cancellation_policy = $${paramIndex}`);
+        updateValues.push(body.cancellation_policy ? JSON.stringify(body.cancellation_policy) : null);
+        paramIndex++;
+      }
+
+      if (body.timezone !== undefined) {
+        updateFields.push(`timezone = $${paramIndex}`);
+        updateValues.push(body.timezone);
+        paramIndex++;
+      }
+
       updateFields.push(`updated_at = now()`);
       updateValues.push(targetTenantId);
 
@@ -145,7 +262,21 @@ export async function PUT(
         UPDATE tenants
         SET ${updateFields.join(', ')}
         WHERE id = $${paramIndex}
-        RETURNING id, name, integration_mode, is_active, updated_at
+        RETURNING
+          id,
+          name,
+          integration_mode,
+          waitlist_promotion,
+          max_claims_per_post,
+          max_claims_per_day,
+          max_claims_per_week,
+          reliability_block_below,
+          reliability_delay_below,
+          reliability_delay_minutes,
+          cancellation_policy,
+          timezone,
+          is_active,
+          updated_at
       `;
 
       const updateResult = await client.query(updateQuery, updateValues);
@@ -166,18 +297,36 @@ export async function PUT(
       `, [
         targetTenantId,
         userId,
-        'ops_admin',
+        role,
         'tenant_update',
         'tenants',
         targetTenantId,
         JSON.stringify({
           previous: {
             integration_mode: currentTenant.integration_mode,
+            waitlist_promotion: currentTenant.waitlist_promotion,
+            max_claims_per_post: currentTenant.max_claims_per_post,
+            max_claims_per_day: currentTenant.max_claims_per_day,
+            max_claims_per_week: currentTenant.max_claims_per_week,
+            reliability_block_below: currentTenant.reliability_block_below,
+            reliability_delay_below: currentTenant.reliability_delay_below,
+            reliability_delay_minutes: currentTenant.reliability_delay_minutes,
+            cancellation_policy: currentTenant.cancellation_policy,
+            timezone: currentTenant.timezone,
             is_active: currentTenant.is_active
           },
           updated: {
-            integration_mode: body.integration_mode || currentTenant.integration_mode,
-            is_active: body.is_active !== undefined ? body.is_active : currentTenant.is_active
+            integration_mode: updatedTenant.integration_mode,
+            waitlist_promotion: updatedTenant.waitlist_promotion,
+            max_claims_per_post: updatedTenant.max_claims_per_post,
+            max_claims_per_day: updatedTenant.max_claims_per_day,
+            max_claims_per_week: updatedTenant.max_claims_per_week,
+            reliability_block_below: updatedTenant.reliability_block_below,
+            reliability_delay_below: updatedTenant.reliability_delay_below,
+            reliability_delay_minutes: updatedTenant.reliability_delay_minutes,
+            cancellation_policy: updatedTenant.cancellation_policy,
+            timezone: updatedTenant.timezone,
+            is_active: updatedTenant.is_active
           }
         })
       ]);
@@ -1,12 +1,12 @@
 import { NextRequest } from 'next/server';
 import { PoolClient } from 'pg';
-import { requireAuth } from '@/lib/auth';
+import { CancellationPolicy } from '@/types/api';
+import { requirePermission } from '@/lib/permissions';
 import { withTransaction, setTenantContext } from '@/lib/database';
 import {
   jsonSuccess,
   jsonError,
   validationError,
-  forbiddenError,
   handleApiError
 } from '@/lib/responses';
 
@@ -14,6 +14,15 @@ interface Tenant {
   id: string;
   name: string;
   integration_mode: 'standalone' | 'dandori';
+  waitlist_promotion: 'offer' | 'auto_claim';
+  max_claims_per_post: number | null;
+  max_claims_per_day: number | null;
+  max_claims_per_week: number | null;
+  reliability_block_below: number | null;
+  reliability_delay_below: number | null;
+  reliability_delay_minutes: number | null;
+  cancellation_policy: CancellationPolicy | null;
+  timezone: string;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -27,12 +36,7 @@ interface TenantsListResponse {
 export async function GET(request: NextRequest) {
   try {
     // Authentication and authorization
-    const { tenantId, userId } = requireAuth(request);
-
-    // For MVP, any authenticated user can view tenants (ops_admin check)
-    if (!userId) {
-      return forbiddenError('Admin access required');
-    }
+    const { tenantId, userId } = await requirePermission(request, 'tenants:read');
 
     // Parse query parameters
     const url = new URL(request.url);
@@ -63,6 +67,15 @@ export async function GET(request: NextRequest) {
           id,
           name,
           integration_mode,
+          waitlist_promotion,
+          max_claims_per_post,
+          max_claims_per_day,
+          max_claims_per_week,
+          reliability_block_below,
+          reliability_delay_below,
+          reliability_delay_minutes,
+          cancellation_policy,
+          timezone,
           is_active,
           created_at,
           updated_at
@@ -3,10 +3,21 @@ import { PoolClient } from 'pg';
 import {
   CancelClaimRequest,
   CancelClaimResponse,
+  CancellationRequestResponse,
 } from '@/types/api';
 import { cancelClaimRequestSchema, validateRequestBody } from '@/lib/validation';
 import { requireAuth } from '@/lib/auth';
 import { withTransaction, setTenantContext } from '@/lib/database';
+import { canCancelClaim } from '@/lib/permissions';
+import {
+  lockSlotForCancel,
+  cancelBlocker,
+  cancellationPolicyApplies,
+  applicableCancellationRule,
+  cancelSlotClaim,
+  effectiveCancelMode,
+  requestCancellation
+} from '@/lib/cancellation';
 import {
   jsonSuccess,
   jsonError,
@@ -20,7 +31,8 @@ import {
 export async function POST(request: NextRequest) {
   try {
     // 1. Authentication and authorization
-    const { tenantId, userId } = requireAuth(request);
+    const auth = await requireAuth(request);
+    const { tenantId } = auth;
 
     // 2. Parse and validate request body
     const body = await request.json();
@@ -31,6 +43,7 @@ export async function POST(request: NextRequest) {
     }
 
     const { slotId, reason } = validation.data;
+    const mode = effectiveCancelMode(auth, validation.data.mode);
 
     // 3. Execute cancel operation in transaction
     const result = await withTransaction(async (client: PoolClient) => {
@@ -38,115 +51,74 @@ export async function POST(request: NextRequest) {
       await setTenantContext(client, tenantId);
 
       // Check current slot status and ownership
-      const slotQuery = await client.query(`
-        SELECT
-          js.id,
-          js.status,
-          js.claimed_by_company,
-          js.claimed_by_user,
-          js.claimed_at,
-          js.work_date,
-          c.id as claim_id,
-          c.company_id as claim_company_id
-        FROM job_slots js
-        LEFT JOIN claims c ON js.id = c.job_slot_id
-        WHERE js.id = $1 AND js.tenant_id = $2
-      `, [slotId, tenantId]);
-
-      if (slotQuery.rows.length === 0) {
+      const target = await lockSlotForCancel(client, tenantId, slotId);
+
+      if (!target) {
         throw new Error('SLOT_NOT_FOUND');
       }
 
-      const slot = slotQuery.rows[0];
-
-      // Check if slot is in correct status for cancellation
-      if (slot.status !== 'claimed') {
-        if (slot.status === 'available') {
-          throw new Error('SLOT_NOT_CLAIMED');
-        } else if (slot.status === 'cancelled') {
-          throw new Error('ALREADY_CANCELLED');
-        } else if (slot.status === 'completed') {
-          throw new Error('ALREADY_COMPLETED');
-        } else {
-          throw new Error('INVALID_STATUS');
-        }
+      const blocker = cancelBlocker(target);
+      if (blocker) {
+        throw new Error(blocker);
       }
 
-      // Authorization: Only the company that claimed the slot can cancel it
-      // Note: We're using the claim's company_id for authorization instead of the slot's claimed_by_company
-      // This ensures consistency with the claims table
-      if (!slot.claim_company_id) {
-        throw new Error('NO_CLAIM_FOUND');
+      // Authorization: subs may cancel their own company's claims, GC roles any claim
+      // on their projects, ops_admin anything
+      if (!canCancelClaim(auth, {
+        tenantId: target.project_tenant_id,
+        companyId: target.claim_company_id!
+      })) {
+        throw new Error('UNAUTHORIZED_CANCEL');
       }
 
-      // For now, we'll allow any authenticated user from the same tenant to cancel
-      // In a production system, you might want to check specific company ownership:
-      // if (slot.claim_company_id !== companyId) {
-      //   throw new Error('UNAUTHORIZED_CANCEL');
-      // }
-
-      // Update slot status to cancelled
-      const updateResult = await client.query(`
-        UPDATE job_slots
-        SET
-          status = 'cancelled',
-          canceled_at = now(),
-          cancel_reason = $1,
-          updated_at = now()
-        WHERE
-          id = $2
-          AND tenant_id = $3
-          AND status = 'claimed'
-        RETURNING id, status, canceled_at, cancel_reason
-      `, [reason, slotId, tenantId]);
-
-      if (updateResult.rows.length === 0) {
-        // This should not happen due to our previous checks, but handle race condition
-        throw new Error('CANCEL_FAILED');
+      // The tenant's (or job post's) cancellation policy binds subcontractors
+      const rule = cancellationPolicyApplies(auth, target)
+        ? applicableCancellationRule(target.cancellation_policy, target.hours_until_work, reason)
+        : null;
+
+      if (rule?.action === 'deny') {
+        return { deniedBy: rule, hoursUntilWork: target.hours_until_work };
       }
 
-      const updatedSlot = updateResult.rows[0];
-
-      // Insert audit log
-      await client.query(`
-        INSERT INTO audit_logs (
-          tenant_id,
-          actor_user_id,
-          actor_role,
-          action,
-          target_table,
-          target_id,
-          payload,
-          created_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
-      `, [
-        tenantId,
-        userId || null,
-        'sub_admin', // TODO: Get from JWT
-        'cancel',
-        'job_slots',
-        slotId,
-        JSON.stringify({
-          reason,
-          claim_id: slot.claim_id,
-          previous_status: 'claimed',
-          new_status: 'cancelled',
-          claimed_by_company: slot.claim_company_id,
-          claimed_at: slot.claimed_at
-        })
-      ]);
-
-      return {
-        id: updatedSlot.id,
-        status: updatedSlot.status,
-        canceled_at: updatedSlot.canceled_at,
-        cancel_reason: updatedSlot.cancel_reason
-      };
+      if (rule?.action === 'approval') {
+        if (target.cancel_requested_at) {
+          throw new Error('CANCELLATION_REQUEST_PENDING');
+        }
+
+        return {
+          cancellationRequest: await requestCancellation(client, auth, target, { reason, mode, rule })
+        };
+      }
+
+      return { cancelled: await cancelSlotClaim(client, auth, target, { reason, mode, rule }) };
     });
 
+    if (result.deniedBy) {
+      return jsonError(
+        'CANCELLATION_NOT_ALLOWED',
+        `Cancellations within ${result.deniedBy.within_hours} hours of the work date are not allowed`,
+        403,
+        {
+          rule: result.deniedBy,
+          hours_until_work: Math.round(result.hoursUntilWork * 100) / 100,
+          reason
+        }
+      );
+    }
+
+    // The claim stays active until the GC approves the request
+    if (result.cancellationRequest) {
+      const response: CancellationRequestResponse = {
+        cancellation_request: result.cancellationRequest
+      };
+
+      return jsonSuccess(response, 202);
+    }
+
     // 4. Return success response
     const response: CancelClaimResponse = {
-      slot: result
+      ...result.cancelled!,
+      mode
     };
 
     return jsonSuccess(response);
@@ -187,6 +159,12 @@ export async function POST(request: NextRequest) {
         case 'UNAUTHORIZED_CANCEL':
           return forbiddenError('You are not authorized to cancel this claim');
 
+        case 'CANCELLATION_REQUEST_PENDING':
+          return conflictError(
+            'CANCELLATION_REQUEST_PENDING',
+            'A cancellation request for this claim is already awaiting GC approval'
+          );
+
         case 'CANCEL_FAILED':
           return conflictError(
             'CANCEL_FAILED',
@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { CancellationPenaltiesResponse } from '@/types/api';
+import { cancellationPenaltiesQuerySchema, validateQueryParams } from '@/lib/validation';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { cancellationPenaltyColumns } from '@/lib/cancellation';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Cancellation penalties for invoicing
+ * 直前キャンセルの違約ポイント・違約金の一覧（請求用）
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const { tenantId } = await requirePermission(request, 'cancellation_penalties:read');
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(cancellationPenaltiesQuerySchema, searchParams);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { company_id, date_from, date_to, uninvoiced } = validation.data;
+
+    const conditions = ['tenant_id = $1'];
+    const params: any[] = [tenantId];
+
+    if (company_id) {
+      params.push(company_id);
+      conditions.push(`company_id = $${params.length}`);
+    }
+
+    if (date_from) {
+      params.push(date_from);
+      conditions.push(`work_date >= $${params.length}::date`);
+    }
+
+    if (date_to) {
+      params.push(date_to);
+      conditions.push(`work_date <= $${params.length}::date`);
+    }
+
+    if (uninvoiced === 'true') {
+      conditions.push('invoiced_at IS NULL');
+    }
+
+    const penalties = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const result = await client.query(`
+        SELECT ${cancellationPenaltyColumns()}
+        FROM cancellation_penalties
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY created_at ASC, id ASC
+      `, params);
+
+      return result.rows;
+    });
+
+    const response: CancellationPenaltiesResponse = {
+      penalties,
+      total_penalty_points: penalties.reduce((sum: number, row: any) => sum + row.penalty_points, 0),
+      total_fee_amount: penalties.reduce((sum: number, row: any) => sum + row.fee_amount, 0)
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Cancellation penalties API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
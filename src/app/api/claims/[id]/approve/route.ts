@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { ClaimApprovalResponse } from '@/types/api';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { lockClaimForDecision, approveClaim, releasePendingClaim } from '@/lib/claim-approvals';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * GC approval of a pending claim
+ * 承認制案件の受注を承認し、claim.confirmed を送信
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'claims:approve');
+    const actor = { userId: userId || null, role };
+
+    const { id: claimId } = await params;
+
+    // 2. Record the decision in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const claim = await lockClaimForDecision(client, tenantId, claimId);
+
+      if (!claim) {
+        throw new Error('CLAIM_NOT_FOUND');
+      }
+
+      if (claim.status !== 'pending_approval') {
+        throw new Error('CLAIM_NOT_PENDING');
+      }
+
+      // Past the deadline the claim is released rather than approved late
+      if (claim.approval_expires_at && new Date(claim.approval_expires_at) <= new Date()) {
+        await releasePendingClaim(client, tenantId, claim, { status: 'expired', actor, reason: null });
+        return { isExpired: true, expiredAt: claim.approval_expires_at };
+      }
+
+      return { claim: await approveClaim(client, tenantId, claim, actor) };
+    });
+
+    if (result.isExpired) {
+      return jsonError(
+        'APPROVAL_EXPIRED',
+        'The approval deadline for this claim has passed and the slot has been released',
+        409,
+        { approval_expires_at: result.expiredAt }
+      );
+    }
+
+    const response: ClaimApprovalResponse = {
+      claim: result.claim!
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Approve claim API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'CLAIM_NOT_FOUND':
+          return notFoundError('Claim');
+
+        case 'CLAIM_NOT_PENDING':
+          return conflictError(
+            'CLAIM_NOT_PENDING',
+            'This claim is not awaiting approval'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { CancelClaimResponse } from '@/types/api';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { memberAuthContext } from '@/lib/eligibility';
+import {
+  findCancellationRequestSlot,
+  lockSlotForCancel,
+  cancelBlocker,
+  cancelSlotClaim
+} from '@/lib/cancellation';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * GC approval of a cancellation request
+ * 下請けのキャンセル申請を承認し、申請時の規定（違約ポイント・違約金）でキャンセル
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requirePermission(request, 'claims:approve');
+    const { tenantId } = auth;
+
+    const { id: claimId } = await params;
+
+    // 2. Cancel under the rule that applied when the subcontractor asked
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const slotId = await findCancellationRequestSlot(client, tenantId, claimId);
+
+      if (!slotId) {
+        throw new Error('CANCELLATION_REQUEST_NOT_FOUND');
+      }
+
+      const target = await lockSlotForCancel(client, tenantId, slotId);
+
+      // The claim may have changed before the slot lock was taken
+      if (!target || cancelBlocker(target) || target.claim_id !== claimId || !target.cancel_requested_at) {
+        throw new Error('CANCELLATION_REQUEST_NOT_FOUND');
+      }
+
+      const cancelled = await cancelSlotClaim(client, auth, target, {
+        reason: target.cancel_request_reason!,
+        mode: target.cancel_request_mode!,
+        rule: target.cancel_request_rule,
+        initiator: await memberAuthContext(client, tenantId, target.cancel_requested_by)
+      });
+
+      return { ...cancelled, mode: target.cancel_request_mode! };
+    });
+
+    const response: CancelClaimResponse = result;
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Approve cancellation API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'CANCELLATION_REQUEST_NOT_FOUND':
+          return notFoundError('Cancellation request');
+
+        case 'CANCEL_FAILED':
+          return conflictError(
+            'CANCEL_FAILED',
+            'Failed to cancel claim due to concurrent modification'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { cancellationRequestRejectSchema, validateRequestBody } from '@/lib/validation';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import {
+  findCancellationRequestSlot,
+  lockSlotForCancel,
+  rejectCancellationRequest
+} from '@/lib/cancellation';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * GC rejection of a cancellation request
+ * 下請けのキャンセル申請を却下（受注は有効のまま）
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'claims:approve');
+
+    const { id: claimId } = await params;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(cancellationRequestRejectSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { note } = validation.data;
+
+    // 3. Record the decision in transaction
+    await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const slotId = await findCancellationRequestSlot(client, tenantId, claimId);
+      const target = slotId ? await lockSlotForCancel(client, tenantId, slotId) : null;
+
+      if (!target || target.claim_id !== claimId || !target.cancel_requested_at) {
+        throw new Error('CANCELLATION_REQUEST_NOT_FOUND');
+      }
+
+      await rejectCancellationRequest(client, tenantId, target, {
+        note: note || null,
+        actor: { userId: userId || null, role }
+      });
+    });
+
+    return jsonSuccess({ claim_id: claimId, status: 'active' });
+
+  } catch (error) {
+    console.error('Reject cancellation API error:', error);
+
+    if (error instanceof Error && error.message === 'CANCELLATION_REQUEST_NOT_FOUND') {
+      return notFoundError('Cancellation request');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
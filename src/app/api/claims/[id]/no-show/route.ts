@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { NoShowReportResponse } from '@/types/api';
+import { noShowReportSchema, validateRequestBody } from '@/lib/validation';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { reportNoShow } from '@/lib/reliability';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  validationError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * No-show report by the GC
+ * 作業日に来なかった受注を無断欠勤として記録し、claim.no_show を送信
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'claims:no_show');
+
+    const { id: claimId } = await params;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(noShowReportSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { note } = validation.data;
+
+    // 3. Record the report in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      return reportNoShow(client, tenantId, claimId, {
+        note: note || null,
+        actor: { userId: userId || null, role }
+      });
+    });
+
+    const response: NoShowReportResponse = result;
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('No-show report API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'CLAIM_NOT_FOUND':
+          return notFoundError('Claim');
+
+        case 'CLAIM_NOT_ACTIVE':
+          return conflictError(
+            'CLAIM_NOT_ACTIVE',
+            'Only active claims can be reported as no-shows'
+          );
+
+        case 'ALREADY_COMPLETED':
+          return conflictError(
+            'ALREADY_COMPLETED',
+            'This slot has already been completed'
+          );
+
+        case 'WORK_DATE_NOT_REACHED':
+          return conflictError(
+            'WORK_DATE_NOT_REACHED',
+            'A no-show can only be reported on or after the work date'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
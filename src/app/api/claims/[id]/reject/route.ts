@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { ClaimApprovalResponse } from '@/types/api';
+import { claimRejectSchema, validateRequestBody } from '@/lib/validation';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { lockClaimForDecision, releasePendingClaim } from '@/lib/claim-approvals';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  validationError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * GC rejection of a pending claim
+ * 承認制案件の受注を却下し、スロットを解放（キャンセル待ちへ繰り上げ）
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'claims:approve');
+
+    const { id: claimId } = await params;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(claimRejectSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { reason } = validation.data;
+
+    // 3. Record the decision in transaction
+    const claim = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const current = await lockClaimForDecision(client, tenantId, claimId);
+
+      if (!current) {
+        throw new Error('CLAIM_NOT_FOUND');
+      }
+
+      if (current.status !== 'pending_approval') {
+        throw new Error('CLAIM_NOT_PENDING');
+      }
+
+      return releasePendingClaim(client, tenantId, current, {
+        status: 'rejected',
+        actor: { userId: userId || null, role },
+        reason: reason || null
+      });
+    });
+
+    const response: ClaimApprovalResponse = {
+      claim
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Reject claim API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'CLAIM_NOT_FOUND':
+          return notFoundError('Claim');
+
+        case 'CLAIM_NOT_PENDING':
+          return conflictError(
+            'CLAIM_NOT_PENDING',
+            'This claim is not awaiting approval'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
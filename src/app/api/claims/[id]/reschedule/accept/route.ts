@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { RescheduleAcceptResponse } from '@/types/api';
+import { requireAuth } from '@/lib/auth';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { acceptReschedule } from '@/lib/reschedule';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  forbiddenError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Acceptance of a reschedule proposal by the other party
+ * 日程変更の提案を承諾し、受注IDを維持したまま新しい作業日のスロットへ移動（claim.rescheduled を送信）
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication (only the party that did not propose may answer)
+    const auth = await requireAuth(request);
+
+    const { id: claimId } = await params;
+
+    // 2. Move the claim in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, auth.tenantId);
+
+      return acceptReschedule(client, auth, claimId);
+    });
+
+    if (result.error) {
+      return jsonError(
+        result.error.code,
+        result.error.message,
+        result.error.status,
+        result.error.details
+      );
+    }
+
+    const response: RescheduleAcceptResponse = {
+      reschedule_request: result.request,
+      reschedule: result.reschedule
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Reschedule accept API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'RESCHEDULE_REQUEST_NOT_FOUND':
+          return notFoundError('Reschedule request');
+
+        case 'UNAUTHORIZED_RESCHEDULE':
+          return forbiddenError('Only the other party can answer this reschedule proposal');
+
+        case 'NO_OPEN_SLOT':
+          return conflictError(
+            'NO_OPEN_SLOT',
+            'No open slot is left on the proposed work date'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { RescheduleRequestResponse } from '@/types/api';
+import { rescheduleDeclineSchema, validateRequestBody } from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { declineReschedule } from '@/lib/reschedule';
+import {
+  jsonSuccess,
+  jsonError,
+  forbiddenError,
+  validationError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Declining a reschedule proposal by the other party
+ * 日程変更の提案を断る（受注は元の作業日のまま）
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication (only the party that did not propose may answer)
+    const auth = await requireAuth(request);
+
+    const { id: claimId } = await params;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(rescheduleDeclineSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    // 3. Record the decision in transaction
+    const rescheduleRequest = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, auth.tenantId);
+
+      return declineReschedule(client, auth, claimId, { note: validation.data.note || null });
+    });
+
+    const response: RescheduleRequestResponse = {
+      reschedule_request: rescheduleRequest
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Reschedule decline API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'RESCHEDULE_REQUEST_NOT_FOUND':
+          return notFoundError('Reschedule request');
+
+        case 'UNAUTHORIZED_RESCHEDULE':
+          return forbiddenError('Only the other party can answer this reschedule proposal');
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { RescheduleRequestResponse } from '@/types/api';
+import { rescheduleProposalSchema, validateRequestBody } from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { proposeReschedule } from '@/lib/reschedule';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  forbiddenError,
+  validationError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Reschedule proposal by the GC or the claiming company
+ * 受注を同じ募集の別の作業日へ移す提案（相手方の承諾で移動）
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication (either party may propose; checked against the claim below)
+    const auth = await requireAuth(request);
+
+    const { id: claimId } = await params;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(rescheduleProposalSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { workDate, note } = validation.data;
+
+    // 3. Record the proposal in transaction
+    const rescheduleRequest = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, auth.tenantId);
+
+      return proposeReschedule(client, auth, claimId, { workDate, note: note || null });
+    });
+
+    const response: RescheduleRequestResponse = {
+      reschedule_request: rescheduleRequest
+    };
+
+    return jsonSuccess(response, 201);
+
+  } catch (error) {
+    console.error('Reschedule proposal API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'CLAIM_NOT_FOUND':
+          return notFoundError('Claim');
+
+        case 'UNAUTHORIZED_RESCHEDULE':
+          return forbiddenError('You are not authorized to reschedule this claim');
+
+        case 'CLAIM_NOT_ACTIVE':
+          return conflictError(
+            'CLAIM_NOT_ACTIVE',
+            'Only active claims can be rescheduled'
+          );
+
+        case 'SAME_WORK_DATE':
+          return jsonError(
+            'SAME_WORK_DATE',
+            'The claim is already on this work date',
+            422
+          );
+
+        case 'RESCHEDULE_PENDING':
+          return conflictError(
+            'RESCHEDULE_PENDING',
+            'A reschedule proposal for this claim is already awaiting an answer'
+          );
+
+        case 'NO_OPEN_SLOT':
+          return conflictError(
+            'NO_OPEN_SLOT',
+            'No open slot on the job post for the requested work date'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
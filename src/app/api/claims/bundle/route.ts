@@ -0,0 +1,342 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { BundleClaimResponse, ClaimResponse } from '@/types/api';
+import { bundleClaimRequestSchema, validateRequestBody } from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { withTransaction, setTenantContext, generateUuid } from '@/lib/database';
+import { recordClaim, pickCrewSlots, CrewShortage } from '@/lib/claims';
+import { checkSlotEligibility } from '@/lib/eligibility';
+import { checkClaimLimits } from '@/lib/claim-limits';
+import { checkShiftOverlap, slotTimeColumns } from '@/lib/shifts';
+import { findAlternativeSlots, AlternativeSlot } from '@/lib/alternatives';
+import { notHeldByOthers } from '@/lib/slot-holds';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  internalServerError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Bundle claim
+ * 複数スロットをまとめて受注（全件確保できなければ何も確保しない）
+ */
+
+// Alternatives are searched within this many days of each conflicting slot
+const ALTERNATIVE_DAYS = 3;
+
+const MAX_BUNDLE_SLOTS = 50;
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId, userId } = auth;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(bundleClaimRequestSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { companyId, requestId, crew } = validation.data;
+
+    // 3. Claim every slot in one transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      // Check for idempotency - if request_id already exists, return the bundle's claims
+      const existingBundle = await client.query(`
+        SELECT id, request_id, company_id
+        FROM claim_bundles
+        WHERE request_id = $1 AND tenant_id = $2
+      `, [requestId, tenantId]);
+
+      if (existingBundle.rows.length > 0) {
+        const bundle = existingBundle.rows[0];
+        const existingClaims = await client.query(`
+          SELECT
+            c.id as claim_id,
+            c.company_id,
+            c.user_id,
+            c.crew,
+            c.claimed_at,
+            c.status as claim_status,
+            c.approval_expires_at,
+            js.id as slot_id,
+            js.status,
+            js.work_date,
+            ${slotTimeColumns('js')}
+          FROM claims c
+          JOIN job_slots js ON c.job_slot_id = js.id
+          WHERE c.bundle_id = $1 AND c.tenant_id = $2
+          ORDER BY js.starts_at ASC, js.slot_no ASC
+        `, [bundle.id, tenantId]);
+
+        return {
+          isIdempotent: true,
+          bundle,
+          claims: existingClaims.rows.map((row: any): ClaimResponse => ({
+            slot: {
+              id: row.slot_id,
+              status: row.status,
+              work_date: row.work_date,
+              shift_code: row.shift_code,
+              start_time: row.start_time,
+              end_time: row.end_time,
+              starts_at: row.starts_at,
+              ends_at: row.ends_at
+            },
+            claim: {
+              id: row.claim_id,
+              company_id: row.company_id,
+              user_id: row.user_id,
+              crew: row.crew,
+              claimed_at: row.claimed_at,
+              status: row.claim_status,
+              approval_expires_at: row.approval_expires_at
+            }
+          }))
+        };
+      }
+
+      // Resolve the slots to claim
+      let slotIds: string[];
+      let shortages: CrewShortage[] = [];
+
+      if (validation.data.slotIds) {
+        slotIds = validation.data.slotIds;
+      } else {
+        const { jobPostId, dateFrom, dateTo, crewCount, shiftCode } = validation.data;
+
+        // Without shiftCode every shift of the work dates is staffed
+        const candidates = await client.query(`
+          SELECT
+            js.id,
+            js.work_date::text,
+            js.shift_code,
+            (js.status = 'available' AND ${notHeldByOthers('$5::uuid', 'js')}) as claimable
+          FROM job_slots js
+          WHERE
+            js.job_post_id = $1
+            AND js.tenant_id = $2
+            AND js.work_date BETWEEN $3::date AND $4::date
+            AND js.status <> 'cancelled'
+            AND ($6::text IS NULL OR js.shift_code = $6)
+          ORDER BY js.work_date ASC, js.starts_at ASC, js.shift_code ASC, js.slot_no ASC
+        `, [jobPostId, tenantId, dateFrom, dateTo, companyId, shiftCode || null]);
+
+        if (candidates.rows.length === 0) {
+          return { isEmptyRange: true };
+        }
+
+        ({ slotIds, shortages } = pickCrewSlots(candidates.rows, crewCount!));
+      }
+
+      if (slotIds.length > MAX_BUNDLE_SLOTS) {
+        return { isTooLarge: true };
+      }
+
+      // Pre-claim eligibility for every slot (posts may differ when slotIds are given)
+      for (const slotId of slotIds) {
+        const eligibilityError = await checkSlotEligibility(client, auth, slotId, companyId);
+
+        if (eligibilityError) {
+          return { eligibilityError: { ...eligibilityError, slotId } };
+        }
+      }
+
+      // Fairness caps count the whole bundle; taken before the row locks, like single claims
+      const limitError = await checkClaimLimits(client, tenantId, companyId, slotIds);
+
+      if (limitError) {
+        return { limitError };
+      }
+
+      // One crew cannot work two slots of the bundle, or a slot it already holds, at the same time
+      const overlapError = await checkShiftOverlap(client, tenantId, companyId, crew, slotIds);
+
+      if (overlapError) {
+        return { limitError: overlapError };
+      }
+
+      // Lock the slots in a stable order so concurrent bundles cannot deadlock
+      const lockedSlots = await client.query(`
+        SELECT
+          id,
+          (status = 'available' AND ${notHeldByOthers('$3::uuid')}) as claimable
+        FROM job_slots
+        WHERE id = ANY($1::uuid[]) AND tenant_id = $2
+        ORDER BY id
+        FOR UPDATE
+      `, [slotIds, tenantId, companyId]);
+
+      if (lockedSlots.rows.length !== slotIds.length) {
+        throw new Error('Slot not found or access denied');
+      }
+
+      const conflictingSlotIds: string[] = lockedSlots.rows
+        .filter((row: any) => !row.claimable)
+        .map((row: any) => row.id);
+
+      // All or nothing: report every conflict with alternatives outside the bundle
+      if (conflictingSlotIds.length > 0 || shortages.length > 0) {
+        const alternatives: Record<string, AlternativeSlot[]> = {};
+
+        for (const slotId of conflictingSlotIds) {
+          alternatives[slotId] = (await findAlternativeSlots(client, tenantId, slotId, {
+            days: ALTERNATIVE_DAYS,
+            companyId,
+            excludeSlotIds: slotIds
+          })) || [];
+        }
+
+        return { isConflict: true, conflictingSlotIds, shortages, alternatives };
+      }
+
+      const bundleInsert = await client.query(`
+        INSERT INTO claim_bundles (
+          id,
+          tenant_id,
+          company_id,
+          user_id,
+          request_id,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, now())
+        RETURNING id, request_id, company_id
+      `, [generateUuid(), tenantId, companyId, userId || null, requestId]);
+
+      const bundle = bundleInsert.rows[0];
+
+      // Atomic FCFS operation for the whole bundle; the company's own holds are consumed
+      const slotUpdate = await client.query(`
+        UPDATE job_slots
+        SET
+          claimed_by_company = $1,
+          claimed_by_user = $2,
+          claimed_at = now(),
+          status = 'claimed',
+          held_by_company = NULL,
+          held_by_user = NULL,
+          held_until = NULL,
+          updated_at = now()
+        WHERE
+          id = ANY($3::uuid[])
+          AND tenant_id = $4
+          AND status = 'available'
+          AND ${notHeldByOthers('$1')}
+        RETURNING
+          id,
+          job_post_id,
+          work_date,
+          status,
+          claimed_at,
+          ${slotTimeColumns()}
+      `, [companyId, userId || null, slotIds, tenantId]);
+
+      // Rows are locked above, so anything short of the full bundle is a bug; roll everything back
+      if (slotUpdate.rows.length !== slotIds.length) {
+        throw new Error('Bundle slots changed while locked');
+      }
+
+      const claims: ClaimResponse[] = [];
+
+      for (const updatedSlot of slotUpdate.rows) {
+        const newClaim = await recordClaim(client, auth, {
+          slot: updatedSlot,
+          companyId,
+          requestId: `${requestId}:${updatedSlot.id}`,
+          bundleId: bundle.id,
+          crew
+        });
+
+        claims.push({
+          slot: {
+            id: updatedSlot.id,
+            status: updatedSlot.status,
+            work_date: updatedSlot.work_date,
+            shift_code: updatedSlot.shift_code,
+            start_time: updatedSlot.start_time,
+            end_time: updatedSlot.end_time,
+            starts_at: updatedSlot.starts_at,
+            ends_at: updatedSlot.ends_at
+          },
+          claim: {
+            id: newClaim.id,
+            company_id: newClaim.company_id,
+            user_id: newClaim.user_id,
+            crew: newClaim.crew,
+            claimed_at: newClaim.claimed_at,
+            status: newClaim.status,
+            approval_expires_at: newClaim.approval_expires_at
+          }
+        });
+      }
+
+      return { isSuccess: true, bundle, claims };
+    });
+
+    // 4. Handle transaction result
+    if (result.eligibilityError) {
+      return jsonError(
+        result.eligibilityError.code,
+        result.eligibilityError.message,
+        result.eligibilityError.status,
+        { ...result.eligibilityError.details, slot_id: result.eligibilityError.slotId }
+      );
+    }
+
+    if (result.limitError) {
+      return jsonError(
+        result.limitError.code,
+        result.limitError.message,
+        result.limitError.status,
+        result.limitError.details
+      );
+    }
+
+    if (result.isEmptyRange) {
+      return validationError('No slots of the job post fall within dateFrom..dateTo');
+    }
+
+    if (result.isTooLarge) {
+      return validationError(`A bundle can claim at most ${MAX_BUNDLE_SLOTS} slots`);
+    }
+
+    if (result.isConflict) {
+      return jsonError(
+        'BUNDLE_CONFLICT',
+        'Some slots in this bundle are no longer available. Nothing was claimed.',
+        409,
+        {
+          conflicting_slot_ids: result.conflictingSlotIds,
+          short_dates: result.shortages,
+          alternatives: result.alternatives
+        }
+      );
+    }
+
+    if (result.isIdempotent || result.isSuccess) {
+      const response: BundleClaimResponse = {
+        bundle: result.bundle,
+        claims: result.claims
+      };
+      return jsonSuccess(response);
+    }
+
+    return internalServerError('Unexpected transaction result');
+
+  } catch (error) {
+    console.error('Bundle claim API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { CancellationRequestsResponse } from '@/types/api';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { cancellationRequestColumns } from '@/lib/cancellation';
+import {
+  jsonSuccess,
+  jsonError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Cancellations awaiting GC approval
+ * 元請けの承認待ちのキャンセル申請一覧（作業日の近い順）
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const { tenantId } = await requirePermission(request, 'claims:approve');
+
+    const requests = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const result = await client.query(`
+        SELECT ${cancellationRequestColumns()}
+        FROM claims c
+        JOIN job_slots js ON c.job_slot_id = js.id
+        WHERE c.tenant_id = $1 AND c.status = 'active' AND c.cancel_requested_at IS NOT NULL
+        ORDER BY js.work_date ASC, c.cancel_requested_at ASC
+      `, [tenantId]);
+
+      return result.rows;
+    });
+
+    const response: CancellationRequestsResponse = {
+      cancellation_requests: requests
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Cancellation requests API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { ClaimApprovalsResponse } from '@/types/api';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { claimApprovalColumns } from '@/lib/claim-approvals';
+import {
+  jsonSuccess,
+  jsonError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Claims awaiting GC approval
+ * 承認待ちの受注一覧（承認期限の近い順）
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const { tenantId } = await requirePermission(request, 'claims:approve');
+
+    const claims = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const result = await client.query(`
+        SELECT ${claimApprovalColumns()}
+        FROM claims c
+        JOIN job_slots js ON c.job_slot_id = js.id
+        WHERE c.tenant_id = $1 AND c.status = 'pending_approval'
+        ORDER BY c.approval_expires_at ASC, c.id ASC
+      `, [tenantId]);
+
+      return result.rows;
+    });
+
+    const response: ClaimApprovalsResponse = {
+      claims
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Pending claims API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { RescheduleRequestsResponse } from '@/types/api';
+import { rescheduleRequestsQuerySchema, validateQueryParams } from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { SUB_ROLES } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { rescheduleRequestColumns } from '@/lib/reschedule';
+import {
+  jsonSuccess,
+  jsonError,
+  forbiddenError,
+  validationError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Reschedule proposals
+ * 日程変更の提案一覧（既定は回答待ち。下請けは自社分のみ、移動先の作業日の近い順）
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(rescheduleRequestsQuerySchema, searchParams);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    // Subcontractors only see proposals about their own company's claims
+    const companyId = SUB_ROLES.includes(auth.role) ? auth.companyId : null;
+
+    if (SUB_ROLES.includes(auth.role) && !companyId) {
+      return forbiddenError('You are not allowed to view reschedule proposals');
+    }
+
+    const requests = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const result = await client.query(`
+        SELECT ${rescheduleRequestColumns()}
+        FROM claim_reschedule_requests r
+        WHERE r.tenant_id = $1
+          AND r.status = $2
+          AND ($3::uuid IS NULL OR r.company_id = $3::uuid)
+        ORDER BY r.to_work_date ASC, r.created_at ASC
+      `, [tenantId, validation.data.status, companyId]);
+
+      return result.rows;
+    });
+
+    const response: RescheduleRequestsResponse = {
+      reschedule_requests: requests
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Reschedule requests API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
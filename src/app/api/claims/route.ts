@@ -9,7 +9,7 @@ import {
 } from '@/types/api';
 import { claimRequestSchema, validateRequestBody } from '@/lib/validation';
 import { requireAuth } from '@/lib/auth';
-import { withTransaction, generateUuid, setTenantContext } from '@/lib/database';
+import { withTransaction, setTenantContext } from '@/lib/database';
 import {
   jsonSuccess,
   jsonError,
@@ -18,12 +18,17 @@ import {
   internalServerError,
   handleApiError
 } from '@/lib/responses';
-import { generateEventId, createClaimConfirmedPayload } from '@/lib/crypto';
+import { recordClaim } from '@/lib/claims';
+import { checkSlotEligibility } from '@/lib/eligibility';
+import { checkClaimLimits } from '@/lib/claim-limits';
+import { checkShiftOverlap, slotTimeColumns } from '@/lib/shifts';
+import { notHeldByOthers } from '@/lib/slot-holds';
 
 export async function POST(request: NextRequest) {
   try {
     // 1. Authentication and authorization
-    const { tenantId, userId } = requireAuth(request);
+    const auth = await requireAuth(request);
+    const { tenantId, userId } = auth;
 
     // 2. Parse and validate request body
     const body = await request.json();
@@ -33,7 +38,7 @@ export async function POST(request: NextRequest) {
       return validationError(validation.error);
     }
 
-    const { slotId, companyId, requestId } = validation.data;
+    const { slotId, companyId, requestId, crew } = validation.data;
 
     // 3. Execute FCFS claim in transaction
     const result = await withTransaction(async (client: PoolClient) => {
@@ -46,10 +51,14 @@ export async function POST(request: NextRequest) {
           c.id as claim_id,
           c.company_id,
           c.user_id,
+          c.crew,
           c.claimed_at,
+          c.status as claim_status,
+          c.approval_expires_at,
           js.id as slot_id,
           js.status,
-          js.work_date
+          js.work_date,
+          ${slotTimeColumns('js')}
         FROM claims c
         JOIN job_slots js ON c.job_slot_id = js.id
         WHERE c.request_id = $1 AND c.tenant_id = $2
@@ -62,18 +71,48 @@ export async function POST(request: NextRequest) {
           slot: {
             id: existing.slot_id,
             status: existing.status,
-            work_date: existing.work_date
+            work_date: existing.work_date,
+            shift_code: existing.shift_code,
+            start_time: existing.start_time,
+            end_time: existing.end_time,
+            starts_at: existing.starts_at,
+            ends_at: existing.ends_at
           },
           claim: {
             id: existing.claim_id,
             company_id: existing.company_id,
             user_id: existing.user_id,
-            claimed_at: existing.claimed_at
+            crew: existing.crew,
+            claimed_at: existing.claimed_at,
+            status: existing.claim_status,
+            approval_expires_at: existing.approval_expires_at
           }
         };
       }
 
+      // Pre-claim eligibility: company, membership, trade and qualifications must match the post
+      const eligibilityError = await checkSlotEligibility(client, auth, slotId, companyId);
+
+      if (eligibilityError) {
+        return { eligibilityError };
+      }
+
+      // Fairness caps; locks this company's claims (only) until commit so the count stays accurate
+      const limitError = await checkClaimLimits(client, tenantId, companyId, [slotId]);
+
+      if (limitError) {
+        return { eligibilityError: limitError };
+      }
+
+      // The same crew cannot be booked on overlapping shifts (same company lock as the caps)
+      const overlapError = await checkShiftOverlap(client, tenantId, companyId, crew, [slotId]);
+
+      if (overlapError) {
+        return { eligibilityError: overlapError };
+      }
+
       // Atomic FCFS operation: Update slot with conditions
+      // A live hold by another company blocks the claim; the holder's own hold is consumed
       const slotUpdate = await client.query(`
         UPDATE job_slots
         SET
@@ -81,24 +120,29 @@ export async function POST(request: NextRequest) {
           claimed_by_user = $2,
           claimed_at = now(),
           status = 'claimed',
+          held_by_company = NULL,
+          held_by_user = NULL,
+          held_until = NULL,
           updated_at = now()
         WHERE
           id = $3
           AND tenant_id = $4
           AND status = 'available'
+          AND ${notHeldByOthers('$1')}
         RETURNING
           id,
           job_post_id,
           work_date,
           status,
-          claimed_at
+          claimed_at,
+          ${slotTimeColumns()}
       `, [companyId, userId || null, slotId, tenantId]);
 
       // Check if slot was successfully claimed
       if (slotUpdate.rows.length === 0) {
         // Slot was not available - check if it exists and get current status
         const slotCheck = await client.query(`
-          SELECT id, status
+          SELECT id, status, held_until
           FROM job_slots
           WHERE id = $1 AND tenant_id = $2
         `, [slotId, tenantId]);
@@ -107,124 +151,67 @@ export async function POST(request: NextRequest) {
           throw new Error('Slot not found or access denied');
         }
 
+        // Still available, so another company holds it
+        if (slotCheck.rows[0].status === 'available') {
+          return { isHeld: true, heldUntil: slotCheck.rows[0].held_until };
+        }
+
         // Slot exists but not available - return conflict
         return { isConflict: true };
       }
 
       const updatedSlot = slotUpdate.rows[0];
 
-      // Create claim record
-      const claimId = generateUuid();
-      const claimInsert = await client.query(`
-        INSERT INTO claims (
-          id,
-          tenant_id,
-          job_slot_id,
-          company_id,
-          user_id,
-          request_id,
-          claimed_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-        RETURNING id, company_id, user_id, claimed_at
-      `, [
-        claimId,
-        tenantId,
-        slotId,
+      const newClaim = await recordClaim(client, auth, {
+        slot: updatedSlot,
         companyId,
-        userId || null,
         requestId,
-        updatedSlot.claimed_at
-      ]);
-
-      const newClaim = claimInsert.rows[0];
-
-      // Get additional data for outbox payload
-      const jobPostQuery = await client.query(`
-        SELECT jp.id, jp.title, jp.trade, p.dw_project_id
-        FROM job_posts jp
-        JOIN projects p ON jp.project_id = p.id
-        WHERE jp.id = $1 AND jp.tenant_id = $2
-      `, [updatedSlot.job_post_id, tenantId]);
-
-      const jobPost = jobPostQuery.rows[0];
-
-      // Create structured payload using utility function
-      const payload = createClaimConfirmedPayload({
-        claim_id: claimId,
-        slot_id: slotId,
-        company_id: companyId,
-        user_id: userId || null,
-        work_date: updatedSlot.work_date,
-        claimed_at: updatedSlot.claimed_at,
-        tenant_id: tenantId,
-        dw_project_id: jobPost?.dw_project_id || null,
-        job_post_id: updatedSlot.job_post_id
+        crew
       });
 
-      // Insert integration outbox event with structured payload
-      const eventId = generateEventId('claim', claimId);
-      await client.query(`
-        INSERT INTO integration_outbox (
-          event_id,
-          event_name,
-          payload,
-          target,
-          status,
-          next_attempt_at,
-          created_at
-        ) VALUES ($1, $2, $3, $4, $5, now(), now())
-      `, [
-        eventId,
-        'claim.confirmed',
-        JSON.stringify(payload),
-        'dw',
-        'pending'
-      ]);
-
-      // Insert audit log
-      await client.query(`
-        INSERT INTO audit_logs (
-          tenant_id,
-          actor_user_id,
-          actor_role,
-          action,
-          target_table,
-          target_id,
-          payload,
-          created_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
-      `, [
-        tenantId,
-        userId || null,
-        'sub_admin', // TODO: Get from JWT
-        'claim',
-        'job_slots',
-        slotId,
-        JSON.stringify({
-          company_id: companyId,
-          request_id: requestId,
-          previous_status: 'available',
-          new_status: 'claimed'
-        })
-      ]);
-
       return {
         isSuccess: true,
         slot: {
           id: updatedSlot.id,
           status: updatedSlot.status,
-          work_date: updatedSlot.work_date
+          work_date: updatedSlot.work_date,
+          shift_code: updatedSlot.shift_code,
+          start_time: updatedSlot.start_time,
+          end_time: updatedSlot.end_time,
+          starts_at: updatedSlot.starts_at,
+          ends_at: updatedSlot.ends_at
         },
         claim: {
           id: newClaim.id,
           company_id: newClaim.company_id,
           user_id: newClaim.user_id,
-          claimed_at: newClaim.claimed_at
+          crew: newClaim.crew,
+          claimed_at: newClaim.claimed_at,
+          status: newClaim.status,
+          approval_expires_at: newClaim.approval_expires_at
         }
       };
     });
 
     // 4. Handle transaction result
+    if (result.eligibilityError) {
+      return jsonError(
+        result.eligibilityError.code,
+        result.eligibilityError.message,
+        result.eligibilityError.status,
+        result.eligibilityError.details
+      );
+    }
+
+    if (result.isHeld) {
+      return jsonError(
+        'SLOT_HELD',
+        'This slot is temporarily held by another company. Please try again shortly.',
+        409,
+        { held_until: result.heldUntil }
+      );
+    }
+
     if (result.isConflict) {
       return conflictError(
         'ALREADY_CLAIMED',
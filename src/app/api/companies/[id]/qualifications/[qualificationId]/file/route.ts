@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PoolClient } from 'pg';
+import { QualificationResponse } from '@/types/api';
+import { requireAuth } from '@/lib/auth';
+import {
+  canManageCompanyQualifications,
+  canViewCompanyQualifications
+} from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import {
+  qualificationColumns,
+  getQualification,
+  certificateStorageKey,
+  CERTIFICATE_CONTENT_TYPES,
+  MAX_CERTIFICATE_BYTES
+} from '@/lib/qualifications';
+import { getStorage } from '@/lib/storage';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  forbiddenError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Qualification certificate file
+ * 証明書ファイルのアップロード（multipart/form-data の file フィールド）と取得
+ */
+
+type RouteParams = { params: Promise<{ id: string; qualificationId: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId, userId, role } = auth;
+
+    const { id: companyId, qualificationId } = await params;
+
+    if (!canManageCompanyQualifications(auth, companyId)) {
+      return forbiddenError('You are not allowed to manage qualifications of this company');
+    }
+
+    // 2. Validate the uploaded file
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return validationError('file: A certificate file is required');
+    }
+
+    if (!CERTIFICATE_CONTENT_TYPES[file.type]) {
+      return validationError(
+        `file: Unsupported content type (allowed: ${Object.keys(CERTIFICATE_CONTENT_TYPES).join(', ')})`
+      );
+    }
+
+    if (file.size === 0 || file.size > MAX_CERTIFICATE_BYTES) {
+      return validationError(`file: File size must be between 1 byte and ${MAX_CERTIFICATE_BYTES} bytes`);
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const storage = getStorage();
+    let storedUrl: string | null = null;
+
+    // 3. Store the file and point the qualification at it
+    try {
+      const result = await withTransaction(async (client: PoolClient) => {
+        // Set tenant context for RLS
+        await setTenantContext(client, tenantId);
+
+        const current = await getQualification(client, tenantId, companyId, qualificationId, true);
+
+        if (!current) {
+          throw new Error('QUALIFICATION_NOT_FOUND');
+        }
+
+        const stored = await storage.put(certificateStorageKey(current, file.type), data, file.type);
+        storedUrl = stored.url;
+
+        // A new certificate needs a fresh GC verification
+        const updateResult = await client.query(`
+          UPDATE qualifications
+          SET
+            files_url = $1,
+            file_name = $2,
+            file_content_type = $3,
+            verification_status = 'pending',
+            verified_by = NULL,
+            verified_at = NULL,
+            rejection_reason = NULL,
+            updated_at = now()
+          WHERE id = $4 AND tenant_id = $5
+          RETURNING ${qualificationColumns()}
+        `, [stored.url, file.name || null, file.type, qualificationId, tenantId]);
+
+        // Insert audit log
+        await client.query(`
+          INSERT INTO audit_logs (
+            tenant_id,
+            actor_user_id,
+            actor_role,
+            action,
+            target_table,
+            target_id,
+            payload,
+            created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+        `, [
+          tenantId,
+          userId || null,
+          role,
+          'upload_qualification_file',
+          'qualifications',
+          qualificationId,
+          JSON.stringify({
+            company_id: companyId,
+            files_url: stored.url,
+            previous_files_url: current.files_url,
+            file_name: file.name || null,
+            content_type: file.type,
+            size: stored.size
+          })
+        ]);
+
+        return { qualification: updateResult.rows[0], previousUrl: current.files_url };
+      });
+
+      // The replaced certificate is no longer referenced
+      if (result.previousUrl && result.previousUrl !== storedUrl) {
+        await storage.delete(result.previousUrl);
+      }
+
+      const response: QualificationResponse = {
+        qualification: result.qualification
+      };
+
+      return jsonSuccess(response, 201);
+
+    } catch (error) {
+      // Do not leave an orphaned file behind when the transaction rolled back
+      if (storedUrl) {
+        await storage.delete(storedUrl).catch(() => undefined);
+      }
+      throw error;
+    }
+
+  } catch (error) {
+    console.error('Upload qualification file API error:', error);
+
+    if (error instanceof Error && error.message === 'QUALIFICATION_NOT_FOUND') {
+      return notFoundError('Qualification');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId } = auth;
+
+    const { id: companyId, qualificationId } = await params;
+
+    if (!canViewCompanyQualifications(auth, companyId)) {
+      return forbiddenError('You are not allowed to view qualifications of this company');
+    }
+
+    const qualification = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      return getQualification(client, tenantId, companyId, qualificationId);
+    });
+
+    if (!qualification?.files_url) {
+      return notFoundError('Certificate file');
+    }
+
+    const data = await getStorage().get(qualification.files_url);
+
+    if (!data) {
+      return notFoundError('Certificate file');
+    }
+
+    const fileName = encodeURIComponent(qualification.file_name || `${qualification.id}`);
+
+    return new NextResponse(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        'Content-Type': qualification.file_content_type || 'application/octet-stream',
+        'Content-Length': String(data.length),
+        'Content-Disposition': `inline; filename*=UTF-8''${fileName}`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Download qualification file API error:', error);
+    return handleApiError(error);
+  }
+}
+
+export async function PUT() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
+
+export async function DELETE() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
@@ -0,0 +1,259 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { QualificationResponse } from '@/types/api';
+import { qualificationUpdateSchema, validateRequestBody } from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import {
+  canManageCompanyQualifications,
+  canViewCompanyQualifications
+} from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { qualificationColumns, getQualification } from '@/lib/qualifications';
+import { getStorage } from '@/lib/storage';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  forbiddenError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+type RouteParams = { params: Promise<{ id: string; qualificationId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId } = auth;
+
+    const { id: companyId, qualificationId } = await params;
+
+    if (!canViewCompanyQualifications(auth, companyId)) {
+      return forbiddenError('You are not allowed to view qualifications of this company');
+    }
+
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const qualification = await getQualification(client, tenantId, companyId, qualificationId);
+
+      if (!qualification) {
+        throw new Error('QUALIFICATION_NOT_FOUND');
+      }
+
+      return qualification;
+    });
+
+    const response: QualificationResponse = {
+      qualification: result
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Qualification detail API error:', error);
+
+    if (error instanceof Error && error.message === 'QUALIFICATION_NOT_FOUND') {
+      return notFoundError('Qualification');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId, userId, role } = auth;
+
+    const { id: companyId, qualificationId } = await params;
+
+    if (!canManageCompanyQualifications(auth, companyId)) {
+      return forbiddenError('You are not allowed to manage qualifications of this company');
+    }
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(qualificationUpdateSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const changes = validation.data;
+
+    // 3. Apply update in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const current = await getQualification(client, tenantId, companyId, qualificationId, true);
+
+      if (!current) {
+        throw new Error('QUALIFICATION_NOT_FOUND');
+      }
+
+      // Any edit invalidates a previous GC verification
+      const updateResult = await client.query(`
+        UPDATE qualifications
+        SET
+          name = COALESCE($1, name),
+          number = CASE WHEN $2::boolean THEN $3 ELSE number END,
+          valid_until = CASE WHEN $4::boolean THEN $5::date ELSE valid_until END,
+          verification_status = 'pending',
+          verified_by = NULL,
+          verified_at = NULL,
+          rejection_reason = NULL,
+          updated_at = now()
+        WHERE id = $6 AND tenant_id = $7
+        RETURNING ${qualificationColumns()}
+      `, [
+        changes.name ?? null,
+        changes.number !== undefined,
+        changes.number ?? null,
+        changes.validUntil !== undefined,
+        changes.validUntil ?? null,
+        qualificationId,
+        tenantId
+      ]);
+
+      const updated = updateResult.rows[0];
+
+      // Insert audit log
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        'update_qualification',
+        'qualifications',
+        qualificationId,
+        JSON.stringify({
+          company_id: companyId,
+          previous: {
+            name: current.name,
+            number: current.number,
+            valid_until: current.valid_until,
+            verification_status: current.verification_status
+          },
+          updated: {
+            name: updated.name,
+            number: updated.number,
+            valid_until: updated.valid_until,
+            verification_status: updated.verification_status
+          }
+        })
+      ]);
+
+      return updated;
+    });
+
+    const response: QualificationResponse = {
+      qualification: result
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Update qualification API error:', error);
+
+    if (error instanceof Error && error.message === 'QUALIFICATION_NOT_FOUND') {
+      return notFoundError('Qualification');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId, userId, role } = auth;
+
+    const { id: companyId, qualificationId } = await params;
+
+    if (!canManageCompanyQualifications(auth, companyId)) {
+      return forbiddenError('You are not allowed to manage qualifications of this company');
+    }
+
+    // 2. Delete in transaction
+    const deleted = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const deleteResult = await client.query(`
+        DELETE FROM qualifications
+        WHERE id = $1 AND company_id = $2 AND tenant_id = $3
+        RETURNING id, name, files_url
+      `, [qualificationId, companyId, tenantId]);
+
+      if (deleteResult.rows.length === 0) {
+        throw new Error('QUALIFICATION_NOT_FOUND');
+      }
+
+      const qualification = deleteResult.rows[0];
+
+      // Insert audit log
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        'delete_qualification',
+        'qualifications',
+        qualificationId,
+        JSON.stringify({
+          company_id: companyId,
+          name: qualification.name,
+          files_url: qualification.files_url
+        })
+      ]);
+
+      return qualification;
+    });
+
+    // 3. Remove the certificate file once the row is gone
+    if (deleted.files_url) {
+      await getStorage().delete(deleted.files_url);
+    }
+
+    return jsonSuccess({ id: qualificationId, deleted: true });
+
+  } catch (error) {
+    console.error('Delete qualification API error:', error);
+
+    if (error instanceof Error && error.message === 'QUALIFICATION_NOT_FOUND') {
+      return notFoundError('Qualification');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET, PATCH and DELETE methods are supported', 405);
+}
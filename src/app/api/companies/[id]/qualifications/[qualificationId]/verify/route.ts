@@ -0,0 +1,134 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { QualificationResponse } from '@/types/api';
+import { qualificationVerifySchema, validateRequestBody } from '@/lib/validation';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { qualificationColumns, getQualification } from '@/lib/qualifications';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * GC-side verification of a qualification certificate
+ * 元請けによる証明書の確認（verified / rejected）
+ */
+
+type RouteParams = { params: Promise<{ id: string; qualificationId: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'qualifications:verify');
+
+    const { id: companyId, qualificationId } = await params;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(qualificationVerifySchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { status, reason } = validation.data;
+
+    // 3. Record the decision in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const current = await getQualification(client, tenantId, companyId, qualificationId, true);
+
+      if (!current) {
+        throw new Error('QUALIFICATION_NOT_FOUND');
+      }
+
+      // Only an uploaded certificate can be confirmed
+      if (status === 'verified' && !current.files_url) {
+        throw new Error('CERTIFICATE_FILE_REQUIRED');
+      }
+
+      const updateResult = await client.query(`
+        UPDATE qualifications
+        SET
+          verification_status = $1,
+          verified_by = $2,
+          verified_at = now(),
+          rejection_reason = $3,
+          updated_at = now()
+        WHERE id = $4 AND tenant_id = $5
+        RETURNING ${qualificationColumns()}
+      `, [
+        status,
+        userId || null,
+        status === 'rejected' ? reason : null,
+        qualificationId,
+        tenantId
+      ]);
+
+      // Insert audit log
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        status === 'verified' ? 'verify_qualification' : 'reject_qualification',
+        'qualifications',
+        qualificationId,
+        JSON.stringify({
+          company_id: companyId,
+          previous_status: current.verification_status,
+          new_status: status,
+          reason: reason || null
+        })
+      ]);
+
+      return updateResult.rows[0];
+    });
+
+    const response: QualificationResponse = {
+      qualification: result
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Verify qualification API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'QUALIFICATION_NOT_FOUND':
+          return notFoundError('Qualification');
+
+        case 'CERTIFICATE_FILE_REQUIRED':
+          return jsonError(
+            'CERTIFICATE_FILE_REQUIRED',
+            'Upload a certificate file before verifying this qualification',
+            422
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
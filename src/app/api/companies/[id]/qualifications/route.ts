@@ -0,0 +1,170 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { QualificationResponse, QualificationsResponse } from '@/types/api';
+import { qualificationCreateSchema, validateRequestBody } from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import {
+  canManageCompanyQualifications,
+  canViewCompanyQualifications
+} from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { qualificationColumns, companyExists } from '@/lib/qualifications';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  forbiddenError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Company qualifications
+ * 下請け会社の資格登録（証明書ファイルは /file、元請けの確認は /verify）
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId } = auth;
+
+    const { id: companyId } = await params;
+
+    if (!canViewCompanyQualifications(auth, companyId)) {
+      return forbiddenError('You are not allowed to view qualifications of this company');
+    }
+
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      if (!(await companyExists(client, tenantId, companyId))) {
+        throw new Error('COMPANY_NOT_FOUND');
+      }
+
+      const qualifications = await client.query(`
+        SELECT ${qualificationColumns()}
+        FROM qualifications
+        WHERE company_id = $1 AND tenant_id = $2
+        ORDER BY valid_until ASC NULLS LAST, name ASC
+      `, [companyId, tenantId]);
+
+      return qualifications.rows;
+    });
+
+    const response: QualificationsResponse = {
+      qualifications: result
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Qualifications list API error:', error);
+
+    if (error instanceof Error && error.message === 'COMPANY_NOT_FOUND') {
+      return notFoundError('Company');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId, userId, role } = auth;
+
+    const { id: companyId } = await params;
+
+    if (!canManageCompanyQualifications(auth, companyId)) {
+      return forbiddenError('You are not allowed to manage qualifications of this company');
+    }
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(qualificationCreateSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { name, number, validUntil } = validation.data;
+
+    // 3. Create qualification in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      if (!(await companyExists(client, tenantId, companyId))) {
+        throw new Error('COMPANY_NOT_FOUND');
+      }
+
+      const insertResult = await client.query(`
+        INSERT INTO qualifications (tenant_id, company_id, name, number, valid_until)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING ${qualificationColumns()}
+      `, [tenantId, companyId, name, number || null, validUntil || null]);
+
+      const qualification = insertResult.rows[0];
+
+      // Insert audit log
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        'create_qualification',
+        'qualifications',
+        qualification.id,
+        JSON.stringify({
+          company_id: companyId,
+          name,
+          valid_until: qualification.valid_until
+        })
+      ]);
+
+      return qualification;
+    });
+
+    const response: QualificationResponse = {
+      qualification: result
+    };
+
+    return jsonSuccess(response, 201);
+
+  } catch (error) {
+    console.error('Create qualification API error:', error);
+
+    if (error instanceof Error && error.message === 'COMPANY_NOT_FOUND') {
+      return notFoundError('Company');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function PUT() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
+
+export async function DELETE() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
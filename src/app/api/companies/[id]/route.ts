@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { CompanyProfileResponse } from '@/types/api';
+import { requireAuth } from '@/lib/auth';
+import { canViewCompanyQualifications } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { getCompanyReliability } from '@/lib/reliability';
+import {
+  jsonSuccess,
+  jsonError,
+  forbiddenError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Company profile
+ * 下請け会社のプロフィールと信頼度スコア（元請けと自社メンバーのみ閲覧可）
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId } = auth;
+
+    const { id: companyId } = await params;
+
+    // Same audience as the company's qualifications: GC roles, ops_admin and its own members
+    if (!canViewCompanyQualifications(auth, companyId)) {
+      return forbiddenError('You are not allowed to view this company');
+    }
+
+    const company = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const result = await client.query(`
+        SELECT id, name, trades, address, rating::float8 AS rating, is_active
+        FROM companies
+        WHERE id = $1 AND tenant_id = $2
+      `, [companyId, tenantId]);
+
+      if (result.rows.length === 0) {
+        throw new Error('COMPANY_NOT_FOUND');
+      }
+
+      return {
+        ...result.rows[0],
+        reliability: await getCompanyReliability(client, tenantId, companyId)
+      };
+    });
+
+    const response: CompanyProfileResponse = {
+      company
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Company profile API error:', error);
+
+    if (error instanceof Error && error.message === 'COMPANY_NOT_FOUND') {
+      return notFoundError('Company');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
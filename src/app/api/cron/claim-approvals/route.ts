@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { requireCronSecret } from '@/lib/auth';
+import { withTransaction } from '@/lib/database';
+import { expirePendingClaims } from '@/lib/claim-approvals';
+import {
+  jsonSuccess,
+  jsonError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Pending claim expiry (scheduled every five minutes in vercel.json)
+ * 承認期限を過ぎた承認待ちの受注を期限切れにしてスロットを解放
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    requireCronSecret(request);
+
+    const expired = await withTransaction(async (client: PoolClient) => {
+      // Cross-tenant batch: no tenant context, like the admin APIs
+      return expirePendingClaims(client);
+    });
+
+    return jsonSuccess({ expired });
+
+  } catch (error) {
+    console.error('Claim approval sweeper error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported (Vercel Cron)
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
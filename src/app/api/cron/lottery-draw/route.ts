@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { requireCronSecret } from '@/lib/auth';
+import { withTransaction } from '@/lib/database';
+import { findDueLotteries, runLotteryDraw } from '@/lib/lottery';
+import {
+  jsonSuccess,
+  jsonError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Lottery draw runner (scheduled every five minutes in vercel.json)
+ * 受付が締め切られた抽選案件を順に抽選。1案件ごとに別トランザクションで実行し、失敗は次回に再試行
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    requireCronSecret(request);
+
+    // Cross-tenant batch: no tenant context, like the admin APIs
+    const due = await withTransaction(async (client: PoolClient) => findDueLotteries(client));
+
+    const drawn: string[] = [];
+    const failed: string[] = [];
+
+    for (const post of due) {
+      try {
+        const draw = await withTransaction(async (client: PoolClient) =>
+          runLotteryDraw(client, post.tenant_id, post.id, { userId: null, role: 'system' })
+        );
+
+        if (draw) {
+          drawn.push(post.id);
+        }
+      } catch (error) {
+        console.error(`Lottery draw failed for job post ${post.id}:`, error);
+        failed.push(post.id);
+      }
+    }
+
+    return jsonSuccess({ drawn, failed });
+
+  } catch (error) {
+    console.error('Lottery draw runner error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported (Vercel Cron)
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
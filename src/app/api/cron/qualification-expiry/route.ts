@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { requireCronSecret } from '@/lib/auth';
+import { withTransaction } from '@/lib/database';
+import { enqueueQualificationExpiryAlerts, EXPIRY_ALERT_DAYS } from '@/lib/qualifications';
+import {
+  jsonSuccess,
+  jsonError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Daily qualification expiry scan (scheduled in vercel.json)
+ * valid_until の 30/7/1 日前に qualification.expiring 通知をアウトボックスへ登録
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    requireCronSecret(request);
+
+    const today = new Date().toISOString().slice(0, 10);
+
+    const enqueued = await withTransaction(async (client: PoolClient) => {
+      // Cross-tenant batch: no tenant context, like the admin APIs
+      return enqueueQualificationExpiryAlerts(client, today);
+    });
+
+    return jsonSuccess({
+      date: today,
+      alert_days: EXPIRY_ALERT_DAYS,
+      enqueued
+    });
+
+  } catch (error) {
+    console.error('Qualification expiry cron error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported (Vercel Cron)
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
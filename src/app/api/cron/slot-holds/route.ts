@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { requireCronSecret } from '@/lib/auth';
+import { withTransaction } from '@/lib/database';
+import { releaseExpiredHolds } from '@/lib/slot-holds';
+import { expireWaitlistOffers, findPendingWaitlistSlots, promoteWaitlist } from '@/lib/waitlist';
+import {
+  jsonSuccess,
+  jsonError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Expired slot hold sweeper (scheduled every minute in vercel.json)
+ * 期限切れの一時確保を解除し、slot.hold_released を配信。期限切れのキャンセル待ちオファーは次の会社へ繰り上げ
+ * （解除は1トランザクション、繰り上げはスロットごとに別トランザクションで実行し、失敗は次回に再試行）
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    requireCronSecret(request);
+
+    // Cross-tenant batch: no tenant context, like the admin APIs
+    // Holds and offers are cleared first, so a failed promotion cannot roll them back
+    const { released, expired } = await withTransaction(async (client: PoolClient) => ({
+      released: await releaseExpiredHolds(client),
+      expired: await expireWaitlistOffers(client)
+    }));
+
+    const pending = await withTransaction(async (client: PoolClient) => findPendingWaitlistSlots(client));
+
+    let promoted = 0;
+    const failed: string[] = [];
+
+    for (const slot of pending) {
+      try {
+        const promotion = await withTransaction(async (client: PoolClient) =>
+          promoteWaitlist(client, slot.tenant_id, slot.id, { userId: null, role: 'system' })
+        );
+
+        if (promotion) {
+          promoted++;
+        }
+      } catch (error) {
+        console.error(`Waitlist promotion failed for slot ${slot.id}:`, error);
+        failed.push(slot.id);
+      }
+    }
+
+    return jsonSuccess({ released, waitlist: { expired, promoted, failed } });
+
+  } catch (error) {
+    console.error('Slot hold sweeper error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported (Vercel Cron)
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
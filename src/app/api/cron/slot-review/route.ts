@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { requireCronSecret } from '@/lib/auth';
+import { withTransaction } from '@/lib/database';
+import { flagOverdueSlots } from '@/lib/slot-completion';
+import {
+  jsonSuccess,
+  jsonError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Overdue completion sweep (scheduled daily in vercel.json)
+ * 作業日を過ぎても受注中のままのスロットに確認フラグを付与
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    requireCronSecret(request);
+
+    const flagged = await withTransaction(async (client: PoolClient) => {
+      // Cross-tenant batch: no tenant context, like the admin APIs
+      return flagOverdueSlots(client);
+    });
+
+    return jsonSuccess({ flagged });
+
+  } catch (error) {
+    console.error('Slot review sweeper error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported (Vercel Cron)
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
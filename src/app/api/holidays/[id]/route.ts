@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { requirePermission } from '@/lib/permissions';
+import { queryWithTenant } from '@/lib/database';
+import {
+  jsonSuccess,
+  jsonError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authentication and authorization
+    const { tenantId } = await requirePermission(request, 'holidays:manage');
+
+    const { id: holidayId } = await params;
+
+    const result = await queryWithTenant(
+      tenantId,
+      `
+      DELETE FROM tenant_holidays
+      WHERE id = $1 AND tenant_id = $2
+      RETURNING id
+      `,
+      [holidayId, tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      return notFoundError('Holiday');
+    }
+
+    return jsonSuccess({ id: holidayId, deleted: true });
+
+  } catch (error) {
+    console.error('Delete holiday API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only DELETE method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only DELETE method is supported', 405);
+}
@@ -0,0 +1,110 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { TenantHoliday } from '@/types/api';
+import {
+  holidayCreateSchema,
+  holidaysQuerySchema,
+  validateRequestBody,
+  validateQueryParams
+} from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext, queryWithTenant } from '@/lib/database';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  validationError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Tenant holidays
+ * 休日はスロット生成時に除外される（既存スロットには次回の同期時に反映）
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const { tenantId } = await requireAuth(request);
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(holidaysQuerySchema, searchParams);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { from, to } = validation.data;
+
+    const result = await queryWithTenant(
+      tenantId,
+      `
+      SELECT id, tenant_id, holiday_date::text AS holiday_date, name, created_by, created_at
+      FROM tenant_holidays
+      WHERE tenant_id = $1
+        AND ($2::date IS NULL OR holiday_date >= $2::date)
+        AND ($3::date IS NULL OR holiday_date <= $3::date)
+      ORDER BY holiday_date ASC
+      `,
+      [tenantId, from || null, to || null]
+    );
+
+    const holidays: TenantHoliday[] = result.rows;
+    return jsonSuccess({ holidays });
+
+  } catch (error) {
+    console.error('Holidays list API error:', error);
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const { tenantId, userId } = await requirePermission(request, 'holidays:manage');
+
+    const body = await request.json();
+    const validation = validateRequestBody(holidayCreateSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { date, name } = validation.data;
+
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const insertResult = await client.query(`
+        INSERT INTO tenant_holidays (tenant_id, holiday_date, name, created_by)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (tenant_id, holiday_date) DO NOTHING
+        RETURNING id, tenant_id, holiday_date::text AS holiday_date, name, created_by, created_at
+      `, [tenantId, date, name || null, userId || null]);
+
+      if (insertResult.rows.length === 0) {
+        throw new Error('HOLIDAY_EXISTS');
+      }
+
+      return insertResult.rows[0];
+    });
+
+    const holiday: TenantHoliday = result;
+    return jsonSuccess({ holiday }, 201);
+
+  } catch (error) {
+    console.error('Create holiday API error:', error);
+
+    if (error instanceof Error && error.message === 'HOLIDAY_EXISTS') {
+      return conflictError('HOLIDAY_EXISTS', 'A holiday is already registered for this date');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function PUT() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { LotteryDrawResponse } from '@/types/api';
+import { requireAuth } from '@/lib/auth';
+import { canDrawLottery } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { runLotteryDraw } from '@/lib/lottery';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  forbiddenError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Lottery draw
+ * 受付締切後の抽選を cron を待たずに実行（当選枠の受注登録と落選通知）
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId, userId, role } = auth;
+
+    if (!canDrawLottery(auth)) {
+      return forbiddenError('You are not allowed to run lottery draws');
+    }
+
+    const { id: jobPostId } = await params;
+
+    // 2. Run the draw in transaction
+    const draw = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      return runLotteryDraw(client, tenantId, jobPostId, {
+        userId: userId || null,
+        role
+      });
+    });
+
+    if (!draw) {
+      return conflictError(
+        'LOTTERY_NOT_DUE',
+        'This job post has no lottery waiting to be drawn: it is not a published lottery, its entry window is still open, or it has already been drawn'
+      );
+    }
+
+    const response: LotteryDrawResponse = {
+      draw
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Lottery draw API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
+
+export async function PUT() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
+
+export async function DELETE() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
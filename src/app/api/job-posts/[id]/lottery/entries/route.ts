@@ -0,0 +1,293 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { LotteryEntriesResponse, LotteryEntryResponse } from '@/types/api';
+import { lotteryEntrySchema, validateRequestBody } from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { SUB_ROLES } from '@/lib/permissions';
+import { withTransaction, setTenantContext, generateUuid } from '@/lib/database';
+import {
+  getClaimingCompany,
+  getCompanyQualifications,
+  checkClaimEligibility,
+  checkQualifications
+} from '@/lib/eligibility';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  validationError,
+  forbiddenError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Lottery entries
+ * 抽選モード案件への応募（受付期間中は同じ会社の応募を上書き）と応募一覧
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const ENTRY_COLUMNS = `
+  id,
+  job_post_id,
+  company_id,
+  user_id,
+  work_dates::text[] AS work_dates,
+  crew_count,
+  status,
+  won_slot_count,
+  created_at,
+  updated_at
+`;
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId, userId, role } = auth;
+
+    const { id: jobPostId } = await params;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(lotteryEntrySchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { companyId, workDates, crewCount } = validation.data;
+
+    // 3. Apply in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const postQuery = await client.query(`
+        SELECT
+          id,
+          trade,
+          required_quals,
+          is_published,
+          allocation_mode,
+          lottery_closes_at,
+          lottery_drawn_at
+        FROM job_posts
+        WHERE id = $1 AND tenant_id = $2
+        FOR SHARE
+      `, [jobPostId, tenantId]);
+
+      const post = postQuery.rows[0];
+
+      if (!post || !post.is_published) {
+        throw new Error('JOB_POST_NOT_FOUND');
+      }
+
+      if (post.allocation_mode !== 'lottery') {
+        throw new Error('NOT_LOTTERY');
+      }
+
+      if (post.lottery_drawn_at || new Date(post.lottery_closes_at) <= new Date()) {
+        throw new Error('LOTTERY_CLOSED');
+      }
+
+      const company = await getClaimingCompany(client, tenantId, companyId);
+      const companyError = checkClaimEligibility(auth, company, post.trade);
+
+      if (companyError) {
+        return { eligibilityError: companyError };
+      }
+
+      const datesQuery = await client.query(`
+        SELECT DISTINCT work_date::text AS work_date
+        FROM job_slots
+        WHERE job_post_id = $1 AND tenant_id = $2 AND status = 'available'
+        ORDER BY work_date ASC
+      `, [jobPostId, tenantId]);
+
+      const postDates: string[] = datesQuery.rows.map((row: any) => row.work_date);
+      const unknownDates = (workDates || []).filter((date) => !postDates.includes(date));
+
+      if (unknownDates.length > 0) {
+        return { invalidDates: unknownDates };
+      }
+
+      // Qualifications must be valid on every date applied for
+      const qualifications = await getCompanyQualifications(client, tenantId, companyId);
+
+      for (const workDate of workDates || postDates) {
+        const qualificationError = checkQualifications(post.required_quals, qualifications, workDate);
+
+        if (qualificationError) {
+          return {
+            eligibilityError: {
+              ...qualificationError,
+              details: { ...qualificationError.details, work_date: workDate }
+            }
+          };
+        }
+      }
+
+      // Applying again during the window replaces the company's previous application
+      const upsert = await client.query(`
+        INSERT INTO lottery_entries (
+          id,
+          tenant_id,
+          job_post_id,
+          company_id,
+          user_id,
+          work_dates,
+          crew_count,
+          status,
+          created_at,
+          updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6::date[], $7, 'applied', now(), now())
+        ON CONFLICT (job_post_id, company_id) DO UPDATE
+        SET
+          user_id = EXCLUDED.user_id,
+          work_dates = EXCLUDED.work_dates,
+          crew_count = EXCLUDED.crew_count,
+          updated_at = now()
+        RETURNING ${ENTRY_COLUMNS}, (xmax = 0) AS inserted
+      `, [
+        generateUuid(),
+        tenantId,
+        jobPostId,
+        companyId,
+        userId || null,
+        workDates || null,
+        crewCount
+      ]);
+
+      const { inserted, ...entry } = upsert.rows[0];
+
+      // Insert audit log
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        inserted ? 'lottery_apply' : 'lottery_update_entry',
+        'lottery_entries',
+        entry.id,
+        JSON.stringify({
+          job_post_id: jobPostId,
+          company_id: companyId,
+          work_dates: workDates || null,
+          crew_count: crewCount
+        })
+      ]);
+
+      return { entry, isNew: inserted as boolean };
+    });
+
+    // 4. Handle transaction result
+    if (result.eligibilityError) {
+      return jsonError(
+        result.eligibilityError.code,
+        result.eligibilityError.message,
+        result.eligibilityError.status,
+        result.eligibilityError.details
+      );
+    }
+
+    if (result.invalidDates) {
+      return validationError(
+        `Work dates without open slots on this job post: ${result.invalidDates.join(', ')}`
+      );
+    }
+
+    const response: LotteryEntryResponse = {
+      entry: result.entry
+    };
+
+    return jsonSuccess(response, result.isNew ? 201 : 200);
+
+  } catch (error) {
+    console.error('Lottery entry API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'JOB_POST_NOT_FOUND':
+          return notFoundError('Job post');
+
+        case 'NOT_LOTTERY':
+          return conflictError(
+            'NOT_LOTTERY',
+            'This job post is allocated first-come-first-served. Claim slots directly.'
+          );
+
+        case 'LOTTERY_CLOSED':
+          return conflictError(
+            'LOTTERY_CLOSED',
+            'The lottery entry window for this job post has closed'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId } = auth;
+
+    const { id: jobPostId } = await params;
+
+    // Subcontractors only see their own company's application
+    const isSub = SUB_ROLES.includes(auth.role);
+    const companyId = isSub ? auth.companyId : null;
+
+    if (isSub && !companyId) {
+      return forbiddenError('You are not allowed to view lottery entries');
+    }
+
+    const entries = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const result = await client.query(`
+        SELECT ${ENTRY_COLUMNS}
+        FROM lottery_entries
+        WHERE job_post_id = $1
+          AND tenant_id = $2
+          AND ($3::uuid IS NULL OR company_id = $3::uuid)
+        ORDER BY created_at ASC, id ASC
+      `, [jobPostId, tenantId, companyId]);
+
+      return result.rows;
+    });
+
+    const response: LotteryEntriesResponse = {
+      entries
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Lottery entries API error:', error);
+    return handleApiError(error);
+  }
+}
+
+export async function PUT() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
+
+export async function DELETE() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
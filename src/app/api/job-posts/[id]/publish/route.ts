@@ -0,0 +1,192 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { JobPostResponse } from '@/types/api';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { jobPostColumns, getJobPost } from '@/lib/job-posts';
+import { syncJobSlots } from '@/lib/slot-generator';
+import { notifySlotEvent } from '@/lib/slot-events';
+import { generateEventId, createJobPostPublishedPayload } from '@/lib/crypto';
+import { generateLotterySeed } from '@/lib/lottery';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'job_posts:manage');
+
+    const { id: jobPostId } = await params;
+
+    // 2. Publish job post in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const current = await getJobPost(client, tenantId, jobPostId, true);
+
+      if (!current) {
+        throw new Error('JOB_POST_NOT_FOUND');
+      }
+
+      if (current.is_published) {
+        throw new Error('ALREADY_PUBLISHED');
+      }
+
+      // Lottery posts need an entry window that is still open
+      const isLottery = current.allocation_mode === 'lottery';
+
+      if (isLottery && (!current.lottery_closes_at || new Date(current.lottery_closes_at) <= new Date())) {
+        throw new Error('LOTTERY_WINDOW_CLOSED');
+      }
+
+      // The draw seed is fixed at publish and only disclosed once the draw has run
+      const updateResult = await client.query(`
+        UPDATE job_posts
+        SET
+          is_published = true,
+          published_at = now(),
+          lottery_seed = $3,
+          updated_at = now()
+        WHERE id = $1 AND tenant_id = $2 AND is_published = false
+        RETURNING ${jobPostColumns()}
+      `, [jobPostId, tenantId, isLottery ? generateLotterySeed() : null]);
+
+      if (updateResult.rows.length === 0) {
+        throw new Error('ALREADY_PUBLISHED');
+      }
+
+      const jobPost = updateResult.rows[0];
+
+      // Generate job_slots for every work day in the range (slot_no 1..capacity)
+      const slotSync = await syncJobSlots(client, tenantId, jobPost);
+
+      // Get project data for outbox payload
+      const projectQuery = await client.query(`
+        SELECT dw_project_id FROM projects WHERE id = $1 AND tenant_id = $2
+      `, [jobPost.project_id, tenantId]);
+
+      const payload = createJobPostPublishedPayload({
+        job_post_id: jobPost.id,
+        tenant_id: tenantId,
+        project_id: jobPost.project_id,
+        dw_project_id: projectQuery.rows[0]?.dw_project_id || null,
+        trade: jobPost.trade,
+        title: jobPost.title,
+        unit_price: jobPost.unit_price,
+        currency: jobPost.currency,
+        start_date: jobPost.start_date,
+        end_date: jobPost.end_date,
+        capacity: jobPost.capacity,
+        published_at: jobPost.published_at
+      });
+
+      // Insert integration outbox event
+      const eventId = generateEventId('job_post', jobPost.id);
+      await client.query(`
+        INSERT INTO integration_outbox (
+          event_id,
+          event_name,
+          payload,
+          target,
+          status,
+          next_attempt_at,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, now(), now())
+      `, [
+        eventId,
+        'job_post.published',
+        JSON.stringify(payload),
+        'dw',
+        'pending'
+      ]);
+
+      // Insert audit log
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        'publish_job',
+        'job_posts',
+        jobPostId,
+        JSON.stringify({
+          event_id: eventId,
+          published_at: jobPost.published_at,
+          slot_sync: slotSync,
+          previous_is_published: false,
+          new_is_published: true
+        })
+      ]);
+
+      // Let live slot streams pick up the newly generated slots
+      await notifySlotEvent(client, tenantId, 'slot.published', {
+        jobPostId: jobPost.id
+      });
+
+      return { jobPost, slotSync };
+    });
+
+    const response: JobPostResponse = {
+      job_post: result.jobPost,
+      slot_sync: result.slotSync
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Publish job post API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'JOB_POST_NOT_FOUND':
+          return notFoundError('Job post');
+
+        case 'ALREADY_PUBLISHED':
+          return conflictError(
+            'ALREADY_PUBLISHED',
+            'This job post is already published'
+          );
+
+        case 'LOTTERY_WINDOW_CLOSED':
+          return conflictError(
+            'LOTTERY_WINDOW_CLOSED',
+            'The lottery entry window must close in the future to publish this job post'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
+
+export async function PUT() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
+
+export async function DELETE() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
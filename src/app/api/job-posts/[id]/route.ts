@@ -0,0 +1,227 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { JobPostResponse } from '@/types/api';
+import { jobPostUpdateSchema, validateRequestBody } from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { hasPermission, requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import {
+  jobPostColumns,
+  getJobPost,
+  buildJobPostUpdate,
+  SLOT_SHAPING_FIELDS
+} from '@/lib/job-posts';
+import { syncJobSlots } from '@/lib/slot-generator';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  conflictError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authentication and authorization
+    const { tenantId, role } = await requireAuth(request);
+
+    const { id: jobPostId } = await params;
+
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const jobPost = await getJobPost(client, tenantId, jobPostId);
+
+      // Drafts are only visible to roles that manage job posts
+      if (!jobPost || (!jobPost.is_published && !hasPermission(role, 'job_posts:manage'))) {
+        throw new Error('JOB_POST_NOT_FOUND');
+      }
+
+      return jobPost;
+    });
+
+    const response: JobPostResponse = {
+      job_post: result
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Job post detail API error:', error);
+
+    if (error instanceof Error && error.message === 'JOB_POST_NOT_FOUND') {
+      return notFoundError('Job post');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'job_posts:manage');
+
+    const { id: jobPostId } = await params;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(jobPostUpdateSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const changes = validation.data;
+
+    // 3. Apply update in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const current = await getJobPost(client, tenantId, jobPostId, true);
+
+      if (!current) {
+        throw new Error('JOB_POST_NOT_FOUND');
+      }
+
+      // Validate the resulting date range against the stored values
+      const startDate = changes.startDate ?? current.start_date;
+      const endDate = changes.endDate ?? current.end_date;
+
+      if (startDate > endDate) {
+        throw new Error('INVALID_DATE_RANGE');
+      }
+
+      // Switching allocation mode once companies can see the post would be unfair to them
+      const allocationChanged =
+        changes.allocationMode !== undefined && changes.allocationMode !== current.allocation_mode;
+
+      if (allocationChanged && current.is_published) {
+        throw new Error('ALLOCATION_MODE_LOCKED');
+      }
+
+      if (changes.lotteryClosesAt !== undefined && current.lottery_drawn_at) {
+        throw new Error('LOTTERY_ALREADY_DRAWN');
+      }
+
+      const allocationMode = changes.allocationMode ?? current.allocation_mode;
+      const lotteryClosesAt =
+        changes.lotteryClosesAt !== undefined ? changes.lotteryClosesAt : current.lottery_closes_at;
+
+      if (allocationMode === 'lottery' && !lotteryClosesAt) {
+        throw new Error('LOTTERY_CLOSE_REQUIRED');
+      }
+
+      const { setClauses, values } = buildJobPostUpdate(changes);
+
+      const updateResult = await client.query(`
+        UPDATE job_posts
+        SET ${setClauses.join(', ')}, updated_at = now()
+        WHERE id = $${values.length + 1} AND tenant_id = $${values.length + 2}
+        RETURNING ${jobPostColumns()}
+      `, [...values, jobPostId, tenantId]);
+
+      const updated = updateResult.rows[0];
+
+      // Published posts keep their slots in line with the new range/capacity;
+      // claimed slots are never touched and are reported back instead
+      const shapeChanged = SLOT_SHAPING_FIELDS.some((field) => changes[field] !== undefined);
+      const slotSync = updated.is_published && shapeChanged
+        ? await syncJobSlots(client, tenantId, updated)
+        : undefined;
+
+      // Insert audit log with before/after values of the changed fields
+      const previous: Record<string, unknown> = {};
+      const next: Record<string, unknown> = {};
+      Object.keys(updated).forEach((column) => {
+        const before = (current as any)[column];
+        const after = updated[column];
+        if (column !== 'updated_at' && String(before) !== String(after)) {
+          previous[column] = before;
+          next[column] = after;
+        }
+      });
+
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        'update_job',
+        'job_posts',
+        jobPostId,
+        JSON.stringify({
+          previous,
+          updated: next,
+          slot_sync: slotSync
+        })
+      ]);
+
+      return { jobPost: updated, slotSync };
+    });
+
+    const response: JobPostResponse = {
+      job_post: result.jobPost,
+      slot_sync: result.slotSync
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Update job post API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'JOB_POST_NOT_FOUND':
+          return notFoundError('Job post');
+
+        case 'INVALID_DATE_RANGE':
+          return validationError('endDate must be on or after startDate');
+
+        case 'LOTTERY_CLOSE_REQUIRED':
+          return validationError('lotteryClosesAt is required for lottery allocation');
+
+        case 'ALLOCATION_MODE_LOCKED':
+          return conflictError(
+            'ALLOCATION_MODE_LOCKED',
+            'Allocation mode cannot be changed after the job post is published'
+          );
+
+        case 'LOTTERY_ALREADY_DRAWN':
+          return conflictError(
+            'LOTTERY_ALREADY_DRAWN',
+            'The lottery for this job post has already been drawn'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and PATCH methods are supported', 405);
+}
+
+export async function DELETE() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and PATCH methods are supported', 405);
+}
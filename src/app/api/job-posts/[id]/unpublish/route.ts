@@ -0,0 +1,121 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { JobPostResponse } from '@/types/api';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { jobPostColumns, getJobPost } from '@/lib/job-posts';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'job_posts:manage');
+
+    const { id: jobPostId } = await params;
+
+    // 2. Unpublish job post in transaction
+    // Existing claims are kept; the post simply stops accepting new claims
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const current = await getJobPost(client, tenantId, jobPostId, true);
+
+      if (!current) {
+        throw new Error('JOB_POST_NOT_FOUND');
+      }
+
+      if (!current.is_published) {
+        throw new Error('NOT_PUBLISHED');
+      }
+
+      const updateResult = await client.query(`
+        UPDATE job_posts
+        SET
+          is_published = false,
+          published_at = NULL,
+          updated_at = now()
+        WHERE id = $1 AND tenant_id = $2 AND is_published = true
+        RETURNING ${jobPostColumns()}
+      `, [jobPostId, tenantId]);
+
+      if (updateResult.rows.length === 0) {
+        throw new Error('NOT_PUBLISHED');
+      }
+
+      // Insert audit log
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        'unpublish_job',
+        'job_posts',
+        jobPostId,
+        JSON.stringify({
+          previous_published_at: current.published_at,
+          previous_is_published: true,
+          new_is_published: false
+        })
+      ]);
+
+      return updateResult.rows[0];
+    });
+
+    const response: JobPostResponse = {
+      job_post: result
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Unpublish job post API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'JOB_POST_NOT_FOUND':
+          return notFoundError('Job post');
+
+        case 'NOT_PUBLISHED':
+          return conflictError(
+            'NOT_PUBLISHED',
+            'This job post is not published'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
+
+export async function PUT() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
+
+export async function DELETE() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
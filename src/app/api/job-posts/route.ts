@@ -0,0 +1,276 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { JobPostResponse, JobPostsResponse } from '@/types/api';
+import {
+  jobPostCreateSchema,
+  jobPostsQuerySchema,
+  validateRequestBody,
+  validateQueryParams
+} from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { hasPermission, requirePermission } from '@/lib/permissions';
+import { withTransaction, generateUuid, setTenantContext, queryWithTenant } from '@/lib/database';
+import { jobPostColumns, serializeRequiredQuals } from '@/lib/job-posts';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, role } = await requireAuth(request);
+
+    // 2. Parse and validate query parameters
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(jobPostsQuerySchema, searchParams);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { trade, project_id, start_date, end_date, published, limit, offset } = validation.data;
+
+    // 3. Build query conditions
+    const conditions = ['jp.tenant_id = $1'];
+    const params: any[] = [tenantId];
+
+    // Drafts are only visible to roles that manage job posts
+    if (!hasPermission(role, 'job_posts:manage')) {
+      conditions.push('jp.is_published = true');
+    }
+
+    if (trade) {
+      params.push(trade);
+      conditions.push(`jp.trade = $${params.length}`);
+    }
+
+    if (project_id) {
+      params.push(project_id);
+      conditions.push(`jp.project_id = $${params.length}`);
+    }
+
+    // Date filters select posts overlapping the requested range
+    if (start_date) {
+      params.push(start_date);
+      conditions.push(`jp.end_date >= $${params.length}::date`);
+    }
+
+    if (end_date) {
+      params.push(end_date);
+      conditions.push(`jp.start_date <= $${params.length}::date`);
+    }
+
+    if (published) {
+      params.push(published === 'true');
+      conditions.push(`jp.is_published = $${params.length}`);
+    }
+
+    const whereClause = conditions.join(' AND ');
+
+    const totalCountResult = await queryWithTenant(
+      tenantId,
+      `SELECT COUNT(*) AS total_count FROM job_posts jp WHERE ${whereClause}`,
+      params
+    );
+
+    const jobPostsResult = await queryWithTenant(
+      tenantId,
+      `
+      SELECT
+        ${jobPostColumns('jp')},
+        (
+          SELECT COUNT(*)::int
+          FROM job_slots js
+          WHERE js.job_post_id = jp.id AND js.status = 'available'
+        ) AS available_slots
+      FROM job_posts jp
+      WHERE ${whereClause}
+      ORDER BY jp.start_date DESC, jp.created_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `,
+      [...params, limit, offset]
+    );
+
+    const response: JobPostsResponse = {
+      job_posts: jobPostsResult.rows,
+      total_count: parseInt(totalCountResult.rows[0].total_count)
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Job posts list API error:', error);
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'job_posts:manage');
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(jobPostCreateSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const data = validation.data;
+
+    // 3. Create job post (unpublished draft) in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      // Project must belong to the caller's tenant
+      const projectCheck = await client.query(`
+        SELECT id FROM projects WHERE id = $1 AND tenant_id = $2
+      `, [data.projectId, tenantId]);
+
+      if (projectCheck.rows.length === 0) {
+        throw new Error('PROJECT_NOT_FOUND');
+      }
+
+      const jobPostId = generateUuid();
+      const insertResult = await client.query(`
+        INSERT INTO job_posts (
+          id,
+          tenant_id,
+          project_id,
+          trade,
+          title,
+          description,
+          unit_price,
+          currency,
+          price_type,
+          required_quals,
+          area_hint,
+          start_date,
+          end_date,
+          capacity,
+          working_days,
+          skip_holidays,
+          allocation_mode,
+          lottery_closes_at,
+          approval_required,
+          approval_window_hours,
+          early_access_minutes,
+          early_access_min_rating,
+          max_claims_per_post,
+          max_claims_per_day,
+          max_claims_per_week,
+          cancellation_policy,
+          shift_templates,
+          is_published,
+          created_by
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
+          $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, false, $28
+        )
+        RETURNING ${jobPostColumns()}
+      `, [
+        jobPostId,
+        tenantId,
+        data.projectId,
+        data.trade,
+        data.title,
+        data.description ?? null,
+        data.unitPrice,
+        data.currency,
+        data.priceType,
+        serializeRequiredQuals(data.requiredQuals),
+        data.areaHint ?? null,
+        data.startDate,
+        data.endDate,
+        data.capacity,
+        data.workingDays,
+        data.skipHolidays,
+        data.allocationMode,
+        data.allocationMode === 'lottery' ? data.lotteryClosesAt : null,
+        data.approvalRequired,
+        data.approvalWindowHours,
+        data.earlyAccessMinutes ?? null,
+        data.earlyAccessMinRating ?? null,
+        data.maxClaimsPerPost ?? null,
+        data.maxClaimsPerDay ?? null,
+        data.maxClaimsPerWeek ?? null,
+        data.cancellationPolicy ? JSON.stringify(data.cancellationPolicy) : null,
+        JSON.stringify(data.shiftTemplates),
+        userId || null
+      ]);
+
+      const jobPost = insertResult.rows[0];
+
+      // Insert audit log
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        'create_job',
+        'job_posts',
+        jobPostId,
+        JSON.stringify({
+          project_id: data.projectId,
+          trade: data.trade,
+          title: data.title,
+          start_date: data.startDate,
+          end_date: data.endDate,
+          capacity: data.capacity,
+          working_days: data.workingDays,
+          shift_templates: data.shiftTemplates,
+          allocation_mode: data.allocationMode,
+          lottery_closes_at: data.allocationMode === 'lottery' ? data.lotteryClosesAt : null,
+          approval_required: data.approvalRequired,
+          early_access_minutes: data.earlyAccessMinutes ?? null,
+          early_access_min_rating: data.earlyAccessMinRating ?? null,
+          max_claims_per_post: data.maxClaimsPerPost ?? null,
+          max_claims_per_day: data.maxClaimsPerDay ?? null,
+          max_claims_per_week: data.maxClaimsPerWeek ?? null,
+          cancellation_policy: data.cancellationPolicy ?? null
+        })
+      ]);
+
+      return jobPost;
+    });
+
+    const response: JobPostResponse = {
+      job_post: result
+    };
+
+    return jsonSuccess(response, 201);
+
+  } catch (error) {
+    console.error('Create job post API error:', error);
+
+    if (error instanceof Error && error.message === 'PROJECT_NOT_FOUND') {
+      return notFoundError('Project');
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function PUT() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
+
+export async function DELETE() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
@@ -43,6 +43,12 @@ const openApiSpec = {
           slotId: { $ref: '#/components/schemas/UUID' },
           companyId: { $ref: '#/components/schemas/UUID' },
           requestId: { $ref: '#/components/schemas/UUID' },
+          crew: {
+            type: 'string',
+            maxLength: 50,
+            example: 'A班',
+            description: '派遣する班。同じ班で時間帯の重なる受注は 409 SHIFT_OVERLAP',
+          },
         },
         example: {
           slotId: '550e8400-e29b-41d4-a716-446655440601',
@@ -61,6 +67,11 @@ const openApiSpec = {
               id: { $ref: '#/components/schemas/UUID' },
               status: { type: 'string', example: 'claimed' },
               work_date: { type: 'string', format: 'date', example: '2024-01-15' },
+              shift_code: { type: ['string', 'null'], example: 'am' },
+              start_time: { type: ['string', 'null'], example: '08:00', description: 'テナントのタイムゾーン基準（終日スロットは null）' },
+              end_time: { type: ['string', 'null'], example: '12:00', description: '開始以前なら翌日（夜勤）' },
+              starts_at: { type: 'string', format: 'date-time' },
+              ends_at: { type: 'string', format: 'date-time' },
             },
           },
           claim: {
@@ -71,8 +82,80 @@ const openApiSpec = {
               company_id: { $ref: '#/components/schemas/UUID' },
               user_id: { oneOf: [{ $ref: '#/components/schemas/UUID' }, { type: 'null' }] },
               claimed_at: { type: 'string', format: 'date-time', example: '2024-01-01T12:00:00Z' },
+              status: {
+                type: 'string',
+                enum: ['active', 'pending_approval'],
+                description: '承認制の案件では pending_approval（承認まで claim.confirmed は送信されない）',
+              },
+              approval_expires_at: { type: ['string', 'null'], format: 'date-time' },
+              crew: { type: ['string', 'null'] },
+            },
+          },
+        },
+      },
+      ClaimApproval: {
+        type: 'object',
+        properties: {
+          id: { $ref: '#/components/schemas/UUID' },
+          job_slot_id: { $ref: '#/components/schemas/UUID' },
+          job_post_id: { $ref: '#/components/schemas/UUID' },
+          work_date: { type: 'string', format: 'date' },
+          company_id: { $ref: '#/components/schemas/UUID' },
+          user_id: { oneOf: [{ $ref: '#/components/schemas/UUID' }, { type: 'null' }] },
+          claimed_at: { type: 'string', format: 'date-time' },
+          status: { type: 'string', enum: ['pending_approval', 'active', 'cancelled', 'rejected', 'expired', 'no_show'] },
+          approval_expires_at: { type: ['string', 'null'], format: 'date-time' },
+          decided_at: { type: ['string', 'null'], format: 'date-time' },
+          decided_by: { oneOf: [{ $ref: '#/components/schemas/UUID' }, { type: 'null' }] },
+          rejection_reason: { type: ['string', 'null'] },
+        },
+      },
+      BundleClaimRequest: {
+        type: 'object',
+        required: ['companyId', 'requestId'],
+        description: 'slotIds か、jobPostId・dateFrom・dateTo・crewCount のいずれかを指定',
+        properties: {
+          companyId: { $ref: '#/components/schemas/UUID' },
+          requestId: { $ref: '#/components/schemas/UUID' },
+          slotIds: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/UUID' },
+            minItems: 1,
+            maxItems: 50,
+          },
+          jobPostId: { $ref: '#/components/schemas/UUID' },
+          dateFrom: { type: 'string', format: 'date', example: '2024-01-15' },
+          dateTo: { type: 'string', format: 'date', example: '2024-01-19' },
+          crewCount: { type: 'integer', minimum: 1, maximum: 50, example: 3 },
+          shiftCode: { type: 'string', example: 'am', description: 'jobPostId 指定時、このシフトのスロットのみ受注' },
+          crew: { type: 'string', maxLength: 50, example: 'A班', description: 'jobPostId 指定時は crewCount が1の場合のみ指定可' },
+        },
+        example: {
+          companyId: '550e8400-e29b-41d4-a716-446655440302',
+          requestId: '550e8400-e29b-41d4-a716-446655440999',
+          jobPostId: '550e8400-e29b-41d4-a716-446655440501',
+          dateFrom: '2024-01-15',
+          dateTo: '2024-01-19',
+          crewCount: 3,
+        },
+      },
+      BundleClaimResponse: {
+        type: 'object',
+        required: ['bundle', 'claims'],
+        properties: {
+          bundle: {
+            type: 'object',
+            required: ['id', 'request_id', 'company_id'],
+            properties: {
+              id: { $ref: '#/components/schemas/UUID' },
+              request_id: { type: 'string' },
+              company_id: { $ref: '#/components/schemas/UUID' },
             },
           },
+          claims: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/ClaimResponse' },
+          },
         },
       },
       CancelClaimRequest: {
@@ -85,25 +168,144 @@ const openApiSpec = {
             enum: ['no_show', 'weather', 'client_change', 'material_delay', 'other'],
             example: 'weather',
           },
+          mode: {
+            type: 'string',
+            enum: ['release', 'withdraw'],
+            default: 'withdraw',
+            description: 'release: スロットを available に戻して再受付 / withdraw: スロットを取り下げ（元請けロール・ops_admin のみ。下請けのキャンセルは常に release）',
+          },
         },
       },
       CancelClaimResponse: {
         type: 'object',
-        required: ['slot'],
+        required: ['slot', 'claim', 'mode'],
         properties: {
           slot: {
             type: 'object',
             required: ['id', 'status', 'canceled_at', 'cancel_reason'],
             properties: {
               id: { $ref: '#/components/schemas/UUID' },
-              status: { type: 'string', const: 'cancelled' },
-              canceled_at: { type: 'string', format: 'date-time', example: '2024-01-01T15:30:00Z' },
+              status: { type: 'string', enum: ['available', 'cancelled'] },
+              canceled_at: { type: ['string', 'null'], format: 'date-time', example: '2024-01-01T15:30:00Z' },
               cancel_reason: {
-                type: 'string',
-                enum: ['no_show', 'weather', 'client_change', 'material_delay', 'other'],
+                type: ['string', 'null'],
+                enum: ['no_show', 'weather', 'client_change', 'material_delay', 'other', null],
               },
             },
           },
+          claim: {
+            type: 'object',
+            required: ['id', 'status', 'cancelled_at', 'cancel_reason'],
+            properties: {
+              id: { $ref: '#/components/schemas/UUID' },
+              status: { type: 'string', const: 'cancelled' },
+              cancelled_at: { type: 'string', format: 'date-time' },
+              cancel_reason: { type: 'string' },
+            },
+          },
+          mode: { type: 'string', enum: ['release', 'withdraw'] },
+          penalty: {
+            oneOf: [{ $ref: '#/components/schemas/CancellationPenalty' }, { type: 'null' }],
+            description: '違約ポイント・違約金のあるキャンセル規定に該当した場合の記録',
+          },
+        },
+      },
+      CancellationRule: {
+        type: 'object',
+        required: ['within_hours', 'action'],
+        properties: {
+          within_hours: { type: 'integer', minimum: 1, maximum: 720, description: '作業日の開始（0時）まで何時間以内のキャンセルに適用するか' },
+          action: { type: 'string', enum: ['allow', 'approval', 'deny'] },
+          except_reasons: {
+            type: 'array',
+            items: { type: 'string', enum: ['no_show', 'weather', 'client_change', 'material_delay', 'other'] },
+            description: 'この規定を適用しない理由（より緩い規定で判定）',
+          },
+          penalty_points: { type: 'integer', minimum: 0 },
+          fee: { type: 'integer', minimum: 0, description: '案件の通貨での違約金' },
+        },
+      },
+      CancellationPolicy: {
+        type: 'object',
+        required: ['rules'],
+        properties: {
+          rules: { type: 'array', maxItems: 10, items: { $ref: '#/components/schemas/CancellationRule' } },
+        },
+        example: {
+          rules: [
+            { within_hours: 72, action: 'approval' },
+            { within_hours: 24, action: 'deny', except_reasons: ['weather'], fee: 10000 },
+          ],
+        },
+      },
+      CancellationRequest: {
+        type: 'object',
+        properties: {
+          claim_id: { $ref: '#/components/schemas/UUID' },
+          job_slot_id: { $ref: '#/components/schemas/UUID' },
+          job_post_id: { $ref: '#/components/schemas/UUID' },
+          work_date: { type: 'string', format: 'date' },
+          company_id: { $ref: '#/components/schemas/UUID' },
+          claim_status: { type: 'string', enum: ['active'] },
+          requested_at: { type: 'string', format: 'date-time' },
+          requested_by: { type: ['string', 'null'] },
+          reason: { type: 'string', enum: ['no_show', 'weather', 'client_change', 'material_delay', 'other'] },
+          mode: { type: 'string', enum: ['release', 'withdraw'] },
+          rule: { $ref: '#/components/schemas/CancellationRule' },
+        },
+      },
+      CancellationPenalty: {
+        type: 'object',
+        properties: {
+          id: { $ref: '#/components/schemas/UUID' },
+          company_id: { $ref: '#/components/schemas/UUID' },
+          claim_id: { type: ['string', 'null'] },
+          job_slot_id: { type: ['string', 'null'] },
+          work_date: { type: 'string', format: 'date' },
+          reason: { type: 'string' },
+          hours_before_work: { type: 'number' },
+          rule: { $ref: '#/components/schemas/CancellationRule' },
+          penalty_points: { type: 'integer' },
+          fee_amount: { type: 'integer' },
+          currency: { type: 'string', example: 'JPY' },
+          invoiced_at: { type: ['string', 'null'], format: 'date-time' },
+          created_at: { type: 'string', format: 'date-time' },
+        },
+      },
+      ClaimRescheduleRequest: {
+        type: 'object',
+        properties: {
+          id: { $ref: '#/components/schemas/UUID' },
+          claim_id: { $ref: '#/components/schemas/UUID' },
+          company_id: { $ref: '#/components/schemas/UUID' },
+          job_post_id: { $ref: '#/components/schemas/UUID' },
+          from_slot_id: { type: ['string', 'null'] },
+          from_work_date: { type: 'string', format: 'date' },
+          to_work_date: { type: 'string', format: 'date' },
+          proposed_by: { type: ['string', 'null'] },
+          proposed_by_party: { type: 'string', enum: ['gc', 'company'] },
+          note: { type: ['string', 'null'] },
+          status: { type: 'string', enum: ['pending', 'accepted', 'declined', 'closed'] },
+          decided_by: { type: ['string', 'null'] },
+          decided_at: { type: ['string', 'null'], format: 'date-time' },
+          decline_note: { type: ['string', 'null'] },
+          reschedule_id: { type: ['string', 'null'] },
+          created_at: { type: 'string', format: 'date-time' },
+        },
+      },
+      ClaimReschedule: {
+        type: 'object',
+        properties: {
+          id: { $ref: '#/components/schemas/UUID' },
+          claim_id: { $ref: '#/components/schemas/UUID' },
+          company_id: { $ref: '#/components/schemas/UUID' },
+          job_post_id: { $ref: '#/components/schemas/UUID' },
+          from_slot_id: { $ref: '#/components/schemas/UUID' },
+          from_work_date: { type: 'string', format: 'date' },
+          to_slot_id: { $ref: '#/components/schemas/UUID' },
+          to_work_date: { type: 'string', format: 'date' },
+          reason: { type: 'string' },
+          rescheduled_at: { type: 'string', format: 'date-time' },
         },
       },
       AlternativesResponse: {
@@ -118,6 +320,11 @@ const openApiSpec = {
               properties: {
                 slot_id: { $ref: '#/components/schemas/UUID' },
                 work_date: { type: 'string', format: 'date', example: '2024-01-16' },
+                shift_code: { type: ['string', 'null'], example: 'am' },
+                start_time: { type: ['string', 'null'], example: '08:00', description: 'テナントのタイムゾーン基準（終日スロットは null）' },
+                end_time: { type: ['string', 'null'], example: '12:00', description: '開始以前なら翌日（夜勤）' },
+                starts_at: { type: 'string', format: 'date-time' },
+                ends_at: { type: 'string', format: 'date-time' },
                 job_post: {
                   type: 'object',
                   required: ['id', 'title', 'trade'],
@@ -156,6 +363,237 @@ const openApiSpec = {
           },
         },
       },
+      JobPostCreateRequest: {
+        type: 'object',
+        required: ['projectId', 'trade', 'title', 'unitPrice', 'startDate', 'endDate', 'capacity'],
+        properties: {
+          projectId: { $ref: '#/components/schemas/UUID' },
+          trade: { type: 'string', example: 'interior' },
+          title: { type: 'string', example: '5階内装仕上げ工事' },
+          description: { oneOf: [{ type: 'string' }, { type: 'null' }] },
+          unitPrice: { type: 'integer', minimum: 0, example: 28000 },
+          currency: { type: 'string', default: 'JPY' },
+          priceType: { type: 'string', enum: ['fixed', 'range', 'bid'], default: 'fixed' },
+          requiredQuals: { type: 'array', items: { type: 'string' }, example: ['内装仕上工事業許可'] },
+          areaHint: { oneOf: [{ type: 'string' }, { type: 'null' }] },
+          startDate: { type: 'string', format: 'date', example: '2024-11-01' },
+          endDate: { type: 'string', format: 'date', example: '2024-11-15' },
+          capacity: { type: 'integer', minimum: 1, maximum: 100, example: 3 },
+          workingDays: {
+            type: 'array',
+            items: { type: 'integer', minimum: 1, maximum: 7 },
+            default: [1, 2, 3, 4, 5, 6],
+            description: 'ISO曜日（1=月〜7=日）',
+          },
+          skipHolidays: { type: 'boolean', default: true },
+          shiftTemplates: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/ShiftTemplate' },
+            maxItems: 6,
+            default: [],
+            description: '作業日ごとに生成するシフト（空なら終日1シフト）',
+          },
+          allocationMode: {
+            type: 'string',
+            enum: ['fcfs', 'lottery'],
+            default: 'fcfs',
+            description: 'lottery は締切まで応募を受け付け、締切後の抽選で割り当て',
+          },
+          approvalRequired: {
+            type: 'boolean',
+            default: false,
+            description: 'true の場合、受注は元請けの承認まで pending_approval',
+          },
+          approvalWindowHours: { type: 'integer', minimum: 1, maximum: 168, default: 24 },
+          earlyAccessMinutes: {
+            type: ['integer', 'null'],
+            minimum: 1,
+            maximum: 10080,
+            description: '公開から指定分数の間は優先協力会社（または earlyAccessMinRating 以上の会社）のみ受注可',
+          },
+          earlyAccessMinRating: { type: ['number', 'null'], minimum: 0, maximum: 5 },
+          maxClaimsPerPost: {
+            type: ['integer', 'null'],
+            minimum: 1,
+            description: '1社がこの案件で受注できるスロット数の上限（未指定はテナント設定）',
+          },
+          maxClaimsPerDay: { type: ['integer', 'null'], minimum: 1, description: 'この案件での1社・1作業日あたりの上限' },
+          maxClaimsPerWeek: { type: ['integer', 'null'], minimum: 1, description: 'この案件での1社・1週（月曜始まり）あたりの上限' },
+          cancellationPolicy: {
+            oneOf: [{ $ref: '#/components/schemas/CancellationPolicy' }, { type: 'null' }],
+            description: 'この案件のキャンセル規定（指定するとテナントの規定を置き換え）',
+          },
+          lotteryClosesAt: {
+            type: ['string', 'null'],
+            format: 'date-time',
+            description: '抽選の応募締切（allocationMode が lottery の場合は必須）',
+          },
+        },
+      },
+      ShiftTemplate: {
+        type: 'object',
+        required: ['code', 'name', 'start_time', 'end_time'],
+        properties: {
+          code: { type: 'string', pattern: '^[a-z0-9_-]{1,20}$', example: 'night' },
+          name: { type: 'string', example: '夜間' },
+          start_time: { type: 'string', pattern: '^([01]\\d|2[0-3]):[0-5]\\d$', example: '22:00' },
+          end_time: { type: 'string', pattern: '^([01]\\d|2[0-3]):[0-5]\\d$', example: '06:00' },
+        },
+      },
+      JobPostResponse: {
+        type: 'object',
+        required: ['job_post'],
+        properties: {
+          job_post: { type: 'object' },
+        },
+      },
+      SlotsResponse: {
+        type: 'object',
+        required: ['slots', 'next_cursor'],
+        properties: {
+          slots: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'job_post_id', 'work_date', 'slot_no', 'status', 'job_post', 'project'],
+              properties: {
+                id: { $ref: '#/components/schemas/UUID' },
+                job_post_id: { $ref: '#/components/schemas/UUID' },
+                work_date: { type: 'string', format: 'date' },
+                slot_no: { type: 'integer' },
+                shift_code: { type: ['string', 'null'], example: 'am' },
+                start_time: { type: ['string', 'null'], example: '08:00', description: 'テナントのタイムゾーン基準（終日スロットは null）' },
+                end_time: { type: ['string', 'null'], example: '12:00', description: '開始以前なら翌日（夜勤）' },
+                starts_at: { type: 'string', format: 'date-time' },
+                ends_at: { type: 'string', format: 'date-time' },
+                status: { type: 'string', enum: ['available'] },
+                claimable_at: {
+                  type: ['string', 'null'],
+                  format: 'date-time',
+                  description: '呼び出し元の会社が受注できるようになる時刻（先行受付期間中は期間終了時刻）',
+                },
+                job_post: { type: 'object' },
+                project: { type: 'object' },
+              },
+            },
+          },
+          next_cursor: {
+            type: ['string', 'null'],
+            description: '次ページ取得用カーソル（最終ページでは null）',
+          },
+        },
+      },
+      PreferredCompany: {
+        type: 'object',
+        required: ['company_id', 'company_name', 'created_at'],
+        properties: {
+          company_id: { $ref: '#/components/schemas/UUID' },
+          company_name: { type: 'string' },
+          rating: { type: ['number', 'null'] },
+          note: { type: ['string', 'null'] },
+          created_by: { type: ['string', 'null'] },
+          created_at: { type: 'string', format: 'date-time' },
+        },
+      },
+      CompanyReliability: {
+        type: 'object',
+        description: '直近 window_days 日の履歴。結果（完了・直前キャンセル・無断欠勤）が3件未満の間は score が null',
+        properties: {
+          score: { type: ['integer', 'null'], minimum: 0, maximum: 100 },
+          window_days: { type: 'integer', example: 180 },
+          claims: { type: 'integer' },
+          completions: { type: 'integer' },
+          late_cancellations: { type: 'integer' },
+          no_shows: { type: 'integer' },
+        },
+      },
+      Qualification: {
+        type: 'object',
+        required: ['id', 'company_id', 'name', 'verification_status'],
+        properties: {
+          id: { $ref: '#/components/schemas/UUID' },
+          company_id: { $ref: '#/components/schemas/UUID' },
+          name: { type: 'string', example: '第二種電気工事士' },
+          number: { type: ['string', 'null'] },
+          valid_until: { type: ['string', 'null'], format: 'date' },
+          files_url: { type: ['string', 'null'], description: 'ストレージ上の証明書ファイル（例: local://...）' },
+          file_name: { type: ['string', 'null'] },
+          file_content_type: { type: ['string', 'null'] },
+          verification_status: { type: 'string', enum: ['pending', 'verified', 'rejected'] },
+          verified_by: { type: ['string', 'null'] },
+          verified_at: { type: ['string', 'null'], format: 'date-time' },
+          rejection_reason: { type: ['string', 'null'] },
+        },
+      },
+      QualificationRequest: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', maxLength: 200 },
+          number: { type: ['string', 'null'], maxLength: 200 },
+          validUntil: { type: ['string', 'null'], format: 'date' },
+        },
+      },
+      QualificationResponse: {
+        type: 'object',
+        required: ['qualification'],
+        properties: {
+          qualification: { $ref: '#/components/schemas/Qualification' },
+        },
+      },
+      WaitlistEntry: {
+        type: 'object',
+        properties: {
+          id: { $ref: '#/components/schemas/UUID' },
+          job_post_id: { $ref: '#/components/schemas/UUID' },
+          work_date: { type: 'string', format: 'date' },
+          slot_id: {
+            oneOf: [{ $ref: '#/components/schemas/UUID' }, { type: 'null' }],
+            description: 'null は作業日の任意のスロットを待つ登録',
+          },
+          company_id: { $ref: '#/components/schemas/UUID' },
+          user_id: { oneOf: [{ $ref: '#/components/schemas/UUID' }, { type: 'null' }] },
+          crew: { type: ['string', 'null'], description: '自動受注時に手配する班' },
+          status: {
+            type: 'string',
+            enum: ['waiting', 'offered', 'claimed', 'expired', 'declined', 'skipped', 'left'],
+          },
+          offered_slot_id: { oneOf: [{ $ref: '#/components/schemas/UUID' }, { type: 'null' }] },
+          offered_at: { type: ['string', 'null'], format: 'date-time' },
+          offer_expires_at: { type: ['string', 'null'], format: 'date-time' },
+          claim_id: { oneOf: [{ $ref: '#/components/schemas/UUID' }, { type: 'null' }] },
+          last_checked_at: { type: ['string', 'null'], format: 'date-time', description: '待機のまま繰り上げを見送った最後の日時' },
+          last_pass_reason: { type: ['string', 'null'], description: '見送りの理由（CLAIM_LIMIT_REACHED など）' },
+          created_at: { type: 'string', format: 'date-time' },
+          position: { type: ['integer', 'null'], description: '待機中の順番（1 が先頭）' },
+        },
+      },
+      LotteryEntry: {
+        type: 'object',
+        properties: {
+          id: { $ref: '#/components/schemas/UUID' },
+          job_post_id: { $ref: '#/components/schemas/UUID' },
+          company_id: { $ref: '#/components/schemas/UUID' },
+          user_id: { oneOf: [{ $ref: '#/components/schemas/UUID' }, { type: 'null' }] },
+          work_dates: {
+            type: ['array', 'null'],
+            items: { type: 'string', format: 'date' },
+            description: 'null は全作業日に応募',
+          },
+          crew_count: { type: 'integer', minimum: 1, description: '作業日あたりの希望枠数' },
+          status: { type: 'string', enum: ['applied', 'won', 'lost'] },
+          won_slot_count: { type: 'integer' },
+          created_at: { type: 'string', format: 'date-time' },
+          updated_at: { type: 'string', format: 'date-time' },
+        },
+      },
+      WaitlistEntryResponse: {
+        type: 'object',
+        required: ['entry'],
+        properties: {
+          entry: { $ref: '#/components/schemas/WaitlistEntry' },
+        },
+      },
       ApiError: {
         type: 'object',
         required: ['code', 'message'],
@@ -168,6 +606,11 @@ const openApiSpec = {
             type: 'string',
             example: 'Invalid input data',
           },
+          details: {
+            type: 'object',
+            additionalProperties: true,
+            description: 'Error-specific details (e.g. missing_qualifications)',
+          },
         },
       },
     },
@@ -248,135 +691,1631 @@ const openApiSpec = {
           },
           '400': { $ref: '#/components/responses/ValidationError' },
           '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': {
+            description: 'Company not eligible (COMPANY_NOT_ELIGIBLE), caller not a member (NOT_COMPANY_MEMBER), early-access window (EARLY_ACCESS_ONLY, details.opens_at) or low reliability score (RELIABILITY_BLOCKED, RELIABILITY_DELAYED with details.opens_at)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+                example: {
+                  code: 'COMPANY_NOT_ELIGIBLE',
+                  message: 'This company cannot claim slots',
+                },
+              },
+            },
+          },
           '404': { $ref: '#/components/responses/NotFoundError' },
-          '409': { $ref: '#/components/responses/ConflictError' },
+          '409': {
+            description: 'Slot taken (ALREADY_CLAIMED), held by another company (SLOT_HELD) or company cap reached (CLAIM_LIMIT_REACHED)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+                example: {
+                  code: 'CLAIM_LIMIT_REACHED',
+                  message: 'Claim limit reached: 3 slots per company on this job post',
+                  details: {
+                    scope: 'post',
+                    limit: 3,
+                    current_count: 3,
+                    requested_count: 1,
+                    job_post_id: '550e8400-e29b-41d4-a716-446655440000',
+                    work_date: null,
+                  },
+                },
+              },
+            },
+          },
+          '422': {
+            description: 'Company is not registered for the post trade (TRADE_MISMATCH) or lacks required qualifications (MISSING_QUALIFICATION)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+                example: {
+                  code: 'MISSING_QUALIFICATION',
+                  message: 'Missing or expired qualifications: 第二種電気工事士',
+                  details: {
+                    missing_qualifications: [
+                      { name: '第二種電気工事士', reason: 'expired', valid_until: '2024-10-31' },
+                    ],
+                  },
+                },
+              },
+            },
+          },
         },
       },
     },
-    '/api/cancel-claim': {
+    '/api/claims/bundle': {
       post: {
-        summary: '受注キャンセル',
-        description: '既に受注確定したスロットをキャンセルします',
-        operationId: 'cancelClaim',
+        summary: 'まとめて受注',
+        description: '複数スロットを1トランザクションで受注確定します。1件でも確保できない場合は何も受注しません',
+        operationId: 'createBundleClaim',
         tags: ['Claims'],
         requestBody: {
           required: true,
           content: {
             'application/json': {
-              schema: { $ref: '#/components/schemas/CancelClaimRequest' },
+              schema: { $ref: '#/components/schemas/BundleClaimRequest' },
             },
           },
         },
         responses: {
           '200': {
-            description: 'キャンセル成功',
+            description: '全スロットの受注確定成功',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/CancelClaimResponse' },
+                schema: { $ref: '#/components/schemas/BundleClaimResponse' },
               },
             },
           },
-          '400': { $ref: '#/components/responses/ValidationError' },
           '401': { $ref: '#/components/responses/UnauthorizedError' },
           '403': {
-            description: 'Authorization error',
+            description: 'Company not eligible (COMPANY_NOT_ELIGIBLE) or caller not a member (NOT_COMPANY_MEMBER)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': {
+            description: 'Some slots are taken or held (BUNDLE_CONFLICT); nothing was claimed',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ApiError' },
                 example: {
-                  code: 'FORBIDDEN',
-                  message: 'You are not authorized to cancel this claim',
+                  code: 'BUNDLE_CONFLICT',
+                  message: 'Some slots in this bundle are no longer available. Nothing was claimed.',
+                  details: {
+                    conflicting_slot_ids: ['550e8400-e29b-41d4-a716-446655440601'],
+                    short_dates: [],
+                    alternatives: {
+                      '550e8400-e29b-41d4-a716-446655440601': [
+                        {
+                          slot_id: '550e8400-e29b-41d4-a716-446655440602',
+                          work_date: '2024-01-16',
+                          job_post: {
+                            id: '550e8400-e29b-41d4-a716-446655440501',
+                            title: '内装工事',
+                            trade: '内装',
+                          },
+                        },
+                      ],
+                    },
+                  },
                 },
               },
             },
           },
-          '404': { $ref: '#/components/responses/NotFoundError' },
-          '409': { $ref: '#/components/responses/ConflictError' },
+          '422': {
+            description: 'Invalid request, trade mismatch or missing qualifications (details.slot_id names the slot)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+              },
+            },
+          },
         },
       },
     },
-    '/api/alternatives': {
+    '/api/claims/pending': {
       get: {
-        summary: '代替候補取得',
-        description: '受注競合時の代替候補スロットを取得します',
-        operationId: 'getAlternatives',
-        tags: ['Alternatives'],
-        parameters: [
-          {
-            name: 'slotId',
-            in: 'query',
-            required: true,
-            schema: { $ref: '#/components/schemas/UUID' },
-            description: '競合したスロットのID',
-          },
-          {
-            name: 'days',
-            in: 'query',
-            required: false,
-            schema: {
-              type: 'integer',
-              minimum: 1,
-              maximum: 30,
-              default: 3,
+        summary: '承認待ち受注一覧',
+        description: '承認制の案件で承認待ちの受注を承認期限の近い順に返します（owner / gc_admin / ops_admin）',
+        operationId: 'listPendingClaims',
+        tags: ['Claims'],
+        responses: {
+          '200': {
+            description: '承認待ち一覧',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    claims: { type: 'array', items: { $ref: '#/components/schemas/ClaimApproval' } },
+                  },
+                },
+              },
             },
-            description: '検索する日数範囲（±days）',
           },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '承認権限なし' },
+        },
+      },
+    },
+    '/api/claims/{id}/approve': {
+      post: {
+        summary: '受注承認',
+        description: '承認待ちの受注を確定し、claim.confirmed イベントを送信します',
+        operationId: 'approveClaim',
+        tags: ['Claims'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
         ],
         responses: {
           '200': {
-            description: '代替候補取得成功',
+            description: '承認成功',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/AlternativesResponse' },
+                schema: { type: 'object', properties: { claim: { $ref: '#/components/schemas/ClaimApproval' } } },
               },
             },
           },
-          '400': { $ref: '#/components/responses/ValidationError' },
           '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '承認権限なし' },
           '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'CLAIM_NOT_PENDING / APPROVAL_EXPIRED（期限切れの受注はスロットを解放）' },
         },
       },
     },
-    '/api/job-posts': {
-      get: {
-        summary: '案件一覧取得',
-        description: '利用可能な案件の一覧を取得します',
-        operationId: 'getJobPosts',
-        tags: ['Job Posts'],
+    '/api/claims/{id}/reject': {
+      post: {
+        summary: '受注却下',
+        description: '承認待ちの受注を却下してスロットを再公開し、claim.rejected を通知します',
+        operationId: 'rejectClaim',
+        tags: ['Claims'],
         parameters: [
-          {
-            name: 'trade',
-            in: 'query',
-            required: false,
-            schema: { type: 'string' },
-            description: '職種フィルター',
-          },
-          {
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  reason: { type: 'string', maxLength: 500 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '却下成功',
+            content: {
+              'application/json': {
+                schema: { type: 'object', properties: { claim: { $ref: '#/components/schemas/ClaimApproval' } } },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '承認権限なし' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'CLAIM_NOT_PENDING' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+    },
+    '/api/claims/{id}/no-show': {
+      post: {
+        summary: '無断欠勤の報告',
+        description: '作業日以降の有効な受注を無断欠勤として記録し、スロットを取り下げて claim.no_show を送信します',
+        operationId: 'reportNoShow',
+        tags: ['Claims'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  note: { type: 'string', maxLength: 1000 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '報告成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    claim: {
+                      type: 'object',
+                      properties: {
+                        id: { $ref: '#/components/schemas/UUID' },
+                        job_slot_id: { $ref: '#/components/schemas/UUID' },
+                        company_id: { $ref: '#/components/schemas/UUID' },
+                        status: { type: 'string', enum: ['no_show'] },
+                        no_show_reported_at: { type: 'string', format: 'date-time' },
+                        no_show_reported_by: { type: ['string', 'null'] },
+                        no_show_note: { type: ['string', 'null'] },
+                      },
+                    },
+                    slot: {
+                      type: 'object',
+                      properties: {
+                        id: { $ref: '#/components/schemas/UUID' },
+                        status: { type: 'string', enum: ['cancelled'] },
+                        work_date: { type: 'string', format: 'date' },
+                        cancel_reason: { type: 'string', enum: ['no_show'] },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '報告権限なし' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'CLAIM_NOT_ACTIVE / ALREADY_COMPLETED / WORK_DATE_NOT_REACHED' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+    },
+    '/api/cancel-claim': {
+      post: {
+        summary: '受注キャンセル',
+        description: '既に受注確定したスロットをキャンセルします。下請けによるキャンセルにはテナント（または案件）のキャンセル規定が適用されます',
+        operationId: 'cancelClaim',
+        tags: ['Claims'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/CancelClaimRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'キャンセル成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CancelClaimResponse' },
+              },
+            },
+          },
+          '202': {
+            description: '承認が必要な規定に該当したため、元請けへのキャンセル申請として受付（受注は有効のまま）',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: { cancellation_request: { $ref: '#/components/schemas/CancellationRequest' } },
+                },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/ValidationError' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': {
+            description: 'Authorization error (FORBIDDEN) or refused by the cancellation policy (CANCELLATION_NOT_ALLOWED, details.rule)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+                example: {
+                  code: 'CANCELLATION_NOT_ALLOWED',
+                  message: 'Cancellations within 24 hours of the work date are not allowed',
+                  details: {
+                    rule: { within_hours: 24, action: 'deny', except_reasons: ['weather'] },
+                    hours_until_work: 15.5,
+                    reason: 'other',
+                  },
+                },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { $ref: '#/components/responses/ConflictError' },
+        },
+      },
+    },
+    '/api/claims/cancellation-requests': {
+      get: {
+        summary: 'キャンセル申請一覧',
+        description: '元請けの承認待ちのキャンセル申請（作業日の近い順）',
+        operationId: 'listCancellationRequests',
+        tags: ['Claims'],
+        responses: {
+          '200': {
+            description: '取得成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    cancellation_requests: { type: 'array', items: { $ref: '#/components/schemas/CancellationRequest' } },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '承認権限なし' },
+        },
+      },
+    },
+    '/api/claims/{id}/cancellation/approve': {
+      post: {
+        summary: 'キャンセル申請の承認',
+        description: '申請時の規定（違約ポイント・違約金）でキャンセルし、claim.cancelled を送信します',
+        operationId: 'approveCancellationRequest',
+        tags: ['Claims'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': {
+            description: 'キャンセル成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CancelClaimResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '承認権限なし' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+        },
+      },
+    },
+    '/api/claims/{id}/cancellation/reject': {
+      post: {
+        summary: 'キャンセル申請の却下',
+        description: '申請を取り下げ、受注は有効のままにします',
+        operationId: 'rejectCancellationRequest',
+        tags: ['Claims'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  note: { type: 'string', maxLength: 500 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: '却下成功' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '承認権限なし' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+    },
+    '/api/cancellation-penalties': {
+      get: {
+        summary: '違約ポイント・違約金一覧',
+        description: '規定に該当したキャンセルの違約ポイント・違約金（請求用）',
+        operationId: 'listCancellationPenalties',
+        tags: ['Claims'],
+        parameters: [
+          { name: 'company_id', in: 'query', required: false, schema: { $ref: '#/components/schemas/UUID' } },
+          { name: 'date_from', in: 'query', required: false, schema: { type: 'string', format: 'date' }, description: '作業日（開始）' },
+          { name: 'date_to', in: 'query', required: false, schema: { type: 'string', format: 'date' }, description: '作業日（終了）' },
+          { name: 'uninvoiced', in: 'query', required: false, schema: { type: 'string', enum: ['true', 'false'] }, description: '未請求のみ' },
+        ],
+        responses: {
+          '200': {
+            description: '取得成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    penalties: { type: 'array', items: { $ref: '#/components/schemas/CancellationPenalty' } },
+                    total_penalty_points: { type: 'integer' },
+                    total_fee_amount: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '閲覧権限なし' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+    },
+    '/api/claims/{id}/reschedule': {
+      post: {
+        summary: '日程変更の提案',
+        description: '有効な受注を同じ案件の別の作業日へ移す提案を登録し、相手方に claim.reschedule_proposed を通知します',
+        operationId: 'proposeReschedule',
+        tags: ['Claims'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['workDate'],
+                properties: {
+                  workDate: { type: 'string', format: 'date' },
+                  note: { type: 'string', maxLength: 500 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: '提案成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    reschedule_request: { $ref: '#/components/schemas/ClaimRescheduleRequest' },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '受注の当事者ではない' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'CLAIM_NOT_ACTIVE / RESCHEDULE_PENDING / NO_OPEN_SLOT' },
+          '422': { description: 'SAME_WORK_DATE / VALIDATION_ERROR' },
+        },
+      },
+    },
+    '/api/claims/{id}/reschedule/accept': {
+      post: {
+        summary: '日程変更の承諾',
+        description: '提案の相手方が承諾し、受注IDを維持したまま新しい作業日の空きスロットへ先着順で移動します（claim.rescheduled を送信）',
+        operationId: 'acceptReschedule',
+        tags: ['Claims'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': {
+            description: '移動成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    reschedule_request: { $ref: '#/components/schemas/ClaimRescheduleRequest' },
+                    reschedule: { $ref: '#/components/schemas/ClaimReschedule' },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '提案した側は回答できない' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'NO_OPEN_SLOT / CLAIM_LIMIT_REACHED' },
+          '422': { description: 'MISSING_QUALIFICATION' },
+        },
+      },
+    },
+    '/api/claims/{id}/reschedule/decline': {
+      post: {
+        summary: '日程変更の辞退',
+        description: '提案の相手方が辞退します。受注は元の作業日のままです',
+        operationId: 'declineReschedule',
+        tags: ['Claims'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  note: { type: 'string', maxLength: 500 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '辞退成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    reschedule_request: { $ref: '#/components/schemas/ClaimRescheduleRequest' },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '提案した側は回答できない' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+        },
+      },
+    },
+    '/api/claims/reschedule-requests': {
+      get: {
+        summary: '日程変更の提案一覧',
+        description: '日程変更の提案（下請けは自社分のみ）',
+        operationId: 'listRescheduleRequests',
+        tags: ['Claims'],
+        parameters: [
+          { name: 'status', in: 'query', required: false, schema: { type: 'string', enum: ['pending', 'accepted', 'declined', 'closed'], default: 'pending' } },
+        ],
+        responses: {
+          '200': {
+            description: '取得成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    reschedule_requests: { type: 'array', items: { $ref: '#/components/schemas/ClaimRescheduleRequest' } },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+    },
+    '/api/projects/{id}/weather-cancellation': {
+      post: {
+        summary: '雨天中止（一括キャンセル・順延）',
+        description: '現場の指定日の受注済みスロットを1トランザクションで取り下げ、または次の空きスロットへ順延し、影響を受けた会社ごとに weather.cancelled を通知します',
+        operationId: 'cancelProjectForWeather',
+        tags: ['Projects'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                description: 'workDate、または dateFrom と dateTo（最大31日）のいずれか',
+                properties: {
+                  workDate: { type: 'string', format: 'date' },
+                  dateFrom: { type: 'string', format: 'date' },
+                  dateTo: { type: 'string', format: 'date' },
+                  action: { type: 'string', enum: ['cancel', 'postpone'], default: 'cancel' },
+                  jobPostId: { $ref: '#/components/schemas/UUID' },
+                  note: { type: 'string', maxLength: 1000 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '処理成功（順延先がない受注は cancelled に含まれます）',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    id: { $ref: '#/components/schemas/UUID' },
+                    project_id: { $ref: '#/components/schemas/UUID' },
+                    date_from: { type: 'string', format: 'date' },
+                    date_to: { type: 'string', format: 'date' },
+                    action: { type: 'string', enum: ['cancel', 'postpone'] },
+                    cancelled: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          slot_id: { $ref: '#/components/schemas/UUID' },
+                          job_post_id: { $ref: '#/components/schemas/UUID' },
+                          work_date: { type: 'string', format: 'date' },
+                          claim_id: { $ref: '#/components/schemas/UUID' },
+                          company_id: { $ref: '#/components/schemas/UUID' },
+                          postpone_failure: {
+                            type: ['object', 'null'],
+                            description: '順延できず取り下げた理由（NO_OPEN_SLOT / MISSING_QUALIFICATION / CLAIM_LIMIT_REACHED / SHIFT_OVERLAP）',
+                            properties: {
+                              code: { type: 'string', example: 'NO_OPEN_SLOT' },
+                              message: { type: 'string' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                    postponed: { type: 'array', items: { $ref: '#/components/schemas/ClaimReschedule' } },
+                    notified_company_ids: { type: 'array', items: { $ref: '#/components/schemas/UUID' } },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Missing slots:weather_cancel permission' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'NOTHING_TO_CANCEL' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+    },
+    '/api/alternatives': {
+      get: {
+        summary: '代替候補取得',
+        description: '受注競合時の代替候補スロットを取得します',
+        operationId: 'getAlternatives',
+        tags: ['Alternatives'],
+        parameters: [
+          {
+            name: 'slotId',
+            in: 'query',
+            required: true,
+            schema: { $ref: '#/components/schemas/UUID' },
+            description: '競合したスロットのID',
+          },
+          {
+            name: 'days',
+            in: 'query',
+            required: false,
+            schema: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 30,
+              default: 3,
+            },
+            description: '検索する日数範囲（±days）',
+          },
+          {
+            name: 'companyId',
+            in: 'query',
+            required: false,
+            schema: { $ref: '#/components/schemas/UUID' },
+            description: '資格で絞り込む会社ID（省略時は下請けユーザーの所属会社）',
+          },
+        ],
+        responses: {
+          '200': {
+            description: '代替候補取得成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AlternativesResponse' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/ValidationError' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+        },
+      },
+    },
+    '/api/slots': {
+      get: {
+        summary: '空きスロット検索',
+        description: '公開中案件の空きスロットを作業日順に取得します（カーソルページング）',
+        operationId: 'getSlots',
+        tags: ['Slots'],
+        parameters: [
+          { name: 'trade', in: 'query', required: false, schema: { type: 'string' }, description: '職種フィルター' },
+          { name: 'project_id', in: 'query', required: false, schema: { $ref: '#/components/schemas/UUID' }, description: 'プロジェクトフィルター' },
+          { name: 'date_from', in: 'query', required: false, schema: { type: 'string', format: 'date' }, description: '作業日（開始）' },
+          { name: 'date_to', in: 'query', required: false, schema: { type: 'string', format: 'date' }, description: '作業日（終了）' },
+          { name: 'price_min', in: 'query', required: false, schema: { type: 'integer', minimum: 0 }, description: '単価下限' },
+          { name: 'price_max', in: 'query', required: false, schema: { type: 'integer', minimum: 0 }, description: '単価上限' },
+          { name: 'area_hint', in: 'query', required: false, schema: { type: 'string' }, description: 'エリア（部分一致）' },
+          { name: 'required_quals', in: 'query', required: false, schema: { type: 'string' }, description: '必要資格（カンマ区切り、すべてを要求する案件のみ）' },
+          { name: 'cursor', in: 'query', required: false, schema: { type: 'string' }, description: '前ページの next_cursor' },
+          { name: 'limit', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+        ],
+        responses: {
+          '200': {
+            description: 'スロット取得成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SlotsResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+    },
+    '/api/slots/stream': {
+      get: {
+        summary: 'スロット状態のリアルタイム配信',
+        description: 'テナント内の slot.claimed / slot.cancelled / slot.released / slot.published / slot.held / slot.hold_released を Server-Sent Events で配信します。Authorization ヘッダーが必要なため、ブラウザでは EventSource ではなく fetch でストリームを読み取ります。slot.held には確保した会社の held_by_company が含まれます',
+        operationId: 'streamSlots',
+        tags: ['Slots'],
+        responses: {
+          '200': {
+            description: 'イベントストリーム',
+            content: {
+              'text/event-stream': {
+                schema: { type: 'string' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+        },
+      },
+    },
+    '/api/slots/complete': {
+      post: {
+        summary: '作業完了登録',
+        description: '受注済みスロットを完了にし、slot.completed をダンドリワークへ送信します（元請けロール・ops_admin）',
+        operationId: 'completeSlots',
+        tags: ['Slots'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                description: 'slotIds、または jobPostId（workDate 任意）のどちらか',
+                properties: {
+                  slotIds: { type: 'array', items: { $ref: '#/components/schemas/UUID' }, minItems: 1, maxItems: 200 },
+                  jobPostId: { $ref: '#/components/schemas/UUID' },
+                  workDate: { type: 'string', format: 'date' },
+                  actualHours: { type: 'number', minimum: 0, maximum: 24 },
+                  notes: { type: 'string', maxLength: 1000 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '完了登録結果',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['completed', 'skipped'],
+                  properties: {
+                    completed: { type: 'array', items: { type: 'object' } },
+                    skipped: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          slot_id: { $ref: '#/components/schemas/UUID' },
+                          reason: {
+                            type: 'string',
+                            enum: ['not_found', 'not_claimed', 'already_completed', 'pending_approval', 'work_date_not_reached'],
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/ValidationError' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Missing slots:complete permission' },
+          '409': { description: 'NOTHING_TO_COMPLETE (details.skipped)' },
+        },
+      },
+    },
+    '/api/slots/review': {
+      get: {
+        summary: '完了確認待ちスロット',
+        description: '作業日を過ぎても受注中のままのスロット（日次ジョブで確認フラグ付与）',
+        operationId: 'listSlotsForReview',
+        tags: ['Slots'],
+        responses: {
+          '200': { description: 'スロット一覧（slots）' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Missing slots:complete permission' },
+        },
+      },
+    },
+    '/api/slots/{id}/hold': {
+      post: {
+        summary: 'スロット一時確保',
+        description: '予約フォーム入力中にスロットを3分間確保します。同じ会社が再度確保しても期限は延長されません。1社が同時に確保できるのは3件まで（キャンセル待ちのオファーを除く）で、確保の期限切れ・解除から3分間は同じ会社が同じスロットを再確保できません（受注は可能）',
+        operationId: 'holdSlot',
+        tags: ['Slots'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['companyId'],
+                properties: {
+                  companyId: { $ref: '#/components/schemas/UUID' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '確保成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['hold'],
+                  properties: {
+                    hold: {
+                      type: 'object',
+                      properties: {
+                        slot_id: { $ref: '#/components/schemas/UUID' },
+                        company_id: { $ref: '#/components/schemas/UUID' },
+                        held_until: { type: 'string', format: 'date-time' },
+                        expires_in_seconds: { type: 'integer', example: 180 },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'COMPANY_NOT_ELIGIBLE / NOT_COMPANY_MEMBER' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'ALREADY_CLAIMED / SLOT_HELD / HOLD_LIMIT_REACHED / HOLD_COOLDOWN（details.hold_available_at）' },
+          '422': { description: 'TRADE_MISMATCH / MISSING_QUALIFICATION / validation error' },
+        },
+      },
+      delete: {
+        summary: 'スロット一時確保の解除',
+        operationId: 'releaseSlotHold',
+        tags: ['Slots'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': { description: '解除成功' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+        },
+      },
+    },
+    '/api/waitlist': {
+      get: {
+        summary: 'キャンセル待ち一覧',
+        description: '下請けユーザーは自社の登録のみ取得できます',
+        operationId: 'listWaitlist',
+        tags: ['Waitlist'],
+        parameters: [
+          { name: 'companyId', in: 'query', required: false, schema: { $ref: '#/components/schemas/UUID' } },
+          {
+            name: 'status',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', enum: ['waiting', 'offered', 'claimed', 'expired', 'declined', 'skipped', 'left'] },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'キャンセル待ち一覧',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    entries: { type: 'array', items: { $ref: '#/components/schemas/WaitlistEntry' } },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '他社の一覧は取得不可' },
+        },
+      },
+      post: {
+        summary: 'キャンセル待ち登録',
+        description: '受注済み（または他社が確保中）のスロットのキャンセル待ちに登録します。scope: "date" は同じ案件・作業日の任意のスロットを待ちます。登録済みの場合は既存の登録を返します',
+        operationId: 'joinWaitlist',
+        tags: ['Waitlist'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['slotId', 'companyId'],
+                properties: {
+                  slotId: { $ref: '#/components/schemas/UUID' },
+                  companyId: { $ref: '#/components/schemas/UUID' },
+                  scope: { type: 'string', enum: ['slot', 'date'], default: 'slot' },
+                  crew: {
+                    type: 'string',
+                    maxLength: 50,
+                    description: '自動受注（auto_claim）時に手配する班。同じ班の勤務時間帯が重なる場合は繰り上げを見送ります',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '登録済み',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/WaitlistEntryResponse' } } },
+          },
+          '201': {
+            description: '登録成功',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/WaitlistEntryResponse' } } },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'COMPANY_NOT_ELIGIBLE / NOT_COMPANY_MEMBER' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'SLOT_AVAILABLE / SLOT_CLOSED / ALREADY_CLAIMED_BY_COMPANY' },
+          '422': { description: 'TRADE_MISMATCH / MISSING_QUALIFICATION / validation error' },
+        },
+      },
+    },
+    '/api/waitlist/{id}': {
+      get: {
+        summary: 'キャンセル待ち詳細',
+        operationId: 'getWaitlistEntry',
+        tags: ['Waitlist'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': {
+            description: 'キャンセル待ち詳細',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/WaitlistEntryResponse' } } },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+        },
+      },
+      delete: {
+        summary: 'キャンセル待ち取り消し',
+        description: 'オファー中の場合は確保を解除し、次の会社へ繰り上げます',
+        operationId: 'leaveWaitlist',
+        tags: ['Waitlist'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': {
+            description: '取り消し成功',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/WaitlistEntryResponse' } } },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '他社の登録は取り消し不可' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'WAITLIST_ENTRY_CLOSED' },
+        },
+      },
+    },
+    '/api/job-posts': {
+      get: {
+        summary: '案件一覧取得',
+        description: '利用可能な案件の一覧を取得します。下書き（非公開）の案件は job_posts:manage 権限（owner / gc_admin / ops_admin）のみ取得できます',
+        operationId: 'getJobPosts',
+        tags: ['Job Posts'],
+        parameters: [
+          {
+            name: 'trade',
+            in: 'query',
+            required: false,
+            schema: { type: 'string' },
+            description: '職種フィルター',
+          },
+          {
             name: 'start_date',
             in: 'query',
             required: false,
             schema: { type: 'string', format: 'date' },
             description: '開始日フィルター',
           },
-          {
-            name: 'end_date',
-            in: 'query',
-            required: false,
-            schema: { type: 'string', format: 'date' },
-            description: '終了日フィルター',
+          {
+            name: 'end_date',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', format: 'date' },
+            description: '終了日フィルター',
+          },
+          {
+            name: 'project_id',
+            in: 'query',
+            required: false,
+            schema: { $ref: '#/components/schemas/UUID' },
+            description: 'プロジェクトフィルター',
+          },
+          {
+            name: 'published',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', enum: ['true', 'false'] },
+            description: '公開状態フィルター',
+          },
+        ],
+        responses: {
+          '200': {
+            description: '案件一覧取得成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/JobPostsResponse' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/ValidationError' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+        },
+      },
+      post: {
+        summary: '案件作成',
+        description: '非公開（下書き）状態の案件を作成します',
+        operationId: 'createJobPost',
+        tags: ['Job Posts'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/JobPostCreateRequest' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: '案件作成成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/JobPostResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+    },
+    '/api/job-posts/{id}/publish': {
+      post: {
+        summary: '案件公開',
+        description: '案件を公開し、job_post.published イベントを送信します',
+        operationId: 'publishJobPost',
+        tags: ['Job Posts'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': {
+            description: '公開成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/JobPostResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { $ref: '#/components/responses/ConflictError' },
+        },
+      },
+    },
+    '/api/job-posts/{id}/lottery/entries': {
+      get: {
+        summary: '抽選応募一覧',
+        description: '下請けユーザーは自社の応募のみ取得できます',
+        operationId: 'listLotteryEntries',
+        tags: ['Job Posts'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': {
+            description: '応募一覧',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    entries: { type: 'array', items: { $ref: '#/components/schemas/LotteryEntry' } },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+        },
+      },
+      post: {
+        summary: '抽選応募',
+        description: '抽選モードの案件に受付期間中に応募します。同じ会社が再送すると応募内容を上書きします',
+        operationId: 'applyLottery',
+        tags: ['Job Posts'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['companyId'],
+                properties: {
+                  companyId: { $ref: '#/components/schemas/UUID' },
+                  workDates: {
+                    type: 'array',
+                    items: { type: 'string', format: 'date' },
+                    description: '省略時は全作業日',
+                  },
+                  crewCount: { type: 'integer', minimum: 1, maximum: 100, default: 1 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '応募を更新',
+            content: {
+              'application/json': {
+                schema: { type: 'object', properties: { entry: { $ref: '#/components/schemas/LotteryEntry' } } },
+              },
+            },
+          },
+          '201': {
+            description: '応募成功',
+            content: {
+              'application/json': {
+                schema: { type: 'object', properties: { entry: { $ref: '#/components/schemas/LotteryEntry' } } },
+              },
+            },
           },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'COMPANY_NOT_ELIGIBLE / NOT_COMPANY_MEMBER' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'NOT_LOTTERY / LOTTERY_CLOSED' },
+          '422': { description: 'TRADE_MISMATCH / MISSING_QUALIFICATION / validation error' },
+        },
+      },
+    },
+    '/api/job-posts/{id}/lottery/draw': {
+      post: {
+        summary: '抽選実行',
+        description: '締切済みの抽選を cron を待たずに実行します（元請け・ops_admin）。当選枠は受注登録され、落選した会社には lottery.lost 通知を送信します',
+        operationId: 'drawLottery',
+        tags: ['Job Posts'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
         ],
         responses: {
           '200': {
-            description: '案件一覧取得成功',
+            description: '抽選結果（seed で再現可能）',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/JobPostsResponse' },
+                schema: {
+                  type: 'object',
+                  properties: {
+                    draw: {
+                      type: 'object',
+                      properties: {
+                        job_post_id: { $ref: '#/components/schemas/UUID' },
+                        seed: { type: 'string' },
+                        drawn_at: { type: 'string', format: 'date-time' },
+                        entry_count: { type: 'integer' },
+                        allocated_slot_count: { type: 'integer' },
+                        unallocated_slot_count: { type: 'integer' },
+                        winner_entry_ids: { type: 'array', items: { $ref: '#/components/schemas/UUID' } },
+                        loser_entry_ids: { type: 'array', items: { $ref: '#/components/schemas/UUID' } },
+                      },
+                    },
+                  },
+                },
               },
             },
           },
-          '400': { $ref: '#/components/responses/ValidationError' },
           '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: '下請けユーザーは実行不可' },
+          '409': { description: 'LOTTERY_NOT_DUE' },
+        },
+      },
+    },
+    '/api/job-posts/{id}/unpublish': {
+      post: {
+        summary: '案件非公開',
+        description: '公開中の案件を非公開に戻します（既存の受注は保持）',
+        operationId: 'unpublishJobPost',
+        tags: ['Job Posts'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': {
+            description: '非公開成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/JobPostResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { $ref: '#/components/responses/ConflictError' },
+        },
+      },
+    },
+    '/api/companies/{id}': {
+      get: {
+        summary: '会社プロフィール',
+        description: '会社の基本情報と信頼度スコア（下請けは自社のみ、元請け・ops_admin はテナント内の全社）',
+        operationId: 'getCompany',
+        tags: ['Companies'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' }, description: '会社ID' },
+        ],
+        responses: {
+          '200': {
+            description: '取得成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    company: {
+                      type: 'object',
+                      properties: {
+                        id: { $ref: '#/components/schemas/UUID' },
+                        name: { type: 'string' },
+                        trades: { type: ['string', 'null'] },
+                        address: { type: ['string', 'null'] },
+                        rating: { type: ['number', 'null'] },
+                        is_active: { type: 'boolean' },
+                        reliability: { $ref: '#/components/schemas/CompanyReliability' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Not allowed for this company' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+        },
+      },
+    },
+    '/api/companies/{id}/qualifications': {
+      get: {
+        summary: '資格一覧',
+        description: '会社の資格一覧（下請けは自社のみ、元請け・ops_admin はテナント内の全社）',
+        operationId: 'listQualifications',
+        tags: ['Qualifications'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' }, description: '会社ID' },
+        ],
+        responses: {
+          '200': {
+            description: '取得成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    qualifications: { type: 'array', items: { $ref: '#/components/schemas/Qualification' } },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Not allowed for this company' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+        },
+      },
+      post: {
+        summary: '資格登録',
+        operationId: 'createQualification',
+        tags: ['Qualifications'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' }, description: '会社ID' },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/QualificationRequest' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: '登録成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/QualificationResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Not allowed for this company' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+    },
+    '/api/companies/{id}/qualifications/{qualificationId}': {
+      get: {
+        summary: '資格詳細',
+        operationId: 'getQualification',
+        tags: ['Qualifications'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' }, description: '会社ID' },
+          { name: 'qualificationId', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': {
+            description: '取得成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/QualificationResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Not allowed for this company' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+        },
+      },
+      patch: {
+        summary: '資格更新',
+        description: '更新すると確認状態は pending に戻ります',
+        operationId: 'updateQualification',
+        tags: ['Qualifications'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' }, description: '会社ID' },
+          { name: 'qualificationId', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/QualificationRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '更新成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/QualificationResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Not allowed for this company' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+      delete: {
+        summary: '資格削除',
+        operationId: 'deleteQualification',
+        tags: ['Qualifications'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' }, description: '会社ID' },
+          { name: 'qualificationId', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': { description: '削除成功' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Not allowed for this company' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+        },
+      },
+    },
+    '/api/companies/{id}/qualifications/{qualificationId}/file': {
+      get: {
+        summary: '証明書ファイル取得',
+        operationId: 'getQualificationFile',
+        tags: ['Qualifications'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' }, description: '会社ID' },
+          { name: 'qualificationId', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': { description: '証明書ファイル（PDF / JPEG / PNG）' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Not allowed for this company' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+        },
+      },
+      post: {
+        summary: '証明書ファイルアップロード',
+        description: 'multipart/form-data の file フィールド（PDF / JPEG / PNG、10MB まで）。確認状態は pending に戻ります',
+        operationId: 'uploadQualificationFile',
+        tags: ['Qualifications'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' }, description: '会社ID' },
+          { name: 'qualificationId', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['file'],
+                properties: {
+                  file: { type: 'string', format: 'binary' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'アップロード成功',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/QualificationResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Not allowed for this company' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '422': { $ref: '#/components/responses/ValidationError' },
+        },
+      },
+    },
+    '/api/companies/{id}/qualifications/{qualificationId}/verify': {
+      post: {
+        summary: '資格確認',
+        description: '元請け（owner / gc_admin）または ops_admin が証明書を確認します。却下時は reason 必須',
+        operationId: 'verifyQualification',
+        tags: ['Qualifications'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' }, description: '会社ID' },
+          { name: 'qualificationId', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['status'],
+                properties: {
+                  status: { type: 'string', enum: ['verified', 'rejected'] },
+                  reason: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '確認結果を記録',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/QualificationResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Not allowed for this company' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '422': { description: 'Validation error or CERTIFICATE_FILE_REQUIRED' },
+        },
+      },
+    },
+    '/api/preferred-companies': {
+      get: {
+        summary: '優先協力会社一覧',
+        description: '先行受付期間中に受注できる優先協力会社の一覧（owner / gc_admin / ops_admin）',
+        operationId: 'listPreferredCompanies',
+        tags: ['Preferred Companies'],
+        responses: {
+          '200': {
+            description: '一覧',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['companies'],
+                  properties: {
+                    companies: { type: 'array', items: { $ref: '#/components/schemas/PreferredCompany' } },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Missing preferred_companies:manage permission' },
+        },
+      },
+      post: {
+        summary: '優先協力会社登録',
+        operationId: 'addPreferredCompany',
+        tags: ['Preferred Companies'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['companyId'],
+                properties: {
+                  companyId: { $ref: '#/components/schemas/UUID' },
+                  note: { type: 'string', maxLength: 500 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: '登録成功',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['company'],
+                  properties: {
+                    company: { $ref: '#/components/schemas/PreferredCompany' },
+                  },
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Missing preferred_companies:manage permission' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
+          '409': { description: 'PREFERRED_COMPANY_EXISTS' },
+        },
+      },
+    },
+    '/api/preferred-companies/{companyId}': {
+      delete: {
+        summary: '優先協力会社解除',
+        operationId: 'removePreferredCompany',
+        tags: ['Preferred Companies'],
+        parameters: [
+          { name: 'companyId', in: 'path', required: true, schema: { $ref: '#/components/schemas/UUID' } },
+        ],
+        responses: {
+          '200': { description: '解除成功' },
+          '401': { $ref: '#/components/responses/UnauthorizedError' },
+          '403': { description: 'Missing preferred_companies:manage permission' },
+          '404': { $ref: '#/components/responses/NotFoundError' },
         },
       },
     },
@@ -390,10 +2329,34 @@ const openApiSpec = {
       name: 'Alternatives',
       description: '代替候補検索',
     },
+    {
+      name: 'Slots',
+      description: '空きスロット検索',
+    },
     {
       name: 'Job Posts',
       description: '案件管理',
     },
+    {
+      name: 'Waitlist',
+      description: 'キャンセル待ちと自動繰り上げ',
+    },
+    {
+      name: 'Projects',
+      description: '現場単位の一括操作（雨天中止）',
+    },
+    {
+      name: 'Companies',
+      description: '下請け会社のプロフィール・信頼度',
+    },
+    {
+      name: 'Qualifications',
+      description: '下請け会社の資格・証明書管理',
+    },
+    {
+      name: 'Preferred Companies',
+      description: '先行受付の優先協力会社',
+    },
   ],
 };
 
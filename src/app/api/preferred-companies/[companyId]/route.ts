@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { requirePermission } from '@/lib/permissions';
+import { queryWithTenant } from '@/lib/database';
+import {
+  jsonSuccess,
+  jsonError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> }
+) {
+  try {
+    // Authentication and authorization
+    const { tenantId } = await requirePermission(request, 'preferred_companies:manage');
+
+    const { companyId } = await params;
+
+    const result = await queryWithTenant(
+      tenantId,
+      `
+      DELETE FROM preferred_companies
+      WHERE company_id = $1 AND tenant_id = $2
+      RETURNING company_id
+      `,
+      [companyId, tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      return notFoundError('Preferred company');
+    }
+
+    return jsonSuccess({ company_id: companyId, deleted: true });
+
+  } catch (error) {
+    console.error('Remove preferred company API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only DELETE method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only DELETE method is supported', 405);
+}
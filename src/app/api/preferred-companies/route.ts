@@ -0,0 +1,126 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { PreferredCompany } from '@/types/api';
+import { preferredCompanyCreateSchema, validateRequestBody } from '@/lib/validation';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext, queryWithTenant } from '@/lib/database';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  validationError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * GC-maintained preferred subcontractors
+ * 優先協力会社は先行受付期間中でも受注できる
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const { tenantId } = await requirePermission(request, 'preferred_companies:manage');
+
+    const result = await queryWithTenant(
+      tenantId,
+      `
+      SELECT
+        pc.tenant_id,
+        pc.company_id,
+        c.name AS company_name,
+        c.rating::float8 AS rating,
+        pc.note,
+        pc.created_by,
+        pc.created_at
+      FROM preferred_companies pc
+      JOIN companies c ON pc.company_id = c.id
+      WHERE pc.tenant_id = $1
+      ORDER BY c.name ASC
+      `,
+      [tenantId]
+    );
+
+    const companies: PreferredCompany[] = result.rows;
+    return jsonSuccess({ companies });
+
+  } catch (error) {
+    console.error('Preferred companies list API error:', error);
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const { tenantId, userId } = await requirePermission(request, 'preferred_companies:manage');
+
+    const body = await request.json();
+    const validation = validateRequestBody(preferredCompanyCreateSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { companyId, note } = validation.data;
+
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      // Only subcontractors of this tenant can be preferred
+      const companyResult = await client.query(`
+        SELECT name, rating::float8 AS rating
+        FROM companies
+        WHERE id = $1 AND tenant_id = $2 AND is_gc = false
+      `, [companyId, tenantId]);
+
+      if (companyResult.rows.length === 0) {
+        throw new Error('COMPANY_NOT_FOUND');
+      }
+
+      const insertResult = await client.query(`
+        INSERT INTO preferred_companies (tenant_id, company_id, note, created_by)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (tenant_id, company_id) DO NOTHING
+        RETURNING tenant_id, company_id, note, created_by, created_at
+      `, [tenantId, companyId, note || null, userId || null]);
+
+      if (insertResult.rows.length === 0) {
+        throw new Error('PREFERRED_COMPANY_EXISTS');
+      }
+
+      return {
+        ...insertResult.rows[0],
+        company_name: companyResult.rows[0].name,
+        rating: companyResult.rows[0].rating
+      };
+    });
+
+    const company: PreferredCompany = result;
+    return jsonSuccess({ company }, 201);
+
+  } catch (error) {
+    console.error('Add preferred company API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'COMPANY_NOT_FOUND':
+          return notFoundError('Company');
+
+        case 'PREFERRED_COMPANY_EXISTS':
+          return conflictError(
+            'PREFERRED_COMPANY_EXISTS',
+            'This company is already on the preferred list'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function PUT() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
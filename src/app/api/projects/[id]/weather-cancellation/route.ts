@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { WeatherCancellationResponse } from '@/types/api';
+import { weatherCancellationSchema, validateRequestBody } from '@/lib/validation';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { cancelForWeather } from '@/lib/weather-cancellation';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Bulk weather cancellation by the GC
+ * 雨天等で現場が止まった日の受注を一括で中止、または次の空き日へ順延
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requirePermission(request, 'slots:weather_cancel');
+
+    const { id: projectId } = await params;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(weatherCancellationSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { workDate, dateFrom, dateTo, action, jobPostId, note } = validation.data;
+
+    // 3. Cancel or postpone every claimed slot in one transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, auth.tenantId);
+
+      return cancelForWeather(client, auth, projectId, {
+        dateFrom: workDate || dateFrom!,
+        dateTo: workDate || dateTo!,
+        action,
+        jobPostId: jobPostId || null,
+        note: note || null
+      });
+    });
+
+    if (result.cancelled.length === 0 && result.postponed.length === 0) {
+      return jsonError(
+        'NOTHING_TO_CANCEL',
+        'No claimed slots on the project for the given dates',
+        409
+      );
+    }
+
+    const response: WeatherCancellationResponse = result;
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Weather cancellation API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'PROJECT_NOT_FOUND':
+          return notFoundError('Project');
+
+        case 'JOB_POST_NOT_FOUND':
+          return notFoundError('Job post');
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
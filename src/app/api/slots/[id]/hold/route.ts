@@ -0,0 +1,248 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { SlotHoldResponse } from '@/types/api';
+import { slotHoldRequestSchema, validateRequestBody } from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { checkSlotEligibility } from '@/lib/eligibility';
+import {
+  HOLD_TTL_SECONDS,
+  HOLD_COOLDOWN_SECONDS,
+  MAX_ACTIVE_HOLDS_PER_COMPANY,
+  countActiveHolds,
+  holdExpiresInSeconds,
+  notInHoldCooldown
+} from '@/lib/slot-holds';
+import { notifySlotEvent } from '@/lib/slot-events';
+import { closeWaitlistOffer, promoteWaitlist } from '@/lib/waitlist';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  validationError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Temporary slot hold
+ * 予約フォーム入力中に HOLD_TTL_SECONDS だけスロットを確保（期限切れは自動解除。会社ごとの同時確保数と再確保までの待機時間を制限）
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId, userId } = auth;
+
+    const { id: slotId } = await params;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(slotHoldRequestSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { companyId } = validation.data;
+
+    // 3. Place the hold in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      // Only companies that could claim the slot may hold it
+      const eligibilityError = await checkSlotEligibility(client, auth, slotId, companyId);
+
+      if (eligibilityError) {
+        return { eligibilityError };
+      }
+
+      // A company may not sit on many slots at once
+      const activeHolds = await countActiveHolds(client, tenantId, companyId, slotId);
+
+      if (activeHolds >= MAX_ACTIVE_HOLDS_PER_COMPANY) {
+        return { isLimited: true, activeHolds };
+      }
+
+      // Free slot, or a hold that has already lapsed; the last holder waits out its cooldown first
+      const holdUpdate = await client.query(`
+        UPDATE job_slots
+        SET
+          held_by_company = $1,
+          held_by_user = $2,
+          held_until = now() + make_interval(secs => $3),
+          last_held_by_company = $1,
+          hold_cooldown_until = now() + make_interval(secs => $3) + make_interval(secs => $6),
+          updated_at = now()
+        WHERE
+          id = $4
+          AND tenant_id = $5
+          AND status = 'available'
+          AND (held_until IS NULL OR held_until <= now())
+          AND ${notInHoldCooldown('$1')}
+        RETURNING job_post_id, held_until
+      `, [companyId, userId || null, HOLD_TTL_SECONDS, slotId, tenantId, HOLD_COOLDOWN_SECONDS]);
+
+      if (holdUpdate.rows.length > 0) {
+        await notifySlotEvent(client, tenantId, 'slot.held', {
+          jobPostId: holdUpdate.rows[0].job_post_id,
+          slotId,
+          heldByCompany: companyId
+        });
+
+        return { isSuccess: true, heldUntil: holdUpdate.rows[0].held_until };
+      }
+
+      const slotCheck = await client.query(`
+        SELECT status, held_by_company, held_until, hold_cooldown_until
+        FROM job_slots
+        WHERE id = $1 AND tenant_id = $2
+      `, [slotId, tenantId]);
+
+      const slot = slotCheck.rows[0];
+
+      if (slot.status !== 'available') {
+        return { isConflict: true };
+      }
+
+      const isLive = slot.held_until && new Date(slot.held_until) > new Date();
+
+      // Holding again does not extend the company's own hold
+      if (isLive && slot.held_by_company === companyId) {
+        return { isSuccess: true, heldUntil: slot.held_until };
+      }
+
+      if (isLive) {
+        return { isHeld: true, heldUntil: slot.held_until };
+      }
+
+      // Free, but this company's own hold only just ended
+      return { isCoolingDown: true, cooldownUntil: slot.hold_cooldown_until };
+    });
+
+    // 4. Handle transaction result
+    if (result.eligibilityError) {
+      return jsonError(
+        result.eligibilityError.code,
+        result.eligibilityError.message,
+        result.eligibilityError.status,
+        result.eligibilityError.details
+      );
+    }
+
+    if (result.isConflict) {
+      return conflictError(
+        'ALREADY_CLAIMED',
+        'This slot has been claimed by someone else.'
+      );
+    }
+
+    if (result.isLimited) {
+      return jsonError(
+        'HOLD_LIMIT_REACHED',
+        `A company can hold at most ${MAX_ACTIVE_HOLDS_PER_COMPANY} slots at a time. Claim or release a held slot first.`,
+        409,
+        { max_active_holds: MAX_ACTIVE_HOLDS_PER_COMPANY, active_holds: result.activeHolds }
+      );
+    }
+
+    if (result.isCoolingDown) {
+      return jsonError(
+        'HOLD_COOLDOWN',
+        'Your hold on this slot has just ended. You can still claim it, or hold it again later.',
+        409,
+        { hold_available_at: new Date(result.cooldownUntil).toISOString() }
+      );
+    }
+
+    if (result.isHeld) {
+      return jsonError(
+        'SLOT_HELD',
+        'This slot is temporarily held by another company. Please try again shortly.',
+        409,
+        { held_until: result.heldUntil }
+      );
+    }
+
+    const response: SlotHoldResponse = {
+      hold: {
+        slot_id: slotId,
+        company_id: companyId,
+        held_until: new Date(result.heldUntil).toISOString(),
+        expires_in_seconds: holdExpiresInSeconds(result.heldUntil)
+      }
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Slot hold API error:', error);
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authentication and authorization
+    const { tenantId, userId, role, companyId } = await requireAuth(request);
+
+    const { id: slotId } = await params;
+
+    // Release the caller's own live hold (e.g. the booking form was closed); its cooldown starts now
+    const released = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const releaseResult = await client.query(`
+        UPDATE job_slots
+        SET
+          held_by_company = NULL,
+          held_by_user = NULL,
+          held_until = NULL,
+          last_held_by_company = held_by_company,
+          hold_cooldown_until = now() + make_interval(secs => $5),
+          updated_at = now()
+        WHERE
+          id = $1
+          AND tenant_id = $2
+          AND held_until > now()
+          AND (held_by_user = $3 OR held_by_company = $4)
+        RETURNING job_post_id
+      `, [slotId, tenantId, userId || null, companyId, HOLD_COOLDOWN_SECONDS]);
+
+      if (releaseResult.rows.length === 0) {
+        return false;
+      }
+
+      await notifySlotEvent(client, tenantId, 'slot.hold_released', {
+        jobPostId: releaseResult.rows[0].job_post_id,
+        slotId
+      });
+
+      // Releasing a waitlist offer declines it and passes the slot down the queue
+      if (companyId && await closeWaitlistOffer(client, tenantId, slotId, companyId, 'declined')) {
+        await promoteWaitlist(client, tenantId, slotId, { userId: userId || null, role });
+      }
+
+      return true;
+    });
+
+    if (!released) {
+      return notFoundError('Hold');
+    }
+
+    return jsonSuccess({ slot_id: slotId, released: true });
+
+  } catch (error) {
+    console.error('Slot hold release API error:', error);
+    return handleApiError(error);
+  }
+}
+
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST and DELETE methods are supported', 405);
+}
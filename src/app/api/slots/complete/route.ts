@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { SlotCompletionResponse } from '@/types/api';
+import { slotCompletionSchema, validateRequestBody } from '@/lib/validation';
+import { requirePermission } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { completeSlots } from '@/lib/slot-completion';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Slot completion by the GC
+ * 作業完了の記録（スロット単位、または案件・作業日単位でまとめて）
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, userId, role } = await requirePermission(request, 'slots:complete');
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(slotCompletionSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { slotIds, jobPostId, workDate, actualHours, notes } = validation.data;
+
+    // 3. Complete the slots in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      return completeSlots(
+        client,
+        tenantId,
+        slotIds ? { slotIds } : { jobPostId: jobPostId!, workDate },
+        {
+          actualHours: actualHours ?? null,
+          notes: notes || null,
+          actor: { userId: userId || null, role }
+        }
+      );
+    });
+
+    if (result.completed.length === 0) {
+      return jsonError(
+        'NOTHING_TO_COMPLETE',
+        'None of the slots can be completed',
+        409,
+        { skipped: result.skipped }
+      );
+    }
+
+    const response: SlotCompletionResponse = result;
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Slot completion API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only POST method is supported
+export async function GET() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only POST method is supported', 405);
+}
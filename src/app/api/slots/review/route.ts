@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server';
+import { SlotReviewResponse } from '@/types/api';
+import { requirePermission } from '@/lib/permissions';
+import { queryWithTenant } from '@/lib/database';
+import {
+  jsonSuccess,
+  jsonError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Slots flagged for review
+ * 作業日を過ぎても完了登録されていないスロット（作業日の古い順）
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const { tenantId } = await requirePermission(request, 'slots:complete');
+
+    const result = await queryWithTenant(
+      tenantId,
+      `
+      SELECT
+        js.id,
+        js.job_post_id,
+        jp.title AS job_post_title,
+        js.work_date::text AS work_date,
+        js.slot_no,
+        c.id AS claim_id,
+        c.company_id,
+        co.name AS company_name,
+        js.review_flagged_at
+      FROM job_slots js
+      JOIN job_posts jp ON js.job_post_id = jp.id
+      LEFT JOIN claims c ON js.id = c.job_slot_id AND c.status = 'active'
+      LEFT JOIN companies co ON c.company_id = co.id
+      WHERE js.tenant_id = $1
+        AND js.status = 'claimed'
+        AND js.review_flagged_at IS NOT NULL
+      ORDER BY js.work_date ASC, js.slot_no ASC
+      `,
+      [tenantId]
+    );
+
+    const response: SlotReviewResponse = {
+      slots: result.rows
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Slot review API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
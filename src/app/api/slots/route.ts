@@ -0,0 +1,234 @@
+import { NextRequest } from 'next/server';
+import { SlotListing, SlotsResponse } from '@/types/api';
+import { slotsQuerySchema, validateQueryParams } from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { queryWithTenant } from '@/lib/database';
+import { parseRequiredQuals } from '@/lib/job-posts';
+import { notHeldByOthers } from '@/lib/slot-holds';
+import { claimableFrom } from '@/lib/eligibility';
+import { slotTimeColumns } from '@/lib/shifts';
+import {
+  jsonSuccess,
+  jsonError,
+  validationError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Open slot search for subcontractors
+ * 公開中・空きスロットの検索（work_date 昇順、カーソルページング）
+ */
+
+// Cursor is the (work_date, id) of the last slot on the previous page
+function encodeCursor(workDate: string, slotId: string): string {
+  return Buffer.from(`${workDate}|${slotId}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { workDate: string; slotId: string } | null {
+  const [workDate, slotId] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(workDate || '') || !/^[0-9a-f-]{36}$/i.test(slotId || '')) {
+    return null;
+  }
+
+  return { workDate, slotId };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authentication and authorization
+    const { tenantId, companyId } = await requireAuth(request);
+
+    // 2. Parse and validate query parameters
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(slotsQuerySchema, searchParams);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const {
+      trade,
+      project_id,
+      date_from,
+      date_to,
+      price_min,
+      price_max,
+      area_hint,
+      required_quals,
+      cursor,
+      limit
+    } = validation.data;
+
+    // 3. Build query conditions
+    // Slots held by other companies are hidden until the hold lapses
+    const conditions = [
+      'js.tenant_id = $1',
+      `js.status = 'available'`,
+      'jp.is_published = true',
+      notHeldByOthers('$2::uuid', 'js')
+    ];
+    const params: any[] = [tenantId, companyId];
+
+    if (trade) {
+      params.push(trade);
+      conditions.push(`jp.trade = $${params.length}`);
+    }
+
+    if (project_id) {
+      params.push(project_id);
+      conditions.push(`jp.project_id = $${params.length}`);
+    }
+
+    if (date_from) {
+      params.push(date_from);
+      conditions.push(`js.work_date >= $${params.length}::date`);
+    }
+
+    if (date_to) {
+      params.push(date_to);
+      conditions.push(`js.work_date <= $${params.length}::date`);
+    }
+
+    if (price_min !== undefined) {
+      params.push(price_min);
+      conditions.push(`jp.unit_price >= $${params.length}`);
+    }
+
+    if (price_max !== undefined) {
+      params.push(price_max);
+      conditions.push(`jp.unit_price <= $${params.length}`);
+    }
+
+    if (area_hint) {
+      params.push(`%${area_hint}%`);
+      conditions.push(`jp.area_hint ILIKE $${params.length}`);
+    }
+
+    // Job post must require every listed qualification
+    const quals = parseRequiredQuals(required_quals);
+    if (quals.length > 0) {
+      params.push(quals);
+      conditions.push(`
+        ARRAY(
+          SELECT btrim(q) FROM unnest(string_to_array(COALESCE(jp.required_quals, ''), ',')) AS q
+        ) @> $${params.length}::text[]
+      `);
+    }
+
+    if (cursor) {
+      const decoded = decodeCursor(cursor);
+
+      if (!decoded) {
+        return validationError('cursor: Invalid cursor');
+      }
+
+      params.push(decoded.workDate, decoded.slotId);
+      conditions.push(`(js.work_date, js.id) > ($${params.length - 1}::date, $${params.length}::uuid)`);
+    }
+
+    // 4. Fetch one extra row to know whether another page exists
+    // The caller's rating and preferred status decide when early-access slots open to them
+    const slotsResult = await queryWithTenant(
+      tenantId,
+      `
+      WITH caller AS (
+        SELECT
+          c.rating,
+          EXISTS (
+            SELECT 1 FROM preferred_companies pc
+            WHERE pc.tenant_id = c.tenant_id AND pc.company_id = c.id
+          ) AS is_preferred
+        FROM companies c
+        WHERE c.id = $2::uuid AND c.tenant_id = $1
+      )
+      SELECT
+        js.id,
+        js.job_post_id,
+        js.work_date::text AS work_date,
+        js.slot_no,
+        ${slotTimeColumns('js')},
+        js.status,
+        jp.title,
+        jp.trade,
+        jp.description,
+        jp.unit_price,
+        jp.currency,
+        jp.start_date::text AS start_date,
+        jp.end_date::text AS end_date,
+        jp.area_hint,
+        jp.required_quals,
+        jp.published_at,
+        jp.early_access_minutes,
+        jp.early_access_min_rating,
+        caller.rating AS caller_rating,
+        caller.is_preferred AS caller_is_preferred,
+        p.id AS project_id,
+        p.name AS project_name,
+        p.address AS project_address
+      FROM job_slots js
+      JOIN job_posts jp ON js.job_post_id = jp.id
+      JOIN projects p ON jp.project_id = p.id
+      LEFT JOIN caller ON true
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY js.work_date ASC, js.id ASC
+      LIMIT $${params.length + 1}
+      `,
+      [...params, limit + 1]
+    );
+
+    const rows = slotsResult.rows.slice(0, limit);
+    const hasMore = slotsResult.rows.length > limit;
+
+    const slots: SlotListing[] = rows.map((row: any) => ({
+      id: row.id,
+      job_post_id: row.job_post_id,
+      work_date: row.work_date,
+      slot_no: row.slot_no,
+      shift_code: row.shift_code,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      starts_at: row.starts_at,
+      ends_at: row.ends_at,
+      status: row.status,
+      claimable_at: claimableFrom(row, {
+        is_preferred: row.caller_is_preferred === true,
+        rating: row.caller_rating
+      })?.toISOString() ?? null,
+      job_post: {
+        id: row.job_post_id,
+        title: row.title,
+        trade: row.trade,
+        description: row.description,
+        unit_price: row.unit_price,
+        currency: row.currency,
+        start_date: row.start_date,
+        end_date: row.end_date,
+        area_hint: row.area_hint,
+        required_quals: parseRequiredQuals(row.required_quals)
+      },
+      project: {
+        id: row.project_id,
+        name: row.project_name,
+        address: row.project_address
+      }
+    }));
+
+    const last = rows[rows.length - 1];
+    const response: SlotsResponse = {
+      slots,
+      next_cursor: hasMore && last ? encodeCursor(last.work_date, last.id) : null
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Slots list API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
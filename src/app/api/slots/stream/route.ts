@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { subscribeSlotEvents, formatSseMessage } from '@/lib/slot-events';
+import { jsonError, handleApiError } from '@/lib/responses';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Keeps proxies from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * Live slot availability (Server-Sent Events)
+ * slot.claimed / slot.cancelled / slot.released / slot.published / slot.held / slot.hold_released をテナント単位で配信
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const { tenantId } = await requireAuth(request);
+
+    const encoder = new TextEncoder();
+    let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+
+    const send = (chunk: string) => {
+      try {
+        controller?.enqueue(encoder.encode(chunk));
+      } catch {
+        // Stream already closed
+      }
+    };
+
+    // Subscribe before responding so a LISTEN failure surfaces as an API error
+    const unsubscribe = await subscribeSlotEvents(tenantId, (event) => {
+      send(formatSseMessage(event));
+    });
+
+    const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    let closed = false;
+    const cleanup = () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        controller = streamController;
+
+        // Tell the client how long to wait before reconnecting
+        send('retry: 3000\n\n');
+
+        request.signal.addEventListener('abort', () => {
+          cleanup();
+          try {
+            streamController.close();
+          } catch {
+            // Already closed
+          }
+        });
+      },
+      cancel() {
+        cleanup();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    });
+
+  } catch (error) {
+    console.error('Slot stream API error:', error);
+    return handleApiError(error);
+  }
+}
+
+// Only GET method is supported
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET method is supported', 405);
+}
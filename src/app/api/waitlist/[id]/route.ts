@@ -0,0 +1,193 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { WaitlistEntryResponse } from '@/types/api';
+import { requireAuth } from '@/lib/auth';
+import { canViewCompanyWaitlist, canManageCompanyWaitlist } from '@/lib/permissions';
+import { withTransaction, setTenantContext } from '@/lib/database';
+import { waitlistEntryColumns, promoteWaitlist } from '@/lib/waitlist';
+import { notifySlotEvent } from '@/lib/slot-events';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  forbiddenError,
+  notFoundError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Waitlist entry
+ * キャンセル待ちの確認と取り消し（確保中のオファーは解放して次の会社へ繰り上げ）
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId } = auth;
+
+    const { id: entryId } = await params;
+
+    const entry = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const result = await client.query(`
+        SELECT ${waitlistEntryColumns()}
+        FROM waitlist_entries w
+        WHERE w.id = $1 AND w.tenant_id = $2
+      `, [entryId, tenantId]);
+
+      return result.rows[0] || null;
+    });
+
+    if (!entry || !canViewCompanyWaitlist(auth, entry.company_id)) {
+      return notFoundError('Waitlist entry');
+    }
+
+    const response: WaitlistEntryResponse = {
+      entry
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Waitlist entry API error:', error);
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId, userId, role } = auth;
+
+    const { id: entryId } = await params;
+
+    const entry = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const current = await client.query(`
+        SELECT id, company_id, status, offered_slot_id
+        FROM waitlist_entries
+        WHERE id = $1 AND tenant_id = $2
+        FOR UPDATE
+      `, [entryId, tenantId]);
+
+      if (current.rows.length === 0) {
+        throw new Error('WAITLIST_ENTRY_NOT_FOUND');
+      }
+
+      const previous = current.rows[0];
+
+      if (!canManageCompanyWaitlist(auth, previous.company_id)) {
+        throw new Error('UNAUTHORIZED_WAITLIST');
+      }
+
+      if (previous.status !== 'waiting' && previous.status !== 'offered') {
+        throw new Error('WAITLIST_ENTRY_CLOSED');
+      }
+
+      await client.query(`
+        UPDATE waitlist_entries
+        SET status = 'left', updated_at = now()
+        WHERE id = $1
+      `, [entryId]);
+
+      // Insert audit log
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        'waitlist_leave',
+        'waitlist_entries',
+        entryId,
+        JSON.stringify({
+          company_id: previous.company_id,
+          previous_status: previous.status,
+          offered_slot_id: previous.offered_slot_id
+        })
+      ]);
+
+      // Turning down an offer frees the held slot for the next company in line
+      if (previous.status === 'offered' && previous.offered_slot_id) {
+        const released = await client.query(`
+          UPDATE job_slots
+          SET
+            held_by_company = NULL,
+            held_by_user = NULL,
+            held_until = NULL,
+            updated_at = now()
+          WHERE id = $1 AND tenant_id = $2 AND held_by_company = $3
+          RETURNING job_post_id
+        `, [previous.offered_slot_id, tenantId, previous.company_id]);
+
+        if (released.rows.length > 0) {
+          await notifySlotEvent(client, tenantId, 'slot.hold_released', {
+            jobPostId: released.rows[0].job_post_id,
+            slotId: previous.offered_slot_id
+          });
+
+          await promoteWaitlist(client, tenantId, previous.offered_slot_id, {
+            userId: userId || null,
+            role
+          });
+        }
+      }
+
+      const updated = await client.query(`
+        SELECT ${waitlistEntryColumns()}
+        FROM waitlist_entries w
+        WHERE w.id = $1
+      `, [entryId]);
+
+      return updated.rows[0];
+    });
+
+    const response: WaitlistEntryResponse = {
+      entry
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Waitlist leave API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'WAITLIST_ENTRY_NOT_FOUND':
+          return notFoundError('Waitlist entry');
+
+        case 'UNAUTHORIZED_WAITLIST':
+          return forbiddenError('You are not allowed to manage this waitlist entry');
+
+        case 'WAITLIST_ENTRY_CLOSED':
+          return conflictError(
+            'WAITLIST_ENTRY_CLOSED',
+            'This waitlist entry is no longer open'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function POST() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and DELETE methods are supported', 405);
+}
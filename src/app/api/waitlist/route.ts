@@ -0,0 +1,274 @@
+import { NextRequest } from 'next/server';
+import { PoolClient } from 'pg';
+import { WaitlistEntryResponse, WaitlistListResponse } from '@/types/api';
+import {
+  waitlistJoinSchema,
+  waitlistQuerySchema,
+  validateRequestBody,
+  validateQueryParams
+} from '@/lib/validation';
+import { requireAuth } from '@/lib/auth';
+import { canViewCompanyWaitlist, SUB_ROLES } from '@/lib/permissions';
+import { withTransaction, setTenantContext, generateUuid } from '@/lib/database';
+import { checkSlotEligibility } from '@/lib/eligibility';
+import { waitlistEntryColumns } from '@/lib/waitlist';
+import {
+  jsonSuccess,
+  jsonError,
+  conflictError,
+  validationError,
+  forbiddenError,
+  handleApiError
+} from '@/lib/responses';
+
+/**
+ * Waitlist
+ * 受注済みスロットのキャンセル待ち登録と一覧（枠が空くと先着順に確保＋通知、または自動受注）
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId, userId, role } = auth;
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = validateRequestBody(waitlistJoinSchema, body);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    const { slotId, companyId, scope, crew } = validation.data;
+
+    // 3. Join the queue in transaction
+    const result = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      // Only companies that could claim the slot may wait for it
+      const eligibilityError = await checkSlotEligibility(client, auth, slotId, companyId);
+
+      if (eligibilityError) {
+        return { eligibilityError };
+      }
+
+      const slotQuery = await client.query(`
+        SELECT
+          id,
+          job_post_id,
+          work_date::text AS work_date,
+          status,
+          claimed_by_company,
+          held_by_company,
+          held_until
+        FROM job_slots
+        WHERE id = $1 AND tenant_id = $2
+      `, [slotId, tenantId]);
+
+      const slot = slotQuery.rows[0];
+
+      if (slot.status === 'cancelled' || slot.status === 'completed') {
+        throw new Error('SLOT_CLOSED');
+      }
+
+      // A free slot should simply be claimed
+      const heldByOthers = slot.held_until
+        && new Date(slot.held_until) > new Date()
+        && slot.held_by_company !== companyId;
+
+      if (slot.status === 'available' && !heldByOthers) {
+        throw new Error('SLOT_AVAILABLE');
+      }
+
+      if (scope === 'slot' && slot.claimed_by_company === companyId) {
+        throw new Error('ALREADY_CLAIMED_BY_COMPANY');
+      }
+
+      const targetSlotId = scope === 'slot' ? slotId : null;
+
+      // Joining twice returns the open entry
+      const existing = await client.query(`
+        SELECT ${waitlistEntryColumns()}
+        FROM waitlist_entries w
+        WHERE w.tenant_id = $1
+          AND w.company_id = $2
+          AND w.job_post_id = $3
+          AND w.work_date = $4::date
+          AND w.slot_id IS NOT DISTINCT FROM $5::uuid
+          AND w.status IN ('waiting', 'offered')
+      `, [tenantId, companyId, slot.job_post_id, slot.work_date, targetSlotId]);
+
+      if (existing.rows.length > 0) {
+        return { isExisting: true, entry: existing.rows[0] };
+      }
+
+      const entryId = generateUuid();
+      await client.query(`
+        INSERT INTO waitlist_entries (
+          id,
+          tenant_id,
+          job_post_id,
+          work_date,
+          slot_id,
+          company_id,
+          user_id,
+          crew,
+          status,
+          created_at,
+          updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'waiting', now(), now())
+      `, [
+        entryId,
+        tenantId,
+        slot.job_post_id,
+        slot.work_date,
+        targetSlotId,
+        companyId,
+        userId || null,
+        crew || null
+      ]);
+
+      const inserted = await client.query(`
+        SELECT ${waitlistEntryColumns()}
+        FROM waitlist_entries w
+        WHERE w.id = $1
+      `, [entryId]);
+
+      const entry = inserted.rows[0];
+
+      // Insert audit log
+      await client.query(`
+        INSERT INTO audit_logs (
+          tenant_id,
+          actor_user_id,
+          actor_role,
+          action,
+          target_table,
+          target_id,
+          payload,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+      `, [
+        tenantId,
+        userId || null,
+        role,
+        'waitlist_join',
+        'waitlist_entries',
+        entryId,
+        JSON.stringify({
+          company_id: companyId,
+          slot_id: slotId,
+          scope,
+          job_post_id: slot.job_post_id,
+          work_date: slot.work_date,
+          position: entry.position
+        })
+      ]);
+
+      return { isSuccess: true, entry };
+    });
+
+    // 4. Handle transaction result
+    if (result.eligibilityError) {
+      return jsonError(
+        result.eligibilityError.code,
+        result.eligibilityError.message,
+        result.eligibilityError.status,
+        result.eligibilityError.details
+      );
+    }
+
+    const response: WaitlistEntryResponse = {
+      entry: result.entry
+    };
+
+    return jsonSuccess(response, result.isExisting ? 200 : 201);
+
+  } catch (error) {
+    console.error('Waitlist join API error:', error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'SLOT_CLOSED':
+          return conflictError(
+            'SLOT_CLOSED',
+            'This slot has been cancelled or completed'
+          );
+
+        case 'SLOT_AVAILABLE':
+          return conflictError(
+            'SLOT_AVAILABLE',
+            'This slot is available. Claim it instead of joining the waitlist.'
+          );
+
+        case 'ALREADY_CLAIMED_BY_COMPANY':
+          return conflictError(
+            'ALREADY_CLAIMED_BY_COMPANY',
+            'Your company has already claimed this slot'
+          );
+      }
+    }
+
+    return handleApiError(error);
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication and authorization
+    const auth = await requireAuth(request);
+    const { tenantId } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(waitlistQuerySchema, searchParams);
+
+    if (!validation.success) {
+      return validationError(validation.error);
+    }
+
+    // Subcontractors see their own company's entries by default
+    const companyId =
+      validation.data.companyId ||
+      (SUB_ROLES.includes(auth.role) ? auth.companyId : null);
+
+    if (companyId ? !canViewCompanyWaitlist(auth, companyId) : SUB_ROLES.includes(auth.role)) {
+      return forbiddenError('You are not allowed to view the waitlist of this company');
+    }
+
+    const entries = await withTransaction(async (client: PoolClient) => {
+      // Set tenant context for RLS
+      await setTenantContext(client, tenantId);
+
+      const result = await client.query(`
+        SELECT ${waitlistEntryColumns()}
+        FROM waitlist_entries w
+        WHERE w.tenant_id = $1
+          AND ($2::uuid IS NULL OR w.company_id = $2::uuid)
+          AND ($3::text IS NULL OR w.status = $3::text)
+        ORDER BY w.work_date ASC, w.created_at ASC, w.id ASC
+      `, [tenantId, companyId, validation.data.status || null]);
+
+      return result.rows;
+    });
+
+    const response: WaitlistListResponse = {
+      entries
+    };
+
+    return jsonSuccess(response);
+
+  } catch (error) {
+    console.error('Waitlist list API error:', error);
+    return handleApiError(error);
+  }
+}
+
+export async function PUT() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
+
+export async function DELETE() {
+  return jsonError('METHOD_NOT_ALLOWED', 'Only GET and POST methods are supported', 405);
+}
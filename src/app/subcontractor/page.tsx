@@ -1,95 +1,55 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { JobSlot, ClaimRequest, AlternativesResponse } from '@/types/api';
+import {
+  SlotListing,
+  SlotsResponse,
+  SlotStreamEvent,
+  ClaimRequest,
+  AlternativesResponse
+} from '@/types/api';
+import { subscribeSlotStream } from '@/lib/slot-stream';
 import BookingForm from '@/components/BookingForm';
 import BookingHistory from '@/components/BookingHistory';
 
-interface JobPost {
-  id: string;
-  title: string;
-  trade: string;
-  description: string | null;
-  unit_price: number;
-  currency: string;
-  start_date: string;
-  end_date: string;
-}
-
-interface JobSlotWithPost extends JobSlot {
-  job_post: JobPost;
-}
-
 export default function SubcontractorDashboard() {
-  const [availableSlots, setAvailableSlots] = useState<JobSlotWithPost[]>([]);
+  const [availableSlots, setAvailableSlots] = useState<SlotListing[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // 他社が受注・キャンセル・一時確保したスロット（リアルタイム通知で更新）
+  const [unavailableSlotIds, setUnavailableSlotIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [claimingSlot, setClaimingSlot] = useState<string | null>(null);
   const [companyId, setCompanyId] = useState('');
+  // ストリームのハンドラーから最新の会社IDを参照する
+  const companyIdRef = useRef('');
   const [alternatives, setAlternatives] = useState<AlternativesResponse | null>(null);
   const [showBookingForm, setShowBookingForm] = useState(false);
-  const [selectedSlot, setSelectedSlot] = useState<JobSlotWithPost | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<SlotListing | null>(null);
   const [showBookingHistory, setShowBookingHistory] = useState(false);
   const [currentUser, setCurrentUser] = useState<any>(null);
   const router = useRouter();
 
-  // 利用可能なスロットを取得（実際のAPIエンドポイントを作成する必要があります）
-  const fetchAvailableSlots = async () => {
+  // 利用可能なスロットを取得（cursor 指定時は次ページを追加）
+  const fetchAvailableSlots = async (cursor?: string) => {
     try {
       setLoading(true);
-      // TODO: 実際のAPIエンドポイント '/api/slots' を実装する必要があります
-      // const response = await fetch('/api/slots');
-      // const slots = await response.json();
-      // setAvailableSlots(slots);
-
-      // 一時的なダミーデータ
-      const dummySlots: JobSlotWithPost[] = [
-        {
-          id: 'slot-1',
-          tenant_id: 'tenant-1',
-          job_post_id: 'job-1',
-          work_date: '2024-12-01',
-          status: 'available',
-          claimed_by_company: null,
-          claimed_by_user: null,
-          claimed_at: null,
-          created_at: '2024-11-01T00:00:00Z',
-          updated_at: '2024-11-01T00:00:00Z',
-          job_post: {
-            id: 'job-1',
-            title: '基礎工事',
-            trade: '基礎工',
-            description: '住宅の基礎工事を行います',
-            unit_price: 150000,
-            currency: 'JPY',
-            start_date: '2024-12-01',
-            end_date: '2024-12-05'
-          }
-        },
-        {
-          id: 'slot-2',
-          tenant_id: 'tenant-1',
-          job_post_id: 'job-2',
-          work_date: '2024-12-03',
-          status: 'available',
-          claimed_by_company: null,
-          claimed_by_user: null,
-          claimed_at: null,
-          created_at: '2024-11-01T00:00:00Z',
-          updated_at: '2024-11-01T00:00:00Z',
-          job_post: {
-            id: 'job-2',
-            title: '鉄筋工事',
-            trade: '鉄筋工',
-            description: 'RC構造の鉄筋組立作業',
-            unit_price: 200000,
-            currency: 'JPY',
-            start_date: '2024-12-03',
-            end_date: '2024-12-07'
-          }
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      const token = localStorage.getItem('auth_token') || 'dev-token';
+
+      const response = await fetch(`/api/slots${query}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
         }
-      ];
-      setAvailableSlots(dummySlots);
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch slots: ${response.status}`);
+      }
+
+      const data: SlotsResponse = await response.json();
+      setAvailableSlots((prev) => (cursor ? [...prev, ...data.slots] : data.slots));
+      setNextCursor(data.next_cursor);
     } catch (error) {
       console.error('Failed to fetch slots:', error);
     } finally {
@@ -98,7 +58,7 @@ export default function SubcontractorDashboard() {
   };
 
   // 詳細予約フォームを開く
-  const openBookingForm = (slot: JobSlotWithPost) => {
+  const openBookingForm = (slot: SlotListing) => {
     setSelectedSlot(slot);
     setShowBookingForm(true);
   };
@@ -119,9 +79,12 @@ export default function SubcontractorDashboard() {
         requestId: `req-${Date.now()}`
       };
 
+      const token = localStorage.getItem('auth_token') || 'dev-token';
+
       const response = await fetch('/api/claims', {
         method: 'POST',
         headers: {
+          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(claimRequest),
@@ -145,7 +108,13 @@ export default function SubcontractorDashboard() {
   // 代替案を取得
   const fetchAlternatives = async (slotId: string) => {
     try {
-      const response = await fetch(`/api/alternatives?slotId=${slotId}&days=7`);
+      const token = localStorage.getItem('auth_token') || 'dev-token';
+
+      const response = await fetch(`/api/alternatives?slotId=${slotId}&days=7`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
       if (response.ok) {
         const data = await response.json();
         setAlternatives(data);
@@ -167,6 +136,57 @@ export default function SubcontractorDashboard() {
     fetchAvailableSlots();
   }, [router]);
 
+  useEffect(() => {
+    companyIdRef.current = companyId.trim();
+  }, [companyId]);
+
+  // スロットの状態変更をリアルタイムに受信（認証ヘッダーを送るため EventSource ではなく fetch で読む）
+  useEffect(() => {
+    const controller = new AbortController();
+    const token = localStorage.getItem('auth_token') || 'dev-token';
+
+    const markUnavailable = (slotId: string | null) => {
+      if (!slotId) {
+        return;
+      }
+      setUnavailableSlotIds((prev) => new Set(prev).add(slotId));
+    };
+
+    const markAvailable = (slotId: string | null) => {
+      setUnavailableSlotIds((prev) => {
+        const next = new Set(prev);
+        next.delete(slotId as string);
+        return next;
+      });
+      fetchAvailableSlots();
+    };
+
+    subscribeSlotStream(token, (event: SlotStreamEvent) => {
+      switch (event.type) {
+        case 'slot.claimed':
+        case 'slot.cancelled':
+          markUnavailable(event.slot_id);
+          break;
+        case 'slot.held':
+          // 他社が予約フォーム入力中（一時確保）のスロット。自社の確保はそのまま予約できる
+          if (event.held_by_company !== companyIdRef.current) {
+            markUnavailable(event.slot_id);
+          }
+          break;
+        // 再公開・確保解除・新規公開されたスロットは一覧を取り直して反映
+        case 'slot.released':
+        case 'slot.hold_released':
+          markAvailable(event.slot_id);
+          break;
+        case 'slot.published':
+          fetchAvailableSlots();
+          break;
+      }
+    }, controller.signal);
+
+    return () => controller.abort();
+  }, []);
+
   const logout = () => {
     localStorage.removeItem('currentUser');
     setCurrentUser(null);
@@ -270,7 +290,7 @@ export default function SubcontractorDashboard() {
         <div className="bg-white rounded-lg shadow-md p-6">
           <h2 className="text-2xl font-semibold text-gray-800 mb-6">利用可能な工事スロット</h2>
 
-          {loading ? (
+          {loading && availableSlots.length === 0 ? (
             <div className="text-center py-8">
               <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
               <p className="mt-2 text-gray-600">読み込み中...</p>
@@ -279,7 +299,7 @@ export default function SubcontractorDashboard() {
             <div className="text-center py-8">
               <p className="text-gray-600">現在利用可能なスロットはありません</p>
               <button
-                onClick={fetchAvailableSlots}
+                onClick={() => fetchAvailableSlots()}
                 className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
               >
                 更新
@@ -287,51 +307,73 @@ export default function SubcontractorDashboard() {
             </div>
           ) : (
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {availableSlots.map((slot) => (
-                <div
-                  key={slot.id}
-                  className="border border-gray-200 rounded-lg p-6 hover:shadow-lg transition-shadow"
-                >
-                  <div className="mb-4">
-                    <h3 className="text-xl font-semibold text-gray-800 mb-2">
-                      {slot.job_post.title}
-                    </h3>
-                    <div className="space-y-1 text-sm text-gray-600">
-                      <p><span className="font-medium">職種:</span> {slot.job_post.trade}</p>
-                      <p><span className="font-medium">作業日:</span> {slot.work_date}</p>
-                      <p><span className="font-medium">単価:</span> ¥{slot.job_post.unit_price.toLocaleString()}</p>
-                      <p><span className="font-medium">期間:</span> {slot.job_post.start_date} 〜 {slot.job_post.end_date}</p>
+              {availableSlots.map((slot) => {
+                const unavailable = unavailableSlotIds.has(slot.id);
+
+                return (
+                  <div
+                    key={slot.id}
+                    className={`border border-gray-200 rounded-lg p-6 transition-shadow ${
+                      unavailable ? 'bg-gray-100 opacity-50' : 'hover:shadow-lg'
+                    }`}
+                  >
+                    <div className="mb-4">
+                      <h3 className="text-xl font-semibold text-gray-800 mb-2">
+                        {slot.job_post.title}
+                      </h3>
+                      {unavailable && (
+                        <p className="mb-2 text-sm font-medium text-red-600">このスロットは予約済みです</p>
+                      )}
+                      <div className="space-y-1 text-sm text-gray-600">
+                        <p><span className="font-medium">職種:</span> {slot.job_post.trade}</p>
+                        <p><span className="font-medium">作業日:</span> {slot.work_date}</p>
+                        <p><span className="font-medium">単価:</span> ¥{slot.job_post.unit_price.toLocaleString()}</p>
+                        <p><span className="font-medium">期間:</span> {slot.job_post.start_date} 〜 {slot.job_post.end_date}</p>
+                      </div>
+                      {slot.job_post.description && (
+                        <p className="mt-2 text-sm text-gray-700">{slot.job_post.description}</p>
+                      )}
                     </div>
-                    {slot.job_post.description && (
-                      <p className="mt-2 text-sm text-gray-700">{slot.job_post.description}</p>
-                    )}
-                  </div>
 
-                  <div className="space-y-2">
-                    <button
-                      onClick={() => openBookingForm(slot)}
-                      className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-                    >
-                      詳細予約フォーム
-                    </button>
+                    <div className="space-y-2">
+                      <button
+                        onClick={() => openBookingForm(slot)}
+                        disabled={unavailable}
+                        className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                      >
+                        詳細予約フォーム
+                      </button>
 
-                    <button
-                      onClick={() => quickClaim(slot.id)}
-                      disabled={!companyId.trim() || claimingSlot === slot.id}
-                      className="w-full px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
-                    >
-                      {claimingSlot === slot.id ? '予約中...' : '簡単予約'}
-                    </button>
+                      <button
+                        onClick={() => quickClaim(slot.id)}
+                        disabled={unavailable || !companyId.trim() || claimingSlot === slot.id}
+                        className="w-full px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {claimingSlot === slot.id ? '予約中...' : '簡単予約'}
+                      </button>
 
-                    <button
-                      onClick={() => fetchAlternatives(slot.id)}
-                      className="w-full px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
-                    >
-                      代替案を見る
-                    </button>
+                      <button
+                        onClick={() => fetchAlternatives(slot.id)}
+                        className="w-full px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
+                      >
+                        代替案を見る
+                      </button>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
+            </div>
+          )}
+
+          {nextCursor && (
+            <div className="mt-6 text-center">
+              <button
+                onClick={() => fetchAvailableSlots(nextCursor)}
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+              >
+                {loading ? '読み込み中...' : 'さらに読み込む'}
+              </button>
             </div>
           )}
         </div>
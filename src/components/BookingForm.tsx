@@ -1,7 +1,7 @@
 'use client';
 
-import { useState } from 'react';
-import { ClaimRequest } from '@/types/api';
+import { useState, useEffect } from 'react';
+import { ClaimRequest, SlotHoldResponse } from '@/types/api';
 
 interface JobSlotWithPost {
   id: string;
@@ -37,6 +37,11 @@ interface BookingFormData {
   insuranceNumber: string;
 }
 
+// API 呼び出し用の認証ヘッダー（他の画面と同じトークン）
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('auth_token') || 'dev-token'}`
+});
+
 export default function BookingForm({ slot, onClose, onSuccess }: BookingFormProps) {
   const [formData, setFormData] = useState<BookingFormData>({
     companyId: '',
@@ -54,6 +59,70 @@ export default function BookingForm({ slot, onClose, onSuccess }: BookingFormPro
   const [errors, setErrors] = useState<Partial<BookingFormData>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [step, setStep] = useState(1); // 1: 基本情報, 2: 詳細情報, 3: 確認
+  // 入力中は他社に取られないようスロットを一時確保（残り時間はカウントダウン表示）
+  const [hold, setHold] = useState<SlotHoldResponse['hold'] | null>(null);
+  const [holdRemaining, setHoldRemaining] = useState(0);
+  const [isHolding, setIsHolding] = useState(false);
+
+  useEffect(() => {
+    if (!hold) {
+      return;
+    }
+
+    const expiresAt = Date.now() + hold.expires_in_seconds * 1000;
+    const tick = () => setHoldRemaining(Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000)));
+    tick();
+
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [hold]);
+
+  const holdExpired = hold !== null && holdRemaining === 0;
+
+  const formatRemaining = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  // スロットを一時確保
+  const placeHold = async (): Promise<boolean> => {
+    setIsHolding(true);
+
+    try {
+      const response = await fetch(`/api/slots/${slot.id}/hold`, {
+        method: 'POST',
+        headers: {
+          ...authHeaders(),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ companyId: formData.companyId.trim() }),
+      });
+
+      if (response.ok) {
+        const data: SlotHoldResponse = await response.json();
+        setHold(data.hold);
+        return true;
+      }
+
+      const error = await response.json();
+      alert(`スロットを確保できませんでした: ${error.message || '不明なエラー'}`);
+      return false;
+    } catch (error) {
+      console.error('Hold failed:', error);
+      alert('スロット確保中にエラーが発生しました');
+      return false;
+    } finally {
+      setIsHolding(false);
+    }
+  };
+
+  // 閉じるときは確保を解除して他社に開放
+  const handleClose = () => {
+    if (hold && !holdExpired) {
+      fetch(`/api/slots/${slot.id}/hold`, { method: 'DELETE', headers: authHeaders() }).catch((error) => {
+        console.error('Hold release failed:', error);
+      });
+    }
+    onClose();
+  };
 
   // バリデーション
   const validateStep1 = (): boolean => {
@@ -112,6 +181,7 @@ export default function BookingForm({ slot, onClose, onSuccess }: BookingFormPro
       const response = await fetch('/api/claims', {
         method: 'POST',
         headers: {
+          ...authHeaders(),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(claimRequest),
@@ -147,9 +217,19 @@ export default function BookingForm({ slot, onClose, onSuccess }: BookingFormPro
     }
   };
 
-  const handleNext = () => {
+  const handleNext = async () => {
     if (step === 1 && validateStep1()) {
-      setStep(2);
+      const companyId = formData.companyId.trim();
+
+      // 会社IDを変えた場合は確保し直す
+      if (hold && hold.company_id !== companyId && !holdExpired) {
+        await fetch(`/api/slots/${slot.id}/hold`, { method: 'DELETE', headers: authHeaders() });
+        setHold(null);
+      }
+
+      if ((hold && hold.company_id === companyId) || await placeHold()) {
+        setStep(2);
+      }
     } else if (step === 2 && validateStep2()) {
       setStep(3);
     }
@@ -174,7 +254,7 @@ export default function BookingForm({ slot, onClose, onSuccess }: BookingFormPro
               <p className="text-blue-100">{slot.job_post.title} - {slot.work_date}</p>
             </div>
             <button
-              onClick={onClose}
+              onClick={handleClose}
               className="text-white hover:text-gray-200 text-2xl"
             >
               ×
@@ -199,6 +279,13 @@ export default function BookingForm({ slot, onClose, onSuccess }: BookingFormPro
               '確認'
             }
           </p>
+          {hold && (
+            <p className="text-sm mt-1 font-medium">
+              {holdExpired
+                ? 'スロットの確保時間が切れました'
+                : `スロット確保中: 残り ${formatRemaining(holdRemaining)}`}
+            </p>
+          )}
         </div>
 
         <div className="p-6">
@@ -450,8 +537,18 @@ export default function BookingForm({ slot, onClose, onSuccess }: BookingFormPro
             </div>
 
             <div className="space-x-2">
+              {holdExpired && (
+                <button
+                  onClick={placeHold}
+                  disabled={isHolding}
+                  className="px-4 py-2 text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 disabled:text-gray-400"
+                >
+                  再確保
+                </button>
+              )}
+
               <button
-                onClick={onClose}
+                onClick={handleClose}
                 className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50"
               >
                 キャンセル
@@ -460,14 +557,15 @@ export default function BookingForm({ slot, onClose, onSuccess }: BookingFormPro
               {step < 3 ? (
                 <button
                   onClick={handleNext}
-                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                  disabled={isHolding}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
                 >
-                  次へ
+                  {isHolding ? '確保中...' : '次へ'}
                 </button>
               ) : (
                 <button
                   onClick={handleSubmit}
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || holdExpired}
                   className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400"
                 >
                   {isSubmitting ? '予約中...' : '予約確定'}
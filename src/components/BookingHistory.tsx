@@ -97,7 +97,10 @@ export default function BookingHistory({ isOpen, onClose }: BookingHistoryProps)
         }),
       });
 
-      if (response.ok) {
+      if (response.status === 202) {
+        // キャンセル規定により元請けの承認待ち（予約は有効のまま）
+        alert('キャンセルを申請しました。元請けの承認をお待ちください');
+      } else if (response.ok) {
         // ローカルストレージの状態を更新
         const updatedBookings = bookings.map(b =>
           b.slotId === booking.slotId ? { ...b, status: 'cancelled' as const } : b
@@ -106,7 +109,10 @@ export default function BookingHistory({ isOpen, onClose }: BookingHistoryProps)
         localStorage.setItem('userBookings', JSON.stringify(updatedBookings));
         alert('予約がキャンセルされました');
       } else {
-        alert('キャンセルに失敗しました');
+        const error = await response.json().catch(() => null);
+        alert(error?.code === 'CANCELLATION_NOT_ALLOWED'
+          ? 'キャンセル規定により、この期間はキャンセルできません'
+          : 'キャンセルに失敗しました');
       }
     } catch (error) {
       console.error('Cancel failed:', error);
@@ -0,0 +1,129 @@
+import { PoolClient } from 'pg';
+import { AlternativesResponse } from '@/types/api';
+import { notHeldByOthers } from '@/lib/slot-holds';
+import { slotTimeColumns } from '@/lib/shifts';
+
+/**
+ * Alternative slot search
+ * 受注競合時の代替候補（単発受注・まとめて受注で共通）
+ */
+
+export type AlternativeSlot = AlternativesResponse['alternatives'][number];
+
+/**
+ * Find slots to offer instead of a slot that could not be claimed; must run with tenant context set
+ * Search criteria:
+ * - Same project_id and trade
+ * - Within ±days range of original work_date
+ * - Status = 'available' and not held by another company
+ * - Company holds every required_quals entry, valid through work_date (when companyId is given)
+ * - Order by work_date ASC, slots with the original shift times first, then start time and created_at DESC
+ * @returns Up to `limit` alternatives, or null when the original slot does not exist
+ */
+export async function findAlternativeSlots(
+  client: PoolClient,
+  tenantId: string,
+  slotId: string,
+  options: {
+    days: number;
+    companyId: string | null;
+    excludeSlotIds?: string[];
+    limit?: number;
+  }
+): Promise<AlternativeSlot[] | null> {
+  const originalSlotQuery = await client.query(`
+    SELECT
+      js.job_post_id,
+      js.work_date,
+      js.start_time,
+      js.end_time,
+      jp.project_id,
+      jp.trade,
+      jp.title as job_title
+    FROM job_slots js
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    WHERE js.id = $1 AND js.tenant_id = $2
+  `, [slotId, tenantId]);
+
+  if (originalSlotQuery.rows.length === 0) {
+    return null;
+  }
+
+  const originalSlot = originalSlotQuery.rows[0];
+
+  const alternativesResult = await client.query(`
+    SELECT
+      js.id as slot_id,
+      js.work_date,
+      ${slotTimeColumns('js')},
+      jp.id as job_post_id,
+      jp.title,
+      jp.trade,
+      js.created_at
+    FROM job_slots js
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    WHERE
+      jp.project_id = $1
+      AND jp.trade = $2
+      AND js.status = 'available'
+      AND jp.is_published = true
+      AND (jp.allocation_mode = 'fcfs' OR jp.lottery_drawn_at IS NOT NULL)
+      AND ${notHeldByOthers('$7::uuid', 'js')}
+      AND js.id != $3
+      AND NOT (js.id = ANY($8::uuid[]))
+      AND js.work_date BETWEEN
+        ($4::date - INTERVAL '1 day' * $6) AND
+        ($4::date + INTERVAL '1 day' * $6)
+      AND js.tenant_id = $5
+      AND (
+        $7::uuid IS NULL
+        OR NOT EXISTS (
+          SELECT 1
+          FROM unnest(string_to_array(COALESCE(jp.required_quals, ''), ',')) AS rq(name)
+          WHERE btrim(rq.name) <> ''
+            AND NOT EXISTS (
+              SELECT 1
+              FROM qualifications q
+              WHERE q.company_id = $7::uuid
+                AND q.tenant_id = js.tenant_id
+                AND btrim(q.name) = btrim(rq.name)
+                AND q.verification_status <> 'rejected'
+                AND (q.valid_until IS NULL OR q.valid_until >= js.work_date)
+            )
+        )
+      )
+    ORDER BY
+      js.work_date ASC,
+      (js.start_time IS NOT DISTINCT FROM $10::time AND js.end_time IS NOT DISTINCT FROM $11::time) DESC,
+      js.starts_at ASC,
+      js.created_at DESC
+    LIMIT $9
+  `, [
+    originalSlot.project_id,
+    originalSlot.trade,
+    slotId,
+    originalSlot.work_date,
+    tenantId,
+    options.days,
+    options.companyId,
+    options.excludeSlotIds || [],
+    options.limit || 3,
+    originalSlot.start_time,
+    originalSlot.end_time
+  ]);
+
+  return alternativesResult.rows.map((row: any) => ({
+    slot_id: row.slot_id,
+    work_date: row.work_date,
+    shift_code: row.shift_code,
+    start_time: row.start_time,
+    end_time: row.end_time,
+    starts_at: row.starts_at,
+    ends_at: row.ends_at,
+    job_post: {
+      id: row.job_post_id,
+      title: row.title,
+      trade: row.trade
+    }
+  }));
+}
@@ -1,88 +1,185 @@
 import { NextRequest } from 'next/server';
-import { jwtVerify } from 'jose';
+import { readFileSync } from 'fs';
+import {
+  jwtVerify,
+  decodeProtectedHeader,
+  createLocalJWKSet,
+  JSONWebKeySet,
+  JWTVerifyGetKey
+} from 'jose';
+import { MembershipRole } from '@/types/api';
+import { queryWithTenant } from '@/lib/database';
 
 export interface JWTPayload {
   tenant_id: string;
   user_id?: string;
+  sub?: string;
   role?: string;
   exp?: number;
+  nbf?: number;
 }
 
-export function getTenantFromJwt(request: NextRequest): string | null {
+// Verified principal available to every route
+export interface AuthContext {
+  tenantId: string;
+  userId: string;
+  role: MembershipRole;
+  companyId: string | null;
+}
+
+// Symmetric tokens use JWT_SECRET; asymmetric tokens are checked against a local JWKS file
+const SYMMETRIC_ALGORITHMS = ['HS256'];
+const ASYMMETRIC_ALGORITHMS = ['RS256', 'ES256'];
+
+// Allowed clock skew for exp/nbf checks
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+// Fixed principal for local development (seed data sub_admin; AUTH_DEV_ROLE overrides the role)
+const DEV_TOKEN = 'dev-token';
+const DEV_AUTH_CONTEXT: AuthContext = {
+  tenantId: '550e8400-e29b-41d4-a716-446655440001',
+  userId: '550e8400-e29b-41d4-a716-446655440201',
+  role: 'sub_admin',
+  companyId: '550e8400-e29b-41d4-a716-446655440302'
+};
+
+let cachedJwks: { path: string; keySet: JWTVerifyGetKey } | null = null;
+
+/**
+ * The dev-token bypass is only honoured when explicitly enabled outside production
+ */
+export function isDevBypassEnabled(): boolean {
+  return process.env.AUTH_DEV_BYPASS === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+function getBearerToken(request: NextRequest): string | null {
   const authHeader = request.headers.get('authorization');
 
   if (!authHeader?.startsWith('Bearer ')) {
     return null;
   }
 
-  const token = authHeader.substring(7);
-
-  // For development: simple JWT decode without verification
-  // In production, use proper JWT verification with secret
-  try {
-    if (token === 'dev-token') {
-      // Development mode: return test tenant ID
-      return '550e8400-e29b-41d4-a716-446655440001';
-    }
+  return authHeader.substring(7).trim() || null;
+}
 
-    // Parse JWT payload (simplified for MVP)
-    const payload = JSON.parse(
-      Buffer.from(token.split('.')[1], 'base64').toString()
-    );
+function getLocalJwks(): JWTVerifyGetKey | null {
+  const path = process.env.JWT_JWKS_PATH;
 
-    return payload.tenant_id || null;
-  } catch {
+  if (!path) {
     return null;
   }
+
+  if (!cachedJwks || cachedJwks.path !== path) {
+    const jwks = JSON.parse(readFileSync(path, 'utf8')) as JSONWebKeySet;
+    cachedJwks = { path, keySet: createLocalJWKSet(jwks) };
+  }
+
+  return cachedJwks.keySet;
 }
 
+/**
+ * Verify signature, exp and nbf of a JWT
+ * @returns Verified payload, or null when the token is invalid
+ */
 export async function verifyJwt(token: string): Promise<JWTPayload | null> {
   try {
-    // For production: implement proper JWT verification
-    const secret = new TextEncoder().encode(
-      process.env.JWT_SECRET || 'dev-secret'
-    );
+    const { alg } = decodeProtectedHeader(token);
+    const options = {
+      requiredClaims: ['exp'],
+      clockTolerance: CLOCK_TOLERANCE_SECONDS
+    };
 
-    const { payload } = await jwtVerify(token, secret);
-    return payload as unknown as JWTPayload;
-  } catch {
-    // For development: return test payload
-    if (token === 'dev-token') {
-      return {
-        tenant_id: '550e8400-e29b-41d4-a716-446655440001',
-        user_id: '550e8400-e29b-41d4-a716-446655440201',
-        role: 'sub_admin'
-      };
+    if (alg && SYMMETRIC_ALGORITHMS.includes(alg)) {
+      if (!process.env.JWT_SECRET) {
+        return null;
+      }
+
+      const secret = new TextEncoder().encode(process.env.JWT_SECRET);
+      const { payload } = await jwtVerify(token, secret, {
+        ...options,
+        algorithms: SYMMETRIC_ALGORITHMS
+      });
+      return payload as unknown as JWTPayload;
+    }
+
+    if (alg && ASYMMETRIC_ALGORITHMS.includes(alg)) {
+      const keySet = getLocalJwks();
+
+      if (!keySet) {
+        return null;
+      }
+
+      const { payload } = await jwtVerify(token, keySet, {
+        ...options,
+        algorithms: ASYMMETRIC_ALGORITHMS
+      });
+      return payload as unknown as JWTPayload;
     }
+
+    return null;
+  } catch {
     return null;
   }
 }
 
-export function requireAuth(request: NextRequest): { tenantId: string; userId?: string } {
-  const tenantId = getTenantFromJwt(request);
+/**
+ * Authenticate a scheduled job request (Vercel Cron sends Authorization: Bearer $CRON_SECRET)
+ */
+export function requireCronSecret(request: NextRequest): void {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || getBearerToken(request) !== secret) {
+    throw new Error('Unauthorized: Invalid cron secret');
+  }
+}
 
-  if (!tenantId) {
+/**
+ * Authenticate the request and resolve the caller's membership
+ * Role and company always come from memberships; a conflicting role claim is rejected
+ */
+export async function requireAuth(request: NextRequest): Promise<AuthContext> {
+  const token = getBearerToken(request);
+
+  if (!token) {
     throw new Error('Unauthorized: Invalid or missing JWT token');
   }
 
-  // Extract user_id from JWT for audit logging
-  // Simplified for MVP - in production, properly verify and extract
-  const authHeader = request.headers.get('authorization');
-  const token = authHeader?.substring(7);
-  let userId: string | undefined;
+  if (token === DEV_TOKEN && isDevBypassEnabled()) {
+    const devRole = process.env.AUTH_DEV_ROLE as MembershipRole | undefined;
+    return { ...DEV_AUTH_CONTEXT, role: devRole || DEV_AUTH_CONTEXT.role };
+  }
 
-  try {
-    if (token === 'dev-token') {
-      userId = '550e8400-e29b-41d4-a716-446655440201';
-    } else if (token) {
-      const payload = JSON.parse(
-        Buffer.from(token.split('.')[1], 'base64').toString()
-      );
-      userId = payload.user_id;
-    }
-  } catch {
-    // Continue without user_id
+  const payload = await verifyJwt(token);
+  const userId = payload?.user_id || payload?.sub;
+
+  if (!payload?.tenant_id || !userId) {
+    throw new Error('Unauthorized: Invalid or missing JWT token');
+  }
+
+  const membershipResult = await queryWithTenant(
+    payload.tenant_id,
+    `
+    SELECT role, company_id
+    FROM memberships
+    WHERE tenant_id = $1 AND user_id = $2 AND is_active = true
+    `,
+    [payload.tenant_id, userId]
+  );
+
+  if (membershipResult.rows.length === 0) {
+    throw new Error('Unauthorized: No active membership for this tenant');
   }
 
-  return { tenantId, userId };
-}
\ No newline at end of file
+  const membership = membershipResult.rows[0];
+
+  if (payload.role && payload.role !== membership.role) {
+    throw new Error('Unauthorized: Token role does not match membership');
+  }
+
+  return {
+    tenantId: payload.tenant_id,
+    userId,
+    role: membership.role,
+    companyId: membership.company_id
+  };
+}
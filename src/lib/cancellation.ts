@@ -0,0 +1,565 @@
+import { PoolClient } from 'pg';
+import {
+  CancelClaimMode,
+  CancelClaimResponse,
+  CancellationPenalty,
+  CancellationPolicy,
+  CancellationReason,
+  CancellationRequest,
+  CancellationRule,
+  ClaimStatus
+} from '@/types/api';
+import { AuthContext } from '@/lib/auth';
+import { SUB_ROLES } from '@/lib/permissions';
+import { notifySlotEvent } from '@/lib/slot-events';
+import { promoteWaitlist } from '@/lib/waitlist';
+import { isLateCancellation, recordReliabilityEvent, LATE_CANCEL_HOURS } from '@/lib/reliability';
+import { closeRescheduleRequests } from '@/lib/reschedule';
+import { generateEventId, createClaimCancelledPayload } from '@/lib/crypto';
+
+/**
+ * Claim cancellation and cancellation policies
+ * 受注キャンセルの実行、キャンセル規定（期限・元請け承認・違約ポイント／違約金）の判定
+ */
+
+// Slot and claim as locked for a cancellation
+export interface CancelTarget {
+  id: string;
+  job_post_id: string;
+  status: string;
+  claimed_at: string | null;
+  work_date: string;
+  claim_id: string | null;
+  claim_company_id: string | null;
+  claim_status: ClaimStatus | null;
+  project_tenant_id: string;
+  currency: string;
+  hours_until_work: number; // Until the slot starts (tenant timezone); negative once it has started
+  cancellation_policy: CancellationPolicy | null; // Job post policy, else the tenant's
+  cancel_requested_at: string | null;
+  cancel_requested_by: string | null;
+  cancel_request_reason: CancellationReason | null;
+  cancel_request_mode: CancelClaimMode | null;
+  cancel_request_rule: CancellationRule | null;
+}
+
+export type CancelBlocker =
+  | 'SLOT_NOT_CLAIMED'
+  | 'ALREADY_CANCELLED'
+  | 'ALREADY_COMPLETED'
+  | 'INVALID_STATUS'
+  | 'NO_CLAIM_FOUND';
+
+/**
+ * Load a slot with its open claim and lock it for cancellation; must run with tenant context set
+ */
+export async function lockSlotForCancel(
+  client: PoolClient,
+  tenantId: string,
+  slotId: string
+): Promise<CancelTarget | null> {
+  const result = await client.query(`
+    SELECT
+      js.id,
+      js.job_post_id,
+      js.status,
+      js.claimed_at,
+      js.work_date::text AS work_date,
+      c.id as claim_id,
+      c.company_id as claim_company_id,
+      c.status as claim_status,
+      p.tenant_id as project_tenant_id,
+      jp.currency,
+      -- From the shift start in the tenant timezone, not midnight in the server's
+      (EXTRACT(EPOCH FROM (
+        COALESCE(js.starts_at, js.work_date::timestamp AT TIME ZONE t.timezone) - now()
+      )) / 3600)::float8 AS hours_until_work,
+      COALESCE(jp.cancellation_policy, t.cancellation_policy) AS cancellation_policy,
+      c.cancel_requested_at,
+      c.cancel_requested_by,
+      c.cancel_request_reason,
+      c.cancel_request_mode,
+      c.cancel_request_rule
+    FROM job_slots js
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    JOIN projects p ON jp.project_id = p.id
+    JOIN tenants t ON js.tenant_id = t.id
+    LEFT JOIN claims c ON js.id = c.job_slot_id AND c.status IN ('pending_approval', 'active')
+    WHERE js.id = $1 AND js.tenant_id = $2
+    FOR UPDATE OF js
+  `, [slotId, tenantId]);
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Why the slot cannot be cancelled, or null when it has a claim to cancel
+ */
+export function cancelBlocker(target: CancelTarget): CancelBlocker | null {
+  if (target.status !== 'claimed') {
+    switch (target.status) {
+      case 'available':
+        return 'SLOT_NOT_CLAIMED';
+      case 'cancelled':
+        return 'ALREADY_CANCELLED';
+      case 'completed':
+        return 'ALREADY_COMPLETED';
+      default:
+        return 'INVALID_STATUS';
+    }
+  }
+
+  // The claim's company_id is used for authorization rather than the slot's claimed_by_company
+  if (!target.claim_company_id) {
+    return 'NO_CLAIM_FOUND';
+  }
+
+  return null;
+}
+
+/**
+ * The GC decides whether a cancelled slot is re-released or withdrawn; a subcontractor giving up its
+ * own claim always hands the slot back, whatever mode it sent
+ */
+export function effectiveCancelMode(auth: AuthContext, requested: CancelClaimMode): CancelClaimMode {
+  return SUB_ROLES.includes(auth.role) ? 'release' : requested;
+}
+
+/**
+ * Policies bind subcontractors cancelling confirmed work
+ * GC roles and ops_admin cancel freely; claims still awaiting approval can always be withdrawn
+ */
+export function cancellationPolicyApplies(auth: AuthContext, target: CancelTarget): boolean {
+  return SUB_ROLES.includes(auth.role) && target.claim_status === 'active';
+}
+
+/**
+ * The rule a cancellation falls under: the tightest window containing the time left before the
+ * work date, skipping rules that exempt the reason
+ * @returns null when no rule applies and the cancellation is free
+ */
+export function applicableCancellationRule(
+  policy: CancellationPolicy | null,
+  hoursUntilWork: number,
+  reason: CancellationReason
+): CancellationRule | null {
+  if (!policy) {
+    return null;
+  }
+
+  const applicable = policy.rules
+    .filter((rule) => hoursUntilWork <= rule.within_hours)
+    .filter((rule) => !(rule.except_reasons || []).includes(reason))
+    .sort((a, b) => a.within_hours - b.within_hours);
+
+  return applicable[0] || null;
+}
+
+/**
+ * Whether cancelling under the rule charges anything
+ */
+export function hasPenalty(rule: CancellationRule | null): rule is CancellationRule {
+  return !!rule && ((rule.penalty_points || 0) > 0 || (rule.fee || 0) > 0);
+}
+
+/**
+ * Charge the rule's penalty points and fee to the claiming company; must run with tenant context set
+ */
+async function recordCancellationPenalty(
+  client: PoolClient,
+  tenantId: string,
+  target: CancelTarget,
+  data: { reason: CancellationReason; rule: CancellationRule }
+): Promise<CancellationPenalty> {
+  const result = await client.query(`
+    INSERT INTO cancellation_penalties (
+      tenant_id,
+      company_id,
+      claim_id,
+      job_slot_id,
+      work_date,
+      reason,
+      hours_before_work,
+      rule,
+      penalty_points,
+      fee_amount,
+      currency
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING ${cancellationPenaltyColumns()}
+  `, [
+    tenantId,
+    target.claim_company_id,
+    target.claim_id,
+    target.id,
+    target.work_date,
+    data.reason,
+    Math.round(target.hours_until_work * 100) / 100,
+    JSON.stringify(data.rule),
+    data.rule.penalty_points || 0,
+    data.rule.fee || 0,
+    target.currency
+  ]);
+
+  return result.rows[0];
+}
+
+// Columns returned for penalties by the penalty endpoints
+export function cancellationPenaltyColumns(): string {
+  return `
+    id,
+    company_id,
+    claim_id,
+    job_slot_id,
+    work_date::text AS work_date,
+    reason,
+    hours_before_work::float8 AS hours_before_work,
+    rule,
+    penalty_points,
+    fee_amount,
+    currency,
+    invoiced_at,
+    created_at
+  `;
+}
+
+/**
+ * Cancel the slot's claim; must run with tenant context set
+ * Sends claim.cancelled for confirmed claims, writes the audit log, charges the policy rule's
+ * penalty, pushes the slot event and promotes the waitlist when the slot is released.
+ * @param data.initiator - Who asked for the cancellation (the subcontractor behind an approved request)
+ * @param data.auditContext - Extra fields for the audit payload (e.g. the bulk cancellation ID)
+ */
+export async function cancelSlotClaim(
+  client: PoolClient,
+  auth: AuthContext,
+  target: CancelTarget,
+  data: {
+    reason: CancellationReason;
+    mode: CancelClaimMode;
+    rule: CancellationRule | null;
+    initiator?: AuthContext;
+    auditContext?: Record<string, unknown>;
+  }
+): Promise<Omit<CancelClaimResponse, 'mode'>> {
+  const { tenantId, userId } = auth;
+  const { reason, mode, rule } = data;
+  const slotId = target.id;
+
+  // Release puts the slot back up for grabs; withdraw takes it out of circulation
+  const updateResult = mode === 'release'
+    ? await client.query(`
+      UPDATE job_slots
+      SET
+        status = 'available',
+        claimed_by_company = NULL,
+        claimed_by_user = NULL,
+        claimed_at = NULL,
+        canceled_at = NULL,
+        cancel_reason = NULL,
+        updated_at = now()
+      WHERE
+        id = $1
+        AND tenant_id = $2
+        AND status = 'claimed'
+      RETURNING id, status, canceled_at, cancel_reason
+    `, [slotId, tenantId])
+    : await client.query(`
+      UPDATE job_slots
+      SET
+        status = 'cancelled',
+        canceled_at = now(),
+        cancel_reason = $1,
+        updated_at = now()
+      WHERE
+        id = $2
+        AND tenant_id = $3
+        AND status = 'claimed'
+      RETURNING id, status, canceled_at, cancel_reason
+    `, [reason, slotId, tenantId]);
+
+  if (updateResult.rows.length === 0) {
+    // This should not happen after lockSlotForCancel, but handle race condition
+    throw new Error('CANCEL_FAILED');
+  }
+
+  // Dropping out shortly before the work date counts against the company's reliability
+  const cancelledLate = isLateCancellation(
+    data.initiator || auth,
+    target.claim_company_id!,
+    target.hours_until_work < LATE_CANCEL_HOURS
+  );
+
+  // Keep the claim as cancelled history so the slot can be claimed again
+  const claimUpdate = await client.query(`
+    UPDATE claims
+    SET
+      status = 'cancelled',
+      cancelled_at = now(),
+      cancelled_by = $1,
+      cancel_reason = $2,
+      cancelled_late = $5
+    WHERE id = $3 AND tenant_id = $4 AND status IN ('pending_approval', 'active')
+    RETURNING id, status, cancelled_at, cancel_reason
+  `, [userId || null, reason, target.claim_id, tenantId, cancelledLate]);
+
+  const cancelledClaim = claimUpdate.rows[0];
+
+  // An open proposal to move the claim has nothing left to move
+  await closeRescheduleRequests(client, tenantId, target.claim_id!);
+
+  if (cancelledLate) {
+    await recordReliabilityEvent(client, tenantId, {
+      companyId: target.claim_company_id!,
+      claimId: target.claim_id,
+      slotId,
+      type: 'late_cancellation'
+    });
+  }
+
+  const penalty = hasPenalty(rule)
+    ? await recordCancellationPenalty(client, tenantId, target, { reason, rule })
+    : null;
+
+  const updatedSlot = updateResult.rows[0];
+
+  // A claim still awaiting approval was never sent to DandoriWork as claim.confirmed
+  let eventId: string | null = null;
+
+  if (target.claim_status === 'active') {
+    // Get project data for outbox payload
+    const projectQuery = await client.query(`
+      SELECT p.dw_project_id
+      FROM job_posts jp
+      JOIN projects p ON jp.project_id = p.id
+      WHERE jp.id = $1 AND jp.tenant_id = $2
+    `, [target.job_post_id, tenantId]);
+
+    const payload = createClaimCancelledPayload({
+      claim_id: target.claim_id!,
+      slot_id: slotId,
+      company_id: target.claim_company_id!,
+      user_id: userId || null,
+      work_date: target.work_date,
+      cancelled_at: cancelledClaim.cancelled_at,
+      reason,
+      tenant_id: tenantId,
+      dw_project_id: projectQuery.rows[0]?.dw_project_id || null,
+      job_post_id: target.job_post_id,
+      slot_status: updatedSlot.status
+    });
+
+    // Insert integration outbox event so DandoriWork drops the crew from the schedule
+    eventId = generateEventId('cancel', target.claim_id!);
+    await client.query(`
+      INSERT INTO integration_outbox (
+        event_id,
+        event_name,
+        payload,
+        target,
+        status,
+        next_attempt_at,
+        created_at
+      ) VALUES ($1, $2, $3, $4, $5, now(), now())
+    `, [
+      eventId,
+      'claim.cancelled',
+      JSON.stringify(payload),
+      'dw',
+      'pending'
+    ]);
+  }
+
+  // Insert audit log
+  await client.query(`
+    INSERT INTO audit_logs (
+      tenant_id,
+      actor_user_id,
+      actor_role,
+      action,
+      target_table,
+      target_id,
+      payload,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+  `, [
+    tenantId,
+    userId || null,
+    auth.role,
+    mode === 'release' ? 'cancel_release' : 'cancel',
+    'job_slots',
+    slotId,
+    JSON.stringify({
+      ...data.auditContext,
+      reason,
+      mode,
+      claim_id: target.claim_id,
+      claim_status: target.claim_status,
+      event_id: eventId,
+      cancelled_late: cancelledLate,
+      policy_rule: rule,
+      penalty_id: penalty?.id ?? null,
+      requested_by: data.initiator?.userId ?? null,
+      previous_status: 'claimed',
+      new_status: updatedSlot.status,
+      claimed_by_company: target.claim_company_id,
+      claimed_at: target.claimed_at
+    })
+  ]);
+
+  // Push the change to live slot streams (delivered on commit)
+  await notifySlotEvent(client, tenantId, mode === 'release' ? 'slot.released' : 'slot.cancelled', {
+    jobPostId: target.job_post_id,
+    slotId
+  });
+
+  // A re-released slot goes to the first eligible company on the waitlist
+  if (updatedSlot.status === 'available') {
+    await promoteWaitlist(client, tenantId, slotId, {
+      userId: userId || null,
+      role: auth.role
+    });
+  }
+
+  return {
+    slot: {
+      id: updatedSlot.id,
+      status: updatedSlot.status,
+      canceled_at: updatedSlot.canceled_at,
+      cancel_reason: updatedSlot.cancel_reason
+    },
+    claim: cancelledClaim,
+    penalty
+  };
+}
+
+// Columns returned for cancellation requests (claims c joined with job_slots js)
+export function cancellationRequestColumns(): string {
+  return `
+    c.id AS claim_id,
+    c.job_slot_id,
+    js.job_post_id,
+    js.work_date::text AS work_date,
+    c.company_id,
+    c.status AS claim_status,
+    c.cancel_requested_at AS requested_at,
+    c.cancel_requested_by AS requested_by,
+    c.cancel_request_reason AS reason,
+    c.cancel_request_mode AS mode,
+    c.cancel_request_rule AS rule
+  `;
+}
+
+async function insertRequestAudit(
+  client: PoolClient,
+  tenantId: string,
+  actor: { userId: string | null; role: string },
+  action: string,
+  claimId: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  await client.query(`
+    INSERT INTO audit_logs (
+      tenant_id,
+      actor_user_id,
+      actor_role,
+      action,
+      target_table,
+      target_id,
+      payload,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+  `, [
+    tenantId,
+    actor.userId,
+    actor.role,
+    action,
+    'claims',
+    claimId,
+    JSON.stringify(payload)
+  ]);
+}
+
+/**
+ * Ask the GC to approve a cancellation that falls under an 'approval' rule; must run with tenant context set
+ * The claim stays active until the request is approved
+ */
+export async function requestCancellation(
+  client: PoolClient,
+  auth: AuthContext,
+  target: CancelTarget,
+  data: { reason: CancellationReason; mode: CancelClaimMode; rule: CancellationRule }
+): Promise<CancellationRequest> {
+  const { tenantId, userId } = auth;
+
+  const result = await client.query(`
+    UPDATE claims c
+    SET
+      cancel_requested_at = now(),
+      cancel_requested_by = $1,
+      cancel_request_reason = $2,
+      cancel_request_mode = $3,
+      cancel_request_rule = $4
+    FROM job_slots js
+    WHERE c.id = $5 AND c.tenant_id = $6 AND c.status = 'active' AND js.id = c.job_slot_id
+    RETURNING ${cancellationRequestColumns()}
+  `, [userId || null, data.reason, data.mode, JSON.stringify(data.rule), target.claim_id, tenantId]);
+
+  await insertRequestAudit(client, tenantId, { userId: userId || null, role: auth.role }, 'cancel_request', target.claim_id!, {
+    job_slot_id: target.id,
+    company_id: target.claim_company_id,
+    reason: data.reason,
+    mode: data.mode,
+    rule: data.rule,
+    hours_until_work: target.hours_until_work
+  });
+
+  return result.rows[0];
+}
+
+/**
+ * Turn down a pending cancellation request; the claim stays active; must run with tenant context set
+ */
+export async function rejectCancellationRequest(
+  client: PoolClient,
+  tenantId: string,
+  target: CancelTarget,
+  data: { note: string | null; actor: { userId: string | null; role: string } }
+): Promise<void> {
+  await client.query(`
+    UPDATE claims
+    SET
+      cancel_requested_at = NULL,
+      cancel_requested_by = NULL,
+      cancel_request_reason = NULL,
+      cancel_request_mode = NULL,
+      cancel_request_rule = NULL
+    WHERE id = $1 AND tenant_id = $2
+  `, [target.claim_id, tenantId]);
+
+  await insertRequestAudit(client, tenantId, data.actor, 'cancel_request_reject', target.claim_id!, {
+    job_slot_id: target.id,
+    company_id: target.claim_company_id,
+    requested_by: target.cancel_requested_by,
+    requested_at: target.cancel_requested_at,
+    reason: target.cancel_request_reason,
+    note: data.note
+  });
+}
+
+/**
+ * Find the slot of a claim with a pending cancellation request; must run with tenant context set
+ * @returns The claim's slot ID, or null when the claim has no pending request
+ */
+export async function findCancellationRequestSlot(
+  client: PoolClient,
+  tenantId: string,
+  claimId: string
+): Promise<string | null> {
+  const result = await client.query(`
+    SELECT job_slot_id
+    FROM claims
+    WHERE id = $1 AND tenant_id = $2 AND status = 'active' AND cancel_requested_at IS NOT NULL
+  `, [claimId, tenantId]);
+
+  return result.rows[0]?.job_slot_id || null;
+}
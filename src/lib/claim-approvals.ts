@@ -0,0 +1,250 @@
+import { PoolClient } from 'pg';
+import { ClaimApproval } from '@/types/api';
+import { queueClaimConfirmed } from '@/lib/claims';
+import { slotTimeColumns, toSlotTimeWindow } from '@/lib/shifts';
+import { notifySlotEvent } from '@/lib/slot-events';
+import { promoteWaitlist } from '@/lib/waitlist';
+import { createClaimRejectedPayload } from '@/lib/crypto';
+
+/**
+ * GC approval of claims on approval_required job posts
+ * 承認制案件の受注：承認で claim.confirmed を送信、却下・期限切れでスロットを解放
+ */
+
+export interface ClaimApprovalActor {
+  userId: string | null;
+  role: string;
+}
+
+// Columns returned for claims by the approval endpoints
+export function claimApprovalColumns(): string {
+  return `
+    c.id,
+    c.job_slot_id,
+    js.job_post_id,
+    js.work_date::text AS work_date,
+    c.company_id,
+    c.user_id,
+    c.claimed_at,
+    c.status,
+    c.approval_expires_at,
+    c.decided_at,
+    c.decided_by,
+    c.rejection_reason
+  `;
+}
+
+/**
+ * Load a claim and lock it for an approval decision; must run with tenant context set
+ */
+export async function lockClaimForDecision(
+  client: PoolClient,
+  tenantId: string,
+  claimId: string
+): Promise<ClaimApproval | null> {
+  const result = await client.query(`
+    SELECT ${claimApprovalColumns()}
+    FROM claims c
+    JOIN job_slots js ON c.job_slot_id = js.id
+    WHERE c.id = $1 AND c.tenant_id = $2
+    FOR UPDATE OF c, js
+  `, [claimId, tenantId]);
+
+  return result.rows[0] || null;
+}
+
+async function insertDecisionAudit(
+  client: PoolClient,
+  tenantId: string,
+  actor: ClaimApprovalActor,
+  action: string,
+  claim: ClaimApproval,
+  payload: Record<string, unknown>
+): Promise<void> {
+  await client.query(`
+    INSERT INTO audit_logs (
+      tenant_id,
+      actor_user_id,
+      actor_role,
+      action,
+      target_table,
+      target_id,
+      payload,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+  `, [
+    tenantId,
+    actor.userId,
+    actor.role,
+    action,
+    'claims',
+    claim.id,
+    JSON.stringify({
+      slot_id: claim.job_slot_id,
+      company_id: claim.company_id,
+      previous_status: 'pending_approval',
+      ...payload
+    })
+  ]);
+}
+
+/**
+ * Approve a pending claim: the claim becomes active and claim.confirmed is queued
+ */
+export async function approveClaim(
+  client: PoolClient,
+  tenantId: string,
+  claim: ClaimApproval,
+  actor: ClaimApprovalActor
+): Promise<ClaimApproval> {
+  await client.query(`
+    UPDATE claims
+    SET status = 'active', decided_at = now(), decided_by = $1
+    WHERE id = $2 AND tenant_id = $3 AND status = 'pending_approval'
+  `, [actor.userId, claim.id, tenantId]);
+
+  const projectQuery = await client.query(`
+    SELECT p.dw_project_id, c.crew, ${slotTimeColumns('js')}, t.timezone
+    FROM claims c
+    JOIN job_slots js ON c.job_slot_id = js.id
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    JOIN projects p ON jp.project_id = p.id
+    JOIN tenants t ON c.tenant_id = t.id
+    WHERE c.id = $1 AND c.tenant_id = $2
+  `, [claim.id, tenantId]);
+
+  const eventId = await queueClaimConfirmed(client, tenantId, {
+    claimId: claim.id,
+    slot: {
+      id: claim.job_slot_id,
+      job_post_id: claim.job_post_id,
+      work_date: claim.work_date,
+      status: 'claimed',
+      claimed_at: claim.claimed_at
+    },
+    companyId: claim.company_id,
+    userId: claim.user_id,
+    crew: projectQuery.rows[0]?.crew || null,
+    dwProjectId: projectQuery.rows[0]?.dw_project_id || null,
+    window: toSlotTimeWindow(projectQuery.rows[0])
+  });
+
+  await insertDecisionAudit(client, tenantId, actor, 'claim_approve', claim, {
+    new_status: 'active',
+    event_id: eventId
+  });
+
+  return { ...claim, status: 'active', decided_at: new Date().toISOString(), decided_by: actor.userId };
+}
+
+/**
+ * Turn down a pending claim (rejected by the GC, or expired without a decision):
+ * the slot goes back to available, the company is notified and the waitlist moves up
+ */
+export async function releasePendingClaim(
+  client: PoolClient,
+  tenantId: string,
+  claim: ClaimApproval,
+  decision: { status: 'rejected' | 'expired'; actor: ClaimApprovalActor; reason: string | null }
+): Promise<ClaimApproval> {
+  const { status, actor, reason } = decision;
+
+  await client.query(`
+    UPDATE claims
+    SET status = $1, decided_at = now(), decided_by = $2, rejection_reason = $3
+    WHERE id = $4 AND tenant_id = $5 AND status = 'pending_approval'
+  `, [status, actor.userId, reason, claim.id, tenantId]);
+
+  await client.query(`
+    UPDATE job_slots
+    SET
+      status = 'available',
+      claimed_by_company = NULL,
+      claimed_by_user = NULL,
+      claimed_at = NULL,
+      updated_at = now()
+    WHERE id = $1 AND tenant_id = $2 AND status = 'claimed' AND claimed_by_company = $3
+  `, [claim.job_slot_id, tenantId, claim.company_id]);
+
+  const event = status === 'rejected' ? 'claim.rejected' : 'claim.approval_expired';
+  const payload = createClaimRejectedPayload({
+    event,
+    claim_id: claim.id,
+    tenant_id: tenantId,
+    company_id: claim.company_id,
+    user_id: claim.user_id,
+    slot_id: claim.job_slot_id,
+    job_post_id: claim.job_post_id,
+    work_date: claim.work_date,
+    reason,
+    occurred_at: new Date().toISOString()
+  }) as { id: string };
+
+  // Tell the company its claim did not go through
+  await client.query(`
+    INSERT INTO integration_outbox (
+      event_id,
+      event_name,
+      payload,
+      target,
+      status,
+      next_attempt_at,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, now(), now())
+  `, [
+    payload.id,
+    event,
+    JSON.stringify(payload),
+    'notification',
+    'pending'
+  ]);
+
+  await insertDecisionAudit(
+    client,
+    tenantId,
+    actor,
+    status === 'rejected' ? 'claim_reject' : 'claim_approval_expired',
+    claim,
+    { new_status: status, reason }
+  );
+
+  // Push the change to live slot streams (delivered on commit)
+  await notifySlotEvent(client, tenantId, 'slot.released', {
+    jobPostId: claim.job_post_id,
+    slotId: claim.job_slot_id
+  });
+
+  // The freed slot goes to the first eligible company on the waitlist
+  await promoteWaitlist(client, tenantId, claim.job_slot_id, actor);
+
+  return {
+    ...claim,
+    status,
+    decided_at: new Date().toISOString(),
+    decided_by: actor.userId,
+    rejection_reason: reason
+  };
+}
+
+/**
+ * Expire pending claims past their approval deadline (all tenants)
+ * @returns Number of claims expired
+ */
+export async function expirePendingClaims(client: PoolClient): Promise<number> {
+  const system: ClaimApprovalActor = { userId: null, role: 'system' };
+
+  const due = await client.query(`
+    SELECT ${claimApprovalColumns()}, c.tenant_id
+    FROM claims c
+    JOIN job_slots js ON c.job_slot_id = js.id
+    WHERE c.status = 'pending_approval' AND c.approval_expires_at <= now()
+    ORDER BY c.approval_expires_at ASC
+    FOR UPDATE OF c, js SKIP LOCKED
+  `);
+
+  for (const { tenant_id: tenantId, ...claim } of due.rows) {
+    await releasePendingClaim(client, tenantId, claim, { status: 'expired', actor: system, reason: null });
+  }
+
+  return due.rows.length;
+}
@@ -0,0 +1,187 @@
+import { PoolClient } from 'pg';
+import { EligibilityError } from '@/lib/eligibility';
+
+/**
+ * Fairness caps on how many slots one company may claim
+ * 1社が受注できるスロット数の上限（案件ごと・日ごと・週ごと）
+ */
+
+// post_* caps count claims within the job post, tenant_* caps count across all posts of the tenant
+export type ClaimLimitScope = 'post' | 'post_day' | 'post_week' | 'tenant_day' | 'tenant_week';
+
+export const CLAIM_LIMIT_SCOPES: ClaimLimitScope[] = ['post', 'post_day', 'post_week', 'tenant_day', 'tenant_week'];
+
+export type ClaimLimits = Record<ClaimLimitScope, number | null>;
+
+export interface ClaimedSlot {
+  job_post_id: string;
+  work_date: string; // YYYY-MM-DD
+}
+
+const SCOPE_LABELS: Record<ClaimLimitScope, string> = {
+  post: 'on this job post',
+  post_day: 'per work date on this job post',
+  post_week: 'per week on this job post',
+  tenant_day: 'per work date',
+  tenant_week: 'per week'
+};
+
+/**
+ * Monday of the ISO week containing the date (same as Postgres date_trunc('week', ...))
+ */
+export function weekStart(workDate: string): string {
+  const date = new Date(`${workDate}T00:00:00Z`);
+  const offset = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - offset);
+  return date.toISOString().slice(0, 10);
+}
+
+function inScope(scope: ClaimLimitScope, slot: ClaimedSlot, target: ClaimedSlot): boolean {
+  switch (scope) {
+    case 'post':
+      return slot.job_post_id === target.job_post_id;
+    case 'post_day':
+      return slot.job_post_id === target.job_post_id && slot.work_date === target.work_date;
+    case 'post_week':
+      return slot.job_post_id === target.job_post_id && weekStart(slot.work_date) === weekStart(target.work_date);
+    case 'tenant_day':
+      return slot.work_date === target.work_date;
+    case 'tenant_week':
+      return weekStart(slot.work_date) === weekStart(target.work_date);
+  }
+}
+
+/**
+ * Find the first cap the requested slots would push past
+ * @param limits - Caps keyed by job post id
+ * @param existing - Slots the company already holds (active or pending approval claims)
+ * @param requested - Slots being claimed now, all of which count towards the caps
+ */
+export function findExceededLimit(
+  limits: Map<string, ClaimLimits>,
+  existing: ClaimedSlot[],
+  requested: ClaimedSlot[]
+): EligibilityError | null {
+  for (const target of requested) {
+    const postLimits = limits.get(target.job_post_id);
+
+    if (!postLimits) {
+      continue;
+    }
+
+    for (const scope of CLAIM_LIMIT_SCOPES) {
+      const limit = postLimits[scope];
+
+      if (limit == null) {
+        continue;
+      }
+
+      const currentCount = existing.filter((slot) => inScope(scope, slot, target)).length;
+      const requestedCount = requested.filter((slot) => inScope(scope, slot, target)).length;
+
+      if (currentCount + requestedCount > limit) {
+        return {
+          code: 'CLAIM_LIMIT_REACHED',
+          message: `Claim limit reached: ${limit} slots per company ${SCOPE_LABELS[scope]}`,
+          status: 409,
+          details: {
+            scope,
+            limit,
+            current_count: currentCount,
+            requested_count: requestedCount,
+            job_post_id: target.job_post_id,
+            work_date: scope === 'post' ? null : target.work_date
+          }
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Serialize claims of one company until the transaction ends
+ * Other companies are not blocked, so the single-UPDATE FCFS race between companies is unchanged
+ */
+export async function lockCompanyClaims(
+  client: PoolClient,
+  tenantId: string,
+  companyId: string
+): Promise<void> {
+  await client.query(`SELECT pg_advisory_xact_lock(hashtext($1), hashtext($2))`, [tenantId, companyId]);
+}
+
+/**
+ * Enforce the caps before claiming slots; must run with tenant context set, before the slot UPDATE
+ * Takes the company's claim lock (held until commit) when any cap applies, so concurrent claims of
+ * the same company count each other's rows
+ * @param options.excludeClaimId - A claim moving to the requested slot, which no longer counts where it is
+ * @returns null when the company may claim every slot, otherwise CLAIM_LIMIT_REACHED
+ */
+export async function checkClaimLimits(
+  client: PoolClient,
+  tenantId: string,
+  companyId: string,
+  slotIds: string[],
+  options: { excludeClaimId?: string } = {}
+): Promise<EligibilityError | null> {
+  const slotsResult = await client.query(`
+    SELECT
+      js.job_post_id,
+      js.work_date::text AS work_date,
+      COALESCE(jp.max_claims_per_post, t.max_claims_per_post) AS post,
+      jp.max_claims_per_day AS post_day,
+      jp.max_claims_per_week AS post_week,
+      t.max_claims_per_day AS tenant_day,
+      t.max_claims_per_week AS tenant_week
+    FROM job_slots js
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    JOIN tenants t ON jp.tenant_id = t.id
+    WHERE js.id = ANY($1::uuid[]) AND js.tenant_id = $2
+  `, [slotIds, tenantId]);
+
+  const limits = new Map<string, ClaimLimits>();
+  const requested: ClaimedSlot[] = [];
+
+  for (const row of slotsResult.rows) {
+    requested.push({ job_post_id: row.job_post_id, work_date: row.work_date });
+
+    if (CLAIM_LIMIT_SCOPES.some((scope) => row[scope] != null)) {
+      limits.set(row.job_post_id, {
+        post: row.post,
+        post_day: row.post_day,
+        post_week: row.post_week,
+        tenant_day: row.tenant_day,
+        tenant_week: row.tenant_week
+      });
+    }
+  }
+
+  if (limits.size === 0) {
+    return null;
+  }
+
+  await lockCompanyClaims(client, tenantId, companyId);
+
+  // Claims on the same posts, or in the weeks being claimed (covers every day and week cap)
+  const weeks = requested.map((slot) => weekStart(slot.work_date)).sort();
+  const existingResult = await client.query(`
+    SELECT c.id, js.job_post_id, js.work_date::text AS work_date
+    FROM claims c
+    JOIN job_slots js ON c.job_slot_id = js.id
+    WHERE c.tenant_id = $1
+      AND c.company_id = $2
+      AND c.status IN ('pending_approval', 'active')
+      AND (
+        js.job_post_id = ANY($3::uuid[])
+        OR js.work_date BETWEEN $4::date AND $5::date + 6
+      )
+  `, [tenantId, companyId, [...limits.keys()], weeks[0], weeks[weeks.length - 1]]);
+
+  const existing = options.excludeClaimId
+    ? existingResult.rows.filter((row) => row.id !== options.excludeClaimId)
+    : existingResult.rows;
+
+  return findExceededLimit(limits, existing, requested);
+}
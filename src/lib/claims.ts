@@ -0,0 +1,289 @@
+import { PoolClient } from 'pg';
+import { SlotTimeWindow } from '@/types/api';
+import { AuthContext } from '@/lib/auth';
+import { generateUuid } from '@/lib/database';
+import { generateEventId, createClaimConfirmedPayload } from '@/lib/crypto';
+import { notifySlotEvent } from '@/lib/slot-events';
+import { recordReliabilityEvent } from '@/lib/reliability';
+import { slotTimeColumns, toSlotTimeWindow } from '@/lib/shifts';
+
+/**
+ * Claim persistence helpers shared by single and bundle claims
+ * 受注確定後の claims 登録・アウトボックス・監査ログ・SSE 通知
+ */
+
+export interface ClaimedSlot {
+  id: string;
+  job_post_id: string;
+  work_date: string;
+  status: string;
+  claimed_at: string;
+}
+
+export interface RecordedClaim {
+  id: string;
+  company_id: string;
+  user_id: string | null;
+  crew: string | null;
+  claimed_at: string;
+  status: 'active' | 'pending_approval';
+  approval_expires_at: string | null;
+}
+
+/**
+ * Queue the claim.confirmed outbox event for a claim that is (now) active
+ */
+export async function queueClaimConfirmed(
+  client: PoolClient,
+  tenantId: string,
+  data: {
+    claimId: string;
+    slot: ClaimedSlot;
+    companyId: string;
+    userId: string | null;
+    crew: string | null;
+    dwProjectId: string | null;
+    window: SlotTimeWindow;
+  }
+): Promise<string> {
+  const { claimId, slot, companyId, userId, crew, dwProjectId, window } = data;
+
+  // Create structured payload using utility function
+  const payload = createClaimConfirmedPayload({
+    claim_id: claimId,
+    slot_id: slot.id,
+    company_id: companyId,
+    user_id: userId,
+    crew,
+    work_date: slot.work_date,
+    window,
+    claimed_at: slot.claimed_at,
+    tenant_id: tenantId,
+    dw_project_id: dwProjectId || undefined,
+    job_post_id: slot.job_post_id
+  });
+
+  // Insert integration outbox event with structured payload
+  const eventId = generateEventId('claim', claimId);
+  await client.query(`
+    INSERT INTO integration_outbox (
+      event_id,
+      event_name,
+      payload,
+      target,
+      status,
+      next_attempt_at,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, now(), now())
+  `, [
+    eventId,
+    'claim.confirmed',
+    JSON.stringify(payload),
+    'dw',
+    'pending'
+  ]);
+
+  return eventId;
+}
+
+/**
+ * Record a claim on a slot that was just moved to 'claimed'
+ * Inserts the claim row, the claim.confirmed outbox event and the audit log, settles the
+ * company's waitlist entries, pushes slot.claimed to live streams (delivered on commit) and
+ * adds the claim to the company's reliability history.
+ * On posts with approval_required the claim stays pending_approval and claim.confirmed is
+ * only sent once a GC admin approves it.
+ * @param data.crew - Team the company sends; overlapping shifts must be ruled out before (checkShiftOverlap)
+ */
+export async function recordClaim(
+  client: PoolClient,
+  auth: AuthContext,
+  data: {
+    slot: ClaimedSlot;
+    companyId: string;
+    requestId: string;
+    bundleId?: string;
+    crew?: string | null;
+  }
+): Promise<RecordedClaim> {
+  const { tenantId, userId, role } = auth;
+  const { slot, companyId, requestId, bundleId } = data;
+  const crew = data.crew || null;
+
+  // Get additional data for outbox payload (incl. the slot's shift times) and the approval setting
+  const jobPostQuery = await client.query(`
+    SELECT
+      jp.id,
+      jp.title,
+      jp.trade,
+      jp.approval_required,
+      jp.approval_window_hours,
+      p.dw_project_id,
+      ${slotTimeColumns('js')},
+      t.timezone
+    FROM job_slots js
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    JOIN projects p ON jp.project_id = p.id
+    JOIN tenants t ON js.tenant_id = t.id
+    WHERE js.id = $1 AND js.tenant_id = $2
+  `, [slot.id, tenantId]);
+
+  const jobPost = jobPostQuery.rows[0];
+  const needsApproval = jobPost?.approval_required === true;
+
+  // Create claim record
+  const claimId = generateUuid();
+  const claimInsert = await client.query(`
+    INSERT INTO claims (
+      id,
+      tenant_id,
+      job_slot_id,
+      company_id,
+      user_id,
+      request_id,
+      bundle_id,
+      claimed_at,
+      status,
+      approval_expires_at,
+      crew
+    ) VALUES (
+      $1, $2, $3, $4, $5, $6, $7, $8, $9,
+      CASE WHEN $9 = 'pending_approval' THEN now() + make_interval(hours => $10::int) END,
+      $11
+    )
+    RETURNING id, company_id, user_id, crew, claimed_at, status, approval_expires_at
+  `, [
+    claimId,
+    tenantId,
+    slot.id,
+    companyId,
+    userId || null,
+    requestId,
+    bundleId || null,
+    slot.claimed_at,
+    needsApproval ? 'pending_approval' : 'active',
+    jobPost?.approval_window_hours ?? null,
+    crew
+  ]);
+
+  const claim: RecordedClaim = claimInsert.rows[0];
+
+  if (!needsApproval) {
+    await queueClaimConfirmed(client, tenantId, {
+      claimId,
+      slot,
+      companyId,
+      userId: userId || null,
+      crew,
+      dwProjectId: jobPost?.dw_project_id || null,
+      window: toSlotTimeWindow(jobPost)
+    });
+  }
+
+  // Insert audit log
+  await client.query(`
+    INSERT INTO audit_logs (
+      tenant_id,
+      actor_user_id,
+      actor_role,
+      action,
+      target_table,
+      target_id,
+      payload,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+  `, [
+    tenantId,
+    userId || null,
+    role,
+    'claim',
+    'job_slots',
+    slot.id,
+    JSON.stringify({
+      company_id: companyId,
+      request_id: requestId,
+      ...(bundleId ? { bundle_id: bundleId } : {}),
+      ...(crew ? { crew } : {}),
+      previous_status: 'available',
+      new_status: 'claimed',
+      ...(needsApproval
+        ? { claim_status: 'pending_approval', approval_expires_at: claim.approval_expires_at }
+        : {})
+    })
+  ]);
+
+  // The company no longer waits for this slot (or for any slot of the post on that date)
+  await client.query(`
+    UPDATE waitlist_entries
+    SET status = 'claimed', claim_id = $1, updated_at = now()
+    WHERE tenant_id = $2
+      AND company_id = $3
+      AND status IN ('waiting', 'offered')
+      AND (slot_id = $4 OR (slot_id IS NULL AND (job_post_id, work_date) = (
+        SELECT job_post_id, work_date FROM job_slots WHERE id = $4
+      )))
+  `, [claimId, tenantId, companyId, slot.id]);
+
+  // Push the change to live slot streams (delivered on commit)
+  await notifySlotEvent(client, tenantId, 'slot.claimed', {
+    jobPostId: slot.job_post_id,
+    slotId: slot.id
+  });
+
+  await recordReliabilityEvent(client, tenantId, {
+    companyId,
+    claimId,
+    slotId: slot.id,
+    type: 'claim'
+  });
+
+  return claim;
+}
+
+export interface CrewSlotCandidate {
+  id: string;
+  work_date: string;
+  shift_code?: string | null;
+  claimable: boolean;
+}
+
+export interface CrewShortage {
+  work_date: string;
+  shift_code: string | null;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Pick crewCount claimable slots in every shift of every work date of a bundle date range
+ * Candidates must be ordered by work_date, shift, slot_no; shifts without enough claimable slots are reported as shortages
+ */
+export function pickCrewSlots(
+  candidates: CrewSlotCandidate[],
+  crewCount: number
+): { slotIds: string[]; shortages: CrewShortage[] } {
+  const byShift = new Map<string, { work_date: string; shift_code: string | null; claimable: string[] }>();
+
+  for (const candidate of candidates) {
+    const shiftCode = candidate.shift_code ?? null;
+    const key = `${candidate.work_date}#${shiftCode ?? ''}`;
+    const group = byShift.get(key) || { work_date: candidate.work_date, shift_code: shiftCode, claimable: [] };
+    if (candidate.claimable) {
+      group.claimable.push(candidate.id);
+    }
+    byShift.set(key, group);
+  }
+
+  const slotIds: string[] = [];
+  const shortages: CrewShortage[] = [];
+
+  for (const { work_date, shift_code, claimable } of byShift.values()) {
+    if (claimable.length < crewCount) {
+      shortages.push({ work_date, shift_code, requested: crewCount, available: claimable.length });
+    } else {
+      slotIds.push(...claimable.slice(0, crewCount));
+    }
+  }
+
+  return { slotIds, shortages };
+}
@@ -1,4 +1,5 @@
 import { createHmac, timingSafeEqual } from 'crypto';
+import { SlotTimeWindow } from '@/types/api';
 
 /**
  * HMAC signature utilities for secure API communication
@@ -125,7 +126,9 @@ export function createClaimConfirmedPayload(data: {
   slot_id: string;
   company_id: string;
   user_id: string | null;
+  crew?: string | null;
   work_date: string;
+  window?: SlotTimeWindow;
   claimed_at: string;
   tenant_id: string;
   dw_project_id?: string;
@@ -143,17 +146,505 @@ export function createClaimConfirmedPayload(data: {
         id: data.job_post_id,
         work_date: data.work_date
       },
+      // Shift times are local to timezone; starts_at / ends_at are absolute (null start/end: whole day)
       slot: {
         slot_id: data.slot_id,
-        status: 'claimed'
+        status: 'claimed',
+        shift_code: data.window?.shift_code ?? null,
+        start_time: data.window?.start_time ?? null,
+        end_time: data.window?.end_time ?? null,
+        starts_at: data.window?.starts_at ?? null,
+        ends_at: data.window?.ends_at ?? null,
+        timezone: data.window?.timezone ?? null
       },
       claim: {
         claim_id: data.claim_id,
         company_id: data.company_id,
         user_id: data.user_id,
+        crew: data.crew ?? null,
         claimed_at: data.claimed_at
       },
       tenant_id: data.tenant_id
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Create payload for claim.cancelled event
+ * @param data - Cancelled claim data
+ * @returns Formatted payload for DandoriWork
+ */
+export function createClaimCancelledPayload(data: {
+  claim_id: string;
+  slot_id: string;
+  company_id: string;
+  user_id: string | null;
+  work_date: string;
+  cancelled_at: string;
+  reason: string;
+  tenant_id: string;
+  dw_project_id?: string | null;
+  job_post_id: string;
+  slot_status?: 'available' | 'cancelled';
+}): object {
+  return {
+    event: 'claim.cancelled',
+    version: '1.0',
+    id: generateEventId('cancel', data.claim_id),
+    occurred_at: data.cancelled_at,
+    producer: 'fcfs-booking',
+    data: {
+      dw_project_id: data.dw_project_id || null,
+      job_post: {
+        id: data.job_post_id,
+        work_date: data.work_date
+      },
+      slot: {
+        slot_id: data.slot_id,
+        status: data.slot_status || 'cancelled'
+      },
+      claim: {
+        claim_id: data.claim_id,
+        company_id: data.company_id,
+        cancelled_by: data.user_id,
+        cancelled_at: data.cancelled_at,
+        reason: data.reason
+      },
+      tenant_id: data.tenant_id
+    }
+  };
+}
+
+/**
+ * Create payload for job_post.published event
+ * @param data - Published job post data
+ * @returns Formatted payload for DandoriWork
+ */
+export function createJobPostPublishedPayload(data: {
+  job_post_id: string;
+  tenant_id: string;
+  project_id: string;
+  dw_project_id?: string | null;
+  trade: string;
+  title: string;
+  unit_price: number;
+  currency: string;
+  start_date: string;
+  end_date: string;
+  capacity: number;
+  published_at: string;
+}): object {
+  return {
+    event: 'job_post.published',
+    version: '1.0',
+    id: generateEventId('job_post', data.job_post_id),
+    occurred_at: data.published_at,
+    producer: 'fcfs-booking',
+    data: {
+      dw_project_id: data.dw_project_id || null,
+      job_post: {
+        id: data.job_post_id,
+        project_id: data.project_id,
+        trade: data.trade,
+        title: data.title,
+        unit_price: data.unit_price,
+        currency: data.currency,
+        start_date: data.start_date,
+        end_date: data.end_date,
+        capacity: data.capacity,
+        published_at: data.published_at
+      },
+      tenant_id: data.tenant_id
+    }
+  };
+}
+
+/**
+ * Create payload for qualification.expiring notification
+ * The id is deterministic so a re-run on the same day does not enqueue duplicates
+ * @param data - Expiring qualification data
+ * @returns Formatted payload for the notification service
+ */
+export function createQualificationExpiringPayload(data: {
+  qualification_id: string;
+  tenant_id: string;
+  company_id: string;
+  company_name: string;
+  name: string;
+  number: string | null;
+  valid_until: string;
+  days_until_expiry: number;
+  occurred_at: string;
+}): object {
+  return {
+    event: 'qualification.expiring',
+    version: '1.0',
+    id: `qual_expiring_${data.qualification_id}_${data.valid_until}_${data.days_until_expiry}`,
+    occurred_at: data.occurred_at,
+    producer: 'fcfs-booking',
+    data: {
+      qualification: {
+        id: data.qualification_id,
+        name: data.name,
+        number: data.number,
+        valid_until: data.valid_until,
+        days_until_expiry: data.days_until_expiry
+      },
+      company: {
+        id: data.company_id,
+        name: data.company_name
+      },
+      tenant_id: data.tenant_id
+    }
+  };
+}
+
+/**
+ * Create payload for waitlist.offered / waitlist.promoted notifications
+ * @param data - Promotion data
+ * @returns Formatted payload for the notification service
+ */
+export function createWaitlistPromotionPayload(data: {
+  event: 'waitlist.offered' | 'waitlist.promoted';
+  entry_id: string;
+  tenant_id: string;
+  company_id: string;
+  user_id: string | null;
+  slot_id: string;
+  job_post_id: string;
+  work_date: string;
+  offer_expires_at: string | null;
+  claim_id: string | null;
+  occurred_at: string;
+}): object {
+  return {
+    event: data.event,
+    version: '1.0',
+    id: `${data.event.replace('.', '_')}_${data.entry_id}_${data.slot_id}`,
+    occurred_at: data.occurred_at,
+    producer: 'fcfs-booking',
+    data: {
+      waitlist_entry: {
+        id: data.entry_id,
+        company_id: data.company_id,
+        user_id: data.user_id
+      },
+      slot: {
+        id: data.slot_id,
+        job_post_id: data.job_post_id,
+        work_date: data.work_date
+      },
+      offer_expires_at: data.offer_expires_at,
+      claim_id: data.claim_id,
+      tenant_id: data.tenant_id
+    }
+  };
+}
+
+/**
+ * Create payload for lottery.lost notification
+ * @param data - Losing entry and suggested alternatives
+ * @returns Formatted payload for the notification service
+ */
+export function createLotteryLostPayload(data: {
+  entry_id: string;
+  tenant_id: string;
+  job_post_id: string;
+  company_id: string;
+  user_id: string | null;
+  alternatives: Array<{ slot_id: string; work_date: string; job_post: { id: string; title: string; trade: string } }>;
+  occurred_at: string;
+}): object {
+  return {
+    event: 'lottery.lost',
+    version: '1.0',
+    id: `lottery_lost_${data.entry_id}`,
+    occurred_at: data.occurred_at,
+    producer: 'fcfs-booking',
+    data: {
+      lottery_entry: {
+        id: data.entry_id,
+        company_id: data.company_id,
+        user_id: data.user_id
+      },
+      job_post_id: data.job_post_id,
+      alternatives: data.alternatives,
+      tenant_id: data.tenant_id
+    }
+  };
+}
+
+/**
+ * Create payload for claim.rejected / claim.approval_expired notifications
+ * @param data - Pending claim that was turned down or not decided in time
+ * @returns Formatted payload for the notification service
+ */
+export function createClaimRejectedPayload(data: {
+  event: 'claim.rejected' | 'claim.approval_expired';
+  claim_id: string;
+  tenant_id: string;
+  company_id: string;
+  user_id: string | null;
+  slot_id: string;
+  job_post_id: string;
+  work_date: string;
+  reason: string | null;
+  occurred_at: string;
+}): object {
+  return {
+    event: data.event,
+    version: '1.0',
+    id: `${data.event.replace('.', '_')}_${data.claim_id}`,
+    occurred_at: data.occurred_at,
+    producer: 'fcfs-booking',
+    data: {
+      claim: {
+        id: data.claim_id,
+        company_id: data.company_id,
+        user_id: data.user_id
+      },
+      slot: {
+        id: data.slot_id,
+        job_post_id: data.job_post_id,
+        work_date: data.work_date
+      },
+      reason: data.reason,
+      tenant_id: data.tenant_id
+    }
+  };
+}
+
+/**
+ * Create payload for slot.completed event
+ * @param data - Completed slot data
+ * @returns Formatted payload for DandoriWork
+ */
+export function createSlotCompletedPayload(data: {
+  slot_id: string;
+  tenant_id: string;
+  job_post_id: string;
+  work_date: string;
+  dw_project_id?: string | null;
+  claim_id: string;
+  company_id: string;
+  user_id: string | null;
+  completed_at: string;
+  completed_by: string | null;
+  actual_hours: number | null;
+  notes: string | null;
+}): object {
+  return {
+    event: 'slot.completed',
+    version: '1.0',
+    id: `slot_completed_${data.slot_id}`,
+    occurred_at: data.completed_at,
+    producer: 'fcfs-booking',
+    data: {
+      dw_project_id: data.dw_project_id || null,
+      job_post: {
+        id: data.job_post_id,
+        work_date: data.work_date
+      },
+      slot: {
+        slot_id: data.slot_id,
+        status: 'completed',
+        completed_at: data.completed_at,
+        completed_by: data.completed_by,
+        actual_hours: data.actual_hours,
+        notes: data.notes
+      },
+      claim: {
+        claim_id: data.claim_id,
+        company_id: data.company_id,
+        user_id: data.user_id
+      },
+      tenant_id: data.tenant_id
+    }
+  };
+}
+
+/**
+ * Create payload for claim.no_show event
+ * @param data - No-show report data
+ * @returns Formatted payload for DandoriWork
+ */
+export function createClaimNoShowPayload(data: {
+  claim_id: string;
+  slot_id: string;
+  tenant_id: string;
+  job_post_id: string;
+  work_date: string;
+  dw_project_id?: string | null;
+  company_id: string;
+  user_id: string | null;
+  reported_at: string;
+  reported_by: string | null;
+  note: string | null;
+}): object {
+  return {
+    event: 'claim.no_show',
+    version: '1.0',
+    id: `claim_no_show_${data.claim_id}`,
+    occurred_at: data.reported_at,
+    producer: 'fcfs-booking',
+    data: {
+      dw_project_id: data.dw_project_id || null,
+      job_post: {
+        id: data.job_post_id,
+        work_date: data.work_date
+      },
+      slot: {
+        slot_id: data.slot_id,
+        status: 'cancelled',
+        cancel_reason: 'no_show'
+      },
+      claim: {
+        claim_id: data.claim_id,
+        company_id: data.company_id,
+        user_id: data.user_id,
+        status: 'no_show',
+        reported_at: data.reported_at,
+        reported_by: data.reported_by,
+        note: data.note
+      },
+      tenant_id: data.tenant_id
+    }
+  };
+}
+
+/**
+ * Create payload for claim.rescheduled event
+ * @param data - Claim moved to another slot of the same job post
+ * @returns Formatted payload for DandoriWork
+ */
+export function createClaimRescheduledPayload(data: {
+  reschedule_id: string;
+  claim_id: string;
+  tenant_id: string;
+  job_post_id: string;
+  dw_project_id?: string | null;
+  company_id: string;
+  user_id: string | null;
+  from_slot_id: string;
+  from_work_date: string;
+  to_slot_id: string;
+  to_work_date: string;
+  reason: string;
+  rescheduled_at: string;
+  rescheduled_by: string | null;
+}): object {
+  return {
+    event: 'claim.rescheduled',
+    version: '1.0',
+    id: `claim_rescheduled_${data.reschedule_id}`,
+    occurred_at: data.rescheduled_at,
+    producer: 'fcfs-booking',
+    data: {
+      dw_project_id: data.dw_project_id || null,
+      job_post_id: data.job_post_id,
+      from: {
+        slot_id: data.from_slot_id,
+        work_date: data.from_work_date
+      },
+      to: {
+        slot_id: data.to_slot_id,
+        work_date: data.to_work_date
+      },
+      claim: {
+        claim_id: data.claim_id,
+        company_id: data.company_id,
+        user_id: data.user_id,
+        rescheduled_by: data.rescheduled_by,
+        reason: data.reason
+      },
+      tenant_id: data.tenant_id
+    }
+  };
+}
+
+/**
+ * Create payload for claim.reschedule_proposed / _accepted / _declined notifications
+ * @param data - Reschedule proposal and the party it is sent to
+ * @returns Formatted payload for the notification service
+ */
+export function createRescheduleRequestPayload(data: {
+  event: 'claim.reschedule_proposed' | 'claim.reschedule_accepted' | 'claim.reschedule_declined';
+  request_id: string;
+  tenant_id: string;
+  claim_id: string;
+  company_id: string;
+  job_post_id: string;
+  from_work_date: string;
+  to_work_date: string;
+  proposed_by_party: 'gc' | 'company';
+  note: string | null;
+  occurred_at: string;
+}): object {
+  return {
+    event: data.event,
+    version: '1.0',
+    id: `${data.event.replace('.', '_')}_${data.request_id}`,
+    occurred_at: data.occurred_at,
+    producer: 'fcfs-booking',
+    data: {
+      reschedule_request: {
+        id: data.request_id,
+        proposed_by_party: data.proposed_by_party,
+        from_work_date: data.from_work_date,
+        to_work_date: data.to_work_date,
+        note: data.note
+      },
+      claim: {
+        id: data.claim_id,
+        company_id: data.company_id
+      },
+      job_post_id: data.job_post_id,
+      // The side that has to act on (or learn about) the proposal
+      recipient: data.event === 'claim.reschedule_proposed'
+        ? (data.proposed_by_party === 'gc' ? 'company' : 'gc')
+        : data.proposed_by_party,
+      tenant_id: data.tenant_id
+    }
+  };
+}
+
+/**
+ * Create payload for weather.cancelled notification
+ * @param data - One company's slots affected by a bulk weather cancellation
+ * @returns Formatted payload for the notification service
+ */
+export function createWeatherCancelledPayload(data: {
+  cancellation_id: string;
+  tenant_id: string;
+  project_id: string;
+  company_id: string;
+  date_from: string;
+  date_to: string;
+  note: string | null;
+  slots: Array<{
+    slot_id: string;
+    job_post_id: string;
+    work_date: string;
+    outcome: 'cancelled' | 'postponed';
+    new_work_date: string | null;
+    postpone_failure: { code: string; message: string } | null;
+  }>;
+  occurred_at: string;
+}): object {
+  return {
+    event: 'weather.cancelled',
+    version: '1.0',
+    id: `weather_cancelled_${data.cancellation_id}_${data.company_id}`,
+    occurred_at: data.occurred_at,
+    producer: 'fcfs-booking',
+    data: {
+      project_id: data.project_id,
+      company_id: data.company_id,
+      date_from: data.date_from,
+      date_to: data.date_to,
+      note: data.note,
+      slots: data.slots,
+      tenant_id: data.tenant_id
+    }
+  };
+}
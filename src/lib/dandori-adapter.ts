@@ -41,11 +41,24 @@ export interface DwClaimNotification {
   job_post_id: string;
 }
 
+export interface DwClaimCancellation {
+  claim_id: string;
+  slot_id: string;
+  company_id: string;
+  user_id?: string;
+  work_date: string;
+  cancelled_at: string;
+  reason: string;
+  project_id?: string;
+  job_post_id: string;
+}
+
 // Adapter Interface
 export interface IDandoriAdapter {
   getProject(dw_project_id: string): Promise<DwProject>;
   getCompany(dw_company_id: string): Promise<DwCompany>;
   notifyClaimConfirmed(payload: DwClaimNotification): Promise<void>;
+  notifyClaimCancelled(payload: DwClaimCancellation): Promise<void>;
 }
 
 // Main Adapter Implementation
@@ -150,6 +163,32 @@ export class DandoriAdapter implements IDandoriAdapter {
     */
   }
 
+  /**
+   * Notify DandoriWork of cancelled claim
+   */
+  async notifyClaimCancelled(payload: DwClaimCancellation): Promise<void> {
+    // Stub implementation - replace with actual API call
+    console.log(`[DandoriAdapter] notifyClaimCancelled called:`, payload);
+
+    // Simulate processing delay
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    console.log(`[DandoriAdapter] Cancellation notification sent successfully for claim ${payload.claim_id}`);
+
+    // TODO: Implement actual API call
+    /*
+    try {
+      await this.makeApiRequest(
+        'POST',
+        '/notifications/claim-cancelled',
+        payload
+      );
+    } catch (error) {
+      throw this.handleApiError(error, 'notifyClaimCancelled');
+    }
+    */
+  }
+
   /**
    * Make authenticated API request to DandoriWork
    */
@@ -0,0 +1,442 @@
+import { PoolClient } from 'pg';
+import { MembershipRole } from '@/types/api';
+import { AuthContext } from '@/lib/auth';
+import { parseRequiredQuals } from '@/lib/job-posts';
+import { checkReliability, getCompanyReliability, hasReliabilityPolicy } from '@/lib/reliability';
+
+/**
+ * Pre-claim eligibility checks
+ * 受注前の会社・職種・所属チェック
+ */
+
+export type EligibilityErrorCode =
+  | 'COMPANY_NOT_ELIGIBLE'
+  | 'NOT_COMPANY_MEMBER'
+  | 'TRADE_MISMATCH'
+  | 'MISSING_QUALIFICATION'
+  | 'JOB_POST_NOT_PUBLISHED'
+  | 'LOTTERY_PENDING'
+  | 'EARLY_ACCESS_ONLY'
+  | 'CLAIM_LIMIT_REACHED'
+  | 'SHIFT_OVERLAP'
+  | 'RELIABILITY_BLOCKED'
+  | 'RELIABILITY_DELAYED';
+
+export interface EligibilityError {
+  code: EligibilityErrorCode;
+  message: string;
+  status: 403 | 409 | 422;
+  details?: Record<string, unknown>;
+}
+
+export interface CompanyQualification {
+  name: string;
+  valid_until: string | null; // YYYY-MM-DD
+}
+
+export interface MissingQualification {
+  name: string;
+  reason: 'missing' | 'expired';
+  valid_until: string | null;
+}
+
+export interface ClaimingCompany {
+  id: string;
+  tenant_id: string;
+  is_gc: boolean;
+  is_active: boolean;
+  trades: string | null;
+}
+
+export interface EarlyAccessPost {
+  published_at: string | Date | null;
+  early_access_minutes: number | null;
+  early_access_min_rating: string | number | null; // numeric comes back from pg as a string
+}
+
+export interface CompanyEarlyAccess {
+  is_preferred: boolean;
+  rating: string | number | null;
+}
+
+/**
+ * Parse the comma-separated companies.trades column
+ */
+export function parseTrades(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(',')
+    .map((trade) => trade.trim())
+    .filter((trade) => trade.length > 0);
+}
+
+/**
+ * Decide whether the caller may claim a slot of the given trade for the company
+ * @param company - Company row as visible under RLS (null when missing or in another tenant)
+ * @returns null when eligible, otherwise the error to return
+ */
+export function checkClaimEligibility(
+  auth: AuthContext,
+  company: ClaimingCompany | null,
+  trade: string
+): EligibilityError | null {
+  if (!company || company.tenant_id !== auth.tenantId || !company.is_active || company.is_gc) {
+    return {
+      code: 'COMPANY_NOT_ELIGIBLE',
+      message: 'This company cannot claim slots',
+      status: 403
+    };
+  }
+
+  // ops_admin may claim on behalf of any subcontractor
+  if (auth.role !== 'ops_admin' && auth.companyId !== company.id) {
+    return {
+      code: 'NOT_COMPANY_MEMBER',
+      message: 'You are not a member of this company',
+      status: 403
+    };
+  }
+
+  if (!parseTrades(company.trades).includes(trade)) {
+    return {
+      code: 'TRADE_MISMATCH',
+      message: `This company is not registered for the trade "${trade}"`,
+      status: 422
+    };
+  }
+
+  return null;
+}
+
+/**
+ * List required qualifications the company lacks or that lapse before the work date
+ * A qualification is valid through its valid_until date; no date means it never expires
+ */
+export function findMissingQualifications(
+  requiredQuals: string | null,
+  qualifications: CompanyQualification[],
+  workDate: string
+): MissingQualification[] {
+  const missing: MissingQualification[] = [];
+
+  for (const name of parseRequiredQuals(requiredQuals)) {
+    const held = qualifications.filter((q) => q.name.trim() === name);
+
+    if (held.length === 0) {
+      missing.push({ name, reason: 'missing', valid_until: null });
+      continue;
+    }
+
+    if (held.some((q) => q.valid_until === null || q.valid_until >= workDate)) {
+      continue;
+    }
+
+    // Report the latest expiry so the company knows which certificate to renew
+    const latest = held
+      .map((q) => q.valid_until as string)
+      .sort()
+      .pop() as string;
+    missing.push({ name, reason: 'expired', valid_until: latest });
+  }
+
+  return missing;
+}
+
+/**
+ * Build the MISSING_QUALIFICATION error for a claim, or null when fully qualified
+ */
+export function checkQualifications(
+  requiredQuals: string | null,
+  qualifications: CompanyQualification[],
+  workDate: string
+): EligibilityError | null {
+  const missing = findMissingQualifications(requiredQuals, qualifications, workDate);
+
+  if (missing.length === 0) {
+    return null;
+  }
+
+  return {
+    code: 'MISSING_QUALIFICATION',
+    message: `Missing or expired qualifications: ${missing.map((q) => q.name).join(', ')}`,
+    status: 422,
+    details: { missing_qualifications: missing }
+  };
+}
+
+/**
+ * Block claims, holds and promotions on job posts that are not (or no longer) published
+ */
+export function checkJobPostPublished(post: { is_published: boolean }): EligibilityError | null {
+  if (post.is_published) {
+    return null;
+  }
+
+  return {
+    code: 'JOB_POST_NOT_PUBLISHED',
+    message: 'This job post is not published and does not accept claims',
+    status: 409
+  };
+}
+
+/**
+ * Block claims on lottery posts until the draw has run
+ */
+export function checkLotteryDrawn(post: {
+  allocation_mode: string;
+  lottery_closes_at: string | Date | null;
+  lottery_drawn_at: string | Date | null;
+}): EligibilityError | null {
+  if (post.allocation_mode !== 'lottery' || post.lottery_drawn_at) {
+    return null;
+  }
+
+  return {
+    code: 'LOTTERY_PENDING',
+    message: 'Slots of this job post are allocated by lottery. Apply for the draw instead.',
+    status: 409,
+    details: {
+      lottery_closes_at: post.lottery_closes_at ? new Date(post.lottery_closes_at).toISOString() : null
+    }
+  };
+}
+
+/**
+ * When a post's early-access window ends and it opens to every company
+ * @returns null when the post has no early-access window (or is not published)
+ */
+export function earlyAccessOpensAt(post: EarlyAccessPost): Date | null {
+  if (!post.published_at || !post.early_access_minutes) {
+    return null;
+  }
+
+  return new Date(new Date(post.published_at).getTime() + post.early_access_minutes * 60_000);
+}
+
+/**
+ * Whether the company may claim during early access: on the GC's preferred list, or rated at
+ * least the post's minimum rating (when one is set)
+ */
+export function hasEarlyAccess(post: EarlyAccessPost, access: CompanyEarlyAccess | null): boolean {
+  if (!access) {
+    return false;
+  }
+
+  if (access.is_preferred) {
+    return true;
+  }
+
+  return post.early_access_min_rating !== null
+    && access.rating !== null
+    && Number(access.rating) >= Number(post.early_access_min_rating);
+}
+
+/**
+ * When the company can start claiming slots of the post
+ * @returns The opening time, or null when the post is not published yet
+ */
+export function claimableFrom(post: EarlyAccessPost, access: CompanyEarlyAccess | null): Date | null {
+  const opensAt = earlyAccessOpensAt(post);
+
+  if (opensAt && !hasEarlyAccess(post, access)) {
+    return opensAt;
+  }
+
+  return post.published_at ? new Date(post.published_at) : null;
+}
+
+/**
+ * Block companies without early access until the window ends
+ */
+export function checkEarlyAccess(
+  post: EarlyAccessPost,
+  access: CompanyEarlyAccess | null,
+  now: Date = new Date()
+): EligibilityError | null {
+  const opensAt = earlyAccessOpensAt(post);
+
+  if (!opensAt || opensAt <= now || hasEarlyAccess(post, access)) {
+    return null;
+  }
+
+  return {
+    code: 'EARLY_ACCESS_ONLY',
+    message: `This slot is open to preferred companies only until ${opensAt.toISOString()}`,
+    status: 403,
+    details: { opens_at: opensAt.toISOString() }
+  };
+}
+
+/**
+ * Load the claiming company; must run with tenant context set
+ */
+export async function getClaimingCompany(
+  client: PoolClient,
+  tenantId: string,
+  companyId: string
+): Promise<ClaimingCompany | null> {
+  const result = await client.query(`
+    SELECT id, tenant_id, is_gc, is_active, trades
+    FROM companies
+    WHERE id = $1 AND tenant_id = $2
+  `, [companyId, tenantId]);
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Load the company's qualifications; must run with tenant context set
+ * Certificates rejected by the GC do not count towards eligibility
+ */
+export async function getCompanyQualifications(
+  client: PoolClient,
+  tenantId: string,
+  companyId: string
+): Promise<CompanyQualification[]> {
+  const result = await client.query(`
+    SELECT name, valid_until::text
+    FROM qualifications
+    WHERE company_id = $1 AND tenant_id = $2
+      AND verification_status <> 'rejected'
+  `, [companyId, tenantId]);
+
+  return result.rows;
+}
+
+/**
+ * Load what decides the company's early access; must run with tenant context set
+ */
+export async function getCompanyEarlyAccess(
+  client: PoolClient,
+  tenantId: string,
+  companyId: string
+): Promise<CompanyEarlyAccess | null> {
+  const result = await client.query(`
+    SELECT
+      c.rating,
+      EXISTS (
+        SELECT 1 FROM preferred_companies pc
+        WHERE pc.tenant_id = c.tenant_id AND pc.company_id = c.id
+      ) AS is_preferred
+    FROM companies c
+    WHERE c.id = $1 AND c.tenant_id = $2
+  `, [companyId, tenantId]);
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Act as a user who applied earlier (waitlist promotion, lottery draw) for eligibility and claim records
+ * A user who has left the company (or never had one) fails the membership check
+ */
+export async function memberAuthContext(
+  client: PoolClient,
+  tenantId: string,
+  userId: string | null
+): Promise<AuthContext> {
+  const membership = userId
+    ? await client.query(`
+      SELECT role, company_id
+      FROM memberships
+      WHERE tenant_id = $1 AND user_id = $2 AND is_active = true
+    `, [tenantId, userId])
+    : { rows: [] };
+
+  const row = membership.rows[0];
+
+  return {
+    tenantId,
+    userId: userId as string,
+    role: (row?.role || 'sub_member') as MembershipRole,
+    companyId: row?.company_id || null
+  };
+}
+
+/**
+ * Run every pre-claim check for a slot; must run with tenant context set
+ * Throws 'Slot not found or access denied' when the slot is not visible to the tenant
+ * @returns null when the company may claim (or hold) the slot, otherwise the error to return
+ */
+export async function checkSlotEligibility(
+  client: PoolClient,
+  auth: AuthContext,
+  slotId: string,
+  companyId: string
+): Promise<EligibilityError | null> {
+  const slotPost = await client.query(`
+    SELECT
+      jp.trade,
+      jp.required_quals,
+      jp.is_published,
+      jp.allocation_mode,
+      jp.lottery_closes_at,
+      jp.lottery_drawn_at,
+      jp.published_at,
+      jp.early_access_minutes,
+      jp.early_access_min_rating,
+      js.work_date::text,
+      t.reliability_block_below,
+      t.reliability_delay_below,
+      t.reliability_delay_minutes
+    FROM job_slots js
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    JOIN tenants t ON js.tenant_id = t.id
+    WHERE js.id = $1 AND js.tenant_id = $2
+  `, [slotId, auth.tenantId]);
+
+  if (slotPost.rows.length === 0) {
+    throw new Error('Slot not found or access denied');
+  }
+
+  const { trade, required_quals, work_date } = slotPost.rows[0];
+
+  // Unpublished posts take no new claims; published_at is cleared too, so the early-access gates below would pass
+  const publishedError = checkJobPostPublished(slotPost.rows[0]);
+  if (publishedError) {
+    return publishedError;
+  }
+
+  // Lottery posts are allocated by the draw; leftovers become first-come-first-served afterwards
+  const lotteryError = checkLotteryDrawn(slotPost.rows[0]);
+  if (lotteryError) {
+    return lotteryError;
+  }
+
+  const company = await getClaimingCompany(client, auth.tenantId, companyId);
+
+  const companyError = checkClaimEligibility(auth, company, trade);
+  if (companyError) {
+    return companyError;
+  }
+
+  // Preferred companies get the first go while the early-access window is open
+  const opensAt = earlyAccessOpensAt(slotPost.rows[0]);
+  if (opensAt && opensAt > new Date()) {
+    const earlyAccessError = checkEarlyAccess(
+      slotPost.rows[0],
+      await getCompanyEarlyAccess(client, auth.tenantId, companyId)
+    );
+
+    if (earlyAccessError) {
+      return earlyAccessError;
+    }
+  }
+
+  // Tenants may block or hold back companies with a poor attendance record
+  if (hasReliabilityPolicy(slotPost.rows[0])) {
+    const { score } = await getCompanyReliability(client, auth.tenantId, companyId);
+    const reliabilityError = checkReliability(slotPost.rows[0], score, slotPost.rows[0].published_at);
+
+    if (reliabilityError) {
+      return reliabilityError;
+    }
+  }
+
+  return checkQualifications(
+    required_quals,
+    await getCompanyQualifications(client, auth.tenantId, companyId),
+    work_date
+  );
+}
@@ -0,0 +1,161 @@
+import { PoolClient } from 'pg';
+import { JobPost, JobPostUpdateRequest } from '@/types/api';
+
+/**
+ * Job post persistence helpers
+ * 案件（job_posts）の共通クエリ
+ */
+
+// Columns returned for job posts by every job-post endpoint
+export function jobPostColumns(alias?: string): string {
+  const p = alias ? `${alias}.` : '';
+  return `
+    ${p}id,
+    ${p}tenant_id,
+    ${p}project_id,
+    ${p}trade,
+    ${p}title,
+    ${p}description,
+    ${p}unit_price,
+    ${p}currency,
+    ${p}price_type,
+    ${p}required_quals,
+    ${p}area_hint,
+    ${p}start_date::text AS start_date,
+    ${p}end_date::text AS end_date,
+    ${p}capacity,
+    ${p}working_days,
+    ${p}skip_holidays,
+    ${p}shift_templates,
+    ${p}allocation_mode,
+    ${p}lottery_closes_at,
+    ${p}lottery_drawn_at,
+    CASE WHEN ${p}lottery_drawn_at IS NOT NULL THEN ${p}lottery_seed END AS lottery_seed,
+    ${p}approval_required,
+    ${p}approval_window_hours,
+    ${p}early_access_minutes,
+    ${p}early_access_min_rating::float8 AS early_access_min_rating,
+    ${p}published_at + make_interval(mins => ${p}early_access_minutes) AS early_access_until,
+    ${p}max_claims_per_post,
+    ${p}max_claims_per_day,
+    ${p}max_claims_per_week,
+    ${p}cancellation_policy,
+    ${p}is_published,
+    ${p}published_at,
+    ${p}created_by,
+    ${p}created_at,
+    ${p}updated_at
+  `;
+}
+
+// Request field -> job_posts column mapping for partial updates
+const UPDATABLE_COLUMNS: Record<keyof JobPostUpdateRequest, string> = {
+  trade: 'trade',
+  title: 'title',
+  description: 'description',
+  unitPrice: 'unit_price',
+  currency: 'currency',
+  priceType: 'price_type',
+  requiredQuals: 'required_quals',
+  areaHint: 'area_hint',
+  startDate: 'start_date',
+  endDate: 'end_date',
+  capacity: 'capacity',
+  workingDays: 'working_days',
+  skipHolidays: 'skip_holidays',
+  shiftTemplates: 'shift_templates',
+  allocationMode: 'allocation_mode',
+  lotteryClosesAt: 'lottery_closes_at',
+  approvalRequired: 'approval_required',
+  approvalWindowHours: 'approval_window_hours',
+  earlyAccessMinutes: 'early_access_minutes',
+  earlyAccessMinRating: 'early_access_min_rating',
+  maxClaimsPerPost: 'max_claims_per_post',
+  maxClaimsPerDay: 'max_claims_per_day',
+  maxClaimsPerWeek: 'max_claims_per_week',
+  cancellationPolicy: 'cancellation_policy',
+};
+
+// Fields whose change requires job_slots to be re-synced on published posts
+export const SLOT_SHAPING_FIELDS: Array<keyof JobPostUpdateRequest> = [
+  'startDate',
+  'endDate',
+  'capacity',
+  'workingDays',
+  'skipHolidays',
+  'shiftTemplates',
+];
+
+/**
+ * Serialize required qualification names into the comma-separated column format
+ */
+export function serializeRequiredQuals(quals: string[] | undefined): string | null {
+  if (!quals || quals.length === 0) {
+    return null;
+  }
+  return quals.map((q) => q.trim()).join(',');
+}
+
+/**
+ * Parse the comma-separated required_quals column into a list of names
+ */
+export function parseRequiredQuals(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(',')
+    .map((q) => q.trim())
+    .filter((q) => q.length > 0);
+}
+
+/**
+ * Fetch a job post within the tenant, optionally locking the row for update
+ */
+export async function getJobPost(
+  client: PoolClient,
+  tenantId: string,
+  jobPostId: string,
+  forUpdate: boolean = false
+): Promise<JobPost | null> {
+  const result = await client.query(`
+    SELECT ${jobPostColumns()}
+    FROM job_posts
+    WHERE id = $1 AND tenant_id = $2
+    ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [jobPostId, tenantId]);
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Build SET clause and values for a partial job post update
+ * @returns SET fragments and values; parameter numbering starts at $1
+ */
+export function buildJobPostUpdate(
+  changes: JobPostUpdateRequest
+): { setClauses: string[]; values: any[] } {
+  const setClauses: string[] = [];
+  const values: any[] = [];
+
+  (Object.keys(UPDATABLE_COLUMNS) as Array<keyof JobPostUpdateRequest>).forEach((field) => {
+    if (changes[field] === undefined) {
+      return;
+    }
+
+    let value: unknown = changes[field];
+
+    if (field === 'requiredQuals') {
+      value = serializeRequiredQuals(changes.requiredQuals);
+    } else if (field === 'cancellationPolicy') {
+      value = changes.cancellationPolicy ? JSON.stringify(changes.cancellationPolicy) : null;
+    } else if (field === 'shiftTemplates') {
+      value = JSON.stringify(changes.shiftTemplates);
+    }
+
+    values.push(value);
+    setClauses.push(`${UPDATABLE_COLUMNS[field]} = $${values.length}`);
+  });
+
+  return { setClauses, values };
+}
@@ -0,0 +1,397 @@
+import { createHash, randomBytes } from 'crypto';
+import { PoolClient } from 'pg';
+import { LotteryDrawResult } from '@/types/api';
+import { checkSlotEligibility, memberAuthContext } from '@/lib/eligibility';
+import { recordClaim } from '@/lib/claims';
+import { checkClaimLimits } from '@/lib/claim-limits';
+import { findAlternativeSlots } from '@/lib/alternatives';
+import { createLotteryLostPayload } from '@/lib/crypto';
+
+/**
+ * Lottery allocation
+ * 抽選モードの案件：受付期間中に応募を集め、締切後にシード付きの再現可能な抽選で枠を割り当て
+ */
+
+// Alternatives offered to companies that won nothing
+const LOSER_ALTERNATIVE_DAYS = 3;
+
+export interface LotteryApplicant {
+  entry_id: string;
+  company_id: string;
+  crew_count: number;
+}
+
+export interface LotteryDate {
+  work_date: string;
+  slot_ids: string[]; // In slot_no order
+  applicants: LotteryApplicant[];
+}
+
+export interface LotteryAllocation {
+  entry_id: string;
+  company_id: string;
+  work_date: string;
+  slot_id: string;
+}
+
+/**
+ * New random seed, stored on the post at publish and disclosed after the draw
+ */
+export function generateLotterySeed(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Deterministic PRNG (mulberry32) seeded from the SHA-256 of the seed string
+ * @returns Function yielding floats in [0, 1)
+ */
+export function seededRandom(seed: string): () => number {
+  let state = createHash('sha256').update(seed).digest().readUInt32BE(0);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle driven by seededRandom; the input is not modified
+ */
+export function shuffleWithSeed<T>(items: T[], seed: string): T[] {
+  const random = seededRandom(seed);
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+}
+
+/**
+ * Draw every work date independently: applicants are sorted by entry id (so the result does not
+ * depend on query order) and shuffled with `${seed}:${work_date}`; slots are then handed out in
+ * this order by allocateInDrawOrder
+ * @returns Entry ids in draw order, per work date
+ */
+export function drawLottery(seed: string, dates: LotteryDate[]): Record<string, string[]> {
+  const order: Record<string, string[]> = {};
+
+  for (const date of dates) {
+    const applicants = [...date.applicants].sort((a, b) => a.entry_id.localeCompare(b.entry_id));
+
+    order[date.work_date] = shuffleWithSeed(applicants, `${seed}:${date.work_date}`)
+      .map((applicant) => applicant.entry_id);
+  }
+
+  return order;
+}
+
+/**
+ * Hand out each date's slots in draw order, every applicant taking up to crew_count of them;
+ * when claimSlot refuses a slot (e.g. the company reached a fairness cap) that applicant's turn
+ * ends and the slot goes to the next one drawn. Slots left over after the last applicant stay free.
+ * @param claimSlot - Claims one slot for the applicant; returns the refusal reason, or null when claimed
+ */
+export async function allocateInDrawOrder(
+  dates: LotteryDate[],
+  order: Record<string, string[]>,
+  claimSlot: (allocation: LotteryAllocation) => Promise<string | null>
+): Promise<{ allocations: LotteryAllocation[]; refused: Array<{ entry_id: string; work_date: string; reason: string }> }> {
+  const allocations: LotteryAllocation[] = [];
+  const refused: Array<{ entry_id: string; work_date: string; reason: string }> = [];
+
+  for (const date of dates) {
+    const remaining = [...date.slot_ids];
+
+    for (const entryId of order[date.work_date] || []) {
+      const applicant = date.applicants.find((candidate) => candidate.entry_id === entryId)!;
+
+      for (let taken = 0; taken < applicant.crew_count && remaining.length > 0; taken++) {
+        const allocation: LotteryAllocation = {
+          entry_id: applicant.entry_id,
+          company_id: applicant.company_id,
+          work_date: date.work_date,
+          slot_id: remaining[0]
+        };
+
+        const reason = await claimSlot(allocation);
+
+        if (reason) {
+          refused.push({ entry_id: applicant.entry_id, work_date: date.work_date, reason });
+          break;
+        }
+
+        remaining.shift();
+        allocations.push(allocation);
+      }
+    }
+  }
+
+  return { allocations, refused };
+}
+
+/**
+ * Run the draw for a lottery post whose entry window has closed; must run with tenant context set
+ * (or without one in the cross-tenant cron). Winners get claims and claim.confirmed events,
+ * companies that won nothing get a lottery.lost notification with alternatives.
+ * @returns The draw summary, or null when the post is not a lottery due to be drawn
+ */
+export async function runLotteryDraw(
+  client: PoolClient,
+  tenantId: string,
+  jobPostId: string,
+  actor: { userId: string | null; role: string }
+): Promise<LotteryDrawResult | null> {
+  const postQuery = await client.query(`
+    SELECT id
+    FROM job_posts
+    WHERE id = $1
+      AND tenant_id = $2
+      AND allocation_mode = 'lottery'
+      AND is_published = true
+      AND lottery_drawn_at IS NULL
+      AND lottery_closes_at <= now()
+    FOR UPDATE
+  `, [jobPostId, tenantId]);
+
+  if (postQuery.rows.length === 0) {
+    return null;
+  }
+
+  // Marking the post drawn first also lifts the LOTTERY_PENDING gate for the claims below
+  const drawnUpdate = await client.query(`
+    UPDATE job_posts
+    SET
+      lottery_drawn_at = now(),
+      lottery_seed = COALESCE(lottery_seed, $2),
+      updated_at = now()
+    WHERE id = $1
+    RETURNING lottery_seed, lottery_drawn_at
+  `, [jobPostId, generateLotterySeed()]);
+
+  const seed: string = drawnUpdate.rows[0].lottery_seed;
+  const drawnAt: string = drawnUpdate.rows[0].lottery_drawn_at;
+
+  const slotsQuery = await client.query(`
+    SELECT id, work_date::text AS work_date
+    FROM job_slots
+    WHERE job_post_id = $1 AND tenant_id = $2 AND status = 'available'
+    ORDER BY work_date ASC, slot_no ASC
+    FOR UPDATE
+  `, [jobPostId, tenantId]);
+
+  const entriesQuery = await client.query(`
+    SELECT id, company_id, user_id, crew_count, work_dates::text[] AS work_dates
+    FROM lottery_entries
+    WHERE job_post_id = $1 AND tenant_id = $2 AND status = 'applied'
+    FOR UPDATE
+  `, [jobPostId, tenantId]);
+
+  const slotIdsByDate = new Map<string, string[]>();
+  for (const slot of slotsQuery.rows) {
+    slotIdsByDate.set(slot.work_date, [...(slotIdsByDate.get(slot.work_date) || []), slot.id]);
+  }
+
+  // Re-check eligibility per date: qualifications may have lapsed since the application
+  const dates: LotteryDate[] = [];
+  const excluded: Array<{ entry_id: string; work_date: string; reason: string }> = [];
+  const entryAuths = new Map<string, Awaited<ReturnType<typeof memberAuthContext>>>();
+
+  for (const entry of entriesQuery.rows) {
+    entryAuths.set(entry.id, await memberAuthContext(client, tenantId, entry.user_id));
+  }
+
+  for (const [workDate, slotIds] of slotIdsByDate) {
+    const applicants: LotteryApplicant[] = [];
+
+    for (const entry of entriesQuery.rows) {
+      if (entry.work_dates && !entry.work_dates.includes(workDate)) {
+        continue;
+      }
+
+      const eligibilityError = await checkSlotEligibility(
+        client,
+        entryAuths.get(entry.id)!,
+        slotIds[0],
+        entry.company_id
+      );
+
+      if (eligibilityError) {
+        excluded.push({ entry_id: entry.id, work_date: workDate, reason: eligibilityError.code });
+        continue;
+      }
+
+      applicants.push({ entry_id: entry.id, company_id: entry.company_id, crew_count: entry.crew_count });
+    }
+
+    dates.push({ work_date: workDate, slot_ids: slotIds, applicants });
+  }
+
+  const order = drawLottery(seed, dates);
+
+  // Winners: claim each slot for the company in draw order, up to its fairness caps
+  // A slot a company cannot take passes to the next applicant drawn for that date
+  const { allocations, refused } = await allocateInDrawOrder(dates, order, async (allocation) => {
+    const entry = entriesQuery.rows.find((row: any) => row.id === allocation.entry_id);
+
+    const limitError = await checkClaimLimits(client, tenantId, allocation.company_id, [allocation.slot_id]);
+
+    if (limitError) {
+      return limitError.code;
+    }
+
+    const slotUpdate = await client.query(`
+      UPDATE job_slots
+      SET
+        claimed_by_company = $1,
+        claimed_by_user = $2,
+        claimed_at = now(),
+        status = 'claimed',
+        held_by_company = NULL,
+        held_by_user = NULL,
+        held_until = NULL,
+        updated_at = now()
+      WHERE id = $3 AND tenant_id = $4 AND status = 'available'
+      RETURNING id, job_post_id, work_date, status, claimed_at
+    `, [allocation.company_id, entry.user_id, allocation.slot_id, tenantId]);
+
+    await recordClaim(client, entryAuths.get(allocation.entry_id)!, {
+      slot: slotUpdate.rows[0],
+      companyId: allocation.company_id,
+      requestId: `lottery:${allocation.entry_id}:${allocation.slot_id}`
+    });
+
+    return null;
+  });
+
+  excluded.push(...refused);
+
+  const wonCounts = new Map<string, number>();
+  for (const allocation of allocations) {
+    wonCounts.set(allocation.entry_id, (wonCounts.get(allocation.entry_id) || 0) + 1);
+  }
+
+  const losers: string[] = [];
+
+  for (const entry of entriesQuery.rows) {
+    const won = wonCounts.get(entry.id) || 0;
+
+    await client.query(`
+      UPDATE lottery_entries
+      SET status = $1, won_slot_count = $2, updated_at = now()
+      WHERE id = $3
+    `, [won > 0 ? 'won' : 'lost', won, entry.id]);
+
+    if (won > 0) {
+      continue;
+    }
+
+    losers.push(entry.id);
+
+    // Point companies that won nothing at claimable slots nearby (including this post's leftovers)
+    const referenceSlot = slotsQuery.rows.find(
+      (slot: any) => !entry.work_dates || entry.work_dates.includes(slot.work_date)
+    );
+    const alternatives = referenceSlot
+      ? await findAlternativeSlots(client, tenantId, referenceSlot.id, {
+        days: LOSER_ALTERNATIVE_DAYS,
+        companyId: entry.company_id
+      })
+      : [];
+
+    const payload = createLotteryLostPayload({
+      entry_id: entry.id,
+      tenant_id: tenantId,
+      job_post_id: jobPostId,
+      company_id: entry.company_id,
+      user_id: entry.user_id,
+      alternatives: alternatives || [],
+      occurred_at: new Date().toISOString()
+    }) as { id: string };
+
+    await client.query(`
+      INSERT INTO integration_outbox (
+        event_id,
+        event_name,
+        payload,
+        target,
+        status,
+        next_attempt_at,
+        created_at
+      ) VALUES ($1, $2, $3, $4, $5, now(), now())
+      ON CONFLICT (event_id) DO NOTHING
+    `, [
+      payload.id,
+      'lottery.lost',
+      JSON.stringify(payload),
+      'notification',
+      'pending'
+    ]);
+  }
+
+  const result: LotteryDrawResult = {
+    job_post_id: jobPostId,
+    seed,
+    drawn_at: new Date(drawnAt).toISOString(),
+    entry_count: entriesQuery.rows.length,
+    allocated_slot_count: allocations.length,
+    unallocated_slot_count: slotsQuery.rows.length - allocations.length,
+    winner_entry_ids: [...wonCounts.keys()],
+    loser_entry_ids: losers
+  };
+
+  // Insert audit log with everything needed to reproduce the draw
+  await client.query(`
+    INSERT INTO audit_logs (
+      tenant_id,
+      actor_user_id,
+      actor_role,
+      action,
+      target_table,
+      target_id,
+      payload,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+  `, [
+    tenantId,
+    actor.userId,
+    actor.role,
+    'lottery_draw',
+    'job_posts',
+    jobPostId,
+    JSON.stringify({
+      seed,
+      order,
+      excluded,
+      allocations,
+      entry_count: result.entry_count,
+      unallocated_slot_count: result.unallocated_slot_count
+    })
+  ]);
+
+  return result;
+}
+
+/**
+ * Lottery posts whose entry window has closed but that have not been drawn yet (all tenants)
+ */
+export async function findDueLotteries(
+  client: PoolClient
+): Promise<Array<{ id: string; tenant_id: string }>> {
+  const due = await client.query(`
+    SELECT id, tenant_id
+    FROM job_posts
+    WHERE allocation_mode = 'lottery'
+      AND is_published = true
+      AND lottery_drawn_at IS NULL
+      AND lottery_closes_at <= now()
+    ORDER BY lottery_closes_at ASC
+  `);
+
+  return due.rows;
+}
@@ -0,0 +1,221 @@
+import { NextRequest } from 'next/server';
+import { MembershipRole, RescheduleParty } from '@/types/api';
+import { AuthContext, requireAuth } from '@/lib/auth';
+
+/**
+ * Role-based authorization helpers
+ * メンバーシップのロールに基づく権限判定
+ */
+
+export const GC_ROLES: MembershipRole[] = ['owner', 'gc_admin', 'gc_member'];
+export const SUB_ROLES: MembershipRole[] = ['sub_admin', 'sub_member'];
+
+export type Permission =
+  | 'admin:access'
+  | 'tenants:read'
+  | 'tenants:manage'
+  | 'outbox:read'
+  | 'outbox:requeue'
+  | 'audit_logs:read'
+  | 'import:run'
+  | 'qualifications:verify'
+  | 'claims:approve'
+  | 'preferred_companies:manage'
+  | 'slots:complete'
+  | 'claims:no_show'
+  | 'cancellation_penalties:read'
+  | 'slots:weather_cancel'
+  | 'job_posts:manage'
+  | 'holidays:manage';
+
+// Permission matrix: every role is listed explicitly so gaps are visible in review
+export const ROLE_PERMISSIONS: Record<MembershipRole, Permission[]> = {
+  owner: [
+    'audit_logs:read',
+    'qualifications:verify',
+    'claims:approve',
+    'preferred_companies:manage',
+    'slots:complete',
+    'claims:no_show',
+    'cancellation_penalties:read',
+    'slots:weather_cancel',
+    'job_posts:manage',
+    'holidays:manage'
+  ],
+  gc_admin: [
+    'audit_logs:read',
+    'qualifications:verify',
+    'claims:approve',
+    'preferred_companies:manage',
+    'slots:complete',
+    'claims:no_show',
+    'cancellation_penalties:read',
+    'slots:weather_cancel',
+    'job_posts:manage',
+    'holidays:manage'
+  ],
+  gc_member: ['slots:complete', 'claims:no_show', 'slots:weather_cancel'],
+  sub_admin: [],
+  sub_member: [],
+  ops_admin: [
+    'admin:access',
+    'tenants:read',
+    'tenants:manage',
+    'outbox:read',
+    'outbox:requeue',
+    'audit_logs:read',
+    'import:run',
+    'qualifications:verify',
+    'claims:approve',
+    'preferred_companies:manage',
+    'slots:complete',
+    'claims:no_show',
+    'cancellation_penalties:read',
+    'slots:weather_cancel',
+    'job_posts:manage',
+    'holidays:manage'
+  ]
+};
+
+export function hasPermission(role: MembershipRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Authenticate the request and require a permission
+ * Throws 'Forbidden: ...' which handleApiError maps to 403
+ */
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission
+): Promise<AuthContext> {
+  const auth = await requireAuth(request);
+
+  if (!hasPermission(auth.role, permission)) {
+    throw new Error(`Forbidden: Missing permission ${permission}`);
+  }
+
+  return auth;
+}
+
+/**
+ * Who may cancel a claim:
+ * - ops_admin: any claim
+ * - GC roles: claims on projects of their own tenant
+ * - sub roles: only claims held by their own company
+ */
+export function canCancelClaim(
+  auth: AuthContext,
+  claim: { tenantId: string; companyId: string }
+): boolean {
+  if (auth.role === 'ops_admin') {
+    return true;
+  }
+
+  if (GC_ROLES.includes(auth.role)) {
+    return auth.tenantId === claim.tenantId;
+  }
+
+  if (SUB_ROLES.includes(auth.role)) {
+    return auth.companyId !== null && auth.companyId === claim.companyId;
+  }
+
+  return false;
+}
+
+/**
+ * Which side of a reschedule the user speaks for: GC roles and ops_admin for the GC,
+ * sub roles for their company
+ */
+export function rescheduleParty(auth: AuthContext): RescheduleParty | null {
+  if (auth.role === 'ops_admin' || GC_ROLES.includes(auth.role)) {
+    return 'gc';
+  }
+
+  return SUB_ROLES.includes(auth.role) ? 'company' : null;
+}
+
+/**
+ * Who may propose moving a claim to another date: the same parties who may cancel it
+ */
+export function canProposeReschedule(
+  auth: AuthContext,
+  claim: { tenantId: string; companyId: string }
+): boolean {
+  return canCancelClaim(auth, claim);
+}
+
+/**
+ * Who may accept or decline a reschedule proposal:
+ * - ops_admin: any proposal
+ * - GC roles: proposals from the company, on their own tenant
+ * - sub roles: proposals from the GC, for their own company's claims
+ */
+export function canRespondToReschedule(
+  auth: AuthContext,
+  proposal: { tenantId: string; companyId: string; proposedByParty: RescheduleParty }
+): boolean {
+  if (auth.role === 'ops_admin') {
+    return true;
+  }
+
+  if (proposal.proposedByParty === 'company') {
+    return GC_ROLES.includes(auth.role) && auth.tenantId === proposal.tenantId;
+  }
+
+  return SUB_ROLES.includes(auth.role) && auth.companyId !== null && auth.companyId === proposal.companyId;
+}
+
+/**
+ * Who may see a company's qualifications and certificate files:
+ * - ops_admin and GC roles: any company in the tenant
+ * - sub roles: only their own company
+ */
+export function canViewCompanyQualifications(auth: AuthContext, companyId: string): boolean {
+  if (auth.role === 'ops_admin' || GC_ROLES.includes(auth.role)) {
+    return true;
+  }
+
+  return SUB_ROLES.includes(auth.role) && auth.companyId === companyId;
+}
+
+/**
+ * Who may register, edit, upload or delete a company's qualifications:
+ * - ops_admin: any company
+ * - sub roles: only their own company (GC roles verify but do not edit)
+ */
+export function canManageCompanyQualifications(auth: AuthContext, companyId: string): boolean {
+  if (auth.role === 'ops_admin') {
+    return true;
+  }
+
+  return SUB_ROLES.includes(auth.role) && auth.companyId === companyId;
+}
+
+/**
+ * Who may see a company's waitlist entries:
+ * - ops_admin and GC roles: any company in the tenant
+ * - sub roles: only their own company
+ */
+export function canViewCompanyWaitlist(auth: AuthContext, companyId: string): boolean {
+  if (auth.role === 'ops_admin' || GC_ROLES.includes(auth.role)) {
+    return true;
+  }
+
+  return SUB_ROLES.includes(auth.role) && auth.companyId === companyId;
+}
+
+/**
+ * Who may leave the waitlist on a company's behalf: ops_admin, or members of the company
+ */
+export function canManageCompanyWaitlist(auth: AuthContext, companyId: string): boolean {
+  return auth.role === 'ops_admin' || auth.companyId === companyId;
+}
+
+/**
+ * Who may run a lottery draw ahead of the cron once the entry window has closed:
+ * ops_admin and GC roles
+ */
+export function canDrawLottery(auth: AuthContext): boolean {
+  return auth.role === 'ops_admin' || GC_ROLES.includes(auth.role);
+}
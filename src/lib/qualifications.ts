@@ -0,0 +1,157 @@
+import { PoolClient } from 'pg';
+import { Qualification } from '@/types/api';
+import { createQualificationExpiringPayload } from '@/lib/crypto';
+
+/**
+ * Qualification persistence helpers
+ * 資格（qualifications）の共通クエリと期限切れ通知
+ */
+
+// Days before valid_until on which a qualification.expiring notification is sent
+export const EXPIRY_ALERT_DAYS = [30, 7, 1];
+
+// Accepted certificate uploads
+export const MAX_CERTIFICATE_BYTES = 10 * 1024 * 1024;
+export const CERTIFICATE_CONTENT_TYPES: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png'
+};
+
+// Columns returned for qualifications by every qualification endpoint
+export function qualificationColumns(alias?: string): string {
+  const q = alias ? `${alias}.` : '';
+  return `
+    ${q}id,
+    ${q}tenant_id,
+    ${q}company_id,
+    ${q}name,
+    ${q}number,
+    ${q}valid_until::text AS valid_until,
+    ${q}files_url,
+    ${q}file_name,
+    ${q}file_content_type,
+    ${q}verification_status,
+    ${q}verified_by,
+    ${q}verified_at,
+    ${q}rejection_reason,
+    ${q}created_at,
+    ${q}updated_at
+  `;
+}
+
+/**
+ * Check the company exists in the tenant
+ */
+export async function companyExists(
+  client: PoolClient,
+  tenantId: string,
+  companyId: string
+): Promise<boolean> {
+  const result = await client.query(`
+    SELECT 1 FROM companies WHERE id = $1 AND tenant_id = $2
+  `, [companyId, tenantId]);
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Fetch one of a company's qualifications, optionally locking the row for update
+ */
+export async function getQualification(
+  client: PoolClient,
+  tenantId: string,
+  companyId: string,
+  qualificationId: string,
+  forUpdate: boolean = false
+): Promise<Qualification | null> {
+  const result = await client.query(`
+    SELECT ${qualificationColumns()}
+    FROM qualifications
+    WHERE id = $1 AND company_id = $2 AND tenant_id = $3
+    ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [qualificationId, companyId, tenantId]);
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Storage key for an uploaded certificate
+ */
+export function certificateStorageKey(
+  qualification: Pick<Qualification, 'tenant_id' | 'company_id' | 'id'>,
+  contentType: string
+): string {
+  const extension = CERTIFICATE_CONTENT_TYPES[contentType] || 'bin';
+  return `qualifications/${qualification.tenant_id}/${qualification.company_id}/${qualification.id}-${Date.now()}.${extension}`;
+}
+
+/**
+ * Enqueue qualification.expiring notifications for every tenant
+ * Runs without tenant context (cross-tenant batch, like the admin APIs)
+ * @param today - Reference date (YYYY-MM-DD)
+ * @returns Number of notifications enqueued
+ */
+export async function enqueueQualificationExpiryAlerts(
+  client: PoolClient,
+  today: string
+): Promise<number> {
+  const expiring = await client.query(`
+    SELECT
+      q.id,
+      q.tenant_id,
+      q.company_id,
+      c.name AS company_name,
+      q.name,
+      q.number,
+      q.valid_until::text AS valid_until,
+      (q.valid_until - $1::date) AS days_until_expiry
+    FROM qualifications q
+    JOIN companies c ON q.company_id = c.id
+    WHERE q.valid_until IS NOT NULL
+      AND (q.valid_until - $1::date) = ANY($2::int[])
+      AND q.verification_status <> 'rejected'
+      AND c.is_active = true
+    ORDER BY q.valid_until ASC, q.id ASC
+  `, [today, EXPIRY_ALERT_DAYS]);
+
+  const occurredAt = new Date().toISOString();
+  let enqueued = 0;
+
+  for (const row of expiring.rows) {
+    const payload = createQualificationExpiringPayload({
+      qualification_id: row.id,
+      tenant_id: row.tenant_id,
+      company_id: row.company_id,
+      company_name: row.company_name,
+      name: row.name,
+      number: row.number,
+      valid_until: row.valid_until,
+      days_until_expiry: row.days_until_expiry,
+      occurred_at: occurredAt
+    }) as { id: string };
+
+    const insert = await client.query(`
+      INSERT INTO integration_outbox (
+        event_id,
+        event_name,
+        payload,
+        target,
+        status,
+        next_attempt_at,
+        created_at
+      ) VALUES ($1, $2, $3, $4, $5, now(), now())
+      ON CONFLICT (event_id) DO NOTHING
+    `, [
+      payload.id,
+      'qualification.expiring',
+      JSON.stringify(payload),
+      'notification',
+      'pending'
+    ]);
+
+    enqueued += insert.rowCount || 0;
+  }
+
+  return enqueued;
+}
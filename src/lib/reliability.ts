@@ -0,0 +1,321 @@
+import { PoolClient } from 'pg';
+import { CompanyReliability, NoShowReportResponse, ReliabilityEventType } from '@/types/api';
+import { AuthContext } from '@/lib/auth';
+import { createClaimNoShowPayload } from '@/lib/crypto';
+import { EligibilityError } from '@/lib/eligibility';
+import { SUB_ROLES } from '@/lib/permissions';
+
+/**
+ * Subcontractor reliability
+ * 受注・完了・直前キャンセル・無断欠勤の履歴から信頼度スコアを算出し、受注の制限・後回しに利用（無断欠勤の報告を含む）
+ */
+
+// Only recent history counts towards the score
+export const RELIABILITY_WINDOW_DAYS = 180;
+
+// Cancelling this close to the work date counts against the company
+export const LATE_CANCEL_HOURS = 48;
+
+// Fewer finished claims than this is not enough history for a score
+export const MIN_RELIABILITY_OUTCOMES = 3;
+
+// A no-show hurts as much as three late cancellations
+const LATE_CANCEL_WEIGHT = 1;
+const NO_SHOW_WEIGHT = 3;
+
+export interface ReliabilityCounts {
+  claims: number;
+  completions: number;
+  late_cancellations: number;
+  no_shows: number;
+}
+
+export interface ReliabilityPolicy {
+  reliability_block_below: number | null;
+  reliability_delay_below: number | null;
+  reliability_delay_minutes: number | null;
+}
+
+/**
+ * Score from 0 (never turns up) to 100 (always completes)
+ * @returns null when the company has too little history to judge
+ */
+export function reliabilityScore(counts: ReliabilityCounts): number | null {
+  const { completions, late_cancellations, no_shows } = counts;
+
+  if (completions + late_cancellations + no_shows < MIN_RELIABILITY_OUTCOMES) {
+    return null;
+  }
+
+  const penalties = late_cancellations * LATE_CANCEL_WEIGHT + no_shows * NO_SHOW_WEIGHT;
+  return Math.round((100 * completions) / (completions + penalties));
+}
+
+/**
+ * A cancellation counts against the company when its own members cancel inside LATE_CANCEL_HOURS
+ * GC cancellations (weather, client changes) never do
+ */
+export function isLateCancellation(
+  auth: AuthContext,
+  claimCompanyId: string,
+  withinLateWindow: boolean
+): boolean {
+  return withinLateWindow && SUB_ROLES.includes(auth.role) && auth.companyId === claimCompanyId;
+}
+
+/**
+ * Apply the tenant's reliability policy to a claim
+ * Companies without a score yet are never held back
+ */
+export function checkReliability(
+  policy: ReliabilityPolicy,
+  score: number | null,
+  publishedAt: string | Date | null,
+  now: Date = new Date()
+): EligibilityError | null {
+  if (score === null) {
+    return null;
+  }
+
+  if (policy.reliability_block_below != null && score < policy.reliability_block_below) {
+    return {
+      code: 'RELIABILITY_BLOCKED',
+      message: `Reliability score ${score} is below the minimum of ${policy.reliability_block_below}`,
+      status: 403,
+      details: { reliability_score: score, minimum_score: policy.reliability_block_below }
+    };
+  }
+
+  if (
+    policy.reliability_delay_below != null
+    && policy.reliability_delay_minutes
+    && publishedAt
+    && score < policy.reliability_delay_below
+  ) {
+    const opensAt = new Date(new Date(publishedAt).getTime() + policy.reliability_delay_minutes * 60_000);
+
+    if (opensAt > now) {
+      return {
+        code: 'RELIABILITY_DELAYED',
+        message: `Companies with a reliability score below ${policy.reliability_delay_below} can claim from ${opensAt.toISOString()}`,
+        status: 403,
+        details: {
+          reliability_score: score,
+          threshold: policy.reliability_delay_below,
+          opens_at: opensAt.toISOString()
+        }
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether the policy can hold anyone back (skips the score query otherwise)
+ */
+export function hasReliabilityPolicy(policy: ReliabilityPolicy): boolean {
+  return policy.reliability_block_below != null
+    || (policy.reliability_delay_below != null && Boolean(policy.reliability_delay_minutes));
+}
+
+/**
+ * Append to the company's reliability history; must run with tenant context set
+ */
+export async function recordReliabilityEvent(
+  client: PoolClient,
+  tenantId: string,
+  data: { companyId: string; claimId: string | null; slotId: string | null; type: ReliabilityEventType }
+): Promise<void> {
+  await client.query(`
+    INSERT INTO company_reliability_events (tenant_id, company_id, claim_id, job_slot_id, event_type)
+    VALUES ($1, $2, $3, $4, $5)
+  `, [tenantId, data.companyId, data.claimId, data.slotId, data.type]);
+}
+
+/**
+ * Reliability over the last RELIABILITY_WINDOW_DAYS; must run with tenant context set
+ */
+export async function getCompanyReliability(
+  client: PoolClient,
+  tenantId: string,
+  companyId: string
+): Promise<CompanyReliability> {
+  const result = await client.query(`
+    SELECT
+      count(*) FILTER (WHERE event_type = 'claim')::int AS claims,
+      count(*) FILTER (WHERE event_type = 'completion')::int AS completions,
+      count(*) FILTER (WHERE event_type = 'late_cancellation')::int AS late_cancellations,
+      count(*) FILTER (WHERE event_type = 'no_show')::int AS no_shows
+    FROM company_reliability_events
+    WHERE tenant_id = $1
+      AND company_id = $2
+      AND occurred_at > now() - make_interval(days => $3)
+  `, [tenantId, companyId, RELIABILITY_WINDOW_DAYS]);
+
+  const counts: ReliabilityCounts = result.rows[0] || {
+    claims: 0,
+    completions: 0,
+    late_cancellations: 0,
+    no_shows: 0
+  };
+
+  return {
+    score: reliabilityScore(counts),
+    window_days: RELIABILITY_WINDOW_DAYS,
+    ...counts
+  };
+}
+
+/**
+ * Report that the claiming company did not turn up; must run with tenant context set
+ * The slot is cancelled with reason no_show and claim.no_show is queued for DandoriWork
+ * Throws CLAIM_NOT_FOUND, CLAIM_NOT_ACTIVE, ALREADY_COMPLETED or WORK_DATE_NOT_REACHED
+ */
+export async function reportNoShow(
+  client: PoolClient,
+  tenantId: string,
+  claimId: string,
+  data: { note: string | null; actor: { userId: string | null; role: string } }
+): Promise<NoShowReportResponse> {
+  const { note, actor } = data;
+
+  const current = await client.query(`
+    SELECT
+      c.id,
+      c.job_slot_id,
+      c.company_id,
+      c.user_id,
+      c.status,
+      js.job_post_id,
+      js.status AS slot_status,
+      js.work_date::text AS work_date,
+      js.work_date <= current_date AS work_date_reached,
+      p.dw_project_id
+    FROM claims c
+    JOIN job_slots js ON c.job_slot_id = js.id
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    JOIN projects p ON jp.project_id = p.id
+    WHERE c.id = $1 AND c.tenant_id = $2
+    FOR UPDATE OF c, js
+  `, [claimId, tenantId]);
+
+  const claim = current.rows[0];
+
+  if (!claim) {
+    throw new Error('CLAIM_NOT_FOUND');
+  }
+
+  if (claim.slot_status === 'completed') {
+    throw new Error('ALREADY_COMPLETED');
+  }
+
+  if (claim.status !== 'active' || claim.slot_status !== 'claimed') {
+    throw new Error('CLAIM_NOT_ACTIVE');
+  }
+
+  // A no-show can only be judged once the work date has come
+  if (!claim.work_date_reached) {
+    throw new Error('WORK_DATE_NOT_REACHED');
+  }
+
+  const claimUpdate = await client.query(`
+    UPDATE claims
+    SET
+      status = 'no_show',
+      no_show_reported_at = now(),
+      no_show_reported_by = $1,
+      no_show_note = $2
+    WHERE id = $3 AND tenant_id = $4
+    RETURNING id, job_slot_id, company_id, status, no_show_reported_at, no_show_reported_by, no_show_note
+  `, [actor.userId, note, claimId, tenantId]);
+
+  // The overdue review flag is settled by the report
+  const slotUpdate = await client.query(`
+    UPDATE job_slots
+    SET
+      status = 'cancelled',
+      canceled_at = now(),
+      cancel_reason = 'no_show',
+      review_flagged_at = NULL,
+      updated_at = now()
+    WHERE id = $1 AND tenant_id = $2
+    RETURNING id, status, work_date::text AS work_date, cancel_reason
+  `, [claim.job_slot_id, tenantId]);
+
+  const updatedClaim = claimUpdate.rows[0];
+
+  const payload = createClaimNoShowPayload({
+    claim_id: claimId,
+    slot_id: claim.job_slot_id,
+    tenant_id: tenantId,
+    job_post_id: claim.job_post_id,
+    work_date: claim.work_date,
+    dw_project_id: claim.dw_project_id,
+    company_id: claim.company_id,
+    user_id: claim.user_id,
+    reported_at: new Date(updatedClaim.no_show_reported_at).toISOString(),
+    reported_by: actor.userId,
+    note
+  }) as { id: string };
+
+  await client.query(`
+    INSERT INTO integration_outbox (
+      event_id,
+      event_name,
+      payload,
+      target,
+      status,
+      next_attempt_at,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, now(), now())
+    ON CONFLICT (event_id) DO NOTHING
+  `, [
+    payload.id,
+    'claim.no_show',
+    JSON.stringify(payload),
+    'dw',
+    'pending'
+  ]);
+
+  await client.query(`
+    INSERT INTO audit_logs (
+      tenant_id,
+      actor_user_id,
+      actor_role,
+      action,
+      target_table,
+      target_id,
+      payload,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+  `, [
+    tenantId,
+    actor.userId,
+    actor.role,
+    'claim_no_show',
+    'claims',
+    claimId,
+    JSON.stringify({
+      job_slot_id: claim.job_slot_id,
+      company_id: claim.company_id,
+      work_date: claim.work_date,
+      note,
+      event_id: payload.id,
+      previous_status: 'active',
+      new_status: 'no_show'
+    })
+  ]);
+
+  await recordReliabilityEvent(client, tenantId, {
+    companyId: claim.company_id,
+    claimId,
+    slotId: claim.job_slot_id,
+    type: 'no_show'
+  });
+
+  return {
+    claim: updatedClaim,
+    slot: slotUpdate.rows[0]
+  };
+}
@@ -0,0 +1,714 @@
+import { PoolClient } from 'pg';
+import {
+  ClaimReschedule,
+  ClaimRescheduleRequest,
+  ClaimStatus
+} from '@/types/api';
+import { AuthContext } from '@/lib/auth';
+import { canProposeReschedule, canRespondToReschedule, rescheduleParty } from '@/lib/permissions';
+import { EligibilityError, checkQualifications, getCompanyQualifications } from '@/lib/eligibility';
+import { checkClaimLimits } from '@/lib/claim-limits';
+import { checkShiftOverlap } from '@/lib/shifts';
+import { notHeldByOthers } from '@/lib/slot-holds';
+import { notifySlotEvent } from '@/lib/slot-events';
+import { promoteWaitlist } from '@/lib/waitlist';
+import { createClaimRescheduledPayload, createRescheduleRequestPayload } from '@/lib/crypto';
+
+/**
+ * Claim reschedules
+ * 受注の日程変更（元請け・受注会社の一方が提案し相手方が承諾。受注IDを維持したまま同じ募集の別スロットへ移動）
+ */
+
+export interface RescheduleActor {
+  userId: string | null;
+  role: string;
+}
+
+// The claim being moved and the slot it holds now
+export interface RescheduleSource {
+  slot_id: string;
+  job_post_id: string;
+  work_date: string;
+  claim_id: string;
+  claim_status: ClaimStatus;
+  company_id: string;
+  user_id: string | null;
+  dw_project_id: string | null;
+}
+
+async function findOpenSlot(
+  client: PoolClient,
+  tenantId: string,
+  jobPostId: string,
+  companyId: string,
+  dateCondition: '>' | '=',
+  date: string,
+  shiftCode: string | null
+): Promise<string | null> {
+  const result = await client.query(`
+    SELECT js.id
+    FROM job_slots js
+    WHERE js.tenant_id = $1
+      AND js.job_post_id = $2
+      AND js.work_date ${dateCondition} $3::date
+      AND js.work_date >= current_date
+      AND js.status = 'available'
+      AND ${notHeldByOthers('$4', 'js')}
+      AND js.shift_code IS NOT DISTINCT FROM $5
+    ORDER BY js.work_date ASC, js.slot_no ASC
+    LIMIT 1
+    FOR UPDATE OF js SKIP LOCKED
+  `, [tenantId, jobPostId, date, companyId, shiftCode]);
+
+  return result.rows[0]?.id || null;
+}
+
+/**
+ * Earliest open slot of the job post after a date that the company could take; must run with tenant context set
+ * Only slots of the same shift count; past dates and slots held for other companies are skipped;
+ * the slot found is locked
+ */
+export async function findNextOpenSlot(
+  client: PoolClient,
+  tenantId: string,
+  jobPostId: string,
+  companyId: string,
+  after: string,
+  shiftCode: string | null
+): Promise<string | null> {
+  return findOpenSlot(client, tenantId, jobPostId, companyId, '>', after, shiftCode);
+}
+
+/**
+ * An open slot of the job post in the same shift on the date that the company could take; must run with tenant context set
+ */
+export async function findOpenSlotOn(
+  client: PoolClient,
+  tenantId: string,
+  jobPostId: string,
+  companyId: string,
+  workDate: string,
+  shiftCode: string | null
+): Promise<string | null> {
+  return findOpenSlot(client, tenantId, jobPostId, companyId, '=', workDate, shiftCode);
+}
+
+/**
+ * Close any open reschedule proposal once the claim is cancelled or moved; must run with tenant context set
+ */
+export async function closeRescheduleRequests(
+  client: PoolClient,
+  tenantId: string,
+  claimId: string
+): Promise<void> {
+  await client.query(`
+    UPDATE claim_reschedule_requests
+    SET status = 'closed', decided_at = now()
+    WHERE claim_id = $1 AND tenant_id = $2 AND status = 'pending'
+  `, [claimId, tenantId]);
+}
+
+/**
+ * Move a claim to another open slot of its job post, first come first served; must run with tenant context set
+ * The old slot is released for others, or cancelled with the reason when its day is called off.
+ * Sends claim.rescheduled for confirmed claims, records the history and writes the audit log.
+ * @param data.auditContext - Extra fields for the audit payload (e.g. the bulk cancellation ID)
+ * @returns null when the target slot is no longer open
+ */
+export async function moveClaim(
+  client: PoolClient,
+  tenantId: string,
+  source: RescheduleSource,
+  toSlotId: string,
+  data: {
+    reason: string;
+    releaseSource: boolean;
+    actor: RescheduleActor;
+    auditContext?: Record<string, unknown>;
+  }
+): Promise<ClaimReschedule | null> {
+  const { reason, releaseSource, actor } = data;
+
+  const taken = await client.query(`
+    UPDATE job_slots
+    SET
+      claimed_by_company = $1,
+      claimed_by_user = $2,
+      claimed_at = now(),
+      status = 'claimed',
+      held_by_company = NULL,
+      held_by_user = NULL,
+      held_until = NULL,
+      updated_at = now()
+    WHERE
+      id = $3
+      AND tenant_id = $4
+      AND job_post_id = $5
+      AND status = 'available'
+      AND ${notHeldByOthers('$1')}
+    RETURNING id, work_date::text AS work_date
+  `, [source.company_id, source.user_id, toSlotId, tenantId, source.job_post_id]);
+
+  if (taken.rows.length === 0) {
+    return null;
+  }
+
+  const toSlot: { id: string; work_date: string } = taken.rows[0];
+
+  if (releaseSource) {
+    await client.query(`
+      UPDATE job_slots
+      SET
+        status = 'available',
+        claimed_by_company = NULL,
+        claimed_by_user = NULL,
+        claimed_at = NULL,
+        review_flagged_at = NULL,
+        updated_at = now()
+      WHERE id = $1 AND tenant_id = $2 AND status = 'claimed'
+    `, [source.slot_id, tenantId]);
+  } else {
+    await client.query(`
+      UPDATE job_slots
+      SET
+        status = 'cancelled',
+        canceled_at = now(),
+        cancel_reason = $1,
+        review_flagged_at = NULL,
+        updated_at = now()
+      WHERE id = $2 AND tenant_id = $3 AND status = 'claimed'
+    `, [reason, source.slot_id, tenantId]);
+  }
+
+  // Cancellation requests and reschedule proposals were about the old date, so they lapse with the move
+  await client.query(`
+    UPDATE claims
+    SET
+      job_slot_id = $1,
+      cancel_requested_at = NULL,
+      cancel_requested_by = NULL,
+      cancel_request_reason = NULL,
+      cancel_request_mode = NULL,
+      cancel_request_rule = NULL
+    WHERE id = $2 AND tenant_id = $3
+  `, [toSlot.id, source.claim_id, tenantId]);
+
+  await closeRescheduleRequests(client, tenantId, source.claim_id);
+
+  const history = await client.query(`
+    INSERT INTO claim_reschedules (
+      tenant_id,
+      claim_id,
+      company_id,
+      from_slot_id,
+      to_slot_id,
+      from_work_date,
+      to_work_date,
+      reason,
+      rescheduled_by
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING id, created_at
+  `, [
+    tenantId,
+    source.claim_id,
+    source.company_id,
+    source.slot_id,
+    toSlot.id,
+    source.work_date,
+    toSlot.work_date,
+    reason,
+    actor.userId
+  ]);
+
+  const reschedule: ClaimReschedule = {
+    id: history.rows[0].id,
+    claim_id: source.claim_id,
+    company_id: source.company_id,
+    job_post_id: source.job_post_id,
+    from_slot_id: source.slot_id,
+    from_work_date: source.work_date,
+    to_slot_id: toSlot.id,
+    to_work_date: toSlot.work_date,
+    reason,
+    rescheduled_at: new Date(history.rows[0].created_at).toISOString()
+  };
+
+  // A claim still awaiting approval was never sent to DandoriWork as claim.confirmed
+  let eventId: string | null = null;
+
+  if (source.claim_status === 'active') {
+    const payload = createClaimRescheduledPayload({
+      reschedule_id: reschedule.id,
+      claim_id: source.claim_id,
+      tenant_id: tenantId,
+      job_post_id: source.job_post_id,
+      dw_project_id: source.dw_project_id,
+      company_id: source.company_id,
+      user_id: source.user_id,
+      from_slot_id: source.slot_id,
+      from_work_date: source.work_date,
+      to_slot_id: toSlot.id,
+      to_work_date: toSlot.work_date,
+      reason,
+      rescheduled_at: reschedule.rescheduled_at,
+      rescheduled_by: actor.userId
+    }) as { id: string };
+
+    eventId = payload.id;
+    await client.query(`
+      INSERT INTO integration_outbox (
+        event_id,
+        event_name,
+        payload,
+        target,
+        status,
+        next_attempt_at,
+        created_at
+      ) VALUES ($1, $2, $3, $4, $5, now(), now())
+    `, [
+      eventId,
+      'claim.rescheduled',
+      JSON.stringify(payload),
+      'dw',
+      'pending'
+    ]);
+  }
+
+  await client.query(`
+    INSERT INTO audit_logs (
+      tenant_id,
+      actor_user_id,
+      actor_role,
+      action,
+      target_table,
+      target_id,
+      payload,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+  `, [
+    tenantId,
+    actor.userId,
+    actor.role,
+    'claim_reschedule',
+    'claims',
+    source.claim_id,
+    JSON.stringify({
+      ...data.auditContext,
+      reschedule_id: reschedule.id,
+      company_id: source.company_id,
+      claim_status: source.claim_status,
+      from_slot_id: source.slot_id,
+      from_work_date: source.work_date,
+      to_slot_id: toSlot.id,
+      to_work_date: toSlot.work_date,
+      reason,
+      source_slot_status: releaseSource ? 'available' : 'cancelled',
+      event_id: eventId
+    })
+  ]);
+
+  // Push both changes to live slot streams (delivered on commit)
+  await notifySlotEvent(client, tenantId, 'slot.claimed', {
+    jobPostId: source.job_post_id,
+    slotId: toSlot.id
+  });
+  await notifySlotEvent(client, tenantId, releaseSource ? 'slot.released' : 'slot.cancelled', {
+    jobPostId: source.job_post_id,
+    slotId: source.slot_id
+  });
+
+  // The freed day goes to the first eligible company on the waitlist
+  if (releaseSource) {
+    await promoteWaitlist(client, tenantId, source.slot_id, actor);
+  }
+
+  return reschedule;
+}
+
+// Columns returned for reschedule proposals (claim_reschedule_requests r)
+export function rescheduleRequestColumns(): string {
+  return `
+    r.id,
+    r.claim_id,
+    r.company_id,
+    r.job_post_id,
+    r.from_slot_id,
+    r.from_work_date::text AS from_work_date,
+    r.to_work_date::text AS to_work_date,
+    r.proposed_by,
+    r.proposed_by_party,
+    r.note,
+    r.status,
+    r.decided_by,
+    r.decided_at,
+    r.decline_note,
+    r.reschedule_id,
+    r.created_at
+  `;
+}
+
+async function queueRescheduleNotice(
+  client: PoolClient,
+  tenantId: string,
+  event: 'claim.reschedule_proposed' | 'claim.reschedule_accepted' | 'claim.reschedule_declined',
+  request: ClaimRescheduleRequest
+): Promise<void> {
+  const payload = createRescheduleRequestPayload({
+    event,
+    request_id: request.id,
+    tenant_id: tenantId,
+    claim_id: request.claim_id,
+    company_id: request.company_id,
+    job_post_id: request.job_post_id,
+    from_work_date: request.from_work_date,
+    to_work_date: request.to_work_date,
+    proposed_by_party: request.proposed_by_party,
+    note: event === 'claim.reschedule_declined' ? request.decline_note : request.note,
+    occurred_at: new Date().toISOString()
+  }) as { id: string };
+
+  await client.query(`
+    INSERT INTO integration_outbox (
+      event_id,
+      event_name,
+      payload,
+      target,
+      status,
+      next_attempt_at,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, now(), now())
+  `, [
+    payload.id,
+    event,
+    JSON.stringify(payload),
+    'notification',
+    'pending'
+  ]);
+}
+
+async function insertRescheduleAudit(
+  client: PoolClient,
+  auth: AuthContext,
+  action: string,
+  request: ClaimRescheduleRequest
+): Promise<void> {
+  await client.query(`
+    INSERT INTO audit_logs (
+      tenant_id,
+      actor_user_id,
+      actor_role,
+      action,
+      target_table,
+      target_id,
+      payload,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+  `, [
+    auth.tenantId,
+    auth.userId || null,
+    auth.role,
+    action,
+    'claims',
+    request.claim_id,
+    JSON.stringify({
+      reschedule_request_id: request.id,
+      company_id: request.company_id,
+      proposed_by_party: request.proposed_by_party,
+      from_slot_id: request.from_slot_id,
+      from_work_date: request.from_work_date,
+      to_work_date: request.to_work_date,
+      status: request.status,
+      reschedule_id: request.reschedule_id,
+      note: request.note,
+      decline_note: request.decline_note
+    })
+  ]);
+}
+
+/**
+ * Propose moving an active claim to another work date of its job post; must run with tenant context set
+ * The other party is notified; nothing moves until they accept
+ * @throws CLAIM_NOT_FOUND, UNAUTHORIZED_RESCHEDULE, CLAIM_NOT_ACTIVE, SAME_WORK_DATE,
+ *   RESCHEDULE_PENDING, NO_OPEN_SLOT
+ */
+export async function proposeReschedule(
+  client: PoolClient,
+  auth: AuthContext,
+  claimId: string,
+  data: { workDate: string; note: string | null }
+): Promise<ClaimRescheduleRequest> {
+  const { tenantId } = auth;
+
+  const claimQuery = await client.query(`
+    SELECT
+      c.id,
+      c.status,
+      c.company_id,
+      c.tenant_id,
+      js.id AS slot_id,
+      js.job_post_id,
+      js.work_date::text AS work_date,
+      js.shift_code
+    FROM claims c
+    JOIN job_slots js ON c.job_slot_id = js.id
+    WHERE c.id = $1 AND c.tenant_id = $2
+    FOR UPDATE OF c
+  `, [claimId, tenantId]);
+
+  const claim = claimQuery.rows[0];
+
+  if (!claim) {
+    throw new Error('CLAIM_NOT_FOUND');
+  }
+
+  const party = rescheduleParty(auth);
+
+  if (!party || !canProposeReschedule(auth, { tenantId: claim.tenant_id, companyId: claim.company_id })) {
+    throw new Error('UNAUTHORIZED_RESCHEDULE');
+  }
+
+  if (claim.status !== 'active') {
+    throw new Error('CLAIM_NOT_ACTIVE');
+  }
+
+  if (claim.work_date === data.workDate) {
+    throw new Error('SAME_WORK_DATE');
+  }
+
+  const pending = await client.query(`
+    SELECT id FROM claim_reschedule_requests
+    WHERE claim_id = $1 AND tenant_id = $2 AND status = 'pending'
+  `, [claimId, tenantId]);
+
+  if (pending.rows.length > 0) {
+    throw new Error('RESCHEDULE_PENDING');
+  }
+
+  // Checked again on acceptance, where the slot is actually taken
+  if (!await findOpenSlotOn(
+    client,
+    tenantId,
+    claim.job_post_id,
+    claim.company_id,
+    data.workDate,
+    claim.shift_code ?? null
+  )) {
+    throw new Error('NO_OPEN_SLOT');
+  }
+
+  const result = await client.query(`
+    INSERT INTO claim_reschedule_requests AS r (
+      tenant_id,
+      claim_id,
+      company_id,
+      job_post_id,
+      from_slot_id,
+      from_work_date,
+      to_work_date,
+      proposed_by,
+      proposed_by_party,
+      note
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    RETURNING ${rescheduleRequestColumns()}
+  `, [
+    tenantId,
+    claimId,
+    claim.company_id,
+    claim.job_post_id,
+    claim.slot_id,
+    claim.work_date,
+    data.workDate,
+    auth.userId || null,
+    party,
+    data.note
+  ]);
+
+  const request: ClaimRescheduleRequest = result.rows[0];
+
+  await queueRescheduleNotice(client, tenantId, 'claim.reschedule_proposed', request);
+  await insertRescheduleAudit(client, auth, 'reschedule_propose', request);
+
+  return request;
+}
+
+// Pending proposal locked together with the claim's current slot
+interface PendingReschedule extends ClaimRescheduleRequest {
+  claim_status: ClaimStatus;
+  claim_user_id: string | null;
+  claim_slot_id: string;
+  claim_shift_code: string | null;
+  claim_crew: string | null;
+  dw_project_id: string | null;
+  required_quals: string | null;
+}
+
+async function lockPendingReschedule(
+  client: PoolClient,
+  auth: AuthContext,
+  claimId: string
+): Promise<PendingReschedule> {
+  const result = await client.query(`
+    SELECT
+      ${rescheduleRequestColumns()},
+      c.status AS claim_status,
+      c.user_id AS claim_user_id,
+      c.job_slot_id AS claim_slot_id,
+      js.shift_code AS claim_shift_code,
+      c.crew AS claim_crew,
+      p.dw_project_id,
+      jp.required_quals
+    FROM claim_reschedule_requests r
+    JOIN claims c ON r.claim_id = c.id
+    JOIN job_slots js ON c.job_slot_id = js.id
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    JOIN projects p ON jp.project_id = p.id
+    WHERE r.claim_id = $1 AND r.tenant_id = $2 AND r.status = 'pending'
+    FOR UPDATE OF r, js
+  `, [claimId, auth.tenantId]);
+
+  const pending: PendingReschedule | undefined = result.rows[0];
+
+  // Proposals are closed when the claim is cancelled or moved, so a stale one is treated as gone
+  if (!pending || pending.claim_status !== 'active' || pending.claim_slot_id !== pending.from_slot_id) {
+    throw new Error('RESCHEDULE_REQUEST_NOT_FOUND');
+  }
+
+  if (!canRespondToReschedule(auth, {
+    tenantId: auth.tenantId,
+    companyId: pending.company_id,
+    proposedByParty: pending.proposed_by_party
+  })) {
+    throw new Error('UNAUTHORIZED_RESCHEDULE');
+  }
+
+  return pending;
+}
+
+/**
+ * Accept a proposal and move the claim to an open slot on the new date; must run with tenant context set
+ * The target slot, in the claim's shift, is taken first come first served. The company must hold the
+ * job post's qualifications on the new date, stay within its claim caps and not double-book the
+ * claim's crew; the old slot is released.
+ * @returns The eligibility error when the company may not work the new date
+ * @throws RESCHEDULE_REQUEST_NOT_FOUND, UNAUTHORIZED_RESCHEDULE, NO_OPEN_SLOT
+ */
+export async function acceptReschedule(
+  client: PoolClient,
+  auth: AuthContext,
+  claimId: string
+): Promise<
+  | { request: ClaimRescheduleRequest; reschedule: ClaimReschedule; error?: undefined }
+  | { error: EligibilityError }
+> {
+  const { tenantId } = auth;
+  const pending = await lockPendingReschedule(client, auth, claimId);
+
+  const toSlotId = await findOpenSlotOn(
+    client,
+    tenantId,
+    pending.job_post_id,
+    pending.company_id,
+    pending.to_work_date,
+    pending.claim_shift_code ?? null
+  );
+
+  if (!toSlotId) {
+    throw new Error('NO_OPEN_SLOT');
+  }
+
+  const qualificationError = checkQualifications(
+    pending.required_quals,
+    await getCompanyQualifications(client, tenantId, pending.company_id),
+    pending.to_work_date
+  );
+
+  if (qualificationError) {
+    return { error: qualificationError };
+  }
+
+  const limitError = await checkClaimLimits(client, tenantId, pending.company_id, [toSlotId], {
+    excludeClaimId: claimId
+  });
+
+  if (limitError) {
+    return { error: limitError };
+  }
+
+  const overlapError = await checkShiftOverlap(client, tenantId, pending.company_id, pending.claim_crew, [toSlotId], {
+    excludeClaimId: claimId
+  });
+
+  if (overlapError) {
+    return { error: overlapError };
+  }
+
+  const reschedule = await moveClaim(client, tenantId, {
+    slot_id: pending.claim_slot_id,
+    job_post_id: pending.job_post_id,
+    work_date: pending.from_work_date,
+    claim_id: claimId,
+    claim_status: pending.claim_status,
+    company_id: pending.company_id,
+    user_id: pending.claim_user_id,
+    dw_project_id: pending.dw_project_id
+  }, toSlotId, {
+    reason: 'reschedule',
+    releaseSource: true,
+    actor: { userId: auth.userId || null, role: auth.role },
+    auditContext: { reschedule_request_id: pending.id }
+  });
+
+  if (!reschedule) {
+    throw new Error('NO_OPEN_SLOT');
+  }
+
+  // moveClaim closed the proposal along with the claim's other open ones; record the decision instead
+  const result = await client.query(`
+    UPDATE claim_reschedule_requests AS r
+    SET
+      status = 'accepted',
+      decided_by = $1,
+      decided_at = now(),
+      reschedule_id = $2
+    WHERE r.id = $3 AND r.tenant_id = $4
+    RETURNING ${rescheduleRequestColumns()}
+  `, [auth.userId || null, reschedule.id, pending.id, tenantId]);
+
+  const request: ClaimRescheduleRequest = result.rows[0];
+
+  await queueRescheduleNotice(client, tenantId, 'claim.reschedule_accepted', request);
+  await insertRescheduleAudit(client, auth, 'reschedule_accept', request);
+
+  return { request, reschedule };
+}
+
+/**
+ * Decline a proposal; the claim stays where it is; must run with tenant context set
+ * @throws RESCHEDULE_REQUEST_NOT_FOUND, UNAUTHORIZED_RESCHEDULE
+ */
+export async function declineReschedule(
+  client: PoolClient,
+  auth: AuthContext,
+  claimId: string,
+  data: { note: string | null }
+): Promise<ClaimRescheduleRequest> {
+  const pending = await lockPendingReschedule(client, auth, claimId);
+
+  const result = await client.query(`
+    UPDATE claim_reschedule_requests AS r
+    SET
+      status = 'declined',
+      decided_by = $1,
+      decided_at = now(),
+      decline_note = $2
+    WHERE r.id = $3 AND r.tenant_id = $4
+    RETURNING ${rescheduleRequestColumns()}
+  `, [auth.userId || null, data.note, pending.id, auth.tenantId]);
+
+  const request: ClaimRescheduleRequest = result.rows[0];
+
+  await queueRescheduleNotice(client, auth.tenantId, 'claim.reschedule_declined', request);
+  await insertRescheduleAudit(client, auth, 'reschedule_decline', request);
+
+  return request;
+}
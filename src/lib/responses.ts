@@ -4,10 +4,11 @@ import { ApiError } from '@/types/api';
 export function jsonError(
   code: string,
   message: string,
-  status: number = 400
+  status: number = 400,
+  details?: Record<string, unknown>
 ): NextResponse<ApiError> {
   return NextResponse.json(
-    { code, message },
+    details ? { code, message, details } : { code, message },
     { status }
   );
 }
@@ -51,6 +52,10 @@ export function handleApiError(error: unknown): NextResponse<ApiError> {
       return unauthorizedError();
     }
 
+    if (error.message.startsWith('Forbidden')) {
+      return forbiddenError(error.message.replace(/^Forbidden:\s*/, '') || undefined);
+    }
+
     if (error.message.includes('not found')) {
       return notFoundError();
     }
@@ -0,0 +1,148 @@
+import { PoolClient } from 'pg';
+import { SlotTimeWindow } from '@/types/api';
+import { EligibilityError } from '@/lib/eligibility';
+import { lockCompanyClaims } from '@/lib/claim-limits';
+
+/**
+ * Shift time windows
+ * スロットの勤務時間帯（テナントのタイムゾーン基準）と同一班の時間帯重複チェック
+ */
+
+export const DEFAULT_TIMEZONE = 'Asia/Tokyo';
+
+/**
+ * Whether the IANA timezone name is known to the runtime (and so to Postgres' tz database)
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Slot time columns for SELECT / RETURNING lists; times as HH:MM
+export function slotTimeColumns(alias?: string): string {
+  const p = alias ? `${alias}.` : '';
+  return `
+    ${p}shift_code,
+    to_char(${p}start_time, 'HH24:MI') AS start_time,
+    to_char(${p}end_time, 'HH24:MI') AS end_time,
+    ${p}starts_at,
+    ${p}ends_at
+  `;
+}
+
+/**
+ * Pick the time window out of a row selected with slotTimeColumns() plus the tenant timezone
+ */
+export function toSlotTimeWindow(row: any, timezone?: string | null): SlotTimeWindow {
+  return {
+    shift_code: row?.shift_code ?? null,
+    start_time: row?.start_time ?? null,
+    end_time: row?.end_time ?? null,
+    starts_at: row?.starts_at ?? null,
+    ends_at: row?.ends_at ?? null,
+    timezone: timezone || row?.timezone || DEFAULT_TIMEZONE
+  };
+}
+
+export interface CrewShift {
+  slot_id: string;
+  claim_id?: string;
+  starts_at: string | Date;
+  ends_at: string | Date;
+}
+
+/**
+ * Half-open overlap: a shift ending at 12:00 does not overlap one starting at 12:00
+ */
+export function shiftsOverlap(a: CrewShift, b: CrewShift): boolean {
+  return new Date(a.starts_at) < new Date(b.ends_at) && new Date(b.starts_at) < new Date(a.ends_at);
+}
+
+/**
+ * Find the first pair of shifts the crew would have to work at once
+ * @param requested - Slots being claimed now; they must not overlap each other either
+ * @param existing - Slots the crew already holds (active or pending approval claims)
+ */
+export function findShiftOverlap(
+  crew: string,
+  requested: CrewShift[],
+  existing: CrewShift[]
+): EligibilityError | null {
+  for (let i = 0; i < requested.length; i++) {
+    const target = requested[i];
+    const conflict =
+      requested.slice(i + 1).find((other) => shiftsOverlap(target, other)) ||
+      existing.find((other) => shiftsOverlap(target, other));
+
+    if (conflict) {
+      return {
+        code: 'SHIFT_OVERLAP',
+        message: `Crew "${crew}" is already booked for an overlapping shift`,
+        status: 409,
+        details: {
+          crew,
+          slot_id: target.slot_id,
+          conflicting_slot_id: conflict.slot_id,
+          conflicting_claim_id: conflict.claim_id ?? null
+        }
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Stop a company booking one crew on overlapping shifts; must run with tenant context set, before the slot UPDATE
+ * Claims without a crew are not checked. Takes the company's claim lock (held until commit) so
+ * concurrent claims of the same crew see each other.
+ * @param options.excludeClaimId - A claim moving to the requested slot, which no longer counts where it is
+ * @returns null when the crew is free for every slot, otherwise SHIFT_OVERLAP
+ */
+export async function checkShiftOverlap(
+  client: PoolClient,
+  tenantId: string,
+  companyId: string,
+  crew: string | null | undefined,
+  slotIds: string[],
+  options: { excludeClaimId?: string } = {}
+): Promise<EligibilityError | null> {
+  if (!crew) {
+    return null;
+  }
+
+  await lockCompanyClaims(client, tenantId, companyId);
+
+  const requestedResult = await client.query(`
+    SELECT id AS slot_id, starts_at, ends_at
+    FROM job_slots
+    WHERE id = ANY($1::uuid[]) AND tenant_id = $2
+    ORDER BY starts_at ASC, id ASC
+  `, [slotIds, tenantId]);
+
+  const existingResult = await client.query(`
+    SELECT c.id AS claim_id, js.id AS slot_id, js.starts_at, js.ends_at
+    FROM claims c
+    JOIN job_slots js ON c.job_slot_id = js.id
+    WHERE c.tenant_id = $1
+      AND c.company_id = $2
+      AND c.crew = $3
+      AND c.status IN ('pending_approval', 'active')
+      AND EXISTS (
+        SELECT 1 FROM job_slots rs
+        WHERE rs.id = ANY($4::uuid[])
+          AND rs.starts_at < js.ends_at
+          AND js.starts_at < rs.ends_at
+      )
+  `, [tenantId, companyId, crew, slotIds]);
+
+  const existing = options.excludeClaimId
+    ? existingResult.rows.filter((row: CrewShift) => row.claim_id !== options.excludeClaimId)
+    : existingResult.rows;
+
+  return findShiftOverlap(crew, requestedResult.rows, existing);
+}
@@ -0,0 +1,270 @@
+import { PoolClient } from 'pg';
+import { CompletedSlot, SlotCompletionSkip, SlotCompletionSkipReason } from '@/types/api';
+import { createSlotCompletedPayload } from '@/lib/crypto';
+import { recordReliabilityEvent } from '@/lib/reliability';
+
+/**
+ * Slot completion after the work is done
+ * 作業完了の記録（slot.completed をダンドリワークへ送信）と未完了スロットの確認フラグ
+ */
+
+export interface CompletionActor {
+  userId: string | null;
+  role: string;
+}
+
+// Explicit slots, or every claimed slot of a job post (optionally on one work date)
+export type CompletionTarget =
+  | { slotIds: string[] }
+  | { jobPostId: string; workDate?: string };
+
+export interface CompletionCandidate {
+  id: string;
+  job_post_id: string;
+  work_date: string;
+  status: string;
+  claim_id: string | null;
+  claim_status: string | null;
+  company_id: string | null;
+  user_id: string | null;
+  dw_project_id: string | null;
+  work_date_reached: boolean;
+}
+
+/**
+ * Why a slot cannot be completed, or null when it can
+ * Only slots with an active claim whose work date has arrived can be completed
+ */
+export function completionSkipReason(slot: CompletionCandidate): SlotCompletionSkipReason | null {
+  if (slot.status === 'completed') {
+    return 'already_completed';
+  }
+
+  if (slot.status !== 'claimed' || !slot.claim_id) {
+    return 'not_claimed';
+  }
+
+  if (slot.claim_status === 'pending_approval') {
+    return 'pending_approval';
+  }
+
+  if (!slot.work_date_reached) {
+    return 'work_date_not_reached';
+  }
+
+  return null;
+}
+
+/**
+ * Mark slots completed and queue slot.completed for each; must run with tenant context set
+ * Slots that cannot be completed are skipped and reported with the reason
+ */
+export async function completeSlots(
+  client: PoolClient,
+  tenantId: string,
+  target: CompletionTarget,
+  data: { actualHours: number | null; notes: string | null; actor: CompletionActor }
+): Promise<{ completed: CompletedSlot[]; skipped: SlotCompletionSkip[] }> {
+  const { actualHours, notes, actor } = data;
+
+  // Job post targets only pick up claimed slots; open or cancelled days are not worth reporting
+  const condition = 'slotIds' in target
+    ? 'js.id = ANY($2::uuid[])'
+    : `js.job_post_id = $2 AND ($3::date IS NULL OR js.work_date = $3::date) AND js.status = 'claimed'`;
+  const params: any[] = 'slotIds' in target
+    ? [tenantId, target.slotIds]
+    : [tenantId, target.jobPostId, target.workDate || null];
+
+  const candidates = await client.query(`
+    SELECT
+      js.id,
+      js.job_post_id,
+      js.work_date::text AS work_date,
+      js.status,
+      c.id AS claim_id,
+      c.status AS claim_status,
+      c.company_id,
+      c.user_id,
+      p.dw_project_id,
+      js.work_date <= current_date AS work_date_reached
+    FROM job_slots js
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    JOIN projects p ON jp.project_id = p.id
+    LEFT JOIN claims c ON js.id = c.job_slot_id AND c.status IN ('pending_approval', 'active')
+    WHERE js.tenant_id = $1 AND ${condition}
+    ORDER BY js.work_date ASC, js.slot_no ASC
+    FOR UPDATE OF js
+  `, params);
+
+  const rows: CompletionCandidate[] = candidates.rows;
+  const skipped: SlotCompletionSkip[] = [];
+  const completable: CompletionCandidate[] = [];
+
+  for (const slot of rows) {
+    const reason = completionSkipReason(slot);
+
+    if (reason) {
+      skipped.push({ slot_id: slot.id, reason });
+    } else {
+      completable.push(slot);
+    }
+  }
+
+  if ('slotIds' in target) {
+    const found = new Set(rows.map((slot) => slot.id));
+
+    for (const slotId of target.slotIds.filter((id) => !found.has(id))) {
+      skipped.push({ slot_id: slotId, reason: 'not_found' });
+    }
+  }
+
+  if (completable.length === 0) {
+    return { completed: [], skipped };
+  }
+
+  const updateResult = await client.query(`
+    UPDATE job_slots
+    SET
+      status = 'completed',
+      completed_at = now(),
+      completed_by = $1,
+      actual_hours = $2,
+      completion_notes = $3,
+      review_flagged_at = NULL,
+      updated_at = now()
+    WHERE id = ANY($4::uuid[]) AND tenant_id = $5 AND status = 'claimed'
+    RETURNING
+      id,
+      job_post_id,
+      work_date::text AS work_date,
+      status,
+      completed_at,
+      completed_by,
+      actual_hours::float8 AS actual_hours,
+      completion_notes
+  `, [actor.userId, actualHours, notes, completable.map((slot) => slot.id), tenantId]);
+
+  const completed: CompletedSlot[] = [];
+
+  for (const row of updateResult.rows) {
+    const slot = completable.find((candidate) => candidate.id === row.id)!;
+
+    const payload = createSlotCompletedPayload({
+      slot_id: row.id,
+      tenant_id: tenantId,
+      job_post_id: row.job_post_id,
+      work_date: row.work_date,
+      dw_project_id: slot.dw_project_id,
+      claim_id: slot.claim_id!,
+      company_id: slot.company_id!,
+      user_id: slot.user_id,
+      completed_at: new Date(row.completed_at).toISOString(),
+      completed_by: row.completed_by,
+      actual_hours: row.actual_hours,
+      notes: row.completion_notes
+    }) as { id: string };
+
+    await client.query(`
+      INSERT INTO integration_outbox (
+        event_id,
+        event_name,
+        payload,
+        target,
+        status,
+        next_attempt_at,
+        created_at
+      ) VALUES ($1, $2, $3, $4, $5, now(), now())
+      ON CONFLICT (event_id) DO NOTHING
+    `, [
+      payload.id,
+      'slot.completed',
+      JSON.stringify(payload),
+      'dw',
+      'pending'
+    ]);
+
+    await client.query(`
+      INSERT INTO audit_logs (
+        tenant_id,
+        actor_user_id,
+        actor_role,
+        action,
+        target_table,
+        target_id,
+        payload,
+        created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+    `, [
+      tenantId,
+      actor.userId,
+      actor.role,
+      'slot_complete',
+      'job_slots',
+      row.id,
+      JSON.stringify({
+        claim_id: slot.claim_id,
+        company_id: slot.company_id,
+        work_date: row.work_date,
+        actual_hours: row.actual_hours,
+        notes: row.completion_notes,
+        event_id: payload.id
+      })
+    ]);
+
+    await recordReliabilityEvent(client, tenantId, {
+      companyId: slot.company_id!,
+      claimId: slot.claim_id,
+      slotId: row.id,
+      type: 'completion'
+    });
+
+    completed.push({ ...row, claim_id: slot.claim_id!, company_id: slot.company_id! });
+  }
+
+  return { completed, skipped };
+}
+
+/**
+ * Flag claimed slots whose work date has passed without completion (all tenants)
+ * Each slot is flagged once; completing it clears the flag
+ * @returns Number of slots flagged
+ */
+export async function flagOverdueSlots(client: PoolClient): Promise<number> {
+  const flagged = await client.query(`
+    UPDATE job_slots
+    SET review_flagged_at = now(), updated_at = now()
+    WHERE status = 'claimed'
+      AND work_date < current_date
+      AND review_flagged_at IS NULL
+    RETURNING id, tenant_id, job_post_id, work_date::text AS work_date, claimed_by_company
+  `);
+
+  for (const slot of flagged.rows) {
+    await client.query(`
+      INSERT INTO audit_logs (
+        tenant_id,
+        actor_user_id,
+        actor_role,
+        action,
+        target_table,
+        target_id,
+        payload,
+        created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+    `, [
+      slot.tenant_id,
+      null,
+      'system',
+      'slot_review_flag',
+      'job_slots',
+      slot.id,
+      JSON.stringify({
+        job_post_id: slot.job_post_id,
+        work_date: slot.work_date,
+        company_id: slot.claimed_by_company
+      })
+    ]);
+  }
+
+  return flagged.rows.length;
+}
@@ -0,0 +1,172 @@
+import { Client, PoolClient, Notification } from 'pg';
+import { SlotStreamEvent, SlotStreamEventType } from '@/types/api';
+
+/**
+ * Slot availability events over Postgres LISTEN/NOTIFY
+ * スロット状態変更の通知（SSE 配信用）
+ *
+ * NOTIFY is transactional: events raised inside withTransaction are only
+ * delivered once the transaction commits, and dropped on rollback.
+ */
+
+export const SLOT_EVENTS_CHANNEL = 'slot_events';
+
+type SlotEventListener = (event: SlotStreamEvent) => void;
+
+// Subscribers keyed by tenant so events never cross tenants
+const subscribers = new Map<string, Set<SlotEventListener>>();
+
+let listenClient: Client | null = null;
+let listenPromise: Promise<void> | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Queue a slot event on the current transaction
+ */
+export async function notifySlotEvent(
+  client: PoolClient,
+  tenantId: string,
+  type: SlotStreamEventType,
+  data: { jobPostId: string; slotId?: string | null; heldByCompany?: string }
+): Promise<void> {
+  const event: SlotStreamEvent = {
+    type,
+    tenant_id: tenantId,
+    job_post_id: data.jobPostId,
+    slot_id: data.slotId ?? null,
+    ...(data.heldByCompany ? { held_by_company: data.heldByCompany } : {}),
+    occurred_at: new Date().toISOString()
+  };
+
+  await client.query('SELECT pg_notify($1, $2)', [SLOT_EVENTS_CHANNEL, JSON.stringify(event)]);
+}
+
+function dispatch(message: Notification): void {
+  if (message.channel !== SLOT_EVENTS_CHANNEL || !message.payload) {
+    return;
+  }
+
+  let event: SlotStreamEvent;
+  try {
+    event = JSON.parse(message.payload);
+  } catch {
+    console.error('Invalid slot event payload:', message.payload);
+    return;
+  }
+
+  subscribers.get(event.tenant_id)?.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Slot event listener error:', error);
+    }
+  });
+}
+
+function resetListener(): void {
+  listenClient?.removeAllListeners();
+  listenClient = null;
+  listenPromise = null;
+
+  // Reconnect while anyone is still subscribed
+  if (subscribers.size > 0 && !reconnectTimer) {
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      ensureListening().catch((error) => {
+        console.error('Slot event listener reconnect failed:', error);
+      });
+    }, 1000);
+  }
+}
+
+// A dedicated connection is used because LISTEN must outlive any pooled checkout
+function ensureListening(): Promise<void> {
+  if (listenPromise) {
+    return listenPromise;
+  }
+
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+  listenClient = client;
+
+  client.on('notification', dispatch);
+  client.on('error', (error) => {
+    console.error('Slot event listener error:', error);
+    client.end().catch(() => undefined);
+    resetListener();
+  });
+  client.on('end', () => {
+    if (listenClient === client) {
+      resetListener();
+    }
+  });
+
+  listenPromise = client
+    .connect()
+    .then(() => client.query(`LISTEN ${SLOT_EVENTS_CHANNEL}`))
+    .then(() => undefined)
+    .catch((error) => {
+      resetListener();
+      throw error;
+    });
+
+  return listenPromise;
+}
+
+async function stopListening(): Promise<void> {
+  const client = listenClient;
+  listenClient = null;
+  listenPromise = null;
+
+  if (client) {
+    client.removeAllListeners();
+    await client.end().catch(() => undefined);
+  }
+}
+
+/**
+ * Subscribe to a tenant's slot events; returns an unsubscribe function
+ */
+export async function subscribeSlotEvents(
+  tenantId: string,
+  listener: SlotEventListener
+): Promise<() => void> {
+  let listeners = subscribers.get(tenantId);
+  if (!listeners) {
+    listeners = new Set();
+    subscribers.set(tenantId, listeners);
+  }
+  listeners.add(listener);
+
+  try {
+    await ensureListening();
+  } catch (error) {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      subscribers.delete(tenantId);
+    }
+    throw error;
+  }
+
+  return () => {
+    const current = subscribers.get(tenantId);
+    current?.delete(listener);
+
+    if (current && current.size === 0) {
+      subscribers.delete(tenantId);
+    }
+
+    // Release the LISTEN connection when the last stream closes
+    if (subscribers.size === 0) {
+      stopListening().catch((error) => {
+        console.error('Failed to stop slot event listener:', error);
+      });
+    }
+  };
+}
+
+/**
+ * Format an event as a Server-Sent Events message
+ */
+export function formatSseMessage(event: SlotStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
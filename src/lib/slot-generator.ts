@@ -0,0 +1,273 @@
+import { PoolClient } from 'pg';
+import { ShiftTemplate, SlotSyncResult } from '@/types/api';
+
+/**
+ * Job slot generation
+ * 案件の期間・定員・シフトからjob_slotsを生成・同期する
+ */
+
+// ISO day of week: 1=Mon ... 7=Sun (Sundays skipped by default)
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5, 6];
+
+// One shift of every work date; posts without shift templates have a single whole-day shift
+export interface DailyShift {
+  code: string | null;
+  start_time: string | null; // HH:MM
+  end_time: string | null;
+}
+
+export const WHOLE_DAY_SHIFT: DailyShift = { code: null, start_time: null, end_time: null };
+
+export interface ExistingSlot {
+  id: string;
+  work_date: string;
+  shift_code?: string | null;
+  start_time?: string | null; // HH:MM
+  end_time?: string | null;
+  slot_no: number;
+  status: string;
+  // Released slots keep their cancelled claims as history
+  has_claims?: boolean;
+}
+
+export interface SlotPlan {
+  toCreate: Array<{ work_date: string; shift_code: string | null; slot_no: number }>;
+  // Available slots whose shift now has other times
+  toRetime: ExistingSlot[];
+  toDelete: ExistingSlot[];
+  // Available slots with claim history; withdrawn instead of deleted so the history stays
+  toWithdraw: ExistingSlot[];
+  blocked: ExistingSlot[];
+}
+
+/**
+ * Daily shifts of a job post from its shift templates
+ */
+export function dailyShifts(templates: ShiftTemplate[] | null | undefined): DailyShift[] {
+  if (!templates || templates.length === 0) {
+    return [WHOLE_DAY_SHIFT];
+  }
+  return templates.map((template) => ({
+    code: template.code,
+    start_time: template.start_time,
+    end_time: template.end_time
+  }));
+}
+
+/**
+ * List work dates between start and end (inclusive) matching the working-day pattern
+ * @param startDate - First date (YYYY-MM-DD)
+ * @param endDate - Last date (YYYY-MM-DD)
+ * @param workingDays - ISO days of week to include
+ * @param holidays - Dates (YYYY-MM-DD) to skip
+ * @returns Work dates in ascending order
+ */
+export function computeWorkDates(
+  startDate: string,
+  endDate: string,
+  workingDays: number[] = DEFAULT_WORKING_DAYS,
+  holidays: string[] = []
+): string[] {
+  const holidaySet = new Set(holidays);
+  const dates: string[] = [];
+
+  const cursor = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+
+  while (cursor <= end) {
+    const isoDay = cursor.getUTCDay() === 0 ? 7 : cursor.getUTCDay();
+    const date = cursor.toISOString().substring(0, 10);
+
+    if (workingDays.includes(isoDay) && !holidaySet.has(date)) {
+      dates.push(date);
+    }
+
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+/**
+ * Diff existing slots against the desired (work date x shift x slot_no) grid
+ * Only 'available' slots may be removed or retimed; any other slot outside the grid, or left on
+ * old shift times, is reported as blocked. Available slots that ever had a claim are withdrawn rather
+ * than deleted, since deleting a slot cascades to its claims
+ */
+export function planSlotChanges(
+  existing: ExistingSlot[],
+  workDates: string[],
+  capacity: number,
+  shifts: DailyShift[] = [WHOLE_DAY_SHIFT]
+): SlotPlan {
+  const key = (workDate: string, shiftCode: string | null | undefined, slotNo: number) =>
+    `${workDate}#${shiftCode ?? ''}#${slotNo}`;
+
+  const shiftsByCode = new Map(shifts.map((shift) => [shift.code ?? '', shift]));
+
+  const desired = new Set<string>();
+  const toCreate: SlotPlan['toCreate'] = [];
+  const existingKeys = new Set(existing.map((slot) => key(slot.work_date, slot.shift_code, slot.slot_no)));
+
+  workDates.forEach((workDate) => {
+    shifts.forEach((shift) => {
+      for (let slotNo = 1; slotNo <= capacity; slotNo++) {
+        desired.add(key(workDate, shift.code, slotNo));
+
+        if (!existingKeys.has(key(workDate, shift.code, slotNo))) {
+          toCreate.push({ work_date: workDate, shift_code: shift.code, slot_no: slotNo });
+        }
+      }
+    });
+  });
+
+  const toRetime: ExistingSlot[] = [];
+  const toDelete: ExistingSlot[] = [];
+  const toWithdraw: ExistingSlot[] = [];
+  const blocked: ExistingSlot[] = [];
+  existing.forEach((slot) => {
+    if (desired.has(key(slot.work_date, slot.shift_code, slot.slot_no))) {
+      const shift = shiftsByCode.get(slot.shift_code ?? '')!;
+      const retimed =
+        (slot.start_time ?? null) !== shift.start_time ||
+        (slot.end_time ?? null) !== shift.end_time;
+
+      if (!retimed) {
+        return;
+      }
+      if (slot.status === 'available') {
+        toRetime.push(slot);
+      } else {
+        blocked.push(slot);
+      }
+      return;
+    }
+    if (slot.status !== 'available') {
+      blocked.push(slot);
+    } else if (slot.has_claims) {
+      toWithdraw.push(slot);
+    } else {
+      toDelete.push(slot);
+    }
+  });
+
+  return { toCreate, toRetime, toDelete, toWithdraw, blocked };
+}
+
+/**
+ * Bring job_slots of a job post in line with its date range, working days, shifts and capacity
+ * Must run inside a transaction with tenant context set; slot windows follow from the tenant timezone
+ */
+export async function syncJobSlots(
+  client: PoolClient,
+  tenantId: string,
+  jobPost: {
+    id: string;
+    start_date: string;
+    end_date: string;
+    capacity: number;
+    working_days: number[];
+    skip_holidays: boolean;
+    shift_templates: ShiftTemplate[];
+  }
+): Promise<SlotSyncResult> {
+  // Load tenant holidays within the post's range
+  let holidays: string[] = [];
+  if (jobPost.skip_holidays) {
+    const holidayResult = await client.query(`
+      SELECT holiday_date::text AS holiday_date
+      FROM tenant_holidays
+      WHERE tenant_id = $1 AND holiday_date BETWEEN $2::date AND $3::date
+    `, [tenantId, jobPost.start_date, jobPost.end_date]);
+    holidays = holidayResult.rows.map((row: any) => row.holiday_date);
+  }
+
+  // Lock existing slots so concurrent claims cannot race with removal
+  const existingResult = await client.query(`
+    SELECT
+      id,
+      work_date::text AS work_date,
+      shift_code,
+      to_char(start_time, 'HH24:MI') AS start_time,
+      to_char(end_time, 'HH24:MI') AS end_time,
+      slot_no,
+      status,
+      EXISTS (SELECT 1 FROM claims c WHERE c.job_slot_id = job_slots.id) AS has_claims
+    FROM job_slots
+    WHERE job_post_id = $1 AND tenant_id = $2
+    ORDER BY work_date, shift_code, slot_no
+    FOR UPDATE
+  `, [jobPost.id, tenantId]);
+
+  const workDates = computeWorkDates(
+    jobPost.start_date,
+    jobPost.end_date,
+    jobPost.working_days,
+    holidays
+  );
+  const shifts = dailyShifts(jobPost.shift_templates);
+  const shiftsByCode = new Map(shifts.map((shift) => [shift.code ?? '', shift]));
+  const shiftOf = (shiftCode: string | null | undefined) => shiftsByCode.get(shiftCode ?? '')!;
+
+  const plan = planSlotChanges(existingResult.rows, workDates, jobPost.capacity, shifts);
+
+  if (plan.toCreate.length > 0) {
+    await client.query(`
+      INSERT INTO job_slots (tenant_id, job_post_id, work_date, shift_code, start_time, end_time, slot_no, status)
+      SELECT $1, $2, s.work_date, s.shift_code, s.start_time, s.end_time, s.slot_no, 'available'
+      FROM unnest($3::date[], $4::text[], $5::time[], $6::time[], $7::int[])
+        AS s(work_date, shift_code, start_time, end_time, slot_no)
+    `, [
+      tenantId,
+      jobPost.id,
+      plan.toCreate.map((slot) => slot.work_date),
+      plan.toCreate.map((slot) => slot.shift_code),
+      plan.toCreate.map((slot) => shiftOf(slot.shift_code).start_time),
+      plan.toCreate.map((slot) => shiftOf(slot.shift_code).end_time),
+      plan.toCreate.map((slot) => slot.slot_no)
+    ]);
+  }
+
+  if (plan.toRetime.length > 0) {
+    await client.query(`
+      UPDATE job_slots AS js
+      SET start_time = s.start_time, end_time = s.end_time, updated_at = now()
+      FROM unnest($1::uuid[], $2::time[], $3::time[]) AS s(id, start_time, end_time)
+      WHERE js.id = s.id AND js.tenant_id = $4 AND js.status = 'available'
+    `, [
+      plan.toRetime.map((slot) => slot.id),
+      plan.toRetime.map((slot) => shiftOf(slot.shift_code).start_time),
+      plan.toRetime.map((slot) => shiftOf(slot.shift_code).end_time),
+      tenantId
+    ]);
+  }
+
+  if (plan.toDelete.length > 0) {
+    await client.query(`
+      DELETE FROM job_slots
+      WHERE id = ANY($1::uuid[]) AND tenant_id = $2 AND status = 'available'
+    `, [plan.toDelete.map((slot) => slot.id), tenantId]);
+  }
+
+  if (plan.toWithdraw.length > 0) {
+    await client.query(`
+      UPDATE job_slots
+      SET status = 'cancelled', updated_at = now()
+      WHERE id = ANY($1::uuid[]) AND tenant_id = $2 AND status = 'available'
+    `, [plan.toWithdraw.map((slot) => slot.id), tenantId]);
+  }
+
+  return {
+    created_count: plan.toCreate.length,
+    removed_count: plan.toDelete.length + plan.toWithdraw.length,
+    retimed_count: plan.toRetime.length,
+    blocked_dates: Array.from(new Set(plan.blocked.map((slot) => slot.work_date))),
+    blocked_slots: plan.blocked.map((slot) => ({
+      slot_id: slot.id,
+      work_date: slot.work_date,
+      shift_code: slot.shift_code ?? null,
+      slot_no: slot.slot_no,
+      status: slot.status
+    }))
+  };
+}
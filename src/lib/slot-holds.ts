@@ -0,0 +1,100 @@
+import { PoolClient } from 'pg';
+import { notifySlotEvent } from '@/lib/slot-events';
+import { lockCompanyClaims } from '@/lib/claim-limits';
+
+/**
+ * Temporary slot holds (soft reservation while the booking form is open)
+ * 予約フォーム入力中の一時確保
+ */
+
+// How long a hold blocks other companies
+export const HOLD_TTL_SECONDS = 180;
+
+// Live holds one company may keep at once; waitlist offers do not count
+export const MAX_ACTIVE_HOLDS_PER_COMPANY = 3;
+
+// Wait before the last holder may hold the same slot again, counted from when its hold ends
+export const HOLD_COOLDOWN_SECONDS = HOLD_TTL_SECONDS;
+
+/**
+ * SQL condition: the slot is not held by a company other than the given one
+ * @param companyParam - Placeholder of the claiming company (e.g. '$1'); may bind NULL
+ */
+export function notHeldByOthers(companyParam: string, alias?: string): string {
+  const s = alias ? `${alias}.` : '';
+  return `(${s}held_until IS NULL OR ${s}held_until <= now() OR ${s}held_by_company = ${companyParam})`;
+}
+
+/**
+ * SQL condition: the given company is not waiting out its cooldown on the slot
+ * @param companyParam - Placeholder of the holding company (e.g. '$1')
+ */
+export function notInHoldCooldown(companyParam: string, alias?: string): string {
+  const s = alias ? `${alias}.` : '';
+  return `(${s}last_held_by_company IS DISTINCT FROM ${companyParam} OR ${s}hold_cooldown_until IS NULL OR ${s}hold_cooldown_until <= now())`;
+}
+
+/**
+ * Count the company's live holds on other slots; must run with tenant context set, before placing a hold
+ * Takes the company's claim lock (held until commit) so concurrent holds count each other
+ */
+export async function countActiveHolds(
+  client: PoolClient,
+  tenantId: string,
+  companyId: string,
+  exceptSlotId: string
+): Promise<number> {
+  await lockCompanyClaims(client, tenantId, companyId);
+
+  const result = await client.query(`
+    SELECT COUNT(*)::int AS count
+    FROM job_slots js
+    WHERE js.tenant_id = $1
+      AND js.held_by_company = $2
+      AND js.held_until > now()
+      AND js.id <> $3
+      AND NOT EXISTS (
+        SELECT 1 FROM waitlist_entries w
+        WHERE w.offered_slot_id = js.id
+          AND w.company_id = $2
+          AND w.status = 'offered'
+      )
+  `, [tenantId, companyId, exceptSlotId]);
+
+  return result.rows[0]?.count || 0;
+}
+
+/**
+ * Seconds left on a hold, never negative
+ */
+export function holdExpiresInSeconds(heldUntil: string | Date, now: Date = new Date()): number {
+  const remaining = Math.ceil((new Date(heldUntil).getTime() - now.getTime()) / 1000);
+  return Math.max(0, remaining);
+}
+
+/**
+ * Clear expired holds across all tenants and tell live streams the slots are free again
+ * Expired holds never block claims (held_until is checked on every claim); this only tidies up
+ * @returns Number of holds released
+ */
+export async function releaseExpiredHolds(client: PoolClient): Promise<number> {
+  const released = await client.query(`
+    UPDATE job_slots
+    SET
+      held_by_company = NULL,
+      held_by_user = NULL,
+      held_until = NULL,
+      updated_at = now()
+    WHERE held_until IS NOT NULL AND held_until <= now()
+    RETURNING id, tenant_id, job_post_id
+  `);
+
+  for (const slot of released.rows) {
+    await notifySlotEvent(client, slot.tenant_id, 'slot.hold_released', {
+      jobPostId: slot.job_post_id,
+      slotId: slot.id
+    });
+  }
+
+  return released.rows.length;
+}
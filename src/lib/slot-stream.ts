@@ -0,0 +1,116 @@
+import { SlotStreamEvent } from '@/types/api';
+
+/**
+ * Browser client for /api/slots/stream
+ * スロット状態のリアルタイム配信をブラウザで受信（EventSource は Authorization ヘッダーを送れないため fetch で読む）
+ */
+
+export const SLOT_STREAM_PATH = '/api/slots/stream';
+
+// Matches the server's `retry:` hint; used until the stream sends one
+const DEFAULT_RETRY_MS = 3000;
+
+export interface SseMessage {
+  event: string;
+  data: string;
+}
+
+/**
+ * Split buffered stream text into complete SSE messages
+ * @returns Parsed messages, the retry hint if one was sent, and the incomplete tail to keep buffering
+ */
+export function parseSseBuffer(buffer: string): { messages: SseMessage[]; retryMs: number | null; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const messages: SseMessage[] = [];
+  let retryMs: number | null = null;
+
+  blocks.forEach((block) => {
+    let event = 'message';
+    const data: string[] = [];
+
+    block.split('\n').forEach((line) => {
+      // Comment lines (heartbeats) start with a colon
+      if (line === '' || line.startsWith(':')) {
+        return;
+      }
+
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.substring(0, separator);
+      const value = separator === -1 ? '' : line.substring(separator + 1).replace(/^ /, '');
+
+      if (field === 'event') {
+        event = value;
+      } else if (field === 'data') {
+        data.push(value);
+      } else if (field === 'retry' && /^\d+$/.test(value)) {
+        retryMs = Number(value);
+      }
+    });
+
+    if (data.length > 0) {
+      messages.push({ event, data: data.join('\n') });
+    }
+  });
+
+  return { messages, retryMs, rest };
+}
+
+/**
+ * Read slot events until the signal aborts, reconnecting after the server's retry delay
+ * @param token - Bearer token for the stream (same as other API calls)
+ */
+export async function subscribeSlotStream(
+  token: string,
+  onEvent: (event: SlotStreamEvent) => void,
+  signal: AbortSignal
+): Promise<void> {
+  let retryMs = DEFAULT_RETRY_MS;
+
+  while (!signal.aborted) {
+    try {
+      const response = await fetch(SLOT_STREAM_PATH, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Accept': 'text/event-stream'
+        },
+        cache: 'no-store',
+        signal
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Slot stream failed: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        const parsed = parseSseBuffer(buffer + decoder.decode(value, { stream: true }));
+        buffer = parsed.rest;
+        retryMs = parsed.retryMs ?? retryMs;
+
+        parsed.messages.forEach((message) => {
+          try {
+            onEvent(JSON.parse(message.data));
+          } catch (error) {
+            console.error('Invalid slot stream message:', error);
+          }
+        });
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      console.error('Slot stream error:', error);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, retryMs));
+  }
+}
@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * File storage for uploaded documents
+ * 資格証明書などのアップロードファイル保存（STORAGE_DRIVER で切り替え）
+ */
+
+export interface StoredFile {
+  url: string;
+  size: number;
+}
+
+export interface StorageBackend {
+  put(key: string, data: Buffer, contentType: string): Promise<StoredFile>;
+  get(url: string): Promise<Buffer | null>;
+  delete(url: string): Promise<void>;
+}
+
+const LOCAL_URL_PREFIX = 'local://';
+
+/**
+ * Development backend writing under STORAGE_LOCAL_DIR (default: .storage)
+ * Files are addressed as local://<key>
+ */
+export class LocalStorageBackend implements StorageBackend {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const target = path.resolve(this.rootDir, key);
+    const root = path.resolve(this.rootDir);
+
+    // Keys are generated server-side, but never let one escape the storage root
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return target;
+  }
+
+  private keyFromUrl(url: string): string | null {
+    return url.startsWith(LOCAL_URL_PREFIX) ? url.substring(LOCAL_URL_PREFIX.length) : null;
+  }
+
+  async put(key: string, data: Buffer, _contentType?: string): Promise<StoredFile> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+    return { url: `${LOCAL_URL_PREFIX}${key}`, size: data.length };
+  }
+
+  async get(url: string): Promise<Buffer | null> {
+    const key = this.keyFromUrl(url);
+    if (!key) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(url: string): Promise<void> {
+    const key = this.keyFromUrl(url);
+    if (!key) {
+      return;
+    }
+
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Storage backend selected by STORAGE_DRIVER
+ */
+export function getStorage(): StorageBackend {
+  if (storage) {
+    return storage;
+  }
+
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  switch (driver) {
+    case 'local':
+      storage = new LocalStorageBackend(process.env.STORAGE_LOCAL_DIR || '.storage');
+      return storage;
+
+    default:
+      throw new Error(`Unsupported storage driver: ${driver}`);
+  }
+}
+
+/**
+ * Override the storage backend (e.g. a cloud implementation or tests)
+ */
+export function setStorage(backend: StorageBackend | null): void {
+  storage = backend;
+}
@@ -1,25 +1,359 @@
 import { z } from 'zod';
+import { DEFAULT_WORKING_DAYS } from '@/lib/slot-generator';
 
 // UUID validation schema
 const uuidSchema = z.string().uuid('Invalid UUID format');
 
+// Date validation schema (YYYY-MM-DD, matches PostgreSQL date columns)
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (expected YYYY-MM-DD)');
+
+// Time of day validation schema (HH:MM, 24-hour)
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Invalid time format (expected HH:MM)');
+
 // Claims API Schemas
+// Crew (team) a company sends; one crew cannot be booked on overlapping shifts
+const crewSchema = z.string().trim().min(1).max(50);
+
 export const claimRequestSchema = z.object({
   slotId: uuidSchema,
   companyId: uuidSchema,
   requestId: uuidSchema,
+  crew: crewSchema.optional(),
+});
+
+// Either explicit slots, or a crew of crewCount on every work date of a job post in the range
+export const bundleClaimRequestSchema = z
+  .object({
+    companyId: uuidSchema,
+    requestId: uuidSchema,
+    slotIds: z
+      .array(uuidSchema)
+      .min(1)
+      .max(50)
+      .refine((ids) => new Set(ids).size === ids.length, 'Slot IDs must be unique')
+      .optional(),
+    jobPostId: uuidSchema.optional(),
+    dateFrom: dateSchema.optional(),
+    dateTo: dateSchema.optional(),
+    crewCount: z.number().int().min(1).max(50).optional(),
+    shiftCode: z.string().trim().min(1).max(20).optional(),
+    crew: crewSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      data.slotIds
+        ? !data.jobPostId && !data.dateFrom && !data.dateTo && !data.crewCount && !data.shiftCode
+        : data.jobPostId && data.dateFrom && data.dateTo && data.crewCount,
+    { message: 'Provide either slotIds, or jobPostId with dateFrom, dateTo, crewCount and an optional shiftCode' }
+  )
+  .refine((data) => !data.dateFrom || !data.dateTo || data.dateFrom <= data.dateTo, {
+    message: 'dateTo must be on or after dateFrom',
+    path: ['dateTo'],
+  })
+  // Several slots of the same shift on one date cannot go to a single crew
+  .refine((data) => !data.crew || !data.crewCount || data.crewCount === 1, {
+    message: 'crew cannot be combined with crewCount above 1: one crew cannot take several slots on the same date',
+    path: ['crew'],
+  });
+
+// Either explicit slots, or the claimed slots of a job post (optionally on one work date)
+export const slotCompletionSchema = z
+  .object({
+    slotIds: z
+      .array(uuidSchema)
+      .min(1)
+      .max(200)
+      .refine((ids) => new Set(ids).size === ids.length, 'Slot IDs must be unique')
+      .optional(),
+    jobPostId: uuidSchema.optional(),
+    workDate: dateSchema.optional(),
+    actualHours: z.number().min(0).max(24).optional(),
+    notes: z.string().trim().max(1000).optional(),
+  })
+  .refine(
+    (data) => (data.slotIds ? !data.jobPostId && !data.workDate : Boolean(data.jobPostId)),
+    { message: 'Provide either slotIds, or jobPostId with an optional workDate' }
+  );
+
+export const slotHoldRequestSchema = z.object({
+  companyId: uuidSchema,
+});
+
+// 'slot' waits for this slot only, 'date' for any slot of the job post on the slot's work date
+export const waitlistJoinSchema = z.object({
+  slotId: uuidSchema,
+  companyId: uuidSchema,
+  scope: z.enum(['slot', 'date']).default('slot'),
+  crew: crewSchema.optional(),
+});
+
+export const waitlistQuerySchema = z.object({
+  companyId: uuidSchema.optional(),
+  status: z.enum(['waiting', 'offered', 'claimed', 'expired', 'declined', 'skipped', 'left']).optional(),
+});
+
+export const lotteryEntrySchema = z.object({
+  companyId: uuidSchema,
+  workDates: z
+    .array(dateSchema)
+    .min(1)
+    .refine((dates) => new Set(dates).size === dates.length, 'Work dates must be unique')
+    .optional(),
+  crewCount: z.number().int().min(1).max(100).default(1),
 });
 
 export const alternativesQuerySchema = z.object({
   slotId: uuidSchema,
   days: z.coerce.number().int().min(1).max(30).default(3),
+  companyId: uuidSchema.optional(),
 });
 
+const cancelReasonSchema = z.enum(['no_show', 'weather', 'client_change', 'material_delay', 'other']);
+
 export const cancelClaimRequestSchema = z.object({
   slotId: uuidSchema,
-  reason: z.enum(['no_show', 'weather', 'client_change', 'material_delay', 'other']),
+  reason: cancelReasonSchema,
+  mode: z.enum(['release', 'withdraw']).default('withdraw'),
+});
+
+// Stored as-is in tenants / job_posts.cancellation_policy, hence snake_case keys
+export const cancellationPolicySchema = z.object({
+  rules: z
+    .array(z.object({
+      within_hours: z.number().int().min(1).max(720),
+      action: z.enum(['allow', 'approval', 'deny']),
+      except_reasons: z.array(cancelReasonSchema).optional(),
+      penalty_points: z.number().int().min(0).max(1000).optional(),
+      fee: z.number().int().min(0).max(10000000).optional(),
+    }).strict())
+    .max(10)
+    .refine(
+      (rules) => new Set(rules.map((rule) => rule.within_hours)).size === rules.length,
+      'Each rule needs a distinct within_hours'
+    ),
+}).strict();
+
+export const cancellationRequestRejectSchema = z.object({
+  note: z.string().trim().min(1).max(500).optional(),
 });
 
+export const cancellationPenaltiesQuerySchema = z.object({
+  company_id: uuidSchema.optional(),
+  date_from: dateSchema.optional(),
+  date_to: dateSchema.optional(),
+  uninvoiced: z.enum(['true', 'false']).optional(),
+});
+
+export const rescheduleProposalSchema = z.object({
+  workDate: dateSchema,
+  note: z.string().trim().min(1).max(500).optional(),
+});
+
+export const rescheduleDeclineSchema = z.object({
+  note: z.string().trim().min(1).max(500).optional(),
+});
+
+export const rescheduleRequestsQuerySchema = z.object({
+  status: z.enum(['pending', 'accepted', 'declined', 'closed']).default('pending'),
+});
+
+// Either one workDate, or a dateFrom..dateTo range of up to 31 days
+export const weatherCancellationSchema = z
+  .object({
+    workDate: dateSchema.optional(),
+    dateFrom: dateSchema.optional(),
+    dateTo: dateSchema.optional(),
+    action: z.enum(['cancel', 'postpone']).default('cancel'),
+    jobPostId: uuidSchema.optional(),
+    note: z.string().trim().min(1).max(1000).optional(),
+  })
+  .refine(
+    (data) => (data.workDate ? !data.dateFrom && !data.dateTo : Boolean(data.dateFrom && data.dateTo)),
+    { message: 'Provide either workDate, or both dateFrom and dateTo' }
+  )
+  .refine((data) => !data.dateFrom || !data.dateTo || data.dateFrom <= data.dateTo, {
+    message: 'dateTo must be on or after dateFrom',
+    path: ['dateTo'],
+  })
+  .refine(
+    (data) => !data.dateFrom || !data.dateTo
+      || Date.parse(data.dateTo) - Date.parse(data.dateFrom) <= 30 * 24 * 60 * 60 * 1000,
+    { message: 'The date range cannot exceed 31 days', path: ['dateTo'] }
+  );
+
+export const claimRejectSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+export const noShowReportSchema = z.object({
+  note: z.string().trim().min(1).max(1000).optional(),
+});
+
+// Job Posts API Schemas
+const workingDaysSchema = z
+  .array(z.number().int().min(1).max(7))
+  .min(1, 'At least one working day is required')
+  .refine((days) => new Set(days).size === days.length, 'Working days must be unique');
+
+// Stored as-is in job_posts.shift_templates, hence snake_case keys
+const shiftTemplatesSchema = z
+  .array(z.object({
+    code: z.string().regex(/^[a-z0-9_-]{1,20}$/, 'Shift code must be 1-20 lowercase letters, digits, _ or -'),
+    name: z.string().trim().min(1).max(50),
+    start_time: timeSchema,
+    end_time: timeSchema,
+  }).strict().refine((shift) => shift.start_time !== shift.end_time, {
+    message: 'A shift must end at a different time than it starts (end before start runs overnight)',
+    path: ['end_time'],
+  }))
+  .max(6)
+  .refine(
+    (shifts) => new Set(shifts.map((shift) => shift.code)).size === shifts.length,
+    'Shift codes must be unique'
+  );
+
+const jobPostFieldsSchema = z.object({
+  trade: z.string().trim().min(1).max(100),
+  title: z.string().trim().min(1).max(200),
+  description: z.string().max(5000).nullable().optional(),
+  unitPrice: z.number().int().min(0),
+  currency: z.string().length(3).default('JPY'),
+  priceType: z.enum(['fixed', 'range', 'bid']).default('fixed'),
+  requiredQuals: z.array(z.string().trim().min(1)).default([]),
+  areaHint: z.string().max(200).nullable().optional(),
+  startDate: dateSchema,
+  endDate: dateSchema,
+  capacity: z.number().int().min(1).max(100),
+  workingDays: workingDaysSchema.default(DEFAULT_WORKING_DAYS),
+  skipHolidays: z.boolean().default(true),
+  shiftTemplates: shiftTemplatesSchema.default([]),
+  allocationMode: z.enum(['fcfs', 'lottery']).default('fcfs'),
+  lotteryClosesAt: z.string().datetime({ offset: true }).nullable().optional(),
+  approvalRequired: z.boolean().default(false),
+  approvalWindowHours: z.number().int().min(1).max(168).default(24),
+  earlyAccessMinutes: z.number().int().min(1).max(10080).nullable().optional(),
+  earlyAccessMinRating: z.number().min(0).max(5).nullable().optional(),
+  maxClaimsPerPost: z.number().int().min(1).max(1000).nullable().optional(),
+  maxClaimsPerDay: z.number().int().min(1).max(1000).nullable().optional(),
+  maxClaimsPerWeek: z.number().int().min(1).max(1000).nullable().optional(),
+  cancellationPolicy: cancellationPolicySchema.nullable().optional(),
+});
+
+export const jobPostCreateSchema = jobPostFieldsSchema
+  .extend({ projectId: uuidSchema })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: 'endDate must be on or after startDate',
+    path: ['endDate'],
+  })
+  .refine((data) => data.allocationMode !== 'lottery' || data.lotteryClosesAt, {
+    message: 'lotteryClosesAt is required for lottery allocation',
+    path: ['lotteryClosesAt'],
+  })
+  .refine((data) => data.earlyAccessMinRating == null || data.earlyAccessMinutes, {
+    message: 'earlyAccessMinRating requires earlyAccessMinutes',
+    path: ['earlyAccessMinRating'],
+  });
+
+export const jobPostUpdateSchema = z
+  .object({
+    trade: jobPostFieldsSchema.shape.trade.optional(),
+    title: jobPostFieldsSchema.shape.title.optional(),
+    description: jobPostFieldsSchema.shape.description,
+    unitPrice: jobPostFieldsSchema.shape.unitPrice.optional(),
+    currency: z.string().length(3).optional(),
+    priceType: z.enum(['fixed', 'range', 'bid']).optional(),
+    requiredQuals: z.array(z.string().trim().min(1)).optional(),
+    areaHint: jobPostFieldsSchema.shape.areaHint,
+    startDate: dateSchema.optional(),
+    endDate: dateSchema.optional(),
+    capacity: jobPostFieldsSchema.shape.capacity.optional(),
+    workingDays: workingDaysSchema.optional(),
+    skipHolidays: z.boolean().optional(),
+    shiftTemplates: shiftTemplatesSchema.optional(),
+    allocationMode: z.enum(['fcfs', 'lottery']).optional(),
+    lotteryClosesAt: jobPostFieldsSchema.shape.lotteryClosesAt,
+    approvalRequired: z.boolean().optional(),
+    approvalWindowHours: z.number().int().min(1).max(168).optional(),
+    earlyAccessMinutes: jobPostFieldsSchema.shape.earlyAccessMinutes,
+    earlyAccessMinRating: jobPostFieldsSchema.shape.earlyAccessMinRating,
+    maxClaimsPerPost: jobPostFieldsSchema.shape.maxClaimsPerPost,
+    maxClaimsPerDay: jobPostFieldsSchema.shape.maxClaimsPerDay,
+    maxClaimsPerWeek: jobPostFieldsSchema.shape.maxClaimsPerWeek,
+    cancellationPolicy: jobPostFieldsSchema.shape.cancellationPolicy,
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'No fields to update provided',
+  });
+
+export const jobPostsQuerySchema = z.object({
+  trade: z.string().optional(),
+  project_id: uuidSchema.optional(),
+  start_date: dateSchema.optional(),
+  end_date: dateSchema.optional(),
+  published: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Slots API Schemas
+export const slotsQuerySchema = z.object({
+  trade: z.string().optional(),
+  project_id: uuidSchema.optional(),
+  date_from: dateSchema.optional(),
+  date_to: dateSchema.optional(),
+  price_min: z.coerce.number().int().min(0).optional(),
+  price_max: z.coerce.number().int().min(0).optional(),
+  area_hint: z.string().trim().min(1).optional(),
+  // Comma-separated qualification names the job post must require
+  required_quals: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Tenant Holidays API Schemas
+export const holidayCreateSchema = z.object({
+  date: dateSchema,
+  name: z.string().trim().max(100).optional(),
+});
+
+export const holidaysQuerySchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+});
+
+// Preferred Companies API Schemas
+export const preferredCompanyCreateSchema = z.object({
+  companyId: uuidSchema,
+  note: z.string().trim().max(500).optional(),
+});
+
+// Qualifications API Schemas
+export const qualificationCreateSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  number: z.string().trim().max(200).nullable().optional(),
+  validUntil: dateSchema.nullable().optional(),
+});
+
+export const qualificationUpdateSchema = qualificationCreateSchema
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'No fields to update provided',
+  });
+
+export const qualificationVerifySchema = z
+  .object({
+    status: z.enum(['verified', 'rejected']),
+    reason: z.string().trim().min(1).max(1000).optional(),
+  })
+  .refine((data) => data.status !== 'rejected' || data.reason, {
+    message: 'reason is required when rejecting',
+    path: ['reason'],
+  });
+
 // Validation helper
 export function validateRequestBody<T>(
   schema: z.ZodSchema<T>,
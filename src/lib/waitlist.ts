@@ -0,0 +1,400 @@
+import { PoolClient } from 'pg';
+import { createWaitlistPromotionPayload } from '@/lib/crypto';
+import { checkSlotEligibility, memberAuthContext, EligibilityErrorCode } from '@/lib/eligibility';
+import { checkClaimLimits } from '@/lib/claim-limits';
+import { checkShiftOverlap } from '@/lib/shifts';
+import { recordClaim } from '@/lib/claims';
+import { notifySlotEvent } from '@/lib/slot-events';
+
+/**
+ * Waitlist for fully claimed slots
+ * 満枠スロットのキャンセル待ちと、枠が空いた際の自動繰り上げ（確保＋通知、またはテナント設定で自動受注）
+ */
+
+export type WaitlistPromotionMode = 'offer' | 'auto_claim';
+
+export type WaitlistStatus =
+  | 'waiting'
+  | 'offered'
+  | 'claimed'
+  | 'expired'
+  | 'declined'
+  | 'skipped'
+  | 'left';
+
+// How long an offered slot is held for the waitlisted company
+export const WAITLIST_OFFER_TTL_SECONDS = 15 * 60;
+
+// Reasons that can clear on their own (caps, early access windows, reliability delays, the crew's
+// other bookings); entries passed over for these stay 'waiting' for the next free slot
+const TEMPORARY_SKIP_REASONS: EligibilityErrorCode[] = [
+  'CLAIM_LIMIT_REACHED',
+  'EARLY_ACCESS_ONLY',
+  'RELIABILITY_DELAYED',
+  'SHIFT_OVERLAP'
+];
+
+// How long the sweeper leaves an entry alone after passing it over for a temporary reason
+export const WAITLIST_RECHECK_SECONDS = 10 * 60;
+
+// Who triggered a promotion; the cron sweeper acts as 'system'
+export interface WaitlistActor {
+  userId: string | null;
+  role: string;
+}
+
+export interface WaitlistPromotion {
+  entry_id: string;
+  company_id: string;
+  slot_id: string;
+  mode: WaitlistPromotionMode;
+  position: number;
+  offer_expires_at: string | null;
+  claim_id: string | null;
+}
+
+/**
+ * Columns returned for waitlist entries; position is the 1-based place among waiting entries
+ * competing for the same slot (date-wide entries compete for every slot of the post and date)
+ */
+export function waitlistEntryColumns(alias: string = 'w'): string {
+  return `
+    ${alias}.id,
+    ${alias}.job_post_id,
+    ${alias}.work_date::text AS work_date,
+    ${alias}.slot_id,
+    ${alias}.company_id,
+    ${alias}.user_id,
+    ${alias}.crew,
+    ${alias}.status,
+    ${alias}.offered_slot_id,
+    ${alias}.offered_at,
+    ${alias}.offer_expires_at,
+    ${alias}.claim_id,
+    ${alias}.last_checked_at,
+    ${alias}.last_pass_reason,
+    ${alias}.created_at,
+    CASE WHEN ${alias}.status = 'waiting' THEN (
+      SELECT COUNT(*)::int + 1
+      FROM waitlist_entries ahead
+      WHERE ahead.job_post_id = ${alias}.job_post_id
+        AND ahead.work_date = ${alias}.work_date
+        AND ahead.status = 'waiting'
+        AND (ahead.slot_id IS NULL OR ${alias}.slot_id IS NULL OR ahead.slot_id = ${alias}.slot_id)
+        AND (ahead.created_at, ahead.id) < (${alias}.created_at, ${alias}.id)
+    ) END AS position
+  `;
+}
+
+async function insertWaitlistAudit(
+  client: PoolClient,
+  tenantId: string,
+  actor: WaitlistActor,
+  action: string,
+  entryId: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  await client.query(`
+    INSERT INTO audit_logs (
+      tenant_id,
+      actor_user_id,
+      actor_role,
+      action,
+      target_table,
+      target_id,
+      payload,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+  `, [
+    tenantId,
+    actor.userId,
+    actor.role,
+    action,
+    'waitlist_entries',
+    entryId,
+    JSON.stringify(payload)
+  ]);
+}
+
+async function enqueueWaitlistNotification(client: PoolClient, payload: { id: string }, eventName: string) {
+  await client.query(`
+    INSERT INTO integration_outbox (
+      event_id,
+      event_name,
+      payload,
+      target,
+      status,
+      next_attempt_at,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, now(), now())
+    ON CONFLICT (event_id) DO NOTHING
+  `, [
+    payload.id,
+    eventName,
+    JSON.stringify(payload),
+    'notification',
+    'pending'
+  ]);
+}
+
+/**
+ * Pass a free slot to the first eligible waitlisted company; must run with tenant context set
+ * (or without one in cross-tenant batches). Ineligible entries are skipped (temporary reasons leave
+ * them waiting), and the queue order and every decision are written to audit_logs.
+ * @returns The promotion, or null when the slot is not free or nobody eligible is waiting
+ */
+export async function promoteWaitlist(
+  client: PoolClient,
+  tenantId: string,
+  slotId: string,
+  actor: WaitlistActor
+): Promise<WaitlistPromotion | null> {
+  const slotQuery = await client.query(`
+    SELECT id, job_post_id, work_date::text AS work_date, status, held_until
+    FROM job_slots
+    WHERE id = $1 AND tenant_id = $2
+    FOR UPDATE
+  `, [slotId, tenantId]);
+
+  const slot = slotQuery.rows[0];
+
+  // Only a free, unheld slot can be passed on
+  if (!slot || slot.status !== 'available' || (slot.held_until && new Date(slot.held_until) > new Date())) {
+    return null;
+  }
+
+  const queue = await client.query(`
+    SELECT id, company_id, user_id, slot_id, crew
+    FROM waitlist_entries
+    WHERE tenant_id = $1
+      AND job_post_id = $2
+      AND work_date = $3::date
+      AND (slot_id IS NULL OR slot_id = $4)
+      AND status = 'waiting'
+    ORDER BY created_at ASC, id ASC
+    FOR UPDATE SKIP LOCKED
+  `, [tenantId, slot.job_post_id, slot.work_date, slotId]);
+
+  if (queue.rows.length === 0) {
+    return null;
+  }
+
+  const tenantQuery = await client.query(`
+    SELECT waitlist_promotion FROM tenants WHERE id = $1
+  `, [tenantId]);
+
+  const mode: WaitlistPromotionMode = tenantQuery.rows[0]?.waitlist_promotion || 'offer';
+  const queueOrder = queue.rows.map((entry: any) => entry.id);
+
+  for (const [index, entry] of queue.rows.entries()) {
+    const entryAuth = await memberAuthContext(client, tenantId, entry.user_id);
+    // Auto-claims count towards the company's fairness caps and book the crew; offers are checked when claimed
+    const eligibilityError = await checkSlotEligibility(client, entryAuth, slotId, entry.company_id)
+      || (mode === 'auto_claim' ? await checkClaimLimits(client, tenantId, entry.company_id, [slotId]) : null)
+      || (mode === 'auto_claim' ? await checkShiftOverlap(client, tenantId, entry.company_id, entry.crew, [slotId]) : null);
+
+    if (eligibilityError) {
+      const temporary = TEMPORARY_SKIP_REASONS.includes(eligibilityError.code);
+
+      if (temporary) {
+        await client.query(`
+          UPDATE waitlist_entries
+          SET last_checked_at = now(), last_pass_reason = $2, updated_at = now()
+          WHERE id = $1
+        `, [entry.id, eligibilityError.code]);
+      } else {
+        await client.query(`
+          UPDATE waitlist_entries
+          SET status = 'skipped', updated_at = now()
+          WHERE id = $1
+        `, [entry.id]);
+      }
+
+      await insertWaitlistAudit(client, tenantId, actor, temporary ? 'waitlist_pass' : 'waitlist_skip', entry.id, {
+        slot_id: slotId,
+        company_id: entry.company_id,
+        position: index + 1,
+        reason: eligibilityError.code
+      });
+      continue;
+    }
+
+    const promotion: WaitlistPromotion = {
+      entry_id: entry.id,
+      company_id: entry.company_id,
+      slot_id: slotId,
+      mode,
+      position: index + 1,
+      offer_expires_at: null,
+      claim_id: null
+    };
+
+    if (mode === 'auto_claim') {
+      const slotUpdate = await client.query(`
+        UPDATE job_slots
+        SET
+          claimed_by_company = $1,
+          claimed_by_user = $2,
+          claimed_at = now(),
+          status = 'claimed',
+          held_by_company = NULL,
+          held_by_user = NULL,
+          held_until = NULL,
+          updated_at = now()
+        WHERE id = $3 AND tenant_id = $4 AND status = 'available'
+        RETURNING id, job_post_id, work_date, status, claimed_at
+      `, [entry.company_id, entry.user_id, slotId, tenantId]);
+
+      // Marks this entry (and any other open entry of the company for the slot) as claimed
+      const claim = await recordClaim(client, entryAuth, {
+        slot: slotUpdate.rows[0],
+        companyId: entry.company_id,
+        crew: entry.crew,
+        requestId: `waitlist:${entry.id}:${slotId}`
+      });
+
+      promotion.claim_id = claim.id;
+    } else {
+      const holdUpdate = await client.query(`
+        UPDATE job_slots
+        SET
+          held_by_company = $1,
+          held_by_user = $2,
+          held_until = now() + make_interval(secs => $3),
+          updated_at = now()
+        WHERE id = $4 AND tenant_id = $5
+        RETURNING held_until
+      `, [entry.company_id, entry.user_id, WAITLIST_OFFER_TTL_SECONDS, slotId, tenantId]);
+
+      const offerExpiresAt = holdUpdate.rows[0].held_until;
+
+      await client.query(`
+        UPDATE waitlist_entries
+        SET
+          status = 'offered',
+          offered_slot_id = $1,
+          offered_at = now(),
+          offer_expires_at = $2,
+          updated_at = now()
+        WHERE id = $3
+      `, [slotId, offerExpiresAt, entry.id]);
+
+      await notifySlotEvent(client, tenantId, 'slot.held', {
+        jobPostId: slot.job_post_id,
+        slotId,
+        heldByCompany: entry.company_id
+      });
+
+      promotion.offer_expires_at = new Date(offerExpiresAt).toISOString();
+    }
+
+    const eventName = mode === 'auto_claim' ? 'waitlist.promoted' : 'waitlist.offered';
+    const payload = createWaitlistPromotionPayload({
+      event: eventName,
+      entry_id: entry.id,
+      tenant_id: tenantId,
+      company_id: entry.company_id,
+      user_id: entry.user_id,
+      slot_id: slotId,
+      job_post_id: slot.job_post_id,
+      work_date: slot.work_date,
+      offer_expires_at: promotion.offer_expires_at,
+      claim_id: promotion.claim_id,
+      occurred_at: new Date().toISOString()
+    }) as { id: string };
+
+    await enqueueWaitlistNotification(client, payload, eventName);
+
+    await insertWaitlistAudit(
+      client,
+      tenantId,
+      actor,
+      mode === 'auto_claim' ? 'waitlist_auto_claim' : 'waitlist_offer',
+      entry.id,
+      {
+        slot_id: slotId,
+        company_id: entry.company_id,
+        position: index + 1,
+        queue: queueOrder,
+        offer_expires_at: promotion.offer_expires_at,
+        claim_id: promotion.claim_id
+      }
+    );
+
+    return promotion;
+  }
+
+  return null;
+}
+
+/**
+ * Close the company's open offer on a slot (declined, or the company left the waitlist)
+ * @returns The closed entry id, or null when the company had no open offer on the slot
+ */
+export async function closeWaitlistOffer(
+  client: PoolClient,
+  tenantId: string,
+  slotId: string,
+  companyId: string,
+  status: 'declined' | 'left'
+): Promise<string | null> {
+  const closed = await client.query(`
+    UPDATE waitlist_entries
+    SET status = $1, updated_at = now()
+    WHERE tenant_id = $2
+      AND offered_slot_id = $3
+      AND company_id = $4
+      AND status = 'offered'
+    RETURNING id
+  `, [status, tenantId, slotId, companyId]);
+
+  return closed.rows[0]?.id || null;
+}
+
+/**
+ * Expire lapsed offers across all tenants; the slots are passed on by findPendingWaitlistSlots
+ * Runs with the hold sweeper, after expired holds have been cleared
+ * @returns Number of offers expired
+ */
+export async function expireWaitlistOffers(client: PoolClient): Promise<number> {
+  const system: WaitlistActor = { userId: null, role: 'system' };
+
+  const expired = await client.query(`
+    UPDATE waitlist_entries
+    SET status = 'expired', updated_at = now()
+    WHERE status = 'offered' AND offer_expires_at <= now()
+    RETURNING id, tenant_id, offered_slot_id, company_id
+  `);
+
+  for (const entry of expired.rows) {
+    await insertWaitlistAudit(client, entry.tenant_id, system, 'waitlist_offer_expired', entry.id, {
+      slot_id: entry.offered_slot_id,
+      company_id: entry.company_id
+    });
+  }
+
+  return expired.rows.length;
+}
+
+/**
+ * Free, unheld slots that have companies waiting for them (all tenants); each is promoted in its own transaction
+ * Entries passed over within WAITLIST_RECHECK_SECONDS do not count, so slots nobody can take yet are not re-checked every run
+ */
+export async function findPendingWaitlistSlots(
+  client: PoolClient
+): Promise<Array<{ id: string; tenant_id: string }>> {
+  const pending = await client.query(`
+    SELECT DISTINCT js.id, js.tenant_id
+    FROM job_slots js
+    JOIN waitlist_entries w
+      ON w.job_post_id = js.job_post_id
+      AND w.work_date = js.work_date
+      AND (w.slot_id IS NULL OR w.slot_id = js.id)
+    WHERE w.status = 'waiting'
+      AND (w.last_checked_at IS NULL OR w.last_checked_at <= now() - make_interval(secs => $1))
+      AND js.status = 'available'
+      AND (js.held_until IS NULL OR js.held_until <= now())
+  `, [WAITLIST_RECHECK_SECONDS]);
+
+  return pending.rows;
+}
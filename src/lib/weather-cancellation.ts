@@ -0,0 +1,358 @@
+import { PoolClient } from 'pg';
+import {
+  ClaimReschedule,
+  ClaimStatus,
+  WeatherCancellationAction,
+  WeatherCancellationResponse,
+  WeatherCancelledSlot,
+  WeatherPostponeFailure
+} from '@/types/api';
+import { AuthContext } from '@/lib/auth';
+import { generateUuid } from '@/lib/database';
+import { EligibilityError, checkQualifications, getCompanyQualifications } from '@/lib/eligibility';
+import { checkClaimLimits } from '@/lib/claim-limits';
+import { checkShiftOverlap } from '@/lib/shifts';
+import { cancelBlocker, cancelSlotClaim, lockSlotForCancel } from '@/lib/cancellation';
+import { findNextOpenSlot, moveClaim } from '@/lib/reschedule';
+import { createWeatherCancelledPayload } from '@/lib/crypto';
+
+/**
+ * Bulk weather cancellation for a project
+ * 雨天等による現場単位の一括中止・順延（スロットごとの監査ログ、受注ごとのイベント、会社ごとの通知）
+ */
+
+// A claimed slot of the project inside the called-off dates
+interface WeatherCandidate {
+  id: string;
+  job_post_id: string;
+  work_date: string;
+  shift_code: string | null;
+  claim_id: string;
+  claim_status: ClaimStatus;
+  company_id: string;
+  user_id: string | null;
+  crew: string | null;
+  required_quals: string | null;
+  dw_project_id: string | null;
+}
+
+// A slot as listed in the company notification
+interface WeatherNoticeSlot {
+  slot_id: string;
+  job_post_id: string;
+  work_date: string;
+  outcome: 'cancelled' | 'postponed';
+  new_work_date: string | null;
+  postpone_failure: WeatherPostponeFailure | null;
+}
+
+const NO_OPEN_SLOT_FAILURE: WeatherPostponeFailure = {
+  code: 'NO_OPEN_SLOT',
+  message: 'No open slot is left on a later work date of this job post'
+};
+
+/**
+ * The same checks as accepting a reschedule: qualifications on the new date, claim caps and the crew's shifts
+ * @returns null when the claim may move to the open slot
+ */
+async function checkPostponement(
+  client: PoolClient,
+  tenantId: string,
+  slot: WeatherCandidate,
+  toSlotId: string
+): Promise<EligibilityError | null> {
+  const toSlot = await client.query(`
+    SELECT work_date::text AS work_date FROM job_slots WHERE id = $1 AND tenant_id = $2
+  `, [toSlotId, tenantId]);
+
+  const qualificationError = checkQualifications(
+    slot.required_quals,
+    await getCompanyQualifications(client, tenantId, slot.company_id),
+    toSlot.rows[0]?.work_date
+  );
+
+  if (qualificationError) {
+    return qualificationError;
+  }
+
+  const limitError = await checkClaimLimits(client, tenantId, slot.company_id, [toSlotId], {
+    excludeClaimId: slot.claim_id
+  });
+
+  if (limitError) {
+    return limitError;
+  }
+
+  return checkShiftOverlap(client, tenantId, slot.company_id, slot.crew, [toSlotId], {
+    excludeClaimId: slot.claim_id
+  });
+}
+
+/**
+ * Call off every claimed slot of a project between two dates; must run with tenant context set
+ * cancel withdraws the slots; postpone moves each claim to the next open slot of its job post after
+ * the range, cancelling it (with postpone_failure) when none is left or the company may not take that
+ * slot. GC cancellations are exempt from cancellation policies.
+ * @throws PROJECT_NOT_FOUND, JOB_POST_NOT_FOUND
+ */
+export async function cancelForWeather(
+  client: PoolClient,
+  auth: AuthContext,
+  projectId: string,
+  data: {
+    dateFrom: string;
+    dateTo: string;
+    action: WeatherCancellationAction;
+    jobPostId: string | null;
+    note: string | null;
+  }
+): Promise<WeatherCancellationResponse> {
+  const { tenantId, userId, role } = auth;
+  const { dateFrom, dateTo, action, jobPostId, note } = data;
+
+  const projectQuery = await client.query(`
+    SELECT id FROM projects WHERE id = $1 AND tenant_id = $2
+  `, [projectId, tenantId]);
+
+  if (projectQuery.rows.length === 0) {
+    throw new Error('PROJECT_NOT_FOUND');
+  }
+
+  if (jobPostId) {
+    const jobPostQuery = await client.query(`
+      SELECT id FROM job_posts WHERE id = $1 AND project_id = $2 AND tenant_id = $3
+    `, [jobPostId, projectId, tenantId]);
+
+    if (jobPostQuery.rows.length === 0) {
+      throw new Error('JOB_POST_NOT_FOUND');
+    }
+  }
+
+  const candidates = await client.query(`
+    SELECT
+      js.id,
+      js.job_post_id,
+      js.work_date::text AS work_date,
+      js.shift_code,
+      c.id AS claim_id,
+      c.status AS claim_status,
+      c.company_id,
+      c.user_id,
+      c.crew,
+      jp.required_quals,
+      p.dw_project_id
+    FROM job_slots js
+    JOIN job_posts jp ON js.job_post_id = jp.id
+    JOIN projects p ON jp.project_id = p.id
+    JOIN claims c ON js.id = c.job_slot_id AND c.status IN ('pending_approval', 'active')
+    WHERE js.tenant_id = $1
+      AND jp.project_id = $2
+      AND js.work_date BETWEEN $3::date AND $4::date
+      AND js.status = 'claimed'
+      AND ($5::uuid IS NULL OR jp.id = $5::uuid)
+    ORDER BY js.work_date ASC, js.slot_no ASC
+    FOR UPDATE OF js
+  `, [tenantId, projectId, dateFrom, dateTo, jobPostId]);
+
+  const id = generateUuid();
+  const cancelled: WeatherCancelledSlot[] = [];
+  const postponed: ClaimReschedule[] = [];
+
+  if (candidates.rows.length === 0) {
+    return {
+      id,
+      project_id: projectId,
+      date_from: dateFrom,
+      date_to: dateTo,
+      action,
+      cancelled,
+      postponed,
+      notified_company_ids: []
+    };
+  }
+
+  const auditContext = { weather_cancellation_id: id };
+
+  for (const slot of candidates.rows as WeatherCandidate[]) {
+    let postponeFailure: WeatherPostponeFailure | null = null;
+
+    if (action === 'postpone') {
+      const toSlotId = await findNextOpenSlot(
+        client,
+        tenantId,
+        slot.job_post_id,
+        slot.company_id,
+        dateTo,
+        slot.shift_code ?? null
+      );
+
+      const eligibilityError = toSlotId
+        ? await checkPostponement(client, tenantId, slot, toSlotId)
+        : null;
+
+      const moved = toSlotId && !eligibilityError
+        ? await moveClaim(client, tenantId, {
+          slot_id: slot.id,
+          job_post_id: slot.job_post_id,
+          work_date: slot.work_date,
+          claim_id: slot.claim_id,
+          claim_status: slot.claim_status,
+          company_id: slot.company_id,
+          user_id: slot.user_id,
+          dw_project_id: slot.dw_project_id
+        }, toSlotId, {
+          reason: 'weather',
+          releaseSource: false,
+          actor: { userId: userId || null, role },
+          auditContext
+        })
+        : null;
+
+      if (moved) {
+        postponed.push(moved);
+        continue;
+      }
+
+      postponeFailure = eligibilityError
+        ? { code: eligibilityError.code, message: eligibilityError.message }
+        : NO_OPEN_SLOT_FAILURE;
+    }
+
+    const target = await lockSlotForCancel(client, tenantId, slot.id);
+
+    if (!target || cancelBlocker(target)) {
+      continue;
+    }
+
+    await cancelSlotClaim(client, auth, target, {
+      reason: 'weather',
+      mode: 'withdraw',
+      rule: null,
+      auditContext
+    });
+
+    cancelled.push({
+      slot_id: slot.id,
+      job_post_id: slot.job_post_id,
+      work_date: slot.work_date,
+      claim_id: slot.claim_id,
+      company_id: slot.company_id,
+      postpone_failure: postponeFailure
+    });
+  }
+
+  // One notification per company listing all of its called-off slots
+  const occurredAt = new Date().toISOString();
+  const slotsByCompany = new Map<string, WeatherNoticeSlot[]>();
+
+  for (const slot of cancelled) {
+    const slots = slotsByCompany.get(slot.company_id) || [];
+    slots.push({
+      slot_id: slot.slot_id,
+      job_post_id: slot.job_post_id,
+      work_date: slot.work_date,
+      outcome: 'cancelled',
+      new_work_date: null,
+      postpone_failure: slot.postpone_failure
+    });
+    slotsByCompany.set(slot.company_id, slots);
+  }
+
+  for (const move of postponed) {
+    const slots = slotsByCompany.get(move.company_id) || [];
+    slots.push({
+      slot_id: move.from_slot_id,
+      job_post_id: move.job_post_id,
+      work_date: move.from_work_date,
+      outcome: 'postponed',
+      new_work_date: move.to_work_date,
+      postpone_failure: null
+    });
+    slotsByCompany.set(move.company_id, slots);
+  }
+
+  for (const [companyId, slots] of slotsByCompany) {
+    const payload = createWeatherCancelledPayload({
+      cancellation_id: id,
+      tenant_id: tenantId,
+      project_id: projectId,
+      company_id: companyId,
+      date_from: dateFrom,
+      date_to: dateTo,
+      note,
+      slots,
+      occurred_at: occurredAt
+    }) as { id: string };
+
+    await client.query(`
+      INSERT INTO integration_outbox (
+        event_id,
+        event_name,
+        payload,
+        target,
+        status,
+        next_attempt_at,
+        created_at
+      ) VALUES ($1, $2, $3, $4, $5, now(), now())
+    `, [
+      payload.id,
+      'weather.cancelled',
+      JSON.stringify(payload),
+      'notification',
+      'pending'
+    ]);
+  }
+
+  const notifiedCompanyIds = Array.from(slotsByCompany.keys());
+
+  // Summary entry alongside the per-slot cancel / claim_reschedule entries
+  await client.query(`
+    INSERT INTO audit_logs (
+      tenant_id,
+      actor_user_id,
+      actor_role,
+      action,
+      target_table,
+      target_id,
+      payload,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+  `, [
+    tenantId,
+    userId || null,
+    role,
+    'weather_cancel',
+    'projects',
+    projectId,
+    JSON.stringify({
+      weather_cancellation_id: id,
+      date_from: dateFrom,
+      date_to: dateTo,
+      action,
+      job_post_id: jobPostId,
+      note,
+      cancelled_slot_ids: cancelled.map((slot) => slot.slot_id),
+      postpone_failures: cancelled
+        .filter((slot) => slot.postpone_failure)
+        .map((slot) => ({ slot_id: slot.slot_id, code: slot.postpone_failure!.code })),
+      postponed: postponed.map((move) => ({
+        claim_id: move.claim_id,
+        from_slot_id: move.from_slot_id,
+        to_slot_id: move.to_slot_id,
+        to_work_date: move.to_work_date
+      })),
+      notified_company_ids: notifiedCompanyIds
+    })
+  ]);
+
+  return {
+    id,
+    project_id: projectId,
+    date_from: dateFrom,
+    date_to: dateTo,
+    action,
+    cancelled,
+    postponed,
+    notified_company_ids: notifiedCompanyIds
+  };
+}
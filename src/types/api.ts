@@ -3,6 +3,17 @@ export interface ClaimRequest {
   slotId: string;
   companyId: string;
   requestId: string;
+  crew?: string; // Team sent to the slot; it cannot be booked on overlapping shifts
+}
+
+// Local times of a slot in the tenant timezone; start/end times are null for whole-day slots
+export interface SlotTimeWindow {
+  shift_code: string | null;
+  start_time: string | null; // HH:MM
+  end_time: string | null; // HH:MM, at or before start_time for overnight shifts
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
 }
 
 export interface ClaimResponse {
@@ -10,19 +21,55 @@ export interface ClaimResponse {
     id: string;
     status: string;
     work_date: string;
+    shift_code: string | null;
+    start_time: string | null;
+    end_time: string | null;
+    starts_at: string;
+    ends_at: string;
   };
   claim: {
     id: string;
     company_id: string;
     user_id: string | null;
+    crew: string | null;
     claimed_at: string;
+    status: ClaimStatus;
+    approval_expires_at: string | null; // Set while the claim awaits GC approval
+  };
+}
+
+export interface BundleClaimRequest {
+  companyId: string;
+  requestId: string;
+  // Explicit slots...
+  slotIds?: string[];
+  // ...or crewCount slots on each work date of the job post within the range
+  jobPostId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  crewCount?: number;
+  shiftCode?: string; // Only slots of this shift (crewCount mode)
+  crew?: string;
+}
+
+export interface BundleClaimResponse {
+  bundle: {
+    id: string;
+    request_id: string;
+    company_id: string;
   };
+  claims: ClaimResponse[];
 }
 
 export interface AlternativesResponse {
   alternatives: Array<{
     slot_id: string;
     work_date: string;
+    shift_code: string | null;
+    start_time: string | null;
+    end_time: string | null;
+    starts_at: string;
+    ends_at: string;
     job_post: {
       id: string;
       title: string;
@@ -31,33 +78,293 @@ export interface AlternativesResponse {
   }>;
 }
 
+export interface SlotListing {
+  id: string;
+  job_post_id: string;
+  work_date: string;
+  slot_no: number;
+  shift_code: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  starts_at: string;
+  ends_at: string;
+  status: 'available';
+  // When the caller's company may claim; in the future while an early-access window excludes it
+  claimable_at: string | null;
+  job_post: {
+    id: string;
+    title: string;
+    trade: string;
+    description: string | null;
+    unit_price: number;
+    currency: string;
+    start_date: string;
+    end_date: string;
+    area_hint: string | null;
+    required_quals: string[];
+  };
+  project: {
+    id: string;
+    name: string;
+    address: string | null;
+  };
+}
+
+export interface SlotsResponse {
+  slots: SlotListing[];
+  // Opaque cursor for the next page; null when there are no more slots
+  next_cursor: string | null;
+}
+
+export type SlotStreamEventType =
+  | 'slot.claimed'
+  | 'slot.cancelled'
+  | 'slot.released'
+  | 'slot.published'
+  | 'slot.held'
+  | 'slot.hold_released';
+
+export interface SlotStreamEvent {
+  type: SlotStreamEventType;
+  tenant_id: string;
+  job_post_id: string;
+  // null for post-level events (slot.published covers every slot of the post)
+  slot_id: string | null;
+  // slot.held only: the holder, so its own page keeps the slot bookable
+  held_by_company?: string;
+  occurred_at: string;
+}
+
+export interface SlotHoldRequest {
+  companyId: string;
+}
+
+export interface SlotHoldResponse {
+  hold: {
+    slot_id: string;
+    company_id: string;
+    held_until: string;
+    // Server-side remaining time so the form countdown is not affected by client clock skew
+    expires_in_seconds: number;
+  };
+}
+
+export interface WaitlistJoinRequest {
+  slotId: string;
+  companyId: string;
+  scope?: 'slot' | 'date';
+}
+
+export interface WaitlistEntry {
+  id: string;
+  job_post_id: string;
+  work_date: string;
+  slot_id: string | null; // null: any slot of the job post on work_date
+  company_id: string;
+  user_id: string | null;
+  crew: string | null; // Crew booked when auto-claimed
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'declined' | 'skipped' | 'left';
+  offered_slot_id: string | null;
+  offered_at: string | null;
+  offer_expires_at: string | null;
+  claim_id: string | null;
+  last_checked_at: string | null; // Last time the entry was passed over while waiting
+  last_pass_reason: string | null; // Why it was passed over (e.g. CLAIM_LIMIT_REACHED)
+  created_at: string;
+  position: number | null; // Place in the queue while waiting
+}
+
+export interface WaitlistEntryResponse {
+  entry: WaitlistEntry;
+}
+
+export interface WaitlistListResponse {
+  entries: WaitlistEntry[];
+}
+
 export interface ApiError {
   code: string;
   message: string;
+  details?: Record<string, unknown>;
 }
 
 // Database Types
+export type MembershipRole =
+  | 'owner'
+  | 'gc_admin'
+  | 'gc_member'
+  | 'sub_admin'
+  | 'sub_member'
+  | 'ops_admin';
+
 export interface JobSlot {
   id: string;
   tenant_id: string;
   job_post_id: string;
   work_date: string;
+  shift_code: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  starts_at: string;
+  ends_at: string;
   status: 'available' | 'claimed' | 'completed' | 'cancelled';
   claimed_by_company: string | null;
   claimed_by_user: string | null;
   claimed_at: string | null;
+  completed_at: string | null;
+  completed_by: string | null;
+  actual_hours: number | null;
+  completion_notes: string | null;
+  review_flagged_at: string | null; // work date passed while still claimed
   created_at: string;
   updated_at: string;
 }
 
+export interface SlotCompletionRequest {
+  slotIds?: string[];
+  jobPostId?: string;
+  workDate?: string;
+  actualHours?: number;
+  notes?: string;
+}
+
+export type SlotCompletionSkipReason =
+  | 'not_found'
+  | 'not_claimed'
+  | 'already_completed'
+  | 'pending_approval'
+  | 'work_date_not_reached';
+
+export interface SlotCompletionSkip {
+  slot_id: string;
+  reason: SlotCompletionSkipReason;
+}
+
+export interface CompletedSlot {
+  id: string;
+  job_post_id: string;
+  work_date: string;
+  status: 'completed';
+  claim_id: string;
+  company_id: string;
+  completed_at: string;
+  completed_by: string | null;
+  actual_hours: number | null;
+  completion_notes: string | null;
+}
+
+export interface SlotCompletionResponse {
+  completed: CompletedSlot[];
+  skipped: SlotCompletionSkip[];
+}
+
+// Claimed slot whose work date passed without completion
+export interface SlotReviewItem {
+  id: string;
+  job_post_id: string;
+  job_post_title: string;
+  work_date: string;
+  slot_no: number;
+  claim_id: string | null;
+  company_id: string | null;
+  company_name: string | null;
+  review_flagged_at: string;
+}
+
+export interface SlotReviewResponse {
+  slots: SlotReviewItem[];
+}
+
+// no_show: the GC reported that the company did not turn up on the work date
+export type ClaimStatus = 'pending_approval' | 'active' | 'cancelled' | 'rejected' | 'expired' | 'no_show';
+
 export interface Claim {
   id: string;
   tenant_id: string;
   job_slot_id: string;
   company_id: string;
   user_id: string | null;
+  crew: string | null;
   request_id: string;
   claimed_at: string;
+  status: ClaimStatus;
+  cancelled_at: string | null;
+  cancelled_by: string | null;
+  cancel_reason: string | null;
+  approval_expires_at: string | null;
+  decided_at: string | null;
+  decided_by: string | null;
+  rejection_reason: string | null;
+  cancelled_late: boolean;
+  no_show_reported_at: string | null;
+  no_show_reported_by: string | null;
+  no_show_note: string | null;
+  cancel_requested_at: string | null;
+  cancel_requested_by: string | null;
+  cancel_request_reason: CancellationReason | null;
+  cancel_request_mode: CancelClaimMode | null;
+  cancel_request_rule: CancellationRule | null;
+}
+
+// Claim awaiting (or after) a GC approval decision
+export interface ClaimApproval {
+  id: string;
+  job_slot_id: string;
+  job_post_id: string;
+  work_date: string;
+  company_id: string;
+  user_id: string | null;
+  claimed_at: string;
+  status: ClaimStatus;
+  approval_expires_at: string | null;
+  decided_at: string | null;
+  decided_by: string | null;
+  rejection_reason: string | null;
+}
+
+export interface ClaimApprovalResponse {
+  claim: ClaimApproval;
+}
+
+export interface ClaimApprovalsResponse {
+  claims: ClaimApproval[];
+}
+
+export interface ClaimRejectRequest {
+  reason?: string;
+}
+
+export interface NoShowReportRequest {
+  note?: string;
+}
+
+export interface NoShowReportResponse {
+  claim: {
+    id: string;
+    job_slot_id: string;
+    company_id: string;
+    status: 'no_show';
+    no_show_reported_at: string;
+    no_show_reported_by: string | null;
+    no_show_note: string | null;
+  };
+  slot: {
+    id: string;
+    status: 'cancelled';
+    work_date: string;
+    cancel_reason: 'no_show';
+  };
+}
+
+export type JobPostAllocationMode = 'fcfs' | 'lottery';
+
+// Shift generated on every work date of a job post, in the tenant timezone
+// Stored as-is in job_posts.shift_templates, hence snake_case keys
+export interface ShiftTemplate {
+  code: string;
+  name: string;
+  start_time: string; // HH:MM
+  end_time: string; // HH:MM; at or before start_time for overnight shifts
 }
 
 export interface JobPost {
@@ -69,22 +376,405 @@ export interface JobPost {
   description: string | null;
   unit_price: number;
   currency: string;
+  price_type: 'fixed' | 'range' | 'bid';
+  required_quals: string | null;
+  area_hint: string | null;
   start_date: string;
   end_date: string;
+  capacity: number;
+  working_days: number[];
+  skip_holidays: boolean;
+  shift_templates: ShiftTemplate[]; // Empty: one whole-day shift
+  allocation_mode: JobPostAllocationMode;
+  lottery_closes_at: string | null;
+  lottery_drawn_at: string | null;
+  lottery_seed: string | null; // Disclosed once the draw has run
+  approval_required: boolean;
+  approval_window_hours: number;
+  early_access_minutes: number | null;
+  early_access_min_rating: number | null;
+  early_access_until: string | null; // published_at + early_access_minutes
+  // Fairness caps per company within this post (NULL = tenant default / no cap)
+  max_claims_per_post: number | null;
+  max_claims_per_day: number | null;
+  max_claims_per_week: number | null;
+  cancellation_policy: CancellationPolicy | null; // Replaces the tenant policy when set
+  is_published: boolean;
+  published_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JobPostCreateRequest {
+  projectId: string;
+  trade: string;
+  title: string;
+  description?: string | null;
+  unitPrice: number;
+  currency?: string;
+  priceType?: 'fixed' | 'range' | 'bid';
+  requiredQuals?: string[];
+  areaHint?: string | null;
+  startDate: string;
+  endDate: string;
+  capacity: number;
+  workingDays?: number[];
+  skipHolidays?: boolean;
+  shiftTemplates?: ShiftTemplate[];
+  allocationMode?: JobPostAllocationMode;
+  lotteryClosesAt?: string | null;
+  approvalRequired?: boolean;
+  approvalWindowHours?: number;
+  earlyAccessMinutes?: number | null;
+  earlyAccessMinRating?: number | null;
+  maxClaimsPerPost?: number | null;
+  maxClaimsPerDay?: number | null;
+  maxClaimsPerWeek?: number | null;
+  cancellationPolicy?: CancellationPolicy | null;
+}
+
+export type JobPostUpdateRequest = Partial<Omit<JobPostCreateRequest, 'projectId'>>;
+
+export interface SlotSyncResult {
+  created_count: number;
+  removed_count: number;
+  retimed_count: number; // Available slots moved to the new times of their shift
+  // Dates whose slots could not be changed because they are no longer available
+  blocked_dates: string[];
+  blocked_slots: Array<{
+    slot_id: string;
+    work_date: string;
+    shift_code: string | null;
+    slot_no: number;
+    status: string;
+  }>;
+}
+
+export interface JobPostResponse {
+  job_post: JobPost;
+  slot_sync?: SlotSyncResult;
+}
+
+export interface LotteryEntryRequest {
+  companyId: string;
+  workDates?: string[]; // Omit to apply for every work date
+  crewCount?: number;
+}
+
+export interface LotteryEntry {
+  id: string;
+  job_post_id: string;
+  company_id: string;
+  user_id: string | null;
+  work_dates: string[] | null;
+  crew_count: number;
+  status: 'applied' | 'won' | 'lost';
+  won_slot_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LotteryEntryResponse {
+  entry: LotteryEntry;
+}
+
+export interface LotteryEntriesResponse {
+  entries: LotteryEntry[];
+}
+
+export interface LotteryDrawResult {
+  job_post_id: string;
+  seed: string;
+  drawn_at: string;
+  entry_count: number;
+  allocated_slot_count: number;
+  unallocated_slot_count: number;
+  winner_entry_ids: string[];
+  loser_entry_ids: string[];
+}
+
+export interface LotteryDrawResponse {
+  draw: LotteryDrawResult;
+}
+
+export interface TenantHoliday {
+  id: string;
+  tenant_id: string;
+  holiday_date: string;
+  name: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface PreferredCompany {
+  tenant_id: string;
+  company_id: string;
+  company_name: string;
+  rating: number | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type ReliabilityEventType = 'claim' | 'completion' | 'late_cancellation' | 'no_show';
+
+// Counts over the last window_days; score is null until there is enough history
+export interface CompanyReliability {
+  score: number | null;
+  window_days: number;
+  claims: number;
+  completions: number;
+  late_cancellations: number;
+  no_shows: number;
 }
 
+export interface CompanyProfileResponse {
+  company: {
+    id: string;
+    name: string;
+    trades: string | null;
+    address: string | null;
+    rating: number | null;
+    is_active: boolean;
+    reliability: CompanyReliability;
+  };
+}
+
+export type QualificationVerificationStatus = 'pending' | 'verified' | 'rejected';
+
+export interface Qualification {
+  id: string;
+  tenant_id: string;
+  company_id: string;
+  name: string;
+  number: string | null;
+  valid_until: string | null;
+  files_url: string | null;
+  file_name: string | null;
+  file_content_type: string | null;
+  verification_status: QualificationVerificationStatus;
+  verified_by: string | null;
+  verified_at: string | null;
+  rejection_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QualificationCreateRequest {
+  name: string;
+  number?: string | null;
+  validUntil?: string | null;
+}
+
+export type QualificationUpdateRequest = Partial<QualificationCreateRequest>;
+
+export interface QualificationVerifyRequest {
+  status: 'verified' | 'rejected';
+  reason?: string;
+}
+
+export interface QualificationResponse {
+  qualification: Qualification;
+}
+
+export interface QualificationsResponse {
+  qualifications: Qualification[];
+}
+
+export interface JobPostsResponse {
+  job_posts: Array<JobPost & { available_slots: number }>;
+  total_count: number;
+}
+
+// release: slot goes back to 'available' for a fresh claim
+// withdraw: slot is taken out of circulation ('cancelled')
+export type CancelClaimMode = 'release' | 'withdraw';
+
+export type CancellationReason = 'no_show' | 'weather' | 'client_change' | 'material_delay' | 'other';
+
 export interface CancelClaimRequest {
   slotId: string;
-  reason: 'no_show' | 'weather' | 'client_change' | 'material_delay' | 'other';
+  reason: CancellationReason;
+  mode?: CancelClaimMode;
+}
+
+// allow: cancel (charging any penalty), approval: the GC must approve, deny: refused
+export type CancellationRuleAction = 'allow' | 'approval' | 'deny';
+
+// Applies to subcontractor cancellations within within_hours of the start of the work date
+export interface CancellationRule {
+  within_hours: number;
+  action: CancellationRuleAction;
+  except_reasons?: CancellationReason[];
+  penalty_points?: number;
+  fee?: number; // In the job post's currency
+}
+
+export interface CancellationPolicy {
+  rules: CancellationRule[];
+}
+
+// Subcontractor cancellation awaiting GC approval
+export interface CancellationRequest {
+  claim_id: string;
+  job_slot_id: string;
+  job_post_id: string;
+  work_date: string;
+  company_id: string;
+  claim_status: ClaimStatus;
+  requested_at: string;
+  requested_by: string | null;
+  reason: CancellationReason;
+  mode: CancelClaimMode;
+  rule: CancellationRule;
+}
+
+export interface CancellationRequestResponse {
+  cancellation_request: CancellationRequest;
+}
+
+export interface CancellationRequestsResponse {
+  cancellation_requests: CancellationRequest[];
+}
+
+export interface CancellationPenalty {
+  id: string;
+  company_id: string;
+  claim_id: string | null;
+  job_slot_id: string | null;
+  work_date: string;
+  reason: CancellationReason;
+  hours_before_work: number;
+  rule: CancellationRule;
+  penalty_points: number;
+  fee_amount: number;
+  currency: string;
+  invoiced_at: string | null;
+  created_at: string;
+}
+
+export interface CancellationPenaltiesResponse {
+  penalties: CancellationPenalty[];
+  total_penalty_points: number;
+  total_fee_amount: number;
 }
 
 export interface CancelClaimResponse {
   slot: {
+    id: string;
+    status: 'available' | 'cancelled';
+    canceled_at: string | null;
+    cancel_reason: string | null;
+  };
+  claim: {
     id: string;
     status: 'cancelled';
-    canceled_at: string;
+    cancelled_at: string;
     cancel_reason: string;
   };
+  mode: CancelClaimMode;
+  // Charged when the cancellation fell under a policy rule with points or a fee
+  penalty: CancellationPenalty | null;
+}
+
+// Claim moved to another slot of the same job post; the claim keeps its ID
+export interface ClaimReschedule {
+  id: string;
+  claim_id: string;
+  company_id: string;
+  job_post_id: string;
+  from_slot_id: string;
+  from_work_date: string;
+  to_slot_id: string;
+  to_work_date: string;
+  reason: string;
+  rescheduled_at: string;
+}
+
+// Which side proposed a reschedule; the other side accepts or declines
+export type RescheduleParty = 'gc' | 'company';
+
+export type RescheduleRequestStatus = 'pending' | 'accepted' | 'declined' | 'closed';
+
+export interface RescheduleProposalRequest {
+  workDate: string;
+  note?: string;
+}
+
+export interface RescheduleDeclineRequest {
+  note?: string;
+}
+
+export interface ClaimRescheduleRequest {
+  id: string;
+  claim_id: string;
+  company_id: string;
+  job_post_id: string;
+  from_slot_id: string | null;
+  from_work_date: string;
+  to_work_date: string;
+  proposed_by: string | null;
+  proposed_by_party: RescheduleParty;
+  note: string | null;
+  status: RescheduleRequestStatus;
+  decided_by: string | null;
+  decided_at: string | null;
+  decline_note: string | null;
+  reschedule_id: string | null;
+  created_at: string;
+}
+
+export interface RescheduleRequestResponse {
+  reschedule_request: ClaimRescheduleRequest;
+}
+
+export interface RescheduleRequestsResponse {
+  reschedule_requests: ClaimRescheduleRequest[];
+}
+
+export interface RescheduleAcceptResponse {
+  reschedule_request: ClaimRescheduleRequest;
+  reschedule: ClaimReschedule;
+}
+
+// cancel: withdraw every claimed slot; postpone: move each claim to the next open slot of its job post
+export type WeatherCancellationAction = 'cancel' | 'postpone';
+
+export interface WeatherCancellationRequest {
+  workDate?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  action?: WeatherCancellationAction;
+  jobPostId?: string;
+  note?: string;
+}
+
+export interface WeatherCancelledSlot {
+  slot_id: string;
+  job_post_id: string;
+  work_date: string;
+  claim_id: string;
+  company_id: string;
+  // postpone only: why the claim was cancelled instead of moved (NO_OPEN_SLOT, or the eligibility error for the open slot)
+  postpone_failure: WeatherPostponeFailure | null;
+}
+
+export interface WeatherPostponeFailure {
+  code: string;
+  message: string;
+}
+
+export interface WeatherCancellationResponse {
+  id: string;
+  project_id: string;
+  date_from: string;
+  date_to: string;
+  action: WeatherCancellationAction;
+  // When postponing, claims with no open later slot are cancelled instead
+  cancelled: WeatherCancelledSlot[];
+  postponed: ClaimReschedule[];
+  notified_company_ids: string[];
 }
 
 export interface IntegrationOutboxEvent {
@@ -1,4 +1,12 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { MembershipRole } from '@/types/api';
+
+vi.mock('@/lib/auth', () => ({
+  requireAuth: vi.fn()
+}));
+
+import { requireAuth } from '@/lib/auth';
+import { hasPermission, requirePermission, ROLE_PERMISSIONS } from '@/lib/permissions';
 
 /**
  * Admin API Authorization Tests
@@ -333,4 +341,143 @@ describe('Admin API Authorization Tests', () => {
       expect(requeuedEvent.retry_count).toBe(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('Role-based Access Control', () => {
+    const mockedRequireAuth = vi.mocked(requireAuth);
+    const NON_ADMIN_ROLES: MembershipRole[] = ['owner', 'gc_admin', 'gc_member', 'sub_admin', 'sub_member'];
+
+    const authenticateAs = (role: MembershipRole) => {
+      mockedRequireAuth.mockResolvedValue({
+        tenantId: '550e8400-e29b-41d4-a716-446655440001',
+        userId: '550e8400-e29b-41d4-a716-446655440201',
+        role,
+        companyId: null
+      });
+    };
+
+    const adminRequest = (path: string, method: string = 'GET', body?: object) =>
+      new Request(`http://localhost:3000${path}`, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${validToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: body ? JSON.stringify(body) : undefined
+      }) as any;
+
+    const tenantParams = { params: Promise.resolve({ id: '550e8400-e29b-41d4-a716-446655440001' }) };
+    const eventParams = { params: Promise.resolve({ id: '1' }) };
+
+    const adminEndpoints: Array<[string, () => Promise<Response>]> = [
+      ['GET /api/admin/auth-check', async () => {
+        const { GET } = await import('../../src/app/api/admin/auth-check/route');
+        return GET(adminRequest('/api/admin/auth-check'));
+      }],
+      ['GET /api/admin/tenants', async () => {
+        const { GET } = await import('../../src/app/api/admin/tenants/route');
+        return GET(adminRequest('/api/admin/tenants'));
+      }],
+      ['GET /api/admin/tenants/{id}', async () => {
+        const { GET } = await import('../../src/app/api/admin/tenants/[id]/route');
+        return GET(adminRequest('/api/admin/tenants/x'), tenantParams);
+      }],
+      ['PUT /api/admin/tenants/{id}', async () => {
+        const { PUT } = await import('../../src/app/api/admin/tenants/[id]/route');
+        return PUT(adminRequest('/api/admin/tenants/x', 'PUT', { integration_mode: 'dandori' }), tenantParams);
+      }],
+      ['GET /api/admin/outbox', async () => {
+        const { GET } = await import('../../src/app/api/admin/outbox/route');
+        return GET(adminRequest('/api/admin/outbox'));
+      }],
+      ['POST /api/admin/outbox/{id}/requeue', async () => {
+        const { POST } = await import('../../src/app/api/admin/outbox/[id]/requeue/route');
+        return POST(adminRequest('/api/admin/outbox/1/requeue', 'POST'), eventParams);
+      }],
+      ['POST /api/admin/import', async () => {
+        const { POST } = await import('../../src/app/api/admin/import/route');
+        return POST(adminRequest('/api/admin/import', 'POST', { type: 'companies', data: [] }));
+      }]
+    ];
+
+    beforeEach(() => {
+      mockedRequireAuth.mockReset();
+    });
+
+    it('should declare permissions for every membership role', () => {
+      expect(Object.keys(ROLE_PERMISSIONS).sort()).toEqual(
+        ['gc_admin', 'gc_member', 'ops_admin', 'owner', 'sub_admin', 'sub_member']
+      );
+    });
+
+    it('should grant every admin permission to ops_admin only', () => {
+      expect(hasPermission('ops_admin', 'admin:access')).toBe(true);
+      expect(hasPermission('ops_admin', 'outbox:requeue')).toBe(true);
+      expect(hasPermission('ops_admin', 'import:run')).toBe(true);
+
+      NON_ADMIN_ROLES.forEach((role) => {
+        expect(hasPermission(role, 'admin:access')).toBe(false);
+        expect(hasPermission(role, 'tenants:manage')).toBe(false);
+        expect(hasPermission(role, 'outbox:requeue')).toBe(false);
+        expect(hasPermission(role, 'import:run')).toBe(false);
+      });
+    });
+
+    it('should let tenant owners and gc_admin read audit logs', () => {
+      expect(hasPermission('owner', 'audit_logs:read')).toBe(true);
+      expect(hasPermission('gc_admin', 'audit_logs:read')).toBe(true);
+      expect(hasPermission('sub_admin', 'audit_logs:read')).toBe(false);
+    });
+
+    it('should reject a missing permission with a Forbidden error', async () => {
+      authenticateAs('sub_admin');
+
+      await expect(requirePermission(adminRequest('/api/admin/outbox'), 'outbox:read'))
+        .rejects.toThrow(/^Forbidden/);
+    });
+
+    it.each(NON_ADMIN_ROLES)('should return 403 on every admin-only route for %s', async (role) => {
+      authenticateAs(role);
+
+      for (const [, call] of adminEndpoints) {
+        const response = await call();
+        expect(response.status).toBe(403);
+
+        const data = await response.json();
+        expect(data.code).toBe('FORBIDDEN');
+      }
+    });
+
+    it('should return 403 on audit logs for sub roles', async () => {
+      authenticateAs('sub_member');
+      const { GET } = await import('../../src/app/api/admin/audit-logs/route');
+
+      const response = await GET(adminRequest('/api/admin/audit-logs'));
+      expect(response.status).toBe(403);
+    });
+
+    it('should return the real role and permissions from auth-check for ops_admin', async () => {
+      authenticateAs('ops_admin');
+      const { GET } = await import('../../src/app/api/admin/auth-check/route');
+
+      const response = await GET(adminRequest('/api/admin/auth-check'));
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.user.role).toBe('ops_admin');
+      expect(data.permissions).toEqual({
+        can_access_admin: true,
+        can_manage_tenants: true,
+        can_view_outbox: true,
+        can_requeue_events: true
+      });
+    });
+
+    it('should return 401 when authentication fails', async () => {
+      mockedRequireAuth.mockRejectedValue(new Error('Unauthorized: Invalid or missing JWT token'));
+      const { GET } = await import('../../src/app/api/admin/tenants/route');
+
+      const response = await GET(adminRequest('/api/admin/tenants'));
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -1,6 +1,15 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { pool, withTransaction } from '@/lib/database';
 import { PoolClient } from 'pg';
+import type { MembershipRole } from '@/types/api';
+
+vi.mock('@/lib/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  requireAuth: vi.fn()
+}));
+
+import { requireAuth } from '@/lib/auth';
+import { SUB_ROLES } from '@/lib/permissions';
 
 /**
  * Cancel Claim API Tests
@@ -353,4 +362,155 @@ describe('Cancel Claim API Tests', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Release Cancelled Slot', () => {
+    const claimSlot = async () => {
+      const client = await pool.connect();
+      try {
+        await client.query(`
+          UPDATE job_slots
+          SET status = 'claimed', claimed_by_company = $1, claimed_at = now()
+          WHERE id = $2 AND tenant_id = $3
+        `, [testCompanyId, testSlotId, testTenantId]);
+
+        await client.query(`
+          INSERT INTO claims (id, tenant_id, job_slot_id, company_id, user_id, request_id, claimed_at)
+          VALUES ($1, $2, $3, $4, $5, $6, now())
+        `, [testClaimId, testTenantId, testSlotId, testCompanyId, null, 'test-request-id']);
+      } finally {
+        client.release();
+      }
+    };
+
+    const callCancelAPI = async (role: MembershipRole, mode: 'release' | 'withdraw') => {
+      vi.mocked(requireAuth).mockResolvedValue({
+        tenantId: testTenantId,
+        userId: '550e8400-e29b-41d4-a716-446655440201',
+        role,
+        companyId: SUB_ROLES.includes(role) ? testCompanyId : null
+      });
+
+      const { POST } = await import('../../src/app/api/cancel-claim/route');
+
+      return POST(new Request('http://localhost:3000/api/cancel-claim', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer dev-token'
+        },
+        body: JSON.stringify({ slotId: testSlotId, reason: 'client_change', mode })
+      }) as any);
+    };
+
+    const readState = async () => {
+      const client = await pool.connect();
+      try {
+        const slot = await client.query(`
+          SELECT status, claimed_by_company FROM job_slots WHERE id = $1 AND tenant_id = $2
+        `, [testSlotId, testTenantId]);
+        const claims = await client.query(`
+          SELECT id, status, cancel_reason FROM claims WHERE job_slot_id = $1 AND tenant_id = $2
+        `, [testSlotId, testTenantId]);
+        const events = await client.query(`
+          SELECT event_name, payload
+          FROM integration_outbox
+          WHERE event_name = 'claim.cancelled' AND payload::text LIKE '%' || $1 || '%'
+        `, [testClaimId]);
+
+        return { slot: slot.rows[0], claims: claims.rows, events: events.rows };
+      } finally {
+        client.release();
+      }
+    };
+
+    afterEach(async () => {
+      const client = await pool.connect();
+      try {
+        await client.query(`
+          DELETE FROM integration_outbox
+          WHERE event_name = 'claim.cancelled' AND payload::text LIKE '%' || $1 || '%'
+        `, [testClaimId]);
+      } finally {
+        client.release();
+      }
+    });
+
+    it('should put the slot back on offer and keep the cancelled claim when the GC releases it', async () => {
+      await claimSlot();
+
+      const response = await callCancelAPI('gc_admin', 'release');
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.mode).toBe('release');
+      expect(data.slot.status).toBe('available');
+      expect(data.claim).toMatchObject({ id: testClaimId, status: 'cancelled' });
+
+      const state = await readState();
+      expect(state.slot).toEqual({ status: 'available', claimed_by_company: null });
+      expect(state.claims).toEqual([{ id: testClaimId, status: 'cancelled', cancel_reason: 'client_change' }]);
+      expect(state.events).toHaveLength(1);
+    });
+
+    it('should withdraw the slot when the GC chooses to', async () => {
+      await claimSlot();
+
+      const response = await callCancelAPI('gc_admin', 'withdraw');
+      expect(response.status).toBe(200);
+
+      const state = await readState();
+      expect(state.slot.status).toBe('cancelled');
+      expect(state.claims.map((claim: any) => claim.status)).toEqual(['cancelled']);
+    });
+
+    it('should always release when the claiming subcontractor cancels', async () => {
+      await claimSlot();
+
+      const response = await callCancelAPI('sub_admin', 'withdraw');
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.mode).toBe('release');
+
+      const state = await readState();
+      expect(state.slot.status).toBe('available');
+      expect(state.events).toHaveLength(1);
+    });
+
+    it('should allow a fresh claim once the previous claim is released', async () => {
+      await claimSlot();
+      await callCancelAPI('gc_admin', 'release');
+
+      const client = await pool.connect();
+      try {
+        // A new claim with a fresh request_id is accepted
+        await client.query(`
+          INSERT INTO claims (tenant_id, job_slot_id, company_id, user_id, request_id, claimed_at)
+          VALUES ($1, $2, $3, $4, $5, now())
+        `, [testTenantId, testSlotId, testCompanyId, null, 'test-request-id-2']);
+      } finally {
+        client.release();
+      }
+
+      const state = await readState();
+      expect(state.claims.map((claim: any) => claim.status).sort()).toEqual(['active', 'cancelled']);
+    });
+
+    it('should still reject two active claims on the same slot', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query(`
+          INSERT INTO claims (tenant_id, job_slot_id, company_id, user_id, request_id, claimed_at)
+          VALUES ($1, $2, $3, $4, $5, now())
+        `, [testTenantId, testSlotId, testCompanyId, null, 'test-request-id-a']);
+
+        await expect(client.query(`
+          INSERT INTO claims (tenant_id, job_slot_id, company_id, user_id, request_id, claimed_at)
+          VALUES ($1, $2, $3, $4, $5, now())
+        `, [testTenantId, testSlotId, testCompanyId, null, 'test-request-id-b'])).rejects.toThrow(/duplicate key/);
+      } finally {
+        client.release();
+      }
+    });
+  });
+});
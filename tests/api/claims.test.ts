@@ -57,6 +57,19 @@ async function mockAlternativesAPI(
   return GET(mockRequest as any);
 }
 
+async function mockSlotsAPI(query: string = ''): Promise<Response> {
+  const { GET } = await import('../../src/app/api/slots/route');
+
+  const mockRequest = new Request(`http://localhost:3000/api/slots${query}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer dev-token`
+    }
+  });
+
+  return GET(mockRequest as any);
+}
+
 // Helper functions
 async function setTenantContext(client: PoolClient, tenantId: string) {
   await client.query(
@@ -312,7 +325,51 @@ describe('Claims API Tests', () => {
       );
 
       const response = await GET(mockRequest as any);
-      expect(response.status).toBe(404); // Slot not found due to RLS
+      expect(response.status).toBe(401); // Unsigned token is rejected before RLS applies
     });
   });
-});
\ No newline at end of file
+
+  describe('GET /api/slots', () => {
+    it('should list only available slots ordered by work_date', async () => {
+      const requestId = `test-${Date.now()}-7`;
+      await mockClaimAPI(TEST_SLOT_ID_1, TEST_COMPANY_ID, requestId);
+
+      const response = await mockSlotsAPI();
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      const ids = data.slots.map((slot: any) => slot.id);
+      expect(ids).not.toContain(TEST_SLOT_ID_1);
+      expect(ids).toContain(TEST_SLOT_ID_2);
+
+      for (let i = 1; i < data.slots.length; i++) {
+        expect(data.slots[i].work_date >= data.slots[i - 1].work_date).toBe(true);
+      }
+
+      expect(data.slots[0]).toHaveProperty('job_post');
+      expect(data.slots[0]).toHaveProperty('project');
+      expect(Array.isArray(data.slots[0].job_post.required_quals)).toBe(true);
+    });
+
+    it('should page through results with next_cursor', async () => {
+      const firstPage = await (await mockSlotsAPI('?limit=1')).json();
+      expect(firstPage.slots).toHaveLength(1);
+      expect(firstPage.next_cursor).toBeTruthy();
+
+      const secondPage = await (await mockSlotsAPI(`?limit=1&cursor=${firstPage.next_cursor}`)).json();
+      expect(secondPage.slots).toHaveLength(1);
+      expect(secondPage.slots[0].id).not.toBe(firstPage.slots[0].id);
+    });
+
+    it('should reject an invalid cursor', async () => {
+      const response = await mockSlotsAPI('?cursor=not-a-cursor');
+      expect(response.status).toBe(422);
+    });
+
+    it('should filter by trade', async () => {
+      const data = await (await mockSlotsAPI('?trade=no-such-trade')).json();
+      expect(data.slots).toHaveLength(0);
+      expect(data.next_cursor).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/database', () => ({
+  withTransaction: vi.fn(async (callback: (client: any) => Promise<unknown>) => callback({ query: vi.fn() }))
+}));
+
+vi.mock('@/lib/slot-holds', () => ({
+  releaseExpiredHolds: vi.fn()
+}));
+
+vi.mock('@/lib/waitlist', () => ({
+  expireWaitlistOffers: vi.fn(),
+  findPendingWaitlistSlots: vi.fn(),
+  promoteWaitlist: vi.fn()
+}));
+
+import { withTransaction } from '@/lib/database';
+import { releaseExpiredHolds } from '@/lib/slot-holds';
+import { expireWaitlistOffers, findPendingWaitlistSlots, promoteWaitlist } from '@/lib/waitlist';
+
+/**
+ * Slot Hold Sweeper Tests
+ * 一時確保の解除とキャンセル待ち繰り上げのトランザクション分離テスト
+ */
+
+describe('Slot Hold Sweeper', () => {
+  const cronRequest = () =>
+    new Request('http://localhost:3000/api/cron/slot-holds', {
+      headers: { 'Authorization': 'Bearer test-cron-secret' }
+    }) as any;
+
+  beforeEach(() => {
+    vi.stubEnv('CRON_SECRET', 'test-cron-secret');
+    vi.clearAllMocks();
+    vi.mocked(releaseExpiredHolds).mockResolvedValue(2);
+    vi.mocked(expireWaitlistOffers).mockResolvedValue(1);
+    vi.mocked(findPendingWaitlistSlots).mockResolvedValue([
+      { id: 'slot-1', tenant_id: 'tenant-1' },
+      { id: 'slot-2', tenant_id: 'tenant-2' }
+    ]);
+  });
+
+  it('should promote each slot in its own transaction and keep going after a failure', async () => {
+    vi.mocked(promoteWaitlist)
+      .mockRejectedValueOnce(new Error('duplicate key value violates unique constraint "idx_claims_active_slot"'))
+      .mockResolvedValueOnce({ entry_id: 'entry-2' } as any);
+
+    const { GET } = await import('../../src/app/api/cron/slot-holds/route');
+    const response = await GET(cronRequest());
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      released: 2,
+      waitlist: { expired: 1, promoted: 1, failed: ['slot-1'] }
+    });
+
+    // Release, pending lookup, then one transaction per slot
+    expect(withTransaction).toHaveBeenCalledTimes(4);
+    expect(vi.mocked(promoteWaitlist).mock.calls.map(([, tenantId, slotId]) => [tenantId, slotId])).toEqual([
+      ['tenant-1', 'slot-1'],
+      ['tenant-2', 'slot-2']
+    ]);
+  });
+
+  it('should reject calls without the cron secret', async () => {
+    const { GET } = await import('../../src/app/api/cron/slot-holds/route');
+    const response = await GET(new Request('http://localhost:3000/api/cron/slot-holds') as any);
+
+    expect(response.status).toBe(401);
+    expect(releaseExpiredHolds).not.toHaveBeenCalled();
+  });
+});
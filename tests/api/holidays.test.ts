@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { MembershipRole } from '@/types/api';
+
+vi.mock('@/lib/auth', () => ({
+  requireAuth: vi.fn()
+}));
+
+import { requireAuth } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+
+/**
+ * Holiday API Authorization Tests
+ * テナント休日の登録・削除の認可テスト
+ */
+
+describe('Holiday API Authorization Tests', () => {
+  const mockedRequireAuth = vi.mocked(requireAuth);
+
+  const authenticateAs = (role: MembershipRole) => {
+    mockedRequireAuth.mockResolvedValue({
+      tenantId: '550e8400-e29b-41d4-a716-446655440001',
+      userId: '550e8400-e29b-41d4-a716-446655440201',
+      role,
+      companyId: '550e8400-e29b-41d4-a716-446655440302'
+    });
+  };
+
+  const holidayRequest = (path: string, method: string, body?: object) =>
+    new Request(`http://localhost:3000${path}`, {
+      method,
+      headers: {
+        'Authorization': 'Bearer dev-token',
+        'Content-Type': 'application/json'
+      },
+      body: body ? JSON.stringify(body) : undefined
+    }) as any;
+
+  beforeEach(() => {
+    mockedRequireAuth.mockReset();
+  });
+
+  it('should let only owner, gc_admin and ops_admin manage holidays', () => {
+    expect(hasPermission('owner', 'holidays:manage')).toBe(true);
+    expect(hasPermission('gc_admin', 'holidays:manage')).toBe(true);
+    expect(hasPermission('ops_admin', 'holidays:manage')).toBe(true);
+    expect(hasPermission('sub_admin', 'holidays:manage')).toBe(false);
+    expect(hasPermission('sub_member', 'holidays:manage')).toBe(false);
+  });
+
+  it.each(['sub_admin', 'sub_member'] as MembershipRole[])(
+    'should return 403 when %s adds or removes a holiday',
+    async (role) => {
+      authenticateAs(role);
+      const { POST } = await import('../../src/app/api/holidays/route');
+      const { DELETE } = await import('../../src/app/api/holidays/[id]/route');
+
+      const created = await POST(holidayRequest('/api/holidays', 'POST', { date: '2024-11-04', name: '振替休日' }));
+      expect(created.status).toBe(403);
+
+      const deleted = await DELETE(
+        holidayRequest('/api/holidays/x', 'DELETE'),
+        { params: Promise.resolve({ id: '550e8400-e29b-41d4-a716-446655440901' }) }
+      );
+      expect(deleted.status).toBe(403);
+    }
+  );
+});
@@ -12,4 +12,9 @@ if (!process.env.DATABASE_URL) {
 // Set test JWT secret
 if (!process.env.JWT_SECRET) {
   process.env.JWT_SECRET = 'test-secret-key';
-}
\ No newline at end of file
+}
+
+// Allow the dev-token bypass in tests
+if (!process.env.AUTH_DEV_BYPASS) {
+  process.env.AUTH_DEV_BYPASS = 'true';
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SignJWT, generateKeyPair, exportJWK } from 'jose';
+
+vi.mock('@/lib/database', () => ({
+  queryWithTenant: vi.fn()
+}));
+
+import { requireAuth, verifyJwt } from '@/lib/auth';
+import { queryWithTenant } from '@/lib/database';
+
+/**
+ * Auth Unit Tests
+ * JWT検証とメンバーシップ照合のユニットテスト
+ */
+
+const TENANT_ID = '550e8400-e29b-41d4-a716-446655440001';
+const USER_ID = '550e8400-e29b-41d4-a716-446655440101';
+const COMPANY_ID = '550e8400-e29b-41d4-a716-446655440301';
+
+const mockedQuery = vi.mocked(queryWithTenant);
+
+const requestWithToken = (token?: string) => {
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return new Request('http://localhost:3000/api/job-posts', { headers }) as any;
+};
+
+const signHs256 = (claims: Record<string, unknown>, options: { exp?: string | number; secret?: string } = {}) => {
+  let jwt = new SignJWT(claims).setProtectedHeader({ alg: 'HS256' }).setIssuedAt();
+  if (options.exp !== undefined) {
+    jwt = jwt.setExpirationTime(options.exp);
+  }
+  return jwt.sign(new TextEncoder().encode(options.secret || process.env.JWT_SECRET));
+};
+
+describe('Auth', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+    mockedQuery.mockResolvedValue({ rows: [{ role: 'gc_admin', company_id: COMPANY_ID }] });
+  });
+
+  describe('verifyJwt', () => {
+    it('should accept a valid HS256 token', async () => {
+      const token = await signHs256({ tenant_id: TENANT_ID, user_id: USER_ID }, { exp: '1h' });
+
+      const payload = await verifyJwt(token);
+
+      expect(payload?.tenant_id).toBe(TENANT_ID);
+    });
+
+    it('should reject a token signed with another secret', async () => {
+      const token = await signHs256({ tenant_id: TENANT_ID }, { exp: '1h', secret: 'other-secret' });
+
+      expect(await verifyJwt(token)).toBeNull();
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = await signHs256({ tenant_id: TENANT_ID }, { exp: Math.floor(Date.now() / 1000) - 3600 });
+
+      expect(await verifyJwt(token)).toBeNull();
+    });
+
+    it('should reject tokens without exp', async () => {
+      const token = await signHs256({ tenant_id: TENANT_ID });
+
+      expect(await verifyJwt(token)).toBeNull();
+    });
+
+    it('should reject tokens that are not yet valid', async () => {
+      const token = await new SignJWT({ tenant_id: TENANT_ID })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setNotBefore(Math.floor(Date.now() / 1000) + 3600)
+        .setExpirationTime('2h')
+        .sign(new TextEncoder().encode(process.env.JWT_SECRET));
+
+      expect(await verifyJwt(token)).toBeNull();
+    });
+
+    it('should reject unsigned base64 payloads', async () => {
+      const token = Buffer.from(JSON.stringify({ tenant_id: TENANT_ID })).toString('base64');
+
+      expect(await verifyJwt(token)).toBeNull();
+    });
+
+    describe('with a local JWKS file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'jwks-'));
+      const jwksPath = join(dir, 'jwks.json');
+
+      afterEach(() => {
+        delete process.env.JWT_JWKS_PATH;
+      });
+
+      afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+      });
+
+      it('should accept RS256 and ES256 tokens signed by a listed key', async () => {
+        const rsa = await generateKeyPair('RS256');
+        const ec = await generateKeyPair('ES256');
+        const keys = [
+          { ...(await exportJWK(rsa.publicKey)), kid: 'rsa-1', alg: 'RS256' },
+          { ...(await exportJWK(ec.publicKey)), kid: 'ec-1', alg: 'ES256' }
+        ];
+        writeFileSync(jwksPath, JSON.stringify({ keys }));
+        process.env.JWT_JWKS_PATH = jwksPath;
+
+        const rsToken = await new SignJWT({ tenant_id: TENANT_ID })
+          .setProtectedHeader({ alg: 'RS256', kid: 'rsa-1' })
+          .setExpirationTime('1h')
+          .sign(rsa.privateKey);
+        const esToken = await new SignJWT({ tenant_id: TENANT_ID })
+          .setProtectedHeader({ alg: 'ES256', kid: 'ec-1' })
+          .setExpirationTime('1h')
+          .sign(ec.privateKey);
+
+        expect((await verifyJwt(rsToken))?.tenant_id).toBe(TENANT_ID);
+        expect((await verifyJwt(esToken))?.tenant_id).toBe(TENANT_ID);
+      });
+
+      it('should reject asymmetric tokens when no JWKS is configured', async () => {
+        const rsa = await generateKeyPair('RS256');
+        const token = await new SignJWT({ tenant_id: TENANT_ID })
+          .setProtectedHeader({ alg: 'RS256' })
+          .setExpirationTime('1h')
+          .sign(rsa.privateKey);
+
+        expect(await verifyJwt(token)).toBeNull();
+      });
+    });
+  });
+
+  describe('requireAuth', () => {
+    it('should return the principal from the membership', async () => {
+      const token = await signHs256({ tenant_id: TENANT_ID, user_id: USER_ID }, { exp: '1h' });
+
+      const auth = await requireAuth(requestWithToken(token));
+
+      expect(auth).toEqual({
+        tenantId: TENANT_ID,
+        userId: USER_ID,
+        role: 'gc_admin',
+        companyId: COMPANY_ID
+      });
+      expect(mockedQuery).toHaveBeenCalledWith(TENANT_ID, expect.stringContaining('memberships'), [TENANT_ID, USER_ID]);
+    });
+
+    it('should accept sub as the user id', async () => {
+      const token = await signHs256({ tenant_id: TENANT_ID, sub: USER_ID }, { exp: '1h' });
+
+      const auth = await requireAuth(requestWithToken(token));
+
+      expect(auth.userId).toBe(USER_ID);
+    });
+
+    it('should reject a role claim that disagrees with the membership', async () => {
+      const token = await signHs256({ tenant_id: TENANT_ID, user_id: USER_ID, role: 'ops_admin' }, { exp: '1h' });
+
+      await expect(requireAuth(requestWithToken(token))).rejects.toThrow(/Unauthorized/);
+    });
+
+    it('should reject users without an active membership', async () => {
+      mockedQuery.mockResolvedValue({ rows: [] });
+      const token = await signHs256({ tenant_id: TENANT_ID, user_id: USER_ID }, { exp: '1h' });
+
+      await expect(requireAuth(requestWithToken(token))).rejects.toThrow(/Unauthorized/);
+    });
+
+    it('should reject missing tokens', async () => {
+      await expect(requireAuth(requestWithToken())).rejects.toThrow(/Unauthorized/);
+    });
+
+    describe('dev-token bypass', () => {
+      const originalFlag = process.env.AUTH_DEV_BYPASS;
+
+      afterEach(() => {
+        process.env.AUTH_DEV_BYPASS = originalFlag;
+      });
+
+      it('should return the development principal when enabled', async () => {
+        process.env.AUTH_DEV_BYPASS = 'true';
+
+        const auth = await requireAuth(requestWithToken('dev-token'));
+
+        expect(auth.tenantId).toBe(TENANT_ID);
+        expect(auth.role).toBe('sub_admin');
+        expect(mockedQuery).not.toHaveBeenCalled();
+      });
+
+      it('should reject dev-token when the flag is not set', async () => {
+        delete process.env.AUTH_DEV_BYPASS;
+
+        await expect(requireAuth(requestWithToken('dev-token'))).rejects.toThrow(/Unauthorized/);
+      });
+    });
+  });
+});
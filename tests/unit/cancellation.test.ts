@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applicableCancellationRule,
+  cancelBlocker,
+  cancellationPolicyApplies,
+  cancelSlotClaim,
+  effectiveCancelMode,
+  hasPenalty,
+  requestCancellation,
+  CancelTarget
+} from '@/lib/cancellation';
+import type { CancellationPolicy } from '@/types/api';
+
+/**
+ * Cancellation Unit Tests
+ * キャンセル規定の判定・違約金の記録・承認申請のユニットテスト
+ */
+
+const policy: CancellationPolicy = {
+  rules: [
+    { within_hours: 72, action: 'approval' },
+    { within_hours: 24, action: 'deny', except_reasons: ['weather'] },
+    { within_hours: 120, action: 'allow', penalty_points: 1, fee: 5000 }
+  ]
+};
+
+const sub = {
+  tenantId: 'tenant-1',
+  userId: 'sub-user',
+  role: 'sub_admin' as const,
+  companyId: 'company-1'
+};
+
+const target = (overrides: Partial<CancelTarget> = {}): CancelTarget => ({
+  id: 'slot-1',
+  job_post_id: 'job-1',
+  status: 'claimed',
+  claimed_at: '2024-11-01T00:00:00Z',
+  work_date: '2024-11-05',
+  claim_id: 'claim-1',
+  claim_company_id: 'company-1',
+  claim_status: 'active',
+  project_tenant_id: 'tenant-1',
+  currency: 'JPY',
+  hours_until_work: 100,
+  cancellation_policy: policy,
+  cancel_requested_at: null,
+  cancel_requested_by: null,
+  cancel_request_reason: null,
+  cancel_request_mode: null,
+  cancel_request_rule: null,
+  ...overrides
+});
+
+function mockClient() {
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('UPDATE job_slots')) {
+      return { rows: [{ id: 'slot-1', status: 'cancelled', canceled_at: '2024-11-01T09:00:00Z', cancel_reason: params[0] }] };
+    }
+    if (sql.includes('UPDATE claims c')) {
+      return { rows: [{ claim_id: params[4], reason: params[1], mode: params[2], rule: JSON.parse(params[3]) }] };
+    }
+    if (sql.includes('UPDATE claims')) {
+      return { rows: [{ id: params[2], status: 'cancelled', cancelled_at: '2024-11-01T09:00:00Z', cancel_reason: params[1] }] };
+    }
+    if (sql.includes('INSERT INTO cancellation_penalties')) {
+      return { rows: [{ id: 'penalty-1', penalty_points: params[8], fee_amount: params[9], currency: params[10] }] };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+
+  return { query };
+}
+
+describe('Cancellation', () => {
+  describe('applicableCancellationRule', () => {
+    it('should pick the tightest window containing the time left', () => {
+      expect(applicableCancellationRule(policy, 200, 'other')).toBeNull();
+      expect(applicableCancellationRule(policy, 100, 'other')).toMatchObject({ within_hours: 120, action: 'allow' });
+      expect(applicableCancellationRule(policy, 48, 'other')).toMatchObject({ within_hours: 72, action: 'approval' });
+      expect(applicableCancellationRule(policy, 10, 'other')).toMatchObject({ within_hours: 24, action: 'deny' });
+      expect(applicableCancellationRule(policy, -5, 'other')).toMatchObject({ within_hours: 24, action: 'deny' });
+    });
+
+    it('should fall back to looser rules for exempted reasons', () => {
+      expect(applicableCancellationRule(policy, 10, 'weather')).toMatchObject({ within_hours: 72, action: 'approval' });
+    });
+
+    it('should let anything through without a policy', () => {
+      expect(applicableCancellationRule(null, 1, 'other')).toBeNull();
+    });
+  });
+
+  describe('cancellationPolicyApplies', () => {
+    it('should bind subcontractors cancelling confirmed claims only', () => {
+      expect(cancellationPolicyApplies(sub, target())).toBe(true);
+      expect(cancellationPolicyApplies(sub, target({ claim_status: 'pending_approval' }))).toBe(false);
+      expect(cancellationPolicyApplies({ ...sub, role: 'gc_admin', companyId: null }, target())).toBe(false);
+      expect(cancellationPolicyApplies({ ...sub, role: 'ops_admin', companyId: null }, target())).toBe(false);
+    });
+  });
+
+  describe('effectiveCancelMode', () => {
+    it('should leave release or withdraw to the GC and always release for subcontractors', () => {
+      expect(effectiveCancelMode({ ...sub, role: 'gc_admin', companyId: null }, 'withdraw')).toBe('withdraw');
+      expect(effectiveCancelMode({ ...sub, role: 'ops_admin', companyId: null }, 'release')).toBe('release');
+      expect(effectiveCancelMode(sub, 'withdraw')).toBe('release');
+      expect(effectiveCancelMode({ ...sub, role: 'sub_member' }, 'withdraw')).toBe('release');
+    });
+  });
+
+  describe('cancelBlocker', () => {
+    it('should explain why a slot cannot be cancelled', () => {
+      expect(cancelBlocker(target())).toBeNull();
+      expect(cancelBlocker(target({ status: 'available' }))).toBe('SLOT_NOT_CLAIMED');
+      expect(cancelBlocker(target({ status: 'completed' }))).toBe('ALREADY_COMPLETED');
+      expect(cancelBlocker(target({ claim_company_id: null }))).toBe('NO_CLAIM_FOUND');
+    });
+  });
+
+  describe('cancelSlotClaim', () => {
+    it('should charge the rule penalty for later invoicing', async () => {
+      const { query } = mockClient();
+      const rule = policy.rules[2];
+
+      expect(hasPenalty(rule)).toBe(true);
+
+      const result = await cancelSlotClaim({ query } as any, sub, target(), {
+        reason: 'other',
+        mode: 'withdraw',
+        rule
+      });
+
+      expect(result.penalty).toMatchObject({ id: 'penalty-1', penalty_points: 1, fee_amount: 5000, currency: 'JPY' });
+
+      const penalty = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO cancellation_penalties'));
+      expect(penalty?.[1]?.slice(0, 7)).toEqual(['tenant-1', 'company-1', 'claim-1', 'slot-1', '2024-11-05', 'other', 100]);
+
+      const audit = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO audit_logs'));
+      expect(JSON.parse(audit?.[1]?.[6])).toMatchObject({ policy_rule: rule, penalty_id: 'penalty-1' });
+    });
+
+    it('should not charge anything outside penalty rules', async () => {
+      const { query } = mockClient();
+
+      const result = await cancelSlotClaim({ query } as any, sub, target({ hours_until_work: 200 }), {
+        reason: 'weather',
+        mode: 'withdraw',
+        rule: null
+      });
+
+      expect(result.penalty).toBeNull();
+      expect(query.mock.calls.some(([sql]) => sql.includes('INSERT INTO cancellation_penalties'))).toBe(false);
+    });
+  });
+
+  describe('requestCancellation', () => {
+    it('should keep the claim active and record the request with its rule', async () => {
+      const { query } = mockClient();
+      const rule = policy.rules[0];
+
+      const request = await requestCancellation({ query } as any, sub, target({ hours_until_work: 48 }), {
+        reason: 'client_change',
+        mode: 'release',
+        rule
+      });
+
+      expect(request).toMatchObject({ claim_id: 'claim-1', reason: 'client_change', mode: 'release', rule });
+      expect(query.mock.calls.some(([sql]) => sql.includes('UPDATE job_slots'))).toBe(false);
+
+      const audit = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO audit_logs'));
+      expect(audit?.[1]?.[3]).toBe('cancel_request');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { approveClaim, releasePendingClaim, expirePendingClaims } from '@/lib/claim-approvals';
+import type { ClaimApproval } from '@/types/api';
+
+/**
+ * Claim Approval Unit Tests
+ * 承認制案件の受注承認・却下のユニットテスト
+ */
+
+const actor = { userId: 'gc-user', role: 'gc_admin' };
+
+const pendingClaim: ClaimApproval = {
+  id: 'claim-1',
+  job_slot_id: 'slot-1',
+  job_post_id: 'job-1',
+  work_date: '2024-11-05',
+  company_id: 'company-1',
+  user_id: 'user-1',
+  claimed_at: '2024-11-01T00:00:00Z',
+  status: 'pending_approval',
+  approval_expires_at: '2024-11-02T00:00:00Z',
+  decided_at: null,
+  decided_by: null,
+  rejection_reason: null
+};
+
+function mockClient(pending: any[] = []) {
+  const query = vi.fn(async (sql: string, _params: any[] = []) => {
+    if (sql.includes('FROM claims c') && sql.includes('SKIP LOCKED')) {
+      return { rows: pending };
+    }
+    if (sql.includes('dw_project_id')) {
+      return { rows: [{ dw_project_id: 'dw-1' }] };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+
+  return { query };
+}
+
+function outboxEvents(query: ReturnType<typeof vi.fn>) {
+  return query.mock.calls
+    .filter(([sql]) => sql.includes('INSERT INTO integration_outbox'))
+    .map(([, params]) => ({ event: params[1], target: params[3] }));
+}
+
+function auditActions(query: ReturnType<typeof vi.fn>) {
+  return query.mock.calls
+    .filter(([sql]) => sql.includes('INSERT INTO audit_logs'))
+    .map(([, params]) => params[3]);
+}
+
+describe('Claim approvals', () => {
+  describe('approveClaim', () => {
+    it('should activate the claim and queue claim.confirmed', async () => {
+      const { query } = mockClient();
+
+      const claim = await approveClaim({ query } as any, 'tenant-1', pendingClaim, actor);
+
+      expect(claim).toMatchObject({ status: 'active', decided_by: 'gc-user' });
+      expect(query.mock.calls[0][0]).toContain("status = 'active'");
+      expect(outboxEvents(query)).toEqual([{ event: 'claim.confirmed', target: 'dw' }]);
+      expect(auditActions(query)).toEqual(['claim_approve']);
+    });
+  });
+
+  describe('releasePendingClaim', () => {
+    it('should free the slot and notify the company on rejection', async () => {
+      const { query } = mockClient();
+
+      const claim = await releasePendingClaim({ query } as any, 'tenant-1', pendingClaim, {
+        status: 'rejected',
+        actor,
+        reason: '人員が揃っているため'
+      });
+
+      expect(claim).toMatchObject({ status: 'rejected', rejection_reason: '人員が揃っているため' });
+
+      const slotUpdate = query.mock.calls.find(([sql]) => sql.includes('UPDATE job_slots'));
+      expect(slotUpdate?.[0]).toContain("status = 'available'");
+      expect(slotUpdate?.[1]).toEqual(['slot-1', 'tenant-1', 'company-1']);
+
+      expect(outboxEvents(query)).toEqual([{ event: 'claim.rejected', target: 'notification' }]);
+      expect(auditActions(query)).toEqual(['claim_reject']);
+
+      const notify = query.mock.calls.find(([sql]) => sql.includes('pg_notify'));
+      expect(JSON.parse(notify?.[1]?.[1])).toMatchObject({ type: 'slot.released', slot_id: 'slot-1' });
+    });
+  });
+
+  describe('expirePendingClaims', () => {
+    it('should expire overdue claims as the system in their own tenant', async () => {
+      const { query } = mockClient([{ ...pendingClaim, tenant_id: 'tenant-2' }]);
+
+      expect(await expirePendingClaims({ query } as any)).toBe(1);
+
+      const claimUpdate = query.mock.calls.find(([sql]) => sql.includes('UPDATE claims'));
+      expect(claimUpdate?.[1]).toEqual(['expired', null, null, 'claim-1', 'tenant-2']);
+
+      expect(outboxEvents(query)).toEqual([{ event: 'claim.approval_expired', target: 'notification' }]);
+      expect(auditActions(query)).toEqual(['claim_approval_expired']);
+    });
+  });
+});
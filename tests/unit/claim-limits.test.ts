@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { checkClaimLimits, findExceededLimit, weekStart, ClaimLimits } from '@/lib/claim-limits';
+
+/**
+ * Claim Limits Unit Tests
+ * 1社あたりの受注上限のユニットテスト
+ */
+
+const noLimits: ClaimLimits = { post: null, post_day: null, post_week: null, tenant_day: null, tenant_week: null };
+
+const limitsFor = (jobPostId: string, overrides: Partial<ClaimLimits>) =>
+  new Map([[jobPostId, { ...noLimits, ...overrides }]]);
+
+describe('Claim limits', () => {
+  describe('weekStart', () => {
+    it('should return the Monday of the ISO week', () => {
+      expect(weekStart('2024-11-04')).toBe('2024-11-04'); // Monday
+      expect(weekStart('2024-11-10')).toBe('2024-11-04'); // Sunday
+      expect(weekStart('2024-11-11')).toBe('2024-11-11');
+      expect(weekStart('2025-01-01')).toBe('2024-12-30');
+    });
+  });
+
+  describe('findExceededLimit', () => {
+    it('should return CLAIM_LIMIT_REACHED with the current count and the limit', () => {
+      const existing = [
+        { job_post_id: 'job-1', work_date: '2024-11-05' },
+        { job_post_id: 'job-1', work_date: '2024-11-06' }
+      ];
+
+      const result = findExceededLimit(
+        limitsFor('job-1', { post: 2 }),
+        existing,
+        [{ job_post_id: 'job-1', work_date: '2024-11-07' }]
+      );
+
+      expect(result?.code).toBe('CLAIM_LIMIT_REACHED');
+      expect(result?.status).toBe(409);
+      expect(result?.details).toEqual({
+        scope: 'post',
+        limit: 2,
+        current_count: 2,
+        requested_count: 1,
+        job_post_id: 'job-1',
+        work_date: null
+      });
+    });
+
+    it('should allow claims up to the limit', () => {
+      const result = findExceededLimit(
+        limitsFor('job-1', { post: 2 }),
+        [{ job_post_id: 'job-1', work_date: '2024-11-05' }],
+        [{ job_post_id: 'job-1', work_date: '2024-11-06' }]
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('should count every slot of a bundle towards the limit', () => {
+      const result = findExceededLimit(
+        limitsFor('job-1', { post_day: 2 }),
+        [],
+        [
+          { job_post_id: 'job-1', work_date: '2024-11-05' },
+          { job_post_id: 'job-1', work_date: '2024-11-05' },
+          { job_post_id: 'job-1', work_date: '2024-11-05' }
+        ]
+      );
+
+      expect(result?.details).toMatchObject({ scope: 'post_day', current_count: 0, requested_count: 3 });
+    });
+
+    it('should count tenant caps across job posts', () => {
+      const existing = [
+        { job_post_id: 'job-2', work_date: '2024-11-04' },
+        { job_post_id: 'job-3', work_date: '2024-11-08' }
+      ];
+
+      const result = findExceededLimit(
+        limitsFor('job-1', { tenant_week: 2 }),
+        existing,
+        [{ job_post_id: 'job-1', work_date: '2024-11-10' }]
+      );
+
+      expect(result?.details).toMatchObject({ scope: 'tenant_week', limit: 2, current_count: 2 });
+      expect(findExceededLimit(limitsFor('job-1', { tenant_week: 2 }), existing, [
+        { job_post_id: 'job-1', work_date: '2024-11-11' }
+      ])).toBeNull();
+    });
+
+    it('should ignore posts without caps', () => {
+      expect(findExceededLimit(new Map(), [], [{ job_post_id: 'job-1', work_date: '2024-11-05' }])).toBeNull();
+    });
+  });
+
+  describe('checkClaimLimits', () => {
+    function mockClient(caps: Partial<ClaimLimits>, existing: any[] = []) {
+      const query = vi.fn(async (sql: string, _params: any[] = []) => {
+        if (sql.includes('JOIN tenants')) {
+          return { rows: [{ job_post_id: 'job-1', work_date: '2024-11-05', ...noLimits, ...caps }] };
+        }
+        if (sql.includes('FROM claims')) {
+          return { rows: existing };
+        }
+        return { rows: [] };
+      });
+
+      return { query };
+    }
+
+    it('should not lock when no cap applies', async () => {
+      const { query } = mockClient({});
+
+      expect(await checkClaimLimits({ query } as any, 'tenant-1', 'company-1', ['slot-1'])).toBeNull();
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should take the company lock before counting claims', async () => {
+      const { query } = mockClient({ post_day: 1 }, [{ job_post_id: 'job-1', work_date: '2024-11-05' }]);
+
+      const result = await checkClaimLimits({ query } as any, 'tenant-1', 'company-1', ['slot-1']);
+
+      expect(result?.code).toBe('CLAIM_LIMIT_REACHED');
+      expect(query.mock.calls[1][0]).toContain('pg_advisory_xact_lock');
+      expect(query.mock.calls[1][1]).toEqual(['tenant-1', 'company-1']);
+      expect(query.mock.calls[2][0]).toContain('FROM claims');
+      expect(query.mock.calls[2][1]).toEqual(['tenant-1', 'company-1', ['job-1'], '2024-11-04', '2024-11-04']);
+    });
+  });
+});
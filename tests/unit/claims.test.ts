@@ -0,0 +1,215 @@
+import { describe, it, expect, vi } from 'vitest';
+import { pickCrewSlots, recordClaim } from '@/lib/claims';
+import { bundleClaimRequestSchema } from '@/lib/validation';
+
+/**
+ * Claims Unit Tests
+ * 受注登録・まとめて受注のユニットテスト
+ */
+
+const companyId = '550e8400-e29b-41d4-a716-446655440001';
+const requestId = '550e8400-e29b-41d4-a716-446655440002';
+const slotA = '550e8400-e29b-41d4-a716-446655440003';
+const slotB = '550e8400-e29b-41d4-a716-446655440004';
+const jobPostId = '550e8400-e29b-41d4-a716-446655440005';
+
+describe('Claims', () => {
+  describe('pickCrewSlots', () => {
+    it('should pick the first claimable slots on each work date', () => {
+      const result = pickCrewSlots([
+        { id: 's1', work_date: '2024-11-05', claimable: false },
+        { id: 's2', work_date: '2024-11-05', claimable: true },
+        { id: 's3', work_date: '2024-11-05', claimable: true },
+        { id: 's4', work_date: '2024-11-06', claimable: true },
+        { id: 's5', work_date: '2024-11-06', claimable: true },
+        { id: 's6', work_date: '2024-11-06', claimable: true }
+      ], 2);
+
+      expect(result).toEqual({ slotIds: ['s2', 's3', 's4', 's5'], shortages: [] });
+    });
+
+    it('should report dates without enough claimable slots', () => {
+      const result = pickCrewSlots([
+        { id: 's1', work_date: '2024-11-05', claimable: true },
+        { id: 's2', work_date: '2024-11-05', claimable: true },
+        { id: 's3', work_date: '2024-11-06', claimable: false },
+        { id: 's4', work_date: '2024-11-06', claimable: true }
+      ], 2);
+
+      expect(result.slotIds).toEqual(['s1', 's2']);
+      expect(result.shortages).toEqual([
+        { work_date: '2024-11-06', shift_code: null, requested: 2, available: 1 }
+      ]);
+    });
+
+    it('should staff every shift of a work date separately', () => {
+      const result = pickCrewSlots([
+        { id: 's1', work_date: '2024-11-05', shift_code: 'am', claimable: true },
+        { id: 's2', work_date: '2024-11-05', shift_code: 'am', claimable: true },
+        { id: 's3', work_date: '2024-11-05', shift_code: 'pm', claimable: true },
+        { id: 's4', work_date: '2024-11-05', shift_code: 'pm', claimable: false }
+      ], 2);
+
+      expect(result.slotIds).toEqual(['s1', 's2']);
+      expect(result.shortages).toEqual([
+        { work_date: '2024-11-05', shift_code: 'pm', requested: 2, available: 1 }
+      ]);
+    });
+  });
+
+  describe('bundleClaimRequestSchema', () => {
+    it('should accept explicit slot IDs', () => {
+      const result = bundleClaimRequestSchema.safeParse({
+        companyId,
+        requestId,
+        slotIds: [slotA, slotB]
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept a job post date range with a crew count', () => {
+      const result = bundleClaimRequestSchema.safeParse({
+        companyId,
+        requestId,
+        jobPostId,
+        dateFrom: '2024-11-05',
+        dateTo: '2024-11-08',
+        crewCount: 3
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject one crew for several slots per date', () => {
+      const range = { companyId, requestId, jobPostId, dateFrom: '2024-11-05', dateTo: '2024-11-08' };
+
+      const result = bundleClaimRequestSchema.safeParse({ ...range, crewCount: 2, crew: 'A班' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({ path: ['crew'] });
+      expect(bundleClaimRequestSchema.safeParse({ ...range, crewCount: 1, crew: 'A班' }).success).toBe(true);
+    });
+
+    it('should reject duplicate slot IDs', () => {
+      const result = bundleClaimRequestSchema.safeParse({
+        companyId,
+        requestId,
+        slotIds: [slotA, slotA]
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject mixing slot IDs with a date range', () => {
+      const result = bundleClaimRequestSchema.safeParse({
+        companyId,
+        requestId,
+        slotIds: [slotA],
+        jobPostId,
+        dateFrom: '2024-11-05',
+        dateTo: '2024-11-08',
+        crewCount: 1
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an incomplete or reversed date range', () => {
+      expect(bundleClaimRequestSchema.safeParse({
+        companyId,
+        requestId,
+        jobPostId,
+        dateFrom: '2024-11-05'
+      }).success).toBe(false);
+
+      expect(bundleClaimRequestSchema.safeParse({
+        companyId,
+        requestId,
+        jobPostId,
+        dateFrom: '2024-11-08',
+        dateTo: '2024-11-05',
+        crewCount: 1
+      }).success).toBe(false);
+    });
+  });
+
+  describe('recordClaim', () => {
+    const auth = {
+      tenantId: 'tenant-1',
+      userId: 'user-1',
+      role: 'sub_admin',
+      companyId
+    } as any;
+
+    const slot = {
+      id: slotA,
+      job_post_id: jobPostId,
+      work_date: '2024-11-05',
+      status: 'claimed',
+      claimed_at: '2024-11-01T00:00:00Z'
+    };
+
+    it('should link bundled claims in the claim row and audit log', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ rows: [{ dw_project_id: 'dw-1', approval_required: false }] })
+        .mockResolvedValueOnce({
+          rows: [{ id: 'claim-1', company_id: companyId, user_id: 'user-1', claimed_at: '2024-11-01T00:00:00Z' }]
+        })
+        .mockResolvedValue({ rows: [] });
+
+      const claim = await recordClaim({ query } as any, auth, {
+        slot,
+        companyId,
+        requestId: `${requestId}:${slotA}`,
+        bundleId: 'bundle-1'
+      });
+
+      expect(claim.id).toBe('claim-1');
+      expect(query.mock.calls[1][1]).toContain('bundle-1');
+      expect(query.mock.calls[1][1][8]).toBe('active');
+
+      const [outboxSql, outboxParams] = query.mock.calls[2];
+      expect(outboxSql).toContain('integration_outbox');
+      expect(outboxParams[1]).toBe('claim.confirmed');
+
+      const [auditSql, auditParams] = query.mock.calls[3];
+      expect(auditSql).toContain('audit_logs');
+      expect(JSON.parse(auditParams[6])).toMatchObject({ bundle_id: 'bundle-1' });
+
+      const [waitlistSql, waitlistParams] = query.mock.calls[4];
+      expect(waitlistSql).toContain('waitlist_entries');
+      expect(waitlistParams).toEqual([expect.any(String), 'tenant-1', companyId, slotA]);
+
+      expect(query.mock.calls[5][0]).toContain('pg_notify');
+    });
+
+    it('should hold back claim.confirmed on posts that require GC approval', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ rows: [{ dw_project_id: 'dw-1', approval_required: true, approval_window_hours: 48 }] })
+        .mockResolvedValueOnce({
+          rows: [{
+            id: 'claim-1',
+            company_id: companyId,
+            user_id: 'user-1',
+            claimed_at: '2024-11-01T00:00:00Z',
+            status: 'pending_approval',
+            approval_expires_at: '2024-11-03T00:00:00Z'
+          }]
+        })
+        .mockResolvedValue({ rows: [] });
+
+      const claim = await recordClaim({ query } as any, auth, { slot, companyId, requestId });
+
+      expect(claim.status).toBe('pending_approval');
+      expect(query.mock.calls[1][1].slice(8)).toEqual(['pending_approval', 48, null]);
+      expect(query.mock.calls.some(([sql]) => sql.includes('integration_outbox'))).toBe(false);
+
+      const audit = query.mock.calls.find(([sql]) => sql.includes('audit_logs'));
+      expect(JSON.parse(audit?.[1]?.[6])).toMatchObject({
+        claim_status: 'pending_approval',
+        approval_expires_at: '2024-11-03T00:00:00Z'
+      });
+    });
+  });
+});
@@ -4,7 +4,9 @@ import {
   verify,
   signWithTimestamp,
   generateEventId,
-  createClaimConfirmedPayload
+  createClaimConfirmedPayload,
+  createClaimCancelledPayload,
+  createJobPostPublishedPayload
 } from '@/lib/crypto';
 
 /**
@@ -160,7 +162,16 @@ describe('Crypto Utilities', () => {
         slot_id: '550e8400-e29b-41d4-a716-446655440002',
         company_id: '550e8400-e29b-41d4-a716-446655440003',
         user_id: '550e8400-e29b-41d4-a716-446655440004',
+        crew: 'A班',
         work_date: '2024-01-15',
+        window: {
+          shift_code: 'night',
+          start_time: '22:00',
+          end_time: '06:00',
+          starts_at: '2024-01-15T13:00:00.000Z',
+          ends_at: '2024-01-15T21:00:00.000Z',
+          timezone: 'Asia/Tokyo'
+        },
         claimed_at: '2024-01-01T12:00:00Z',
         tenant_id: '550e8400-e29b-41d4-a716-446655440005',
         dw_project_id: 'DW123',
@@ -183,12 +194,14 @@ describe('Crypto Utilities', () => {
           },
           slot: {
             slot_id: claimData.slot_id,
-            status: 'claimed'
+            status: 'claimed',
+            ...claimData.window
           },
           claim: {
             claim_id: claimData.claim_id,
             company_id: claimData.company_id,
             user_id: claimData.user_id,
+            crew: 'A班',
             claimed_at: claimData.claimed_at
           },
           tenant_id: claimData.tenant_id
@@ -232,4 +245,123 @@ describe('Crypto Utilities', () => {
       expect((payload as any).id.startsWith('claim_550e8400_')).toBe(true);
     });
   });
+  describe('Claim Cancelled Payload Creation', () => {
+    const cancelData = {
+      claim_id: '550e8400-e29b-41d4-a716-446655440701',
+      slot_id: '550e8400-e29b-41d4-a716-446655440601',
+      company_id: '550e8400-e29b-41d4-a716-446655440302',
+      user_id: '550e8400-e29b-41d4-a716-446655440201',
+      work_date: '2024-11-05',
+      cancelled_at: '2024-11-01T08:00:00Z',
+      reason: 'weather',
+      tenant_id: '550e8400-e29b-41d4-a716-446655440001',
+      dw_project_id: 'DW123',
+      job_post_id: '550e8400-e29b-41d4-a716-446655440501'
+    };
+
+    it('should create properly structured payload', () => {
+      const payload = createClaimCancelledPayload(cancelData);
+
+      expect(payload).toEqual({
+        event: 'claim.cancelled',
+        version: '1.0',
+        id: expect.stringMatching(/^cancel_550e8400_\d+_[a-z0-9]{6}$/),
+        occurred_at: cancelData.cancelled_at,
+        producer: 'fcfs-booking',
+        data: {
+          dw_project_id: 'DW123',
+          job_post: {
+            id: cancelData.job_post_id,
+            work_date: '2024-11-05'
+          },
+          slot: {
+            slot_id: cancelData.slot_id,
+            status: 'cancelled'
+          },
+          claim: {
+            claim_id: cancelData.claim_id,
+            company_id: cancelData.company_id,
+            cancelled_by: cancelData.user_id,
+            cancelled_at: cancelData.cancelled_at,
+            reason: 'weather'
+          },
+          tenant_id: cancelData.tenant_id
+        }
+      });
+    });
+
+    it('should handle null dw_project_id and user_id', () => {
+      const payload = createClaimCancelledPayload({
+        ...cancelData,
+        user_id: null,
+        dw_project_id: null
+      }) as any;
+
+      expect(payload.data.dw_project_id).toBe(null);
+      expect(payload.data.claim.cancelled_by).toBe(null);
+    });
+
+    it('should report the released slot status', () => {
+      const payload = createClaimCancelledPayload({
+        ...cancelData,
+        slot_status: 'available'
+      }) as any;
+
+      expect(payload.data.slot.status).toBe('available');
+    });
+  });
+
+  describe('Job Post Published Payload Creation', () => {
+    const jobPostData = {
+      job_post_id: '550e8400-e29b-41d4-a716-446655440501',
+      tenant_id: '550e8400-e29b-41d4-a716-446655440001',
+      project_id: '550e8400-e29b-41d4-a716-446655440401',
+      dw_project_id: 'DW123',
+      trade: 'interior',
+      title: '5階内装仕上げ工事',
+      unit_price: 28000,
+      currency: 'JPY',
+      start_date: '2024-11-01',
+      end_date: '2024-11-15',
+      capacity: 3,
+      published_at: '2024-10-20T09:00:00Z'
+    };
+
+    it('should create properly structured payload', () => {
+      const payload = createJobPostPublishedPayload(jobPostData);
+
+      expect(payload).toEqual({
+        event: 'job_post.published',
+        version: '1.0',
+        id: expect.stringMatching(/^job_post_550e8400_\d+_[a-z0-9]{6}$/),
+        occurred_at: jobPostData.published_at,
+        producer: 'fcfs-booking',
+        data: {
+          dw_project_id: 'DW123',
+          job_post: {
+            id: jobPostData.job_post_id,
+            project_id: jobPostData.project_id,
+            trade: 'interior',
+            title: jobPostData.title,
+            unit_price: 28000,
+            currency: 'JPY',
+            start_date: '2024-11-01',
+            end_date: '2024-11-15',
+            capacity: 3,
+            published_at: jobPostData.published_at
+          },
+          tenant_id: jobPostData.tenant_id
+        }
+      });
+    });
+
+    it('should handle missing dw_project_id', () => {
+      const payload = createJobPostPublishedPayload({
+        ...jobPostData,
+        dw_project_id: undefined
+      });
+
+      expect((payload as any).data.dw_project_id).toBe(null);
+    });
+  });
 });
\ No newline at end of file
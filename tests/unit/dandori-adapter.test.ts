@@ -108,6 +108,24 @@ describe('DandoriWork Adapter Tests', () => {
     });
   });
 
+  describe('notifyClaimCancelled method', () => {
+    it('should send cancellation notification (stub implementation)', async () => {
+      const notification = {
+        claim_id: 'claim-123',
+        slot_id: 'slot-456',
+        company_id: 'company-789',
+        user_id: 'user-001',
+        work_date: '2024-01-15',
+        cancelled_at: '2024-01-10T12:00:00Z',
+        reason: 'weather',
+        project_id: 'project-001',
+        job_post_id: 'job-001'
+      };
+
+      await expect(adapter.notifyClaimCancelled(notification)).resolves.toBeUndefined();
+    });
+  });
+
   describe('Error Classification', () => {
     it('should classify 4xx errors as client errors (non-retryable)', () => {
       const error400 = { status: 400, message: 'Bad Request' };
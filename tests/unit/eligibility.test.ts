@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkClaimEligibility,
+  checkEarlyAccess,
+  checkJobPostPublished,
+  checkQualifications,
+  claimableFrom,
+  findMissingQualifications,
+  parseTrades,
+  ClaimingCompany,
+  EarlyAccessPost
+} from '@/lib/eligibility';
+import type { AuthContext } from '@/lib/auth';
+import type { MembershipRole } from '@/types/api';
+
+/**
+ * Claim Eligibility Unit Tests
+ * 受注前の会社・職種・所属チェックのユニットテスト
+ */
+
+const TENANT_ID = '550e8400-e29b-41d4-a716-446655440001';
+const OTHER_TENANT_ID = '550e8400-e29b-41d4-a716-446655440999';
+const GC_COMPANY_ID = '550e8400-e29b-41d4-a716-446655440301';
+const SUB_COMPANY_ID = '550e8400-e29b-41d4-a716-446655440302';
+const OTHER_SUB_COMPANY_ID = '550e8400-e29b-41d4-a716-446655440303';
+
+const actor = (role: MembershipRole, companyId: string | null): AuthContext => ({
+  tenantId: TENANT_ID,
+  userId: '550e8400-e29b-41d4-a716-446655440201',
+  role,
+  companyId
+});
+
+const subCompany = (overrides: Partial<ClaimingCompany> = {}): ClaimingCompany => ({
+  id: SUB_COMPANY_ID,
+  tenant_id: TENANT_ID,
+  is_gc: false,
+  is_active: true,
+  trades: 'interior, scaffold',
+  ...overrides
+});
+
+describe('Claim Eligibility', () => {
+  describe('parseTrades', () => {
+    it('should split and trim comma-separated trades', () => {
+      expect(parseTrades('interior, scaffold ,electrical')).toEqual(['interior', 'scaffold', 'electrical']);
+    });
+
+    it('should return an empty list for missing trades', () => {
+      expect(parseTrades(null)).toEqual([]);
+      expect(parseTrades('')).toEqual([]);
+      expect(parseTrades(' , ')).toEqual([]);
+    });
+  });
+
+  describe('checkClaimEligibility', () => {
+    it('should allow a member of an active subcontractor with the trade', () => {
+      expect(checkClaimEligibility(actor('sub_admin', SUB_COMPANY_ID), subCompany(), 'interior')).toBeNull();
+      expect(checkClaimEligibility(actor('sub_member', SUB_COMPANY_ID), subCompany(), 'scaffold')).toBeNull();
+    });
+
+    it('should reject missing, inactive, GC and other-tenant companies', () => {
+      const auth = actor('sub_admin', SUB_COMPANY_ID);
+
+      expect(checkClaimEligibility(auth, null, 'interior')?.code).toBe('COMPANY_NOT_ELIGIBLE');
+      expect(checkClaimEligibility(auth, subCompany({ is_active: false }), 'interior')?.code).toBe('COMPANY_NOT_ELIGIBLE');
+      expect(checkClaimEligibility(auth, subCompany({ tenant_id: OTHER_TENANT_ID }), 'interior')?.code).toBe('COMPANY_NOT_ELIGIBLE');
+
+      const gcResult = checkClaimEligibility(
+        actor('gc_admin', GC_COMPANY_ID),
+        subCompany({ id: GC_COMPANY_ID, is_gc: true }),
+        'interior'
+      );
+      expect(gcResult?.code).toBe('COMPANY_NOT_ELIGIBLE');
+      expect(gcResult?.status).toBe(403);
+    });
+
+    it('should reject callers who are not members of the company', () => {
+      const result = checkClaimEligibility(
+        actor('sub_admin', OTHER_SUB_COMPANY_ID),
+        subCompany(),
+        'interior'
+      );
+
+      expect(result?.code).toBe('NOT_COMPANY_MEMBER');
+      expect(result?.status).toBe(403);
+      expect(checkClaimEligibility(actor('sub_member', null), subCompany(), 'interior')?.code).toBe('NOT_COMPANY_MEMBER');
+    });
+
+    it('should let ops_admin claim on behalf of a subcontractor', () => {
+      expect(checkClaimEligibility(actor('ops_admin', null), subCompany(), 'interior')).toBeNull();
+    });
+
+    it('should reject trades the company is not registered for', () => {
+      const result = checkClaimEligibility(actor('sub_admin', SUB_COMPANY_ID), subCompany(), 'electrical');
+
+      expect(result?.code).toBe('TRADE_MISMATCH');
+      expect(result?.status).toBe(422);
+      expect(checkClaimEligibility(actor('sub_admin', SUB_COMPANY_ID), subCompany({ trades: null }), 'interior')?.code).toBe('TRADE_MISMATCH');
+    });
+  });
+
+  describe('findMissingQualifications', () => {
+    const WORK_DATE = '2024-11-05';
+
+    it('should pass when every required qualification is held and valid', () => {
+      const held = [
+        { name: '内装仕上工事業許可', valid_until: '2025-12-31' },
+        { name: '足場の組立て等作業主任者', valid_until: null }
+      ];
+
+      expect(findMissingQualifications('内装仕上工事業許可, 足場の組立て等作業主任者', held, WORK_DATE)).toEqual([]);
+      expect(findMissingQualifications(null, [], WORK_DATE)).toEqual([]);
+    });
+
+    it('should treat valid_until as inclusive of the work date', () => {
+      const held = [{ name: '第二種電気工事士', valid_until: WORK_DATE }];
+
+      expect(findMissingQualifications('第二種電気工事士', held, WORK_DATE)).toEqual([]);
+    });
+
+    it('should list missing and expired qualifications separately', () => {
+      const held = [
+        { name: '第二種電気工事士', valid_until: '2024-10-31' },
+        { name: '第二種電気工事士', valid_until: '2024-11-04' }
+      ];
+
+      expect(findMissingQualifications('第二種電気工事士,足場の組立て等作業主任者', held, WORK_DATE)).toEqual([
+        { name: '第二種電気工事士', reason: 'expired', valid_until: '2024-11-04' },
+        { name: '足場の組立て等作業主任者', reason: 'missing', valid_until: null }
+      ]);
+    });
+
+    it('should accept a renewed certificate alongside an expired one', () => {
+      const held = [
+        { name: '第二種電気工事士', valid_until: '2024-01-31' },
+        { name: '第二種電気工事士', valid_until: '2027-01-31' }
+      ];
+
+      expect(findMissingQualifications('第二種電気工事士', held, WORK_DATE)).toEqual([]);
+    });
+  });
+
+  describe('checkQualifications', () => {
+    it('should return MISSING_QUALIFICATION with details', () => {
+      const result = checkQualifications('第二種電気工事士', [], '2024-11-05');
+
+      expect(result?.code).toBe('MISSING_QUALIFICATION');
+      expect(result?.status).toBe(422);
+      expect(result?.details).toEqual({
+        missing_qualifications: [{ name: '第二種電気工事士', reason: 'missing', valid_until: null }]
+      });
+    });
+
+    it('should return null when fully qualified', () => {
+      expect(checkQualifications('', [], '2024-11-05')).toBeNull();
+    });
+  });
+
+  describe('checkJobPostPublished', () => {
+    it('should reject claims on unpublished job posts', () => {
+      expect(checkJobPostPublished({ is_published: false })).toMatchObject({
+        code: 'JOB_POST_NOT_PUBLISHED',
+        status: 409
+      });
+      expect(checkJobPostPublished({ is_published: true })).toBeNull();
+    });
+  });
+
+  describe('early access', () => {
+    const post: EarlyAccessPost = {
+      published_at: '2024-11-01T00:00:00Z',
+      early_access_minutes: 120,
+      early_access_min_rating: '4.50'
+    };
+    const DURING_WINDOW = new Date('2024-11-01T01:00:00Z');
+    const AFTER_WINDOW = new Date('2024-11-01T02:00:00Z');
+
+    it('should return EARLY_ACCESS_ONLY with the opening time during the window', () => {
+      const result = checkEarlyAccess(post, { is_preferred: false, rating: '3.80' }, DURING_WINDOW);
+
+      expect(result?.code).toBe('EARLY_ACCESS_ONLY');
+      expect(result?.status).toBe(403);
+      expect(result?.details).toEqual({ opens_at: '2024-11-01T02:00:00.000Z' });
+    });
+
+    it('should let preferred or highly rated companies in during the window', () => {
+      expect(checkEarlyAccess(post, { is_preferred: true, rating: null }, DURING_WINDOW)).toBeNull();
+      expect(checkEarlyAccess(post, { is_preferred: false, rating: '4.50' }, DURING_WINDOW)).toBeNull();
+    });
+
+    it('should only admit preferred companies when no minimum rating is set', () => {
+      const preferredOnly = { ...post, early_access_min_rating: null };
+
+      expect(checkEarlyAccess(preferredOnly, { is_preferred: false, rating: '5.00' }, DURING_WINDOW)?.code)
+        .toBe('EARLY_ACCESS_ONLY');
+    });
+
+    it('should open to everyone once the window ends', () => {
+      expect(checkEarlyAccess(post, null, AFTER_WINDOW)).toBeNull();
+      expect(checkEarlyAccess({ ...post, early_access_minutes: null }, null, DURING_WINDOW)).toBeNull();
+    });
+
+    it('should report when each company can start claiming', () => {
+      expect(claimableFrom(post, { is_preferred: true, rating: null })?.toISOString())
+        .toBe('2024-11-01T00:00:00.000Z');
+      expect(claimableFrom(post, { is_preferred: false, rating: null })?.toISOString())
+        .toBe('2024-11-01T02:00:00.000Z');
+      expect(claimableFrom({ ...post, published_at: null }, null)).toBeNull();
+    });
+  });
+});
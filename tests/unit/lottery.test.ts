@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { seededRandom, shuffleWithSeed, drawLottery, allocateInDrawOrder, LotteryDate } from '@/lib/lottery';
+import { checkLotteryDrawn } from '@/lib/eligibility';
+import { jobPostCreateSchema, lotteryEntrySchema } from '@/lib/validation';
+
+/**
+ * Lottery Unit Tests
+ * 抽選割り当てのユニットテスト
+ */
+
+const applicants = [
+  { entry_id: 'entry-a', company_id: 'company-a', crew_count: 2 },
+  { entry_id: 'entry-b', company_id: 'company-b', crew_count: 1 },
+  { entry_id: 'entry-c', company_id: 'company-c', crew_count: 1 },
+  { entry_id: 'entry-d', company_id: 'company-d', crew_count: 3 }
+];
+
+const dates: LotteryDate[] = [
+  { work_date: '2024-11-05', slot_ids: ['s1', 's2', 's3'], applicants },
+  { work_date: '2024-11-06', slot_ids: ['s4', 's5', 's6'], applicants: applicants.slice(0, 2) }
+];
+
+describe('Lottery', () => {
+  describe('seededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const first = seededRandom('seed-1');
+      const second = seededRandom('seed-1');
+
+      const sequence = Array.from({ length: 5 }, () => first());
+      expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+      expect(sequence.every((value) => value >= 0 && value < 1)).toBe(true);
+    });
+
+    it('should differ between seeds', () => {
+      expect(seededRandom('seed-1')()).not.toBe(seededRandom('seed-2')());
+    });
+  });
+
+  describe('shuffleWithSeed', () => {
+    it('should be reproducible and keep every item', () => {
+      const items = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+      const shuffled = shuffleWithSeed(items, 'seed-1');
+
+      expect(shuffleWithSeed(items, 'seed-1')).toEqual(shuffled);
+      expect([...shuffled].sort()).toEqual(items);
+      expect(items).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    });
+  });
+
+  describe('drawLottery', () => {
+    it('should list every applicant of each date once, reproducibly', () => {
+      const order = drawLottery('seed-1', dates);
+
+      for (const date of dates) {
+        expect([...order[date.work_date]].sort()).toEqual(date.applicants.map((a) => a.entry_id).sort());
+      }
+      expect(drawLottery('seed-1', dates)).toEqual(order);
+    });
+
+    it('should not depend on the order applicants were loaded in', () => {
+      const reversed = dates.map((date) => ({ ...date, applicants: [...date.applicants].reverse() }));
+
+      expect(drawLottery('seed-1', reversed)).toEqual(drawLottery('seed-1', dates));
+    });
+  });
+
+  describe('allocateInDrawOrder', () => {
+    it('should give each drawn applicant up to crew_count slots until the date runs out', async () => {
+      const order = drawLottery('seed-1', dates);
+
+      const { allocations, refused } = await allocateInDrawOrder(dates, order, async () => null);
+
+      expect(refused).toEqual([]);
+
+      for (const date of dates) {
+        const dateAllocations = allocations.filter((a) => a.work_date === date.work_date);
+        const slotIds = dateAllocations.map((a) => a.slot_id);
+
+        // Slots are handed out in draw order, never twice
+        expect(new Set(slotIds).size).toBe(slotIds.length);
+        expect(slotIds).toEqual(date.slot_ids.slice(0, slotIds.length));
+
+        let remaining = date.slot_ids.length;
+        for (const entryId of order[date.work_date]) {
+          const applicant = applicants.find((a) => a.entry_id === entryId)!;
+          const won = dateAllocations.filter((a) => a.entry_id === entryId).length;
+
+          expect(won).toBe(Math.min(applicant.crew_count, remaining));
+          remaining -= won;
+        }
+      }
+    });
+
+    it('should leave slots unallocated when there are too few applicants', async () => {
+      const lone: LotteryDate[] = [
+        { work_date: '2024-11-05', slot_ids: ['s1', 's2', 's3'], applicants: [applicants[1]] }
+      ];
+
+      const { allocations } = await allocateInDrawOrder(lone, drawLottery('seed-1', lone), async () => null);
+
+      expect(allocations).toEqual([
+        { entry_id: 'entry-b', company_id: 'company-b', work_date: '2024-11-05', slot_id: 's1' }
+      ]);
+    });
+
+    it('should pass a slot the company cannot take to the next applicant drawn', async () => {
+      const date: LotteryDate = { work_date: '2024-11-05', slot_ids: ['s1', 's2'], applicants: applicants.slice(0, 3) };
+      const order = { '2024-11-05': ['entry-a', 'entry-b', 'entry-c'] };
+
+      // company-a is one claim short of its cap
+      let companyAClaims = 0;
+      const result = await allocateInDrawOrder([date], order, async (allocation) => {
+        if (allocation.company_id === 'company-a' && ++companyAClaims > 1) {
+          return 'CLAIM_LIMIT_REACHED';
+        }
+        return null;
+      });
+
+      expect(result.allocations.map((a) => [a.entry_id, a.slot_id])).toEqual([
+        ['entry-a', 's1'],
+        ['entry-b', 's2']
+      ]);
+      expect(result.refused).toEqual([
+        { entry_id: 'entry-a', work_date: '2024-11-05', reason: 'CLAIM_LIMIT_REACHED' }
+      ]);
+    });
+  });
+
+  describe('checkLotteryDrawn', () => {
+    it('should block claims on lottery posts until the draw', () => {
+      const error = checkLotteryDrawn({
+        allocation_mode: 'lottery',
+        lottery_closes_at: '2024-11-01T09:00:00Z',
+        lottery_drawn_at: null
+      });
+
+      expect(error).toMatchObject({
+        code: 'LOTTERY_PENDING',
+        status: 409,
+        details: { lottery_closes_at: '2024-11-01T09:00:00.000Z' }
+      });
+    });
+
+    it('should allow claims on fcfs posts and on leftovers after the draw', () => {
+      expect(checkLotteryDrawn({ allocation_mode: 'fcfs', lottery_closes_at: null, lottery_drawn_at: null })).toBeNull();
+      expect(checkLotteryDrawn({
+        allocation_mode: 'lottery',
+        lottery_closes_at: '2024-11-01T09:00:00Z',
+        lottery_drawn_at: '2024-11-01T09:05:00Z'
+      })).toBeNull();
+    });
+  });
+
+  describe('validation', () => {
+    const jobPost = {
+      projectId: '550e8400-e29b-41d4-a716-446655440101',
+      trade: '内装',
+      title: '内装工事',
+      unitPrice: 25000,
+      startDate: '2024-11-05',
+      endDate: '2024-11-08',
+      capacity: 3
+    };
+
+    it('should require an entry window close for lottery posts', () => {
+      expect(jobPostCreateSchema.safeParse({ ...jobPost, allocationMode: 'lottery' }).success).toBe(false);
+      expect(jobPostCreateSchema.safeParse({
+        ...jobPost,
+        allocationMode: 'lottery',
+        lotteryClosesAt: '2024-11-01T09:00:00+09:00'
+      }).success).toBe(true);
+    });
+
+    it('should default lottery entries to one slot per date for every date', () => {
+      const entry = lotteryEntrySchema.parse({ companyId: '550e8400-e29b-41d4-a716-446655440302' });
+
+      expect(entry).toEqual({ companyId: '550e8400-e29b-41d4-a716-446655440302', crewCount: 1 });
+    });
+  });
+});
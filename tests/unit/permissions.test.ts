@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canCancelClaim,
+  canDrawLottery,
+  canManageCompanyQualifications,
+  canViewCompanyWaitlist,
+  canManageCompanyWaitlist,
+  canViewCompanyQualifications,
+  canProposeReschedule,
+  canRespondToReschedule,
+  hasPermission,
+  rescheduleParty
+} from '@/lib/permissions';
+import type { AuthContext } from '@/lib/auth';
+import type { MembershipRole } from '@/types/api';
+
+/**
+ * Permissions Unit Tests
+ * ロール別の権限判定のユニットテスト
+ */
+
+const TENANT_ID = '550e8400-e29b-41d4-a716-446655440001';
+const OTHER_TENANT_ID = '550e8400-e29b-41d4-a716-446655440999';
+const GC_COMPANY_ID = '550e8400-e29b-41d4-a716-446655440301';
+const SUB_COMPANY_ID = '550e8400-e29b-41d4-a716-446655440302';
+const OTHER_SUB_COMPANY_ID = '550e8400-e29b-41d4-a716-446655440303';
+
+const actor = (role: MembershipRole, companyId: string | null, tenantId: string = TENANT_ID): AuthContext => ({
+  tenantId,
+  userId: '550e8400-e29b-41d4-a716-446655440201',
+  role,
+  companyId
+});
+
+describe('Permissions', () => {
+  describe('canCancelClaim', () => {
+    const claim = { tenantId: TENANT_ID, companyId: SUB_COMPANY_ID };
+
+    it('should let sub users cancel their own company claims', () => {
+      expect(canCancelClaim(actor('sub_admin', SUB_COMPANY_ID), claim)).toBe(true);
+      expect(canCancelClaim(actor('sub_member', SUB_COMPANY_ID), claim)).toBe(true);
+    });
+
+    it('should stop sub users cancelling another company claim', () => {
+      expect(canCancelClaim(actor('sub_admin', OTHER_SUB_COMPANY_ID), claim)).toBe(false);
+      expect(canCancelClaim(actor('sub_member', null), claim)).toBe(false);
+    });
+
+    it('should let GC roles cancel any claim on their projects', () => {
+      expect(canCancelClaim(actor('owner', GC_COMPANY_ID), claim)).toBe(true);
+      expect(canCancelClaim(actor('gc_admin', GC_COMPANY_ID), claim)).toBe(true);
+      expect(canCancelClaim(actor('gc_member', GC_COMPANY_ID), claim)).toBe(true);
+    });
+
+    it('should stop GC roles cancelling claims on other tenants projects', () => {
+      expect(canCancelClaim(actor('gc_admin', GC_COMPANY_ID, OTHER_TENANT_ID), claim)).toBe(false);
+    });
+
+    it('should let ops_admin cancel anything', () => {
+      expect(canCancelClaim(actor('ops_admin', null, OTHER_TENANT_ID), claim)).toBe(true);
+    });
+
+    it('should deny unknown roles', () => {
+      expect(canCancelClaim(actor('viewer' as MembershipRole, SUB_COMPANY_ID), claim)).toBe(false);
+    });
+  });
+
+  describe('reschedules', () => {
+    const claim = { tenantId: TENANT_ID, companyId: SUB_COMPANY_ID };
+
+    it('should let either side of the claim propose', () => {
+      expect(canProposeReschedule(actor('sub_member', SUB_COMPANY_ID), claim)).toBe(true);
+      expect(canProposeReschedule(actor('gc_member', GC_COMPANY_ID), claim)).toBe(true);
+      expect(canProposeReschedule(actor('sub_admin', OTHER_SUB_COMPANY_ID), claim)).toBe(false);
+      expect(rescheduleParty(actor('sub_member', SUB_COMPANY_ID))).toBe('company');
+      expect(rescheduleParty(actor('ops_admin', null))).toBe('gc');
+    });
+
+    it('should leave the answer to the party that did not propose', () => {
+      const fromCompany = { ...claim, proposedByParty: 'company' as const };
+      const fromGc = { ...claim, proposedByParty: 'gc' as const };
+
+      expect(canRespondToReschedule(actor('gc_admin', GC_COMPANY_ID), fromCompany)).toBe(true);
+      expect(canRespondToReschedule(actor('sub_admin', SUB_COMPANY_ID), fromCompany)).toBe(false);
+      expect(canRespondToReschedule(actor('sub_admin', SUB_COMPANY_ID), fromGc)).toBe(true);
+      expect(canRespondToReschedule(actor('sub_admin', OTHER_SUB_COMPANY_ID), fromGc)).toBe(false);
+      expect(canRespondToReschedule(actor('gc_admin', GC_COMPANY_ID), fromGc)).toBe(false);
+      expect(canRespondToReschedule(actor('gc_admin', GC_COMPANY_ID, OTHER_TENANT_ID), fromCompany)).toBe(false);
+      expect(canRespondToReschedule(actor('ops_admin', null), fromGc)).toBe(true);
+    });
+  });
+
+  describe('company qualifications', () => {
+    it('should let sub users view and manage only their own company', () => {
+      expect(canViewCompanyQualifications(actor('sub_member', SUB_COMPANY_ID), SUB_COMPANY_ID)).toBe(true);
+      expect(canManageCompanyQualifications(actor('sub_admin', SUB_COMPANY_ID), SUB_COMPANY_ID)).toBe(true);
+      expect(canViewCompanyQualifications(actor('sub_admin', OTHER_SUB_COMPANY_ID), SUB_COMPANY_ID)).toBe(false);
+      expect(canManageCompanyQualifications(actor('sub_admin', OTHER_SUB_COMPANY_ID), SUB_COMPANY_ID)).toBe(false);
+    });
+
+    it('should let GC roles view but not edit', () => {
+      expect(canViewCompanyQualifications(actor('gc_member', GC_COMPANY_ID), SUB_COMPANY_ID)).toBe(true);
+      expect(canManageCompanyQualifications(actor('gc_admin', GC_COMPANY_ID), SUB_COMPANY_ID)).toBe(false);
+    });
+
+    it('should let ops_admin view and manage any company', () => {
+      expect(canViewCompanyQualifications(actor('ops_admin', null), SUB_COMPANY_ID)).toBe(true);
+      expect(canManageCompanyQualifications(actor('ops_admin', null), SUB_COMPANY_ID)).toBe(true);
+    });
+
+    it('should grant verification to owner, gc_admin and ops_admin only', () => {
+      expect(hasPermission('owner', 'qualifications:verify')).toBe(true);
+      expect(hasPermission('gc_admin', 'qualifications:verify')).toBe(true);
+      expect(hasPermission('ops_admin', 'qualifications:verify')).toBe(true);
+      expect(hasPermission('gc_member', 'qualifications:verify')).toBe(false);
+      expect(hasPermission('sub_admin', 'qualifications:verify')).toBe(false);
+    });
+  });
+
+  describe('company waitlist', () => {
+    it('should let sub users see and leave only their own company entries', () => {
+      expect(canViewCompanyWaitlist(actor('sub_member', SUB_COMPANY_ID), SUB_COMPANY_ID)).toBe(true);
+      expect(canManageCompanyWaitlist(actor('sub_member', SUB_COMPANY_ID), SUB_COMPANY_ID)).toBe(true);
+      expect(canViewCompanyWaitlist(actor('sub_admin', OTHER_SUB_COMPANY_ID), SUB_COMPANY_ID)).toBe(false);
+      expect(canManageCompanyWaitlist(actor('sub_admin', OTHER_SUB_COMPANY_ID), SUB_COMPANY_ID)).toBe(false);
+    });
+
+    it('should let GC roles see the queue but not leave on a company\'s behalf', () => {
+      expect(canViewCompanyWaitlist(actor('gc_admin', GC_COMPANY_ID), SUB_COMPANY_ID)).toBe(true);
+      expect(canManageCompanyWaitlist(actor('gc_admin', GC_COMPANY_ID), SUB_COMPANY_ID)).toBe(false);
+      expect(canManageCompanyWaitlist(actor('ops_admin', null), SUB_COMPANY_ID)).toBe(true);
+    });
+  });
+
+  describe('claim approval', () => {
+    it('should grant approval to owner, gc_admin and ops_admin only', () => {
+      expect(hasPermission('owner', 'claims:approve')).toBe(true);
+      expect(hasPermission('gc_admin', 'claims:approve')).toBe(true);
+      expect(hasPermission('ops_admin', 'claims:approve')).toBe(true);
+      expect(hasPermission('gc_member', 'claims:approve')).toBe(false);
+      expect(hasPermission('sub_admin', 'claims:approve')).toBe(false);
+    });
+  });
+
+  describe('slot completion', () => {
+    it('should let GC roles and ops_admin complete slots, but not subcontractors', () => {
+      expect(hasPermission('owner', 'slots:complete')).toBe(true);
+      expect(hasPermission('gc_admin', 'slots:complete')).toBe(true);
+      expect(hasPermission('gc_member', 'slots:complete')).toBe(true);
+      expect(hasPermission('ops_admin', 'slots:complete')).toBe(true);
+      expect(hasPermission('sub_admin', 'slots:complete')).toBe(false);
+      expect(hasPermission('sub_member', 'slots:complete')).toBe(false);
+    });
+  });
+
+  describe('no-show reports', () => {
+    it('should let GC roles and ops_admin report no-shows, but not subcontractors', () => {
+      expect(hasPermission('owner', 'claims:no_show')).toBe(true);
+      expect(hasPermission('gc_admin', 'claims:no_show')).toBe(true);
+      expect(hasPermission('gc_member', 'claims:no_show')).toBe(true);
+      expect(hasPermission('ops_admin', 'claims:no_show')).toBe(true);
+      expect(hasPermission('sub_admin', 'claims:no_show')).toBe(false);
+      expect(hasPermission('sub_member', 'claims:no_show')).toBe(false);
+    });
+  });
+
+  describe('weather cancellation', () => {
+    it('should let GC roles and ops_admin call off a site, but not subcontractors', () => {
+      expect(hasPermission('owner', 'slots:weather_cancel')).toBe(true);
+      expect(hasPermission('gc_admin', 'slots:weather_cancel')).toBe(true);
+      expect(hasPermission('gc_member', 'slots:weather_cancel')).toBe(true);
+      expect(hasPermission('ops_admin', 'slots:weather_cancel')).toBe(true);
+      expect(hasPermission('sub_admin', 'slots:weather_cancel')).toBe(false);
+      expect(hasPermission('sub_member', 'slots:weather_cancel')).toBe(false);
+    });
+  });
+
+  describe('cancellation penalties', () => {
+    it('should let owner, gc_admin and ops_admin read penalties for invoicing', () => {
+      expect(hasPermission('owner', 'cancellation_penalties:read')).toBe(true);
+      expect(hasPermission('gc_admin', 'cancellation_penalties:read')).toBe(true);
+      expect(hasPermission('ops_admin', 'cancellation_penalties:read')).toBe(true);
+      expect(hasPermission('gc_member', 'cancellation_penalties:read')).toBe(false);
+      expect(hasPermission('sub_admin', 'cancellation_penalties:read')).toBe(false);
+    });
+  });
+
+  describe('preferred companies', () => {
+    it('should let owner, gc_admin and ops_admin manage the list', () => {
+      expect(hasPermission('owner', 'preferred_companies:manage')).toBe(true);
+      expect(hasPermission('gc_admin', 'preferred_companies:manage')).toBe(true);
+      expect(hasPermission('ops_admin', 'preferred_companies:manage')).toBe(true);
+      expect(hasPermission('gc_member', 'preferred_companies:manage')).toBe(false);
+      expect(hasPermission('sub_admin', 'preferred_companies:manage')).toBe(false);
+    });
+  });
+
+  describe('lottery draw', () => {
+    it('should let GC roles and ops_admin run the draw, but not subcontractors', () => {
+      expect(canDrawLottery(actor('gc_member', GC_COMPANY_ID))).toBe(true);
+      expect(canDrawLottery(actor('ops_admin', null))).toBe(true);
+      expect(canDrawLottery(actor('sub_admin', SUB_COMPANY_ID))).toBe(false);
+    });
+  });
+});
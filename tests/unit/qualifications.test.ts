@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  enqueueQualificationExpiryAlerts,
+  certificateStorageKey,
+  EXPIRY_ALERT_DAYS
+} from '@/lib/qualifications';
+import { createQualificationExpiringPayload } from '@/lib/crypto';
+import { LocalStorageBackend } from '@/lib/storage';
+
+/**
+ * Qualification Management Unit Tests
+ * 資格管理（証明書保存・期限切れ通知）のユニットテスト
+ */
+
+const QUALIFICATION = {
+  id: '550e8400-e29b-41d4-a716-446655440901',
+  tenant_id: '550e8400-e29b-41d4-a716-446655440001',
+  company_id: '550e8400-e29b-41d4-a716-446655440302'
+};
+
+describe('Qualification Management', () => {
+  describe('createQualificationExpiringPayload', () => {
+    it('should build a deterministic notification payload', () => {
+      const data = {
+        qualification_id: QUALIFICATION.id,
+        tenant_id: QUALIFICATION.tenant_id,
+        company_id: QUALIFICATION.company_id,
+        company_name: '内装工事株式会社',
+        name: '内装仕上工事業許可',
+        number: '東京都知事許可第12345号',
+        valid_until: '2025-12-31',
+        days_until_expiry: 7,
+        occurred_at: '2025-12-24T00:00:00.000Z'
+      };
+
+      const payload: any = createQualificationExpiringPayload(data);
+
+      expect(payload.event).toBe('qualification.expiring');
+      expect(payload.id).toBe(`qual_expiring_${QUALIFICATION.id}_2025-12-31_7`);
+      expect(createQualificationExpiringPayload(data)).toEqual(payload);
+      expect(payload.data.qualification).toEqual({
+        id: QUALIFICATION.id,
+        name: '内装仕上工事業許可',
+        number: '東京都知事許可第12345号',
+        valid_until: '2025-12-31',
+        days_until_expiry: 7
+      });
+      expect(payload.data.company.id).toBe(QUALIFICATION.company_id);
+      expect(payload.data.tenant_id).toBe(QUALIFICATION.tenant_id);
+    });
+  });
+
+  describe('enqueueQualificationExpiryAlerts', () => {
+    it('should enqueue one notification per expiring qualification and skip duplicates', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: QUALIFICATION.id,
+              tenant_id: QUALIFICATION.tenant_id,
+              company_id: QUALIFICATION.company_id,
+              company_name: '内装工事株式会社',
+              name: '内装仕上工事業許可',
+              number: null,
+              valid_until: '2025-01-31',
+              days_until_expiry: 30
+            },
+            {
+              id: '550e8400-e29b-41d4-a716-446655440902',
+              tenant_id: QUALIFICATION.tenant_id,
+              company_id: QUALIFICATION.company_id,
+              company_name: '内装工事株式会社',
+              name: '建築士事務所登録',
+              number: null,
+              valid_until: '2025-01-02',
+              days_until_expiry: 1
+            }
+          ]
+        })
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockResolvedValueOnce({ rowCount: 0 });
+      const client = { query } as any;
+
+      const enqueued = await enqueueQualificationExpiryAlerts(client, '2025-01-01');
+
+      expect(enqueued).toBe(1);
+      expect(query.mock.calls[0][1]).toEqual(['2025-01-01', EXPIRY_ALERT_DAYS]);
+
+      const [insertSql, insertParams] = query.mock.calls[1];
+      expect(insertSql).toContain('ON CONFLICT (event_id) DO NOTHING');
+      expect(insertParams[0]).toBe(`qual_expiring_${QUALIFICATION.id}_2025-01-31_30`);
+      expect(insertParams[1]).toBe('qualification.expiring');
+      expect(insertParams[3]).toBe('notification');
+    });
+
+    it('should alert 30, 7 and 1 days ahead', () => {
+      expect(EXPIRY_ALERT_DAYS).toEqual([30, 7, 1]);
+    });
+  });
+
+  describe('certificateStorageKey', () => {
+    it('should namespace files by tenant and company', () => {
+      const key = certificateStorageKey(QUALIFICATION, 'application/pdf');
+
+      expect(key.startsWith(
+        `qualifications/${QUALIFICATION.tenant_id}/${QUALIFICATION.company_id}/${QUALIFICATION.id}-`
+      )).toBe(true);
+      expect(key.endsWith('.pdf')).toBe(true);
+    });
+  });
+
+  describe('LocalStorageBackend', () => {
+    let rootDir: string | null = null;
+
+    afterEach(async () => {
+      if (rootDir) {
+        await rm(rootDir, { recursive: true, force: true });
+        rootDir = null;
+      }
+    });
+
+    it('should store, read back and delete files', async () => {
+      rootDir = await mkdtemp(path.join(tmpdir(), 'fcfs-storage-'));
+      const storage = new LocalStorageBackend(rootDir);
+
+      const stored = await storage.put('qualifications/a/b/cert.pdf', Buffer.from('%PDF-1.4'), 'application/pdf');
+
+      expect(stored).toEqual({ url: 'local://qualifications/a/b/cert.pdf', size: 8 });
+      expect((await storage.get(stored.url))?.toString()).toBe('%PDF-1.4');
+
+      await storage.delete(stored.url);
+      expect(await storage.get(stored.url)).toBeNull();
+    });
+
+    it('should ignore URLs from other backends', async () => {
+      rootDir = await mkdtemp(path.join(tmpdir(), 'fcfs-storage-'));
+      const storage = new LocalStorageBackend(rootDir);
+
+      expect(await storage.get('https://example.com/cert.pdf')).toBeNull();
+      await expect(storage.delete('https://example.com/cert.pdf')).resolves.toBeUndefined();
+    });
+
+    it('should reject keys escaping the storage root', async () => {
+      rootDir = await mkdtemp(path.join(tmpdir(), 'fcfs-storage-'));
+      const storage = new LocalStorageBackend(rootDir);
+
+      await expect(storage.put('../outside.pdf', Buffer.from('x'), 'application/pdf'))
+        .rejects.toThrow('Invalid storage key');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  reliabilityScore,
+  checkReliability,
+  hasReliabilityPolicy,
+  isLateCancellation,
+  getCompanyReliability,
+  reportNoShow
+} from '@/lib/reliability';
+
+/**
+ * Reliability Unit Tests
+ * 信頼度スコア・受注制限・無断欠勤報告のユニットテスト
+ */
+
+const counts = (completions: number, lateCancellations = 0, noShows = 0) => ({
+  claims: completions + lateCancellations + noShows,
+  completions,
+  late_cancellations: lateCancellations,
+  no_shows: noShows
+});
+
+const policy = (overrides = {}) => ({
+  reliability_block_below: null,
+  reliability_delay_below: null,
+  reliability_delay_minutes: null,
+  ...overrides
+});
+
+const auth = (role: any, companyId: string | null) => ({
+  tenantId: 'tenant-1',
+  userId: 'user-1',
+  role,
+  companyId
+});
+
+describe('Reliability', () => {
+  describe('reliabilityScore', () => {
+    it('should not score companies with too little history', () => {
+      expect(reliabilityScore(counts(2))).toBeNull();
+      expect(reliabilityScore({ ...counts(0), claims: 10 })).toBeNull();
+    });
+
+    it('should weigh no-shows heavier than late cancellations', () => {
+      expect(reliabilityScore(counts(10))).toBe(100);
+      expect(reliabilityScore(counts(9, 1))).toBe(90);
+      expect(reliabilityScore(counts(9, 0, 1))).toBe(75);
+      expect(reliabilityScore(counts(0, 0, 3))).toBe(0);
+    });
+  });
+
+  describe('isLateCancellation', () => {
+    it('should only count the claiming company cancelling inside the window', () => {
+      expect(isLateCancellation(auth('sub_admin', 'company-1'), 'company-1', true)).toBe(true);
+      expect(isLateCancellation(auth('sub_admin', 'company-1'), 'company-1', false)).toBe(false);
+      expect(isLateCancellation(auth('gc_admin', null), 'company-1', true)).toBe(false);
+      expect(isLateCancellation(auth('ops_admin', null), 'company-1', true)).toBe(false);
+    });
+  });
+
+  describe('checkReliability', () => {
+    const publishedAt = '2024-11-01T00:00:00Z';
+    const now = new Date('2024-11-01T01:00:00Z');
+
+    it('should never hold back companies without a score', () => {
+      expect(checkReliability(policy({ reliability_block_below: 90 }), null, publishedAt, now)).toBeNull();
+    });
+
+    it('should block companies below the minimum score', () => {
+      const error = checkReliability(policy({ reliability_block_below: 60 }), 50, publishedAt, now);
+
+      expect(error).toMatchObject({
+        code: 'RELIABILITY_BLOCKED',
+        status: 403,
+        details: { reliability_score: 50, minimum_score: 60 }
+      });
+      expect(checkReliability(policy({ reliability_block_below: 60 }), 60, publishedAt, now)).toBeNull();
+    });
+
+    it('should delay companies below the threshold until the delay has passed', () => {
+      const delay = policy({ reliability_delay_below: 80, reliability_delay_minutes: 120 });
+
+      expect(checkReliability(delay, 70, publishedAt, now)).toMatchObject({
+        code: 'RELIABILITY_DELAYED',
+        status: 403,
+        details: { reliability_score: 70, threshold: 80, opens_at: '2024-11-01T02:00:00.000Z' }
+      });
+      expect(checkReliability(delay, 70, publishedAt, new Date('2024-11-01T02:00:00Z'))).toBeNull();
+      expect(checkReliability(delay, 85, publishedAt, now)).toBeNull();
+    });
+
+    it('should only query scores when a policy is set', () => {
+      expect(hasReliabilityPolicy(policy())).toBe(false);
+      expect(hasReliabilityPolicy(policy({ reliability_delay_below: 80 }))).toBe(false);
+      expect(hasReliabilityPolicy(policy({ reliability_block_below: 0 }))).toBe(true);
+      expect(hasReliabilityPolicy(policy({ reliability_delay_below: 80, reliability_delay_minutes: 60 }))).toBe(true);
+    });
+  });
+
+  describe('getCompanyReliability', () => {
+    it('should score the counts of the recent window', async () => {
+      const query = vi.fn(async () => ({ rows: [counts(8, 1, 1)] }));
+
+      expect(await getCompanyReliability({ query } as any, 'tenant-1', 'company-1')).toEqual({
+        score: 67,
+        window_days: 180,
+        claims: 10,
+        completions: 8,
+        late_cancellations: 1,
+        no_shows: 1
+      });
+      expect((query.mock.calls[0] as any[])[1]).toEqual(['tenant-1', 'company-1', 180]);
+    });
+  });
+
+  describe('reportNoShow', () => {
+    const claimRow = (overrides = {}) => ({
+      id: 'claim-1',
+      job_slot_id: 'slot-1',
+      company_id: 'company-1',
+      user_id: 'user-1',
+      status: 'active',
+      job_post_id: 'job-1',
+      slot_status: 'claimed',
+      work_date: '2024-11-05',
+      work_date_reached: true,
+      dw_project_id: 'dw-1',
+      ...overrides
+    });
+
+    function mockClient(claim: any) {
+      const query = vi.fn(async (sql: string, params: any[] = []) => {
+        if (sql.includes('FROM claims c')) {
+          return { rows: claim ? [claim] : [] };
+        }
+        if (sql.includes('UPDATE claims')) {
+          return {
+            rows: [{
+              id: params[2],
+              job_slot_id: 'slot-1',
+              company_id: 'company-1',
+              status: 'no_show',
+              no_show_reported_at: '2024-11-05T10:00:00Z',
+              no_show_reported_by: params[0],
+              no_show_note: params[1]
+            }]
+          };
+        }
+        if (sql.includes('UPDATE job_slots')) {
+          return { rows: [{ id: 'slot-1', status: 'cancelled', work_date: '2024-11-05', cancel_reason: 'no_show' }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      return { query };
+    }
+
+    const actor = { userId: 'gc-user', role: 'gc_admin' };
+
+    it('should record the no-show, cancel the slot and queue claim.no_show', async () => {
+      const { query } = mockClient(claimRow());
+
+      const result = await reportNoShow({ query } as any, 'tenant-1', 'claim-1', { note: '連絡なし', actor });
+
+      expect(result.claim).toMatchObject({ id: 'claim-1', status: 'no_show', no_show_note: '連絡なし' });
+      expect(result.slot).toMatchObject({ status: 'cancelled', cancel_reason: 'no_show' });
+
+      const outbox = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO integration_outbox'));
+      expect(outbox?.[1]?.[1]).toBe('claim.no_show');
+      expect(JSON.parse(outbox?.[1]?.[2]).data.claim).toMatchObject({ claim_id: 'claim-1', status: 'no_show' });
+
+      const audit = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO audit_logs'));
+      expect(audit?.[1]?.[3]).toBe('claim_no_show');
+
+      const event = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO company_reliability_events'));
+      expect(event?.[1]).toEqual(['tenant-1', 'company-1', 'claim-1', 'slot-1', 'no_show']);
+    });
+
+    it('should reject claims that cannot be reported', async () => {
+      await expect(reportNoShow(mockClient(null) as any, 'tenant-1', 'claim-1', { note: null, actor }))
+        .rejects.toThrow('CLAIM_NOT_FOUND');
+      await expect(reportNoShow(mockClient(claimRow({ status: 'cancelled', slot_status: 'available' })) as any, 'tenant-1', 'claim-1', { note: null, actor }))
+        .rejects.toThrow('CLAIM_NOT_ACTIVE');
+      await expect(reportNoShow(mockClient(claimRow({ slot_status: 'completed' })) as any, 'tenant-1', 'claim-1', { note: null, actor }))
+        .rejects.toThrow('ALREADY_COMPLETED');
+      await expect(reportNoShow(mockClient(claimRow({ work_date_reached: false })) as any, 'tenant-1', 'claim-1', { note: null, actor }))
+        .rejects.toThrow('WORK_DATE_NOT_REACHED');
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi } from 'vitest';
+import { acceptReschedule, declineReschedule, proposeReschedule } from '@/lib/reschedule';
+import type { AuthContext } from '@/lib/auth';
+
+/**
+ * Reschedule Unit Tests
+ * 日程変更の提案・承諾・辞退のユニットテスト
+ */
+
+const gc: AuthContext = {
+  tenantId: 'tenant-1',
+  userId: 'gc-user',
+  role: 'gc_admin',
+  companyId: 'gc-company'
+};
+
+const sub: AuthContext = {
+  tenantId: 'tenant-1',
+  userId: 'sub-user',
+  role: 'sub_admin',
+  companyId: 'company-1'
+};
+
+const claimRow = {
+  id: 'claim-1',
+  status: 'active',
+  company_id: 'company-1',
+  tenant_id: 'tenant-1',
+  slot_id: 'slot-1',
+  job_post_id: 'job-1',
+  work_date: '2024-11-05'
+};
+
+const pendingRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'request-1',
+  claim_id: 'claim-1',
+  company_id: 'company-1',
+  job_post_id: 'job-1',
+  from_slot_id: 'slot-1',
+  from_work_date: '2024-11-05',
+  to_work_date: '2024-11-07',
+  proposed_by: 'sub-user',
+  proposed_by_party: 'company',
+  note: null,
+  status: 'pending',
+  decided_by: null,
+  decided_at: null,
+  decline_note: null,
+  reschedule_id: null,
+  created_at: '2024-11-01T00:00:00Z',
+  claim_status: 'active',
+  claim_user_id: 'sub-user',
+  claim_slot_id: 'slot-1',
+  dw_project_id: 'dw-1',
+  required_quals: null,
+  ...overrides
+});
+
+function mockClient(options: {
+  claim?: Record<string, unknown> | null;
+  pending?: Record<string, unknown> | null;
+  hasPending?: boolean;
+  openSlot?: string | null;
+  slotTaken?: boolean;
+} = {}) {
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('FROM claim_reschedule_requests r')) {
+      return { rows: options.pending ? [options.pending] : [] };
+    }
+    if (sql.includes('SELECT id FROM claim_reschedule_requests')) {
+      return { rows: options.hasPending ? [{ id: 'request-0' }] : [] };
+    }
+    if (sql.includes('FROM claims c') && sql.includes('FOR UPDATE OF c')) {
+      return { rows: options.claim === null ? [] : [options.claim || claimRow] };
+    }
+    if (sql.includes('SKIP LOCKED')) {
+      return { rows: options.openSlot === null ? [] : [{ id: options.openSlot || 'slot-7' }] };
+    }
+    if (sql.includes('INSERT INTO claim_reschedule_requests')) {
+      return {
+        rows: [pendingRow({
+          from_slot_id: params[4],
+          from_work_date: params[5],
+          to_work_date: params[6],
+          proposed_by: params[7],
+          proposed_by_party: params[8],
+          note: params[9]
+        })]
+      };
+    }
+    if (sql.includes('UPDATE job_slots') && sql.includes('AND job_post_id = $5')) {
+      return { rows: options.slotTaken ? [] : [{ id: params[2], work_date: '2024-11-07' }] };
+    }
+    if (sql.includes('INSERT INTO claim_reschedules')) {
+      return { rows: [{ id: 'reschedule-1', created_at: '2024-11-01T09:00:00Z' }] };
+    }
+    if (sql.includes("status = 'accepted'")) {
+      return { rows: [{ ...options.pending, status: 'accepted', decided_by: params[0], reschedule_id: params[1] }] };
+    }
+    if (sql.includes("status = 'declined'")) {
+      return { rows: [{ ...options.pending, status: 'declined', decided_by: params[0], decline_note: params[1] }] };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+
+  return { query };
+}
+
+const outboxEvents = (client: ReturnType<typeof mockClient>) =>
+  client.query.mock.calls
+    .filter(([sql]) => sql.includes('INSERT INTO integration_outbox'))
+    .map(([, params]) => ({ name: params![1], target: params![3], payload: JSON.parse(params![2]) }));
+
+describe('Reschedule', () => {
+  describe('proposeReschedule', () => {
+    it('should record a company proposal and notify the GC', async () => {
+      const client = mockClient();
+
+      const request = await proposeReschedule(client as any, sub, 'claim-1', { workDate: '2024-11-07', note: '資材遅延' });
+
+      expect(request).toMatchObject({
+        from_slot_id: 'slot-1',
+        from_work_date: '2024-11-05',
+        to_work_date: '2024-11-07',
+        proposed_by_party: 'company',
+        status: 'pending'
+      });
+
+      const [notice] = outboxEvents(client);
+      expect(notice.name).toBe('claim.reschedule_proposed');
+      expect(notice.target).toBe('notification');
+      expect(notice.payload.data.recipient).toBe('gc');
+
+      // Nothing moves until the other party accepts
+      expect(client.query.mock.calls.some(([sql]) => sql.includes('UPDATE job_slots'))).toBe(false);
+    });
+
+    it('should stop other companies proposing', async () => {
+      const client = mockClient();
+      const other = { ...sub, companyId: 'company-2' };
+
+      await expect(proposeReschedule(client as any, other, 'claim-1', { workDate: '2024-11-07', note: null }))
+        .rejects.toThrow('UNAUTHORIZED_RESCHEDULE');
+    });
+
+    it('should reject claims that are not active', async () => {
+      const client = mockClient({ claim: { ...claimRow, status: 'pending_approval' } });
+
+      await expect(proposeReschedule(client as any, gc, 'claim-1', { workDate: '2024-11-07', note: null }))
+        .rejects.toThrow('CLAIM_NOT_ACTIVE');
+    });
+
+    it('should reject the current date, a second proposal and dates without an open slot', async () => {
+      await expect(proposeReschedule(mockClient() as any, gc, 'claim-1', { workDate: '2024-11-05', note: null }))
+        .rejects.toThrow('SAME_WORK_DATE');
+      await expect(proposeReschedule(mockClient({ hasPending: true }) as any, gc, 'claim-1', { workDate: '2024-11-07', note: null }))
+        .rejects.toThrow('RESCHEDULE_PENDING');
+      await expect(proposeReschedule(mockClient({ openSlot: null }) as any, gc, 'claim-1', { workDate: '2024-11-07', note: null }))
+        .rejects.toThrow('NO_OPEN_SLOT');
+    });
+  });
+
+  describe('acceptReschedule', () => {
+    it('should move the claim to the new slot and release the old one', async () => {
+      const client = mockClient({ pending: pendingRow() });
+
+      const result = await acceptReschedule(client as any, gc, 'claim-1');
+
+      expect(result.error).toBeUndefined();
+      if (result.error) return;
+
+      expect(result.reschedule).toMatchObject({
+        claim_id: 'claim-1',
+        from_slot_id: 'slot-1',
+        to_slot_id: 'slot-7',
+        to_work_date: '2024-11-07',
+        reason: 'reschedule'
+      });
+      expect(result.request).toMatchObject({ status: 'accepted', reschedule_id: 'reschedule-1' });
+
+      // The claim keeps its ID and points at the new slot
+      const claimMove = client.query.mock.calls.find(([sql]) => sql.includes('SET\n      job_slot_id = $1'));
+      expect(claimMove![1]).toEqual(['slot-7', 'claim-1', 'tenant-1']);
+
+      const released = client.query.mock.calls.find(([sql]) => sql.includes("status = 'available',"));
+      expect(released![1]).toEqual(['slot-1', 'tenant-1']);
+
+      const events = outboxEvents(client);
+      expect(events.map((event) => event.name)).toEqual(['claim.rescheduled', 'claim.reschedule_accepted']);
+      expect(events[0].target).toBe('dw');
+      expect(events[0].payload.data.claim.claim_id).toBe('claim-1');
+    });
+
+    it('should only let the other party answer', async () => {
+      const client = mockClient({ pending: pendingRow() });
+
+      await expect(acceptReschedule(client as any, sub, 'claim-1')).rejects.toThrow('UNAUTHORIZED_RESCHEDULE');
+    });
+
+    it('should fail when the target slot is gone', async () => {
+      await expect(acceptReschedule(mockClient({ pending: pendingRow(), openSlot: null }) as any, gc, 'claim-1'))
+        .rejects.toThrow('NO_OPEN_SLOT');
+      await expect(acceptReschedule(mockClient({ pending: pendingRow(), slotTaken: true }) as any, gc, 'claim-1'))
+        .rejects.toThrow('NO_OPEN_SLOT');
+    });
+
+    it('should refuse dates the company is not qualified for', async () => {
+      const client = mockClient({ pending: pendingRow({ required_quals: '足場の組立て等作業主任者' }) });
+
+      const result = await acceptReschedule(client as any, gc, 'claim-1');
+
+      expect(result.error?.code).toBe('MISSING_QUALIFICATION');
+      expect(client.query.mock.calls.some(([sql]) => sql.includes('UPDATE job_slots'))).toBe(false);
+    });
+
+    it('should treat proposals for a claim that has since moved as gone', async () => {
+      const client = mockClient({ pending: pendingRow({ claim_slot_id: 'slot-9' }) });
+
+      await expect(acceptReschedule(client as any, gc, 'claim-1')).rejects.toThrow('RESCHEDULE_REQUEST_NOT_FOUND');
+    });
+  });
+
+  describe('declineReschedule', () => {
+    it('should keep the claim in place and tell the proposer', async () => {
+      const client = mockClient({ pending: pendingRow({ proposed_by_party: 'gc' }) });
+
+      const request = await declineReschedule(client as any, sub, 'claim-1', { note: '人員確保できず' });
+
+      expect(request).toMatchObject({ status: 'declined', decline_note: '人員確保できず' });
+      expect(client.query.mock.calls.some(([sql]) => sql.includes('UPDATE job_slots'))).toBe(false);
+
+      const [notice] = outboxEvents(client);
+      expect(notice.name).toBe('claim.reschedule_declined');
+      expect(notice.payload.data.recipient).toBe('gc');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { checkShiftOverlap, findShiftOverlap, isValidTimeZone, shiftsOverlap } from '@/lib/shifts';
+import { jobPostCreateSchema } from '@/lib/validation';
+
+/**
+ * Shift Unit Tests
+ * 勤務時間帯と同一班の重複受注チェックのユニットテスト
+ */
+
+// Asia/Tokyo (UTC+9) windows as stored in job_slots.starts_at / ends_at
+const morning = { slot_id: 'slot-am', starts_at: '2024-11-05T23:00:00Z', ends_at: '2024-11-06T03:00:00Z' }; // 11/6 08:00-12:00
+const afternoon = { slot_id: 'slot-pm', starts_at: '2024-11-06T03:00:00Z', ends_at: '2024-11-06T08:00:00Z' }; // 11/6 12:00-17:00
+const night = { slot_id: 'slot-night', starts_at: '2024-11-05T13:00:00Z', ends_at: '2024-11-05T21:00:00Z' }; // 11/5 22:00-06:00
+const wholeDay = { slot_id: 'slot-day', starts_at: '2024-11-05T15:00:00Z', ends_at: '2024-11-06T15:00:00Z' }; // 11/6 all day
+
+describe('Shifts', () => {
+  describe('shiftsOverlap', () => {
+    it('should let back-to-back shifts through', () => {
+      expect(shiftsOverlap(morning, afternoon)).toBe(false);
+      expect(shiftsOverlap(night, morning)).toBe(false);
+    });
+
+    it('should catch a whole-day slot against any shift of the day', () => {
+      expect(shiftsOverlap(wholeDay, morning)).toBe(true);
+      expect(shiftsOverlap(wholeDay, afternoon)).toBe(true);
+    });
+  });
+
+  describe('findShiftOverlap', () => {
+    it('should report the existing claim the crew is already on', () => {
+      const error = findShiftOverlap('A班', [wholeDay], [{ ...afternoon, claim_id: 'claim-1' }]);
+
+      expect(error).toMatchObject({
+        code: 'SHIFT_OVERLAP',
+        status: 409,
+        details: { crew: 'A班', slot_id: 'slot-day', conflicting_slot_id: 'slot-pm', conflicting_claim_id: 'claim-1' }
+      });
+    });
+
+    it('should catch overlaps within the slots being claimed', () => {
+      const error = findShiftOverlap('A班', [morning, wholeDay], []);
+
+      expect(error?.details).toMatchObject({ slot_id: 'slot-am', conflicting_slot_id: 'slot-day', conflicting_claim_id: null });
+    });
+
+    it('should allow a night shift followed by the next morning', () => {
+      expect(findShiftOverlap('A班', [night, morning], [])).toBeNull();
+    });
+  });
+
+  describe('checkShiftOverlap', () => {
+    function mockClient(existing: any[]) {
+      const query = vi.fn(async (sql: string, _params: any[] = []) => {
+        if (sql.includes('FROM claims c')) {
+          return { rows: existing };
+        }
+        if (sql.includes('FROM job_slots')) {
+          return { rows: [wholeDay] };
+        }
+        return { rows: [] };
+      });
+      return { query };
+    }
+
+    it('should not check claims without a crew', async () => {
+      const client = mockClient([]);
+
+      expect(await checkShiftOverlap(client as any, 'tenant-1', 'company-1', null, ['slot-day'])).toBeNull();
+      expect(client.query).not.toHaveBeenCalled();
+    });
+
+    it('should take the company lock and compare against the crew\'s claims', async () => {
+      const client = mockClient([{ ...morning, claim_id: 'claim-1' }]);
+
+      const error = await checkShiftOverlap(client as any, 'tenant-1', 'company-1', 'A班', ['slot-day']);
+
+      expect(error?.code).toBe('SHIFT_OVERLAP');
+      expect(client.query.mock.calls[0][0]).toContain('pg_advisory_xact_lock');
+
+      const existingQuery = client.query.mock.calls.find(([sql]) => sql.includes('FROM claims c'))!;
+      expect(existingQuery[1]).toEqual(['tenant-1', 'company-1', 'A班', ['slot-day']]);
+    });
+
+    it('should ignore the claim being moved', async () => {
+      const client = mockClient([{ ...morning, claim_id: 'claim-1' }]);
+
+      const error = await checkShiftOverlap(client as any, 'tenant-1', 'company-1', 'A班', ['slot-day'], {
+        excludeClaimId: 'claim-1'
+      });
+
+      expect(error).toBeNull();
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('should accept IANA names only', () => {
+      expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    });
+  });
+
+  describe('shift templates on job posts', () => {
+    const post = {
+      projectId: '550e8400-e29b-41d4-a716-446655440001',
+      trade: 'scaffold',
+      title: '足場組立',
+      unitPrice: 30000,
+      startDate: '2024-11-05',
+      endDate: '2024-11-08',
+      capacity: 2
+    };
+
+    it('should accept overnight shifts', () => {
+      const result = jobPostCreateSchema.safeParse({
+        ...post,
+        shiftTemplates: [
+          { code: 'am', name: '午前', start_time: '08:00', end_time: '12:00' },
+          { code: 'night', name: '夜間', start_time: '22:00', end_time: '06:00' }
+        ]
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject duplicate codes, zero-length shifts and bad times', () => {
+      const shift = { code: 'am', name: '午前', start_time: '08:00', end_time: '12:00' };
+
+      expect(jobPostCreateSchema.safeParse({ ...post, shiftTemplates: [shift, shift] }).success).toBe(false);
+      expect(jobPostCreateSchema.safeParse({
+        ...post,
+        shiftTemplates: [{ ...shift, end_time: '08:00' }]
+      }).success).toBe(false);
+      expect(jobPostCreateSchema.safeParse({
+        ...post,
+        shiftTemplates: [{ ...shift, start_time: '24:00' }]
+      }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  completeSlots,
+  completionSkipReason,
+  flagOverdueSlots,
+  CompletionCandidate
+} from '@/lib/slot-completion';
+
+/**
+ * Slot Completion Unit Tests
+ * 作業完了登録と未完了スロットの確認フラグのユニットテスト
+ */
+
+const actor = { userId: 'gc-user', role: 'gc_admin' };
+
+const candidate = (overrides: Partial<CompletionCandidate> = {}): CompletionCandidate => ({
+  id: 'slot-1',
+  job_post_id: 'job-1',
+  work_date: '2024-11-05',
+  status: 'claimed',
+  claim_id: 'claim-1',
+  claim_status: 'active',
+  company_id: 'company-1',
+  user_id: 'user-1',
+  dw_project_id: 'dw-1',
+  work_date_reached: true,
+  ...overrides
+});
+
+function mockClient(candidates: CompletionCandidate[], flagged: any[] = []) {
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('FOR UPDATE OF js')) {
+      return { rows: candidates };
+    }
+    if (sql.includes("status = 'completed'")) {
+      return {
+        rows: params[3].map((id: string) => ({
+          id,
+          job_post_id: 'job-1',
+          work_date: '2024-11-05',
+          status: 'completed',
+          completed_at: '2024-11-05T09:00:00Z',
+          completed_by: params[0],
+          actual_hours: params[1],
+          completion_notes: params[2]
+        }))
+      };
+    }
+    if (sql.includes('SET review_flagged_at = now()')) {
+      return { rows: flagged };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+
+  return { query };
+}
+
+describe('Slot completion', () => {
+  describe('completionSkipReason', () => {
+    it('should allow active claims whose work date has arrived', () => {
+      expect(completionSkipReason(candidate())).toBeNull();
+    });
+
+    it('should explain why a slot cannot be completed', () => {
+      expect(completionSkipReason(candidate({ status: 'completed' }))).toBe('already_completed');
+      expect(completionSkipReason(candidate({ status: 'available', claim_id: null }))).toBe('not_claimed');
+      expect(completionSkipReason(candidate({ claim_status: 'pending_approval' }))).toBe('pending_approval');
+      expect(completionSkipReason(candidate({ work_date_reached: false }))).toBe('work_date_not_reached');
+    });
+  });
+
+  describe('completeSlots', () => {
+    it('should complete eligible slots and queue slot.completed for DandoriWork', async () => {
+      const { query } = mockClient([
+        candidate(),
+        candidate({ id: 'slot-2', work_date_reached: false })
+      ]);
+
+      const result = await completeSlots({ query } as any, 'tenant-1', { slotIds: ['slot-1', 'slot-2', 'slot-3'] }, {
+        actualHours: 7.5,
+        notes: '内装仕上げ完了',
+        actor
+      });
+
+      expect(result.completed).toEqual([
+        expect.objectContaining({ id: 'slot-1', status: 'completed', actual_hours: 7.5, claim_id: 'claim-1' })
+      ]);
+      expect(result.skipped).toEqual([
+        { slot_id: 'slot-2', reason: 'work_date_not_reached' },
+        { slot_id: 'slot-3', reason: 'not_found' }
+      ]);
+
+      const outbox = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO integration_outbox'));
+      expect(outbox?.[1]?.[1]).toBe('slot.completed');
+      expect(outbox?.[1]?.[3]).toBe('dw');
+      expect(JSON.parse(outbox?.[1]?.[2]).data).toMatchObject({
+        dw_project_id: 'dw-1',
+        slot: { slot_id: 'slot-1', status: 'completed', actual_hours: 7.5, notes: '内装仕上げ完了' },
+        claim: { claim_id: 'claim-1', company_id: 'company-1' }
+      });
+
+      const audit = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO audit_logs'));
+      expect(audit?.[1]?.[3]).toBe('slot_complete');
+    });
+
+    it('should only pick up claimed slots of a job post day', async () => {
+      const { query } = mockClient([]);
+
+      const result = await completeSlots({ query } as any, 'tenant-1', { jobPostId: 'job-1', workDate: '2024-11-05' }, {
+        actualHours: null,
+        notes: null,
+        actor
+      });
+
+      expect(result).toEqual({ completed: [], skipped: [] });
+      expect(query.mock.calls[0][0]).toContain("js.status = 'claimed'");
+      expect(query.mock.calls[0][1]).toEqual(['tenant-1', 'job-1', '2024-11-05']);
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('flagOverdueSlots', () => {
+    it('should flag overdue slots and audit each in its own tenant', async () => {
+      const { query } = mockClient([], [
+        { id: 'slot-1', tenant_id: 'tenant-2', job_post_id: 'job-1', work_date: '2024-11-04', claimed_by_company: 'company-1' }
+      ]);
+
+      expect(await flagOverdueSlots({ query } as any)).toBe(1);
+
+      const audit = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO audit_logs'));
+      expect(audit?.[1]?.slice(0, 4)).toEqual(['tenant-2', null, 'system', 'slot_review_flag']);
+    });
+  });
+});
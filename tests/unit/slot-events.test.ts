@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  notifySlotEvent,
+  formatSseMessage,
+  SLOT_EVENTS_CHANNEL
+} from '@/lib/slot-events';
+import { SlotStreamEvent } from '@/types/api';
+
+/**
+ * Slot Events Unit Tests
+ * スロット状態通知（LISTEN/NOTIFY・SSE）のユニットテスト
+ */
+
+describe('Slot Events', () => {
+  describe('notifySlotEvent', () => {
+    it('should raise pg_notify on the slot events channel', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [] });
+      const client = { query } as any;
+
+      await notifySlotEvent(client, 'tenant-1', 'slot.claimed', {
+        jobPostId: 'job-1',
+        slotId: 'slot-1'
+      });
+
+      expect(query).toHaveBeenCalledTimes(1);
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('pg_notify');
+      expect(params[0]).toBe(SLOT_EVENTS_CHANNEL);
+
+      const event = JSON.parse(params[1]);
+      expect(event).toMatchObject({
+        type: 'slot.claimed',
+        tenant_id: 'tenant-1',
+        job_post_id: 'job-1',
+        slot_id: 'slot-1'
+      });
+      expect(event.occurred_at).toBeTruthy();
+    });
+
+    it('should send a null slot_id for post-level events', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [] });
+
+      await notifySlotEvent({ query } as any, 'tenant-1', 'slot.published', {
+        jobPostId: 'job-1'
+      });
+
+      const event = JSON.parse(query.mock.calls[0][1][1]);
+      expect(event.slot_id).toBeNull();
+    });
+
+    it('should name the holding company on slot.held only', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [] });
+
+      await notifySlotEvent({ query } as any, 'tenant-1', 'slot.held', {
+        jobPostId: 'job-1',
+        slotId: 'slot-1',
+        heldByCompany: 'company-1'
+      });
+      await notifySlotEvent({ query } as any, 'tenant-1', 'slot.claimed', {
+        jobPostId: 'job-1',
+        slotId: 'slot-1'
+      });
+
+      expect(JSON.parse(query.mock.calls[0][1][1]).held_by_company).toBe('company-1');
+      expect(JSON.parse(query.mock.calls[1][1][1])).not.toHaveProperty('held_by_company');
+    });
+  });
+
+  describe('formatSseMessage', () => {
+    it('should emit a named SSE event with a JSON data line', () => {
+      const event: SlotStreamEvent = {
+        type: 'slot.cancelled',
+        tenant_id: 'tenant-1',
+        job_post_id: 'job-1',
+        slot_id: 'slot-1',
+        occurred_at: '2024-11-01T00:00:00.000Z'
+      };
+
+      const message = formatSseMessage(event);
+
+      expect(message).toBe(`event: slot.cancelled\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+  });
+});
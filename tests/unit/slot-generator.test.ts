@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeWorkDates,
+  planSlotChanges,
+  dailyShifts,
+  DEFAULT_WORKING_DAYS,
+  WHOLE_DAY_SHIFT,
+  type ExistingSlot
+} from '@/lib/slot-generator';
+
+/**
+ * Slot Generator Unit Tests
+ * スロット自動生成ロジックのユニットテスト
+ */
+
+describe('Slot Generator', () => {
+  describe('computeWorkDates', () => {
+    it('should skip Sundays with the default working days', () => {
+      // 2024-11-01 is a Friday, 2024-11-03 is a Sunday
+      const dates = computeWorkDates('2024-11-01', '2024-11-05', DEFAULT_WORKING_DAYS);
+
+      expect(dates).toEqual(['2024-11-01', '2024-11-02', '2024-11-04', '2024-11-05']);
+    });
+
+    it('should honour a custom working-day pattern', () => {
+      // Weekdays only
+      const dates = computeWorkDates('2024-11-01', '2024-11-05', [1, 2, 3, 4, 5]);
+
+      expect(dates).toEqual(['2024-11-01', '2024-11-04', '2024-11-05']);
+    });
+
+    it('should skip tenant holidays', () => {
+      const dates = computeWorkDates('2024-11-01', '2024-11-05', DEFAULT_WORKING_DAYS, ['2024-11-04']);
+
+      expect(dates).toEqual(['2024-11-01', '2024-11-02', '2024-11-05']);
+    });
+
+    it('should return a single date when start equals end', () => {
+      expect(computeWorkDates('2024-11-05', '2024-11-05')).toEqual(['2024-11-05']);
+    });
+
+    it('should cross month boundaries', () => {
+      const dates = computeWorkDates('2024-11-29', '2024-12-02', [1, 2, 3, 4, 5, 6, 7]);
+
+      expect(dates).toEqual(['2024-11-29', '2024-11-30', '2024-12-01', '2024-12-02']);
+    });
+  });
+
+  describe('planSlotChanges', () => {
+    const slot = (id: string, work_date: string, slot_no: number, status: string = 'available'): ExistingSlot => ({
+      id,
+      work_date,
+      slot_no,
+      status
+    });
+
+    it('should create every slot for a new post', () => {
+      const plan = planSlotChanges([], ['2024-11-05', '2024-11-06'], 2);
+
+      expect(plan.toCreate).toEqual([
+        { work_date: '2024-11-05', shift_code: null, slot_no: 1 },
+        { work_date: '2024-11-05', shift_code: null, slot_no: 2 },
+        { work_date: '2024-11-06', shift_code: null, slot_no: 1 },
+        { work_date: '2024-11-06', shift_code: null, slot_no: 2 }
+      ]);
+      expect(plan.toDelete).toHaveLength(0);
+      expect(plan.blocked).toHaveLength(0);
+    });
+
+    it('should only add missing slots when capacity grows', () => {
+      const existing = [slot('a', '2024-11-05', 1, 'claimed')];
+      const plan = planSlotChanges(existing, ['2024-11-05'], 2);
+
+      expect(plan.toCreate).toEqual([{ work_date: '2024-11-05', shift_code: null, slot_no: 2 }]);
+      expect(plan.toDelete).toHaveLength(0);
+    });
+
+    it('should remove available slots outside the new range', () => {
+      const existing = [
+        slot('a', '2024-11-05', 1),
+        slot('b', '2024-11-06', 1)
+      ];
+      const plan = planSlotChanges(existing, ['2024-11-05'], 1);
+
+      expect(plan.toCreate).toHaveLength(0);
+      expect(plan.toDelete.map((s) => s.id)).toEqual(['b']);
+      expect(plan.blocked).toHaveLength(0);
+    });
+
+    it('should refuse to remove claimed slots and report them', () => {
+      const existing = [
+        slot('a', '2024-11-05', 1),
+        slot('b', '2024-11-05', 2, 'claimed'),
+        slot('c', '2024-11-06', 1, 'completed')
+      ];
+      const plan = planSlotChanges(existing, ['2024-11-05'], 1);
+
+      expect(plan.toDelete).toHaveLength(0);
+      expect(plan.blocked.map((s) => s.id)).toEqual(['b', 'c']);
+    });
+
+    it('should withdraw released slots with claim history instead of deleting them', () => {
+      const existing = [
+        slot('a', '2024-11-05', 1),
+        { ...slot('b', '2024-11-06', 1), has_claims: true },
+        slot('c', '2024-11-06', 2)
+      ];
+      const plan = planSlotChanges(existing, ['2024-11-05'], 1);
+
+      expect(plan.toDelete.map((s) => s.id)).toEqual(['c']);
+      expect(plan.toWithdraw.map((s) => s.id)).toEqual(['b']);
+      expect(plan.blocked).toHaveLength(0);
+    });
+
+    describe('with shift templates', () => {
+      const shifts = dailyShifts([
+        { code: 'am', name: '午前', start_time: '08:00', end_time: '12:00' },
+        { code: 'night', name: '夜間', start_time: '22:00', end_time: '06:00' }
+      ]);
+
+      const shiftSlot = (
+        id: string,
+        shift_code: string,
+        start_time: string,
+        end_time: string,
+        status: string = 'available'
+      ): ExistingSlot => ({ id, work_date: '2024-11-05', shift_code, start_time, end_time, slot_no: 1, status });
+
+      it('should create capacity slots in every shift of every work date', () => {
+        const plan = planSlotChanges([], ['2024-11-05'], 2, shifts);
+
+        expect(plan.toCreate).toEqual([
+          { work_date: '2024-11-05', shift_code: 'am', slot_no: 1 },
+          { work_date: '2024-11-05', shift_code: 'am', slot_no: 2 },
+          { work_date: '2024-11-05', shift_code: 'night', slot_no: 1 },
+          { work_date: '2024-11-05', shift_code: 'night', slot_no: 2 }
+        ]);
+      });
+
+      it('should retime available slots and block claimed ones when shift times change', () => {
+        const existing = [
+          shiftSlot('a', 'am', '08:00', '12:00'),
+          shiftSlot('b', 'night', '21:00', '05:00'),
+          { ...shiftSlot('c', 'night', '21:00', '05:00', 'claimed'), slot_no: 2 }
+        ];
+        const plan = planSlotChanges(existing, ['2024-11-05'], 2, shifts);
+
+        expect(plan.toRetime.map((s) => s.id)).toEqual(['b']);
+        expect(plan.blocked.map((s) => s.id)).toEqual(['c']);
+        expect(plan.toCreate).toEqual([{ work_date: '2024-11-05', shift_code: 'am', slot_no: 2 }]);
+      });
+
+      it('should remove whole-day slots once the post switches to shifts', () => {
+        const existing = [slot('a', '2024-11-05', 1)];
+        const plan = planSlotChanges(existing, ['2024-11-05'], 1, shifts);
+
+        expect(plan.toDelete.map((s) => s.id)).toEqual(['a']);
+        expect(plan.toCreate.map((s) => s.shift_code)).toEqual(['am', 'night']);
+      });
+
+      it('should fall back to one whole-day shift without templates', () => {
+        expect(dailyShifts([])).toEqual([WHOLE_DAY_SHIFT]);
+      });
+    });
+  });
+});
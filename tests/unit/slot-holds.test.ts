@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  HOLD_TTL_SECONDS,
+  HOLD_COOLDOWN_SECONDS,
+  countActiveHolds,
+  notHeldByOthers,
+  notInHoldCooldown,
+  holdExpiresInSeconds,
+  releaseExpiredHolds
+} from '@/lib/slot-holds';
+import { SLOT_EVENTS_CHANNEL } from '@/lib/slot-events';
+
+/**
+ * Slot Holds Unit Tests
+ * スロット一時確保のユニットテスト
+ */
+
+describe('Slot Holds', () => {
+  it('should hold slots for three minutes', () => {
+    expect(HOLD_TTL_SECONDS).toBe(180);
+  });
+
+  describe('notHeldByOthers', () => {
+    it('should let lapsed holds and the holder through', () => {
+      expect(notHeldByOthers('$1')).toBe(
+        '(held_until IS NULL OR held_until <= now() OR held_by_company = $1)'
+      );
+    });
+
+    it('should prefix columns with the table alias', () => {
+      expect(notHeldByOthers('$2::uuid', 'js')).toBe(
+        '(js.held_until IS NULL OR js.held_until <= now() OR js.held_by_company = $2::uuid)'
+      );
+    });
+  });
+
+  describe('notInHoldCooldown', () => {
+    it('should only stop the last holder until its cooldown ends', () => {
+      expect(HOLD_COOLDOWN_SECONDS).toBe(HOLD_TTL_SECONDS);
+      expect(notInHoldCooldown('$1', 'js')).toBe(
+        '(js.last_held_by_company IS DISTINCT FROM $1 OR js.hold_cooldown_until IS NULL OR js.hold_cooldown_until <= now())'
+      );
+    });
+  });
+
+  describe('countActiveHolds', () => {
+    it('should take the company lock and count live holds on other slots without waitlist offers', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ count: 2 }] });
+
+      const count = await countActiveHolds({ query } as any, 'tenant-1', 'company-1', 'slot-1');
+
+      expect(count).toBe(2);
+      expect(query.mock.calls[0][0]).toContain('pg_advisory_xact_lock');
+      expect(query.mock.calls[1][0]).toContain('held_until > now()');
+      expect(query.mock.calls[1][0]).toContain("w.status = 'offered'");
+      expect(query.mock.calls[1][1]).toEqual(['tenant-1', 'company-1', 'slot-1']);
+    });
+  });
+
+  describe('holdExpiresInSeconds', () => {
+    const now = new Date('2024-11-05T09:00:00.000Z');
+
+    it('should round the remaining time up to whole seconds', () => {
+      expect(holdExpiresInSeconds('2024-11-05T09:03:00.000Z', now)).toBe(180);
+      expect(holdExpiresInSeconds('2024-11-05T09:00:00.200Z', now)).toBe(1);
+    });
+
+    it('should never go negative', () => {
+      expect(holdExpiresInSeconds('2024-11-05T08:59:00.000Z', now)).toBe(0);
+    });
+  });
+
+  describe('releaseExpiredHolds', () => {
+    it('should clear expired holds and notify each tenant stream', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 'slot-1', tenant_id: 'tenant-1', job_post_id: 'job-1' },
+            { id: 'slot-2', tenant_id: 'tenant-2', job_post_id: 'job-2' }
+          ]
+        })
+        .mockResolvedValue({ rows: [] });
+      const client = { query } as any;
+
+      const released = await releaseExpiredHolds(client);
+
+      expect(released).toBe(2);
+      expect(query.mock.calls[0][0]).toContain('held_until <= now()');
+
+      const events = query.mock.calls.slice(1).map(([sql, params]) => {
+        expect(sql).toContain('pg_notify');
+        expect(params[0]).toBe(SLOT_EVENTS_CHANNEL);
+        return JSON.parse(params[1]);
+      });
+      expect(events).toMatchObject([
+        { type: 'slot.hold_released', tenant_id: 'tenant-1', slot_id: 'slot-1' },
+        { type: 'slot.hold_released', tenant_id: 'tenant-2', slot_id: 'slot-2' }
+      ]);
+    });
+
+    it('should do nothing when no hold has expired', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [] });
+
+      expect(await releaseExpiredHolds({ query } as any)).toBe(0);
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { parseSseBuffer } from '@/lib/slot-stream';
+
+/**
+ * Slot Stream Client Unit Tests
+ * スロット状態ストリーム（ブラウザ側）の SSE 解析のユニットテスト
+ */
+
+describe('Slot Stream', () => {
+  describe('parseSseBuffer', () => {
+    it('should parse complete messages and keep the unfinished tail', () => {
+      const result = parseSseBuffer(
+        'retry: 3000\n\n: ping\n\nevent: slot.claimed\ndata: {"slot_id":"slot-1"}\n\nevent: slot.held\ndata: {"slot'
+      );
+
+      expect(result.retryMs).toBe(3000);
+      expect(result.messages).toEqual([{ event: 'slot.claimed', data: '{"slot_id":"slot-1"}' }]);
+      expect(result.rest).toBe('event: slot.held\ndata: {"slot');
+    });
+
+    it('should join multi-line data and accept CRLF line endings', () => {
+      const result = parseSseBuffer('event: slot.released\r\ndata: {"a":1,\r\ndata: "b":2}\r\n\r\n');
+
+      expect(result.messages).toEqual([{ event: 'slot.released', data: '{"a":1,\n"b":2}' }]);
+      expect(result.rest).toBe('');
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findPendingWaitlistSlots,
+  promoteWaitlist,
+  WAITLIST_OFFER_TTL_SECONDS,
+  WAITLIST_RECHECK_SECONDS
+} from '@/lib/waitlist';
+import { waitlistJoinSchema } from '@/lib/validation';
+
+/**
+ * Waitlist Unit Tests
+ * キャンセル待ち繰り上げのユニットテスト
+ */
+
+const actor = { userId: 'gc-user', role: 'gc_admin' };
+
+const companies: Record<string, any> = {
+  'company-1': { id: 'company-1', tenant_id: 'tenant-1', is_gc: false, is_active: false, trades: '内装' },
+  'company-2': { id: 'company-2', tenant_id: 'tenant-1', is_gc: false, is_active: true, trades: '内装' },
+  'company-3': { id: 'company-3', tenant_id: 'tenant-1', is_gc: false, is_active: true, trades: '内装' }
+};
+
+const memberships: Record<string, any> = {
+  'user-1': { role: 'sub_admin', company_id: 'company-1' },
+  'user-2': { role: 'sub_member', company_id: 'company-2' },
+  'user-3': { role: 'sub_admin', company_id: 'company-3' }
+};
+
+const defaultQueue = [
+  { id: 'entry-1', company_id: 'company-1', user_id: 'user-1', slot_id: null, crew: null },
+  { id: 'entry-2', company_id: 'company-2', user_id: 'user-2', slot_id: 'slot-1', crew: null }
+];
+
+function mockClient(options: { mode?: string; heldUntil?: string | null; queue?: any[] } = {}) {
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('FROM job_slots') && sql.includes('FOR UPDATE')) {
+      return {
+        rows: [{
+          id: 'slot-1',
+          job_post_id: 'job-1',
+          work_date: '2024-11-05',
+          status: 'available',
+          held_until: options.heldUntil ?? null
+        }]
+      };
+    }
+    if (sql.includes('FROM waitlist_entries')) {
+      return { rows: options.queue || defaultQueue };
+    }
+    // company-3's A班 is already booked over the slot's shift
+    if (sql.includes('c.crew = $3')) {
+      return {
+        rows: params[2] === 'A班'
+          ? [{ claim_id: 'claim-9', slot_id: 'slot-9', starts_at: '2024-11-04T23:00:00Z', ends_at: '2024-11-05T08:00:00Z' }]
+          : []
+      };
+    }
+    if (sql.includes('AS slot_id, starts_at, ends_at')) {
+      return { rows: [{ slot_id: 'slot-1', starts_at: '2024-11-04T23:00:00Z', ends_at: '2024-11-05T08:00:00Z' }] };
+    }
+    if (sql.includes('FROM tenants')) {
+      return { rows: [{ waitlist_promotion: options.mode || 'offer' }] };
+    }
+    if (sql.includes('FROM memberships')) {
+      return { rows: [memberships[params[1]]] };
+    }
+    if (sql.includes('FROM companies')) {
+      return { rows: [companies[params[0]]] };
+    }
+    if (sql.includes('JOIN job_posts') && sql.includes('required_quals')) {
+      return { rows: [{ trade: '内装', required_quals: null, is_published: true, work_date: '2024-11-05' }] };
+    }
+    if (sql.includes('UPDATE job_slots') && sql.includes("status = 'claimed'")) {
+      return {
+        rows: [{
+          id: 'slot-1',
+          job_post_id: 'job-1',
+          work_date: '2024-11-05',
+          status: 'claimed',
+          claimed_at: '2024-11-01T00:00:00Z'
+        }]
+      };
+    }
+    if (sql.includes('UPDATE job_slots')) {
+      return { rows: [{ held_until: '2024-11-01T00:15:00.000Z' }] };
+    }
+    if (sql.includes('INSERT INTO claims')) {
+      return { rows: [{ id: 'claim-1', company_id: params[3], user_id: params[4], claimed_at: params[7] }] };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+
+  return { query };
+}
+
+function auditEntries(query: ReturnType<typeof vi.fn>) {
+  return query.mock.calls
+    .filter(([sql]) => sql.includes('INSERT INTO audit_logs'))
+    .map(([, params]) => ({ action: params[3], target_id: params[5], payload: JSON.parse(params[6]) }));
+}
+
+describe('Waitlist', () => {
+  it('should hold offers for fifteen minutes', () => {
+    expect(WAITLIST_OFFER_TTL_SECONDS).toBe(900);
+  });
+
+  describe('waitlistJoinSchema', () => {
+    it('should default to waiting for the slot itself', () => {
+      const result = waitlistJoinSchema.parse({
+        slotId: '550e8400-e29b-41d4-a716-446655440601',
+        companyId: '550e8400-e29b-41d4-a716-446655440302'
+      });
+
+      expect(result.scope).toBe('slot');
+    });
+  });
+
+  describe('promoteWaitlist', () => {
+    it('should skip ineligible companies and offer the slot to the next in line', async () => {
+      const { query } = mockClient();
+
+      const promotion = await promoteWaitlist({ query } as any, 'tenant-1', 'slot-1', actor);
+
+      expect(promotion).toEqual({
+        entry_id: 'entry-2',
+        company_id: 'company-2',
+        slot_id: 'slot-1',
+        mode: 'offer',
+        position: 2,
+        offer_expires_at: '2024-11-01T00:15:00.000Z',
+        claim_id: null
+      });
+
+      const holdCall = query.mock.calls.find(([sql]) => sql.includes('make_interval'));
+      expect(holdCall?.[1]).toEqual(['company-2', 'user-2', WAITLIST_OFFER_TTL_SECONDS, 'slot-1', 'tenant-1']);
+
+      expect(auditEntries(query)).toEqual([
+        {
+          action: 'waitlist_skip',
+          target_id: 'entry-1',
+          payload: { slot_id: 'slot-1', company_id: 'company-1', position: 1, reason: 'COMPANY_NOT_ELIGIBLE' }
+        },
+        {
+          action: 'waitlist_offer',
+          target_id: 'entry-2',
+          payload: expect.objectContaining({ position: 2, queue: ['entry-1', 'entry-2'] })
+        }
+      ]);
+
+      const outbox = query.mock.calls.find(([sql]) => sql.includes('integration_outbox'));
+      expect(outbox?.[1]?.[1]).toBe('waitlist.offered');
+      expect(outbox?.[1]?.[3]).toBe('notification');
+    });
+
+    it('should claim on the company\'s behalf in auto_claim tenants', async () => {
+      const { query } = mockClient({ mode: 'auto_claim' });
+
+      const promotion = await promoteWaitlist({ query } as any, 'tenant-1', 'slot-1', actor);
+
+      expect(promotion).toMatchObject({ entry_id: 'entry-2', mode: 'auto_claim', claim_id: 'claim-1' });
+
+      const claimInsert = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO claims'));
+      expect(claimInsert?.[1]?.[5]).toBe('waitlist:entry-2:slot-1');
+
+      expect(auditEntries(query).map((entry) => entry.action)).toEqual([
+        'waitlist_skip',
+        'claim',
+        'waitlist_auto_claim'
+      ]);
+    });
+
+    it('should keep a company whose crew is busy waiting and book the next company\'s crew', async () => {
+      const { query } = mockClient({
+        mode: 'auto_claim',
+        queue: [
+          { id: 'entry-3', company_id: 'company-3', user_id: 'user-3', slot_id: 'slot-1', crew: 'A班' },
+          { id: 'entry-2', company_id: 'company-2', user_id: 'user-2', slot_id: 'slot-1', crew: 'B班' }
+        ]
+      });
+
+      const promotion = await promoteWaitlist({ query } as any, 'tenant-1', 'slot-1', actor);
+
+      expect(promotion).toMatchObject({ entry_id: 'entry-2', mode: 'auto_claim', claim_id: 'claim-1' });
+
+      // The busy company is passed over, not skipped
+      const skipped = query.mock.calls.filter(([sql]) => sql.includes("SET status = 'skipped'"));
+      expect(skipped).toHaveLength(0);
+
+      const checked = query.mock.calls.find(([sql]) => sql.includes('last_checked_at = now()'));
+      expect(checked?.[1]).toEqual(['entry-3', 'SHIFT_OVERLAP']);
+
+      const [pass] = auditEntries(query);
+      expect(pass).toEqual({
+        action: 'waitlist_pass',
+        target_id: 'entry-3',
+        payload: { slot_id: 'slot-1', company_id: 'company-3', position: 1, reason: 'SHIFT_OVERLAP' }
+      });
+
+      const claimInsert = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO claims'));
+      expect(claimInsert?.[1]).toContain('B班');
+    });
+
+    it('should leave a slot that is still held alone', async () => {
+      const { query } = mockClient({ heldUntil: new Date(Date.now() + 60_000).toISOString() });
+
+      expect(await promoteWaitlist({ query } as any, 'tenant-1', 'slot-1', actor)).toBeNull();
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findPendingWaitlistSlots', () => {
+    it('should leave entries passed over recently out of the sweep', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [{ id: 'slot-1', tenant_id: 'tenant-1' }] });
+
+      expect(await findPendingWaitlistSlots({ query } as any)).toEqual([{ id: 'slot-1', tenant_id: 'tenant-1' }]);
+      expect(query.mock.calls[0][0]).toContain('w.last_checked_at IS NULL OR w.last_checked_at <= now()');
+      expect(query.mock.calls[0][1]).toEqual([WAITLIST_RECHECK_SECONDS]);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from 'vitest';
+import { cancelForWeather } from '@/lib/weather-cancellation';
+
+/**
+ * Weather Cancellation Unit Tests
+ * 雨天による一括中止・順延のユニットテスト
+ */
+
+const gc = {
+  tenantId: 'tenant-1',
+  userId: 'gc-user',
+  role: 'gc_admin' as const,
+  companyId: 'gc-company'
+};
+
+const candidate = (
+  id: string,
+  companyId: string,
+  workDate: string = '2024-11-05',
+  requiredQuals: string | null = null
+) => ({
+  id,
+  job_post_id: 'job-1',
+  work_date: workDate,
+  claim_id: `claim-${id}`,
+  claim_status: 'active',
+  company_id: companyId,
+  user_id: null,
+  crew: null,
+  required_quals: requiredQuals,
+  dw_project_id: 'dw-1'
+});
+
+function mockClient(options: {
+  project?: boolean;
+  candidates?: ReturnType<typeof candidate>[];
+  openSlots?: Record<string, string | null>; // company -> next open slot
+} = {}) {
+  const rows = options.candidates || [];
+
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('FROM projects WHERE id')) {
+      return { rows: options.project === false ? [] : [{ id: params[0] }] };
+    }
+    if (sql.includes('SKIP LOCKED')) {
+      const slotId = options.openSlots?.[params[3]];
+      return { rows: slotId ? [{ id: slotId }] : [] };
+    }
+    if (sql.includes('SELECT work_date::text AS work_date FROM job_slots')) {
+      return { rows: [{ work_date: '2024-11-12' }] };
+    }
+    if (sql.includes('cancellation_policy')) {
+      const slot = rows.find((row) => row.id === params[0])!;
+      return {
+        rows: [{
+          id: slot.id,
+          job_post_id: slot.job_post_id,
+          status: 'claimed',
+          claimed_at: '2024-11-01T00:00:00Z',
+          work_date: slot.work_date,
+          claim_id: slot.claim_id,
+          claim_company_id: slot.company_id,
+          claim_status: 'active',
+          project_tenant_id: 'tenant-1',
+          currency: 'JPY',
+          hours_until_work: 10,
+          cancellation_policy: null
+        }]
+      };
+    }
+    if (sql.includes('JOIN claims c ON js.id = c.job_slot_id')) {
+      return { rows };
+    }
+    if (sql.includes('UPDATE job_slots') && sql.includes('AND job_post_id = $5')) {
+      return { rows: [{ id: params[2], work_date: '2024-11-12' }] };
+    }
+    if (sql.includes('UPDATE job_slots') && sql.includes('RETURNING')) {
+      return { rows: [{ id: params[1], status: 'cancelled', canceled_at: '2024-11-05T06:00:00Z', cancel_reason: params[0] }] };
+    }
+    if (sql.includes('UPDATE claims') && sql.includes('RETURNING')) {
+      return { rows: [{ id: params[2], status: 'cancelled', cancelled_at: '2024-11-05T06:00:00Z', cancel_reason: params[1] }] };
+    }
+    if (sql.includes('INSERT INTO claim_reschedules')) {
+      return { rows: [{ id: `reschedule-${params[1]}`, created_at: '2024-11-05T06:00:00Z' }] };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+
+  return { query };
+}
+
+const outbox = (client: ReturnType<typeof mockClient>) =>
+  client.query.mock.calls
+    .filter(([sql]) => sql.includes('INSERT INTO integration_outbox'))
+    .map(([, params]) => ({ name: params![1], target: params![3], payload: JSON.parse(params![2]) }));
+
+const audits = (client: ReturnType<typeof mockClient>) =>
+  client.query.mock.calls
+    .filter(([sql]) => sql.includes('INSERT INTO audit_logs'))
+    .map(([, params]) => ({ action: params![3], targetId: params![5], payload: JSON.parse(params![6]) }));
+
+const range = {
+  dateFrom: '2024-11-05',
+  dateTo: '2024-11-05',
+  jobPostId: null,
+  note: '雨天のため中止'
+};
+
+describe('Weather Cancellation', () => {
+  it('should cancel every claimed slot with per-slot audits, claim events and one notice per company', async () => {
+    const client = mockClient({
+      candidates: [candidate('slot-1', 'company-a'), candidate('slot-2', 'company-a'), candidate('slot-3', 'company-b')]
+    });
+
+    const result = await cancelForWeather(client as any, gc, 'project-1', { ...range, action: 'cancel' });
+
+    expect(result.cancelled.map((slot) => slot.slot_id)).toEqual(['slot-1', 'slot-2', 'slot-3']);
+    expect(result.postponed).toEqual([]);
+    expect(result.notified_company_ids).toEqual(['company-a', 'company-b']);
+
+    const events = outbox(client);
+    expect(events.filter((event) => event.name === 'claim.cancelled')).toHaveLength(3);
+
+    const notices = events.filter((event) => event.name === 'weather.cancelled');
+    expect(notices).toHaveLength(2);
+    expect(notices[0].target).toBe('notification');
+    expect(notices[0].payload.data.slots).toHaveLength(2);
+    expect(notices[0].payload.data.note).toBe('雨天のため中止');
+
+    const logs = audits(client);
+    const perSlot = logs.filter((log) => log.action === 'cancel');
+    expect(perSlot).toHaveLength(3);
+    expect(perSlot.every((log) => log.payload.weather_cancellation_id === result.id)).toBe(true);
+    expect(perSlot[0].payload.reason).toBe('weather');
+
+    const summary = logs.filter((log) => log.action === 'weather_cancel');
+    expect(summary).toHaveLength(1);
+    expect(summary[0].targetId).toBe('project-1');
+    expect(summary[0].payload.cancelled_slot_ids).toEqual(['slot-1', 'slot-2', 'slot-3']);
+  });
+
+  it('should postpone claims to the next open slot and cancel those with nowhere to go', async () => {
+    const client = mockClient({
+      candidates: [candidate('slot-1', 'company-a'), candidate('slot-2', 'company-b')],
+      openSlots: { 'company-a': 'slot-9', 'company-b': null }
+    });
+
+    const result = await cancelForWeather(client as any, gc, 'project-1', { ...range, action: 'postpone' });
+
+    expect(result.postponed).toHaveLength(1);
+    expect(result.postponed[0]).toMatchObject({
+      claim_id: 'claim-slot-1',
+      from_slot_id: 'slot-1',
+      to_slot_id: 'slot-9',
+      to_work_date: '2024-11-12',
+      reason: 'weather'
+    });
+    expect(result.cancelled.map((slot) => slot.slot_id)).toEqual(['slot-2']);
+    expect(result.cancelled[0].postpone_failure?.code).toBe('NO_OPEN_SLOT');
+
+    // The claim keeps its ID and points at the new slot
+    const claimMove = client.query.mock.calls.find(([sql]) => sql.includes('SET\n      job_slot_id = $1'));
+    expect(claimMove![1]).toEqual(['slot-9', 'claim-slot-1', 'tenant-1']);
+
+    const events = outbox(client);
+    const rescheduled = events.find((event) => event.name === 'claim.rescheduled')!;
+    expect(rescheduled.target).toBe('dw');
+    expect(rescheduled.payload.data.to).toEqual({ slot_id: 'slot-9', work_date: '2024-11-12' });
+    expect(events.filter((event) => event.name === 'claim.cancelled')).toHaveLength(1);
+
+    const notice = events.find((event) => event.name === 'weather.cancelled' && event.payload.data.company_id === 'company-a')!;
+    expect(notice.payload.data.slots[0]).toMatchObject({ outcome: 'postponed', new_work_date: '2024-11-12' });
+
+    // Open slots are searched after the called-off range only
+    const search = client.query.mock.calls.find(([sql]) => sql.includes('SKIP LOCKED'));
+    expect(search![1]![2]).toBe('2024-11-05');
+
+    expect(audits(client).map((log) => log.action)).toEqual(['claim_reschedule', 'cancel', 'weather_cancel']);
+  });
+
+  it('should cancel instead of moving a claim onto a date the company is not qualified for', async () => {
+    const client = mockClient({
+      candidates: [candidate('slot-1', 'company-a', '2024-11-05', '足場の組立て等作業主任者')],
+      openSlots: { 'company-a': 'slot-9' }
+    });
+
+    const result = await cancelForWeather(client as any, gc, 'project-1', { ...range, action: 'postpone' });
+
+    expect(result.postponed).toEqual([]);
+    expect(result.cancelled).toHaveLength(1);
+    expect(result.cancelled[0].postpone_failure?.code).toBe('MISSING_QUALIFICATION');
+    expect(client.query.mock.calls.some(([sql]) => sql.includes('INSERT INTO claim_reschedules'))).toBe(false);
+
+    const notice = outbox(client).find((event) => event.name === 'weather.cancelled')!;
+    expect(notice.payload.data.slots[0]).toMatchObject({
+      outcome: 'cancelled',
+      postpone_failure: { code: 'MISSING_QUALIFICATION' }
+    });
+  });
+
+  it('should do nothing when no slots are claimed', async () => {
+    const client = mockClient({ candidates: [] });
+
+    const result = await cancelForWeather(client as any, gc, 'project-1', { ...range, action: 'cancel' });
+
+    expect(result.cancelled).toEqual([]);
+    expect(outbox(client)).toEqual([]);
+    expect(audits(client)).toEqual([]);
+  });
+
+  it('should reject unknown projects', async () => {
+    const client = mockClient({ project: false });
+
+    await expect(
+      cancelForWeather(client as any, gc, 'project-x', { ...range, action: 'cancel' })
+    ).rejects.toThrow('PROJECT_NOT_FOUND');
+  });
+});